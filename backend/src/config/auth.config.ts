@@ -0,0 +1,107 @@
+import path from 'path';
+import { JwtAlgorithm, RegistrationMode, TokenScope } from '../types/auth.types';
+
+const JWT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'EdDSA'];
+
+const REGISTRATION_MODES: RegistrationMode[] = ['open', 'invite_only', 'closed'];
+
+export const TOKEN_SCOPES: TokenScope[] = ['profile:read', 'profile:write', 'sessions:read', 'sessions:write'];
+
+const parseJwtAlgorithm = (value: string | undefined): JwtAlgorithm => {
+  const algorithm = (value || 'RS256') as JwtAlgorithm;
+  if (!JWT_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`JWT_ALGORITHM must be one of ${JWT_ALGORITHMS.join(', ')}`);
+  }
+  return algorithm;
+};
+
+const parseRegistrationMode = (value: string | undefined): RegistrationMode => {
+  const mode = (value || 'open') as RegistrationMode;
+  if (!REGISTRATION_MODES.includes(mode)) {
+    throw new Error(`REGISTRATION_MODE must be one of ${REGISTRATION_MODES.join(', ')}`);
+  }
+  return mode;
+};
+
+/**
+ * Authentication settings
+ * Values are read from the environment at startup; tests may override individual fields
+ */
+export const authConfig = {
+  // Access tokens are signed with asymmetric keys managed by the server; other services can
+  // verify them with the public keys published at /.well-known/jwks.json
+  jwtAlgorithm: parseJwtAlgorithm(process.env.JWT_ALGORITHM),
+  jwtIssuer: process.env.JWT_ISSUER || 'qa-testing-app',
+
+  // A new signing key takes over this often; the previous one is still accepted for the grace period
+  jwtKeyRotationMs: (Number(process.env.JWT_KEY_ROTATION_DAYS) || 30) * 24 * 60 * 60 * 1000,
+  jwtKeyGraceMs: (Number(process.env.JWT_KEY_GRACE_HOURS) || 24) * 60 * 60 * 1000,
+  // The next key is published this long before it takes over, so verifiers caching the key set already have it
+  jwtKeyPrepublishMs: (Number(process.env.JWT_KEY_PREPUBLISH_HOURS) || 24) * 60 * 60 * 1000,
+
+  // Access tokens are short-lived; clients use their refresh token to get a new one
+  accessTokenTtlSeconds: Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60,
+
+  // Admins acting as a user get a single access token, tied to their own session, that cannot be refreshed
+  impersonationTtlSeconds: (Number(process.env.IMPERSONATION_TTL_MINUTES) || 15) * 60,
+
+  // Refresh tokens are opaque, single-use and rotated on every refresh
+  refreshTokenTtlMs: (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000,
+
+  passwordResetTtlMs: (Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60) * 60 * 1000,
+
+  emailVerificationTtlMs: (Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24) * 60 * 60 * 1000,
+
+  // Passwordless sign-in links are single-use and short-lived
+  magicLinkTtlMs: (Number(process.env.MAGIC_LINK_TTL_MINUTES) || 15) * 60 * 1000,
+
+  // When enabled, unverified users cannot log in or use authenticated routes
+  requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+
+  // Issuer shown in authenticator apps
+  totpIssuer: process.env.TOTP_ISSUER || 'QA Testing App',
+
+  // Users with 2FA get a short-lived challenge after the password step
+  mfaChallengeTtlMs: (Number(process.env.MFA_CHALLENGE_TTL_MINUTES) || 5) * 60 * 1000,
+  mfaMaxAttempts: 5,
+
+  recoveryCodeCount: 10,
+
+  // Passkeys are bound to the relying party id (the site's domain) and the origins allowed to use them
+  webauthnRpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+  webauthnRpName: process.env.WEBAUTHN_RP_NAME || 'QA Testing App',
+  webauthnOrigins: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()),
+  webauthnChallengeTtlMs: 5 * 60 * 1000,
+
+  // Failed logins are counted per account and per client IP; a count is forgotten after a quiet window
+  loginAttemptWindowMs: (Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES) || 15) * 60 * 1000,
+
+  // From this many failures on, each further failure doubles the wait before the next attempt
+  loginBackoffAfterFailures: 3,
+  loginBackoffBaseMs: 1000,
+  loginBackoffMaxMs: 60 * 1000,
+
+  // Reaching these counts locks the account, or blocks the IP, until the lockout expires
+  loginMaxAccountFailures: Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 5,
+  loginMaxIpFailures: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+  loginLockoutMs: (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000,
+
+  // Personal access tokens carry a prefix so they are easy to tell apart from access tokens, and to spot in leaks
+  personalAccessTokenPrefix: 'pat_',
+  personalAccessTokenDefaultTtlDays: 30,
+  personalAccessTokenMaxTtlDays: Number(process.env.PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS) || 365,
+
+  // New passwords are checked against this corpus of breached and common passwords, built with
+  // `npm run build:password-corpus`; the bundled one only covers the most common passwords
+  breachedPasswordCorpusPath:
+    process.env.BREACHED_PASSWORD_CORPUS_PATH || path.join(__dirname, '..', '..', 'data', 'breached-passwords.bin'),
+
+  // Whether anyone can sign up (including through social login), only people with an invitation code, or nobody
+  registrationMode: parseRegistrationMode(process.env.REGISTRATION_MODE),
+  invitationDefaultTtlDays: 7,
+  invitationMaxTtlDays: Number(process.env.INVITATION_MAX_TTL_DAYS) || 90,
+
+  // Closed accounts can be restored by logging in until the grace period is over, then they are purged
+  accountDeletionGraceMs: (Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30) * 24 * 60 * 60 * 1000,
+  accountPurgeIntervalMs: (Number(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES) || 60) * 60 * 1000,
+};
@@ -0,0 +1,39 @@
+type SameSite = 'strict' | 'lax' | 'none';
+
+const SAME_SITE_VALUES: SameSite[] = ['strict', 'lax', 'none'];
+
+const parseSameSite = (value: string | undefined): SameSite => {
+  const sameSite = (value || 'strict').toLowerCase() as SameSite;
+  if (!SAME_SITE_VALUES.includes(sameSite)) {
+    throw new Error(`COOKIE_SAME_SITE must be one of ${SAME_SITE_VALUES.join(', ')}`);
+  }
+  return sameSite;
+};
+
+/**
+ * Cookie session settings
+ * Browser clients can ask for their tokens in HttpOnly cookies, out of reach of page scripts,
+ * instead of in the response body. Bearer tokens keep working for every other client.
+ */
+export const cookieConfig = {
+  // Sent by clients on sign-in, refresh and logout requests to use cookie mode
+  authModeHeader: 'x-auth-mode',
+
+  accessTokenCookie: 'access_token',
+  refreshTokenCookie: 'refresh_token',
+
+  // The refresh token is only sent along to the endpoints that need it
+  refreshTokenPath: '/api/auth',
+
+  // Double-submit CSRF token: readable by the page, which echoes it in a header on state-changing requests
+  csrfCookie: 'csrf_token',
+  csrfHeader: 'x-csrf-token',
+
+  // Browsers treat http://localhost as secure, so this can stay on in development
+  secure: process.env.COOKIE_SECURE !== 'false',
+  sameSite: parseSameSite(process.env.COOKIE_SAME_SITE),
+  domain: process.env.COOKIE_DOMAIN || undefined,
+
+  // Origins allowed to make credentialed cross-origin requests; others still get the open CORS policy
+  allowedOrigins: (process.env.CORS_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()),
+};
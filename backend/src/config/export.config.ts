@@ -0,0 +1,10 @@
+/**
+ * Personal data export settings
+ */
+export const exportConfig = {
+  // Finished archives are deleted after this long
+  archiveTtlMs: (Number(process.env.EXPORT_ARCHIVE_TTL_HOURS) || 24) * 60 * 60 * 1000,
+
+  // Each download link only works briefly; checking the export status again hands out a fresh one
+  downloadLinkTtlMs: (Number(process.env.EXPORT_LINK_TTL_MINUTES) || 15) * 60 * 1000,
+};
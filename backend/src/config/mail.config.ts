@@ -0,0 +1,17 @@
+import path from 'path';
+
+/**
+ * Mail settings
+ */
+export const mailConfig = {
+  from: process.env.MAIL_FROM || 'QA Testing App <no-reply@localhost>',
+
+  // The default development transport writes messages into this directory
+  outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', '..', 'outbox'),
+
+  // Base URL of the frontend, used to build links in emails
+  appUrl: process.env.APP_URL || 'http://localhost:5173',
+
+  // Lets anyone read the development outbox over HTTP, so it must never be enabled in production
+  outboxApiEnabled: process.env.MAIL_OUTBOX_API === 'true',
+};
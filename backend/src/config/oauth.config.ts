@@ -0,0 +1,52 @@
+/**
+ * Settings for an OpenID Connect identity provider
+ * Endpoints left out are looked up from the issuer's discovery document.
+ */
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string[];
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  jwksUri?: string;
+}
+
+const parseProviders = (value: string | undefined): OidcProviderConfig[] => {
+  if (!value) {
+    return [];
+  }
+
+  const providers = JSON.parse(value) as OidcProviderConfig[];
+  if (!Array.isArray(providers) || providers.some(provider => !provider.name || !provider.issuer || !provider.clientId)) {
+    throw new Error('OAUTH_PROVIDERS must be a JSON array of providers with name, issuer and clientId');
+  }
+  return providers;
+};
+
+/**
+ * Social login settings
+ */
+export const oauthConfig = {
+  // Public base URL of this API, used to build the callback URL registered with each provider
+  apiUrl: process.env.API_URL || 'http://localhost:3000',
+
+  // How long a user has to finish signing in at the provider
+  stateTtlMs: (Number(process.env.OAUTH_STATE_TTL_MINUTES) || 10) * 60 * 1000,
+
+  // Holds the state in the browser that started the sign-in, so a callback cannot be replayed in another one
+  stateCookie: 'oauth_state',
+
+  // How long the frontend has to exchange the one-time code it is handed after the callback
+  loginCodeTtlMs: 60 * 1000,
+
+  // Least time between refetches of a provider's signing keys when an ID token names an unknown key
+  jwksRefetchCooldownMs: (Number(process.env.OAUTH_JWKS_REFETCH_COOLDOWN_SECONDS) || 60) * 1000,
+
+  // e.g. OAUTH_PROVIDERS='[{"name":"acme","issuer":"https://login.acme.com","clientId":"...","clientSecret":"..."}]'
+  providers: parseProviders(process.env.OAUTH_PROVIDERS),
+
+  // The built-in mock provider signs in anyone, so it must never be enabled in production
+  mockProviderEnabled: process.env.OAUTH_MOCK_PROVIDER === 'true',
+};
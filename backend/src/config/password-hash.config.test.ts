@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+// The settings are read once at startup, so each test loads a fresh copy of the module
+const loadConfig = async () => {
+  vi.resetModules();
+  const { passwordHashConfig } = await import('./password-hash.config');
+  return passwordHashConfig;
+};
+
+describe('Password Hash Config', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the defaults when nothing is set', async () => {
+    vi.stubEnv('PASSWORD_BCRYPT_COST', '');
+    vi.stubEnv('PASSWORD_SCRYPT_COST', '');
+
+    const config = await loadConfig();
+
+    expect(config.bcryptCost).toBe(10);
+    expect(config.scryptCost).toBe(14);
+    expect(config.scryptBlockSize).toBe(8);
+    expect(config.scryptParallelization).toBe(1);
+  });
+
+  it('should clamp work factors that are too low or too high', async () => {
+    vi.stubEnv('PASSWORD_BCRYPT_COST', '4');
+    vi.stubEnv('PASSWORD_SCRYPT_COST', '30');
+    vi.stubEnv('PASSWORD_SCRYPT_BLOCK_SIZE', '0');
+    vi.stubEnv('PASSWORD_SCRYPT_PARALLELIZATION', '64');
+
+    const config = await loadConfig();
+
+    expect(config.bcryptCost).toBe(10);
+    expect(config.scryptCost).toBe(17);
+    expect(config.scryptBlockSize).toBe(8);
+    expect(config.scryptParallelization).toBe(4);
+  });
+
+  it('should refuse to start with a work factor that is not a whole number', async () => {
+    vi.stubEnv('PASSWORD_BCRYPT_COST', 'twelve');
+    await expect(loadConfig()).rejects.toThrow('PASSWORD_BCRYPT_COST must be a whole number');
+
+    vi.stubEnv('PASSWORD_BCRYPT_COST', '12');
+    vi.stubEnv('PASSWORD_SCRYPT_COST', '14.5');
+    await expect(loadConfig()).rejects.toThrow('PASSWORD_SCRYPT_COST must be a whole number');
+  });
+});
@@ -0,0 +1,51 @@
+import { PasswordHashScheme } from '../types/auth.types';
+
+export const PASSWORD_HASH_SCHEMES: PasswordHashScheme[] = ['bcrypt', 'scrypt'];
+
+const parseScheme = (value: string | undefined): PasswordHashScheme => {
+  const scheme = (value || 'bcrypt') as PasswordHashScheme;
+  if (!PASSWORD_HASH_SCHEMES.includes(scheme)) {
+    throw new Error(`PASSWORD_HASH_SCHEME must be one of ${PASSWORD_HASH_SCHEMES.join(', ')}`);
+  }
+  return scheme;
+};
+
+/**
+ * Reads a whole-number work factor, falling back when unset and clamping it into the given range
+ * Too low leaves hashes cheap to crack, too high lets every login tie up the CPU or run out of memory.
+ */
+const parseWorkFactor = (name: string, value: string | undefined, fallback: number, min: number, max: number): number => {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const factor = Number(value);
+  if (!Number.isInteger(factor)) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  return Math.min(Math.max(factor, min), max);
+};
+
+/**
+ * Password hashing settings
+ * New passwords are hashed with the preferred scheme and cost. Existing hashes keep working and are
+ * upgraded the next time their owner logs in, so these can be raised without forcing password resets.
+ */
+export const passwordHashConfig = {
+  scheme: parseScheme(process.env.PASSWORD_HASH_SCHEME),
+
+  // Each step doubles the work; kept between 10 and 14
+  bcryptCost: parseWorkFactor('PASSWORD_BCRYPT_COST', process.env.PASSWORD_BCRYPT_COST, 10, 10, 14),
+
+  // scrypt works on 2^cost blocks of 128 * blockSize bytes, so the default uses 16 MiB per hash and the
+  // largest settings 256 MiB
+  scryptCost: parseWorkFactor('PASSWORD_SCRYPT_COST', process.env.PASSWORD_SCRYPT_COST, 14, 14, 17),
+  scryptBlockSize: parseWorkFactor('PASSWORD_SCRYPT_BLOCK_SIZE', process.env.PASSWORD_SCRYPT_BLOCK_SIZE, 8, 8, 16),
+  scryptParallelization: parseWorkFactor(
+    'PASSWORD_SCRYPT_PARALLELIZATION',
+    process.env.PASSWORD_SCRYPT_PARALLELIZATION,
+    1,
+    1,
+    4
+  ),
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+// The settings are read once at startup, so each test loads a fresh copy of the module
+const loadConfig = async () => {
+  vi.resetModules();
+  const { passwordPolicyConfig } = await import('./password-policy.config');
+  return passwordPolicyConfig;
+};
+
+describe('Password Policy Config', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should use the defaults when nothing is set', async () => {
+    vi.stubEnv('PASSWORD_MIN_LENGTH', '');
+    vi.stubEnv('PASSWORD_MAX_LENGTH', '');
+    vi.stubEnv('PASSWORD_HISTORY_DEPTH', '');
+
+    const config = await loadConfig();
+
+    expect(config.minLength).toBe(8);
+    expect(config.maxLength).toBe(72);
+    expect(config.historyDepth).toBe(5);
+  });
+
+  it('should raise counts below their minimum', async () => {
+    vi.stubEnv('PASSWORD_MIN_LENGTH', '-4');
+    vi.stubEnv('PASSWORD_HISTORY_DEPTH', '-1');
+
+    const config = await loadConfig();
+
+    expect(config.minLength).toBe(1);
+    expect(config.historyDepth).toBe(0);
+  });
+
+  it('should refuse to start with a count that is not a whole number', async () => {
+    vi.stubEnv('PASSWORD_MIN_LENGTH', 'abc');
+    await expect(loadConfig()).rejects.toThrow('PASSWORD_MIN_LENGTH must be a whole number');
+
+    vi.stubEnv('PASSWORD_MIN_LENGTH', '8');
+    vi.stubEnv('PASSWORD_HISTORY_DEPTH', '2.5');
+    await expect(loadConfig()).rejects.toThrow('PASSWORD_HISTORY_DEPTH must be a whole number');
+  });
+
+  it('should refuse to start with a minimum length above the maximum', async () => {
+    vi.stubEnv('PASSWORD_MIN_LENGTH', '80');
+    vi.stubEnv('PASSWORD_MAX_LENGTH', '72');
+
+    await expect(loadConfig()).rejects.toThrow('PASSWORD_MIN_LENGTH must not be greater than PASSWORD_MAX_LENGTH');
+  });
+});
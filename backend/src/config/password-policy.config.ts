@@ -0,0 +1,60 @@
+import { PasswordCharacterClass, PasswordPolicy } from '../types/auth.types';
+
+const CHARACTER_CLASSES: PasswordCharacterClass[] = ['lowercase', 'uppercase', 'letter', 'digit', 'symbol'];
+
+const parseCharacterClasses = (value: string | undefined): PasswordCharacterClass[] => {
+  if (value === undefined) {
+    return ['letter', 'digit'];
+  }
+
+  const classes = value.split(',').map(entry => entry.trim()).filter(Boolean) as PasswordCharacterClass[];
+  const unknown = classes.filter(entry => !CHARACTER_CLASSES.includes(entry));
+  if (unknown.length > 0) {
+    throw new Error(`PASSWORD_REQUIRED_CLASSES must only contain ${CHARACTER_CLASSES.join(', ')}`);
+  }
+  return classes;
+};
+
+/**
+ * Reads a whole-number setting, falling back when unset and raising it to the given minimum
+ * Anything else stops startup, since a NaN length would quietly switch the length rules off.
+ */
+const parseCount = (name: string, value: string | undefined, fallback: number, min: number): number => {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count)) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  return Math.max(count, min);
+};
+
+const parseLengths = (): Pick<PasswordPolicy, 'minLength' | 'maxLength'> => {
+  const minLength = parseCount('PASSWORD_MIN_LENGTH', process.env.PASSWORD_MIN_LENGTH, 8, 1);
+  // bcrypt only uses the first 72 bytes of a password, so longer ones add no strength
+  const maxLength = parseCount('PASSWORD_MAX_LENGTH', process.env.PASSWORD_MAX_LENGTH, 72, 1);
+  if (minLength > maxLength) {
+    throw new Error('PASSWORD_MIN_LENGTH must not be greater than PASSWORD_MAX_LENGTH');
+  }
+  return { minLength, maxLength };
+};
+
+/**
+ * Password policy settings
+ * The policy is served to clients, so changing it here also changes what the frontend checks.
+ */
+export const passwordPolicyConfig: PasswordPolicy = {
+  ...parseLengths(),
+
+  requiredCharacterClasses: parseCharacterClasses(process.env.PASSWORD_REQUIRED_CLASSES),
+
+  forbidPersonalInfo: process.env.PASSWORD_FORBID_PERSONAL_INFO !== 'false',
+  forbiddenSubstrings: (process.env.PASSWORD_FORBIDDEN_SUBSTRINGS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean),
+
+  historyDepth: parseCount('PASSWORD_HISTORY_DEPTH', process.env.PASSWORD_HISTORY_DEPTH, 5, 0),
+};
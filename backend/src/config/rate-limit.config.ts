@@ -0,0 +1,29 @@
+/**
+ * A rate limit applied to each client
+ * token-bucket allows bursts up to capacity and then refillPerSecond requests per second;
+ * sliding-window allows limit requests in any window of windowMs.
+ */
+export type RateLimitPolicy =
+  | { algorithm: 'token-bucket'; capacity: number; refillPerSecond: number }
+  | { algorithm: 'sliding-window'; limit: number; windowMs: number };
+
+/**
+ * Rate limiting settings
+ */
+export const rateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+
+  // All API routes
+  api: {
+    algorithm: 'token-bucket',
+    capacity: Number(process.env.RATE_LIMIT_API_BURST) || 100,
+    refillPerSecond: Number(process.env.RATE_LIMIT_API_PER_SECOND) || 10,
+  } as RateLimitPolicy,
+
+  // Authentication routes are stricter, on top of the API limit
+  auth: {
+    algorithm: 'sliding-window',
+    limit: Number(process.env.RATE_LIMIT_AUTH_MAX) || 30,
+    windowMs: (Number(process.env.RATE_LIMIT_AUTH_WINDOW_SECONDS) || 60) * 1000,
+  } as RateLimitPolicy,
+};
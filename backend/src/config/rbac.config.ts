@@ -0,0 +1,29 @@
+import { Permission } from '../types/auth.types';
+import { Role } from '../types/user.types';
+
+export const ROLES: Role[] = ['user', 'support', 'admin'];
+
+/**
+ * Role-based access control settings
+ */
+export const rbacConfig = {
+  // Role given to users that have none stored
+  defaultRole: 'user' as Role,
+
+  // What each role may do beyond managing its own account
+  rolePermissions: {
+    user: [],
+    support: ['users:read', 'sessions:read'],
+    admin: [
+      'users:read',
+      'users:write',
+      'users:delete',
+      'sessions:read',
+      'sessions:revoke',
+      'roles:assign',
+      'audit:read',
+      'users:impersonate',
+      'invitations:manage',
+    ],
+  } as Record<Role, Permission[]>,
+};
@@ -0,0 +1,321 @@
+import { Response } from 'express';
+import { findUserById, findSessionById } from '../database/db';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AdminUserListQuery, ChangeRoleRequest, UpdateProfileRequest, User } from '../types/user.types';
+import { AuditAction } from '../types/audit.types';
+import { ROLES } from '../config/rbac.config';
+import { AuditEventFields, diffFields, recordAuditEvent } from '../services/audit.service';
+import { getUserRole, isValidRole } from '../services/authorization.service';
+import { updateUserProfile } from '../services/profile.service';
+import { startImpersonation } from '../services/impersonation.service';
+import { listActiveSessions, endSession, endOtherSessions } from '../services/session.service';
+import {
+  isAccountDisabled,
+  searchUsers,
+  disableAccount,
+  enableAccount,
+  changeUserRole,
+  requirePasswordReset,
+  deleteUserAccount,
+} from '../services/user-admin.service';
+import { parsePagination } from '../utils/pagination';
+import { getClientInfo } from '../utils/request';
+
+const toAdminUserView = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: getUserRole(user),
+  emailVerified: !!user.emailVerified,
+  twoFactorEnabled: !!user.twoFactorEnabled,
+  disabled: isAccountDisabled(user),
+  disabledAt: user.disabledAt,
+  deletionScheduledFor: user.deletionScheduledFor,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// Every admin action is recorded along with the admin who performed it
+const audit = (req: AuthRequest, action: AuditAction, fields: Omit<AuditEventFields, 'actorId'> = {}) => {
+  recordAuditEvent(action, getClientInfo(req), { ...fields, actorId: req.userId });
+};
+
+export const listUsers = (req: AuthRequest, res: Response): void => {
+  try {
+    const query: AdminUserListQuery = req.query;
+    const pagination = parsePagination(query);
+
+    if (!pagination) {
+      res.status(400).json({ error: 'page and pageSize must be positive integers' });
+      return;
+    }
+
+    const search = typeof query.search === 'string' && query.search.trim() ? query.search.trim() : undefined;
+    const { users, total } = searchUsers({ ...pagination, search });
+
+    audit(req, 'admin.users_listed', { details: { page: pagination.page, search } });
+
+    res.json({
+      users: users.map(toAdminUserView),
+      ...pagination,
+      total,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getUser = (req: AuthRequest, res: Response): void => {
+  try {
+    const user = findUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.user_viewed', { targetUserId: user.id });
+
+    res.json({
+      ...toAdminUserView(user),
+      activeSessions: listActiveSessions(user.id).length,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateUser = (req: AuthRequest, res: Response): void => {
+  try {
+    const { name, email }: UpdateProfileRequest = req.body || {};
+    const before = findUserById(req.params.id);
+    const result = updateUserProfile(req.params.id, { name, email });
+
+    if (result.status === 'invalid') {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.user_updated', {
+      targetUserId: result.user.id,
+      changes: diffFields(before!, result.user, ['name', 'email']),
+    });
+
+    res.json(toAdminUserView(result.user));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const changeRole = (req: AuthRequest, res: Response): void => {
+  try {
+    const { role }: ChangeRoleRequest = req.body || {};
+
+    if (!isValidRole(role)) {
+      res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
+      return;
+    }
+
+    // Keeps the last admin from locking everyone out by accident
+    if (req.params.id === req.userId) {
+      res.status(400).json({ error: 'You cannot change your own role' });
+      return;
+    }
+
+    const user = findUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const updatedUser = changeUserRole(user.id, role)!;
+
+    audit(req, 'admin.role_changed', {
+      targetUserId: user.id,
+      changes: { role: { from: getUserRole(user), to: role } },
+    });
+
+    res.json(toAdminUserView(updatedUser));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const disableUser = (req: AuthRequest, res: Response): void => {
+  try {
+    if (req.params.id === req.userId) {
+      res.status(400).json({ error: 'You cannot disable your own account' });
+      return;
+    }
+
+    const user = disableAccount(req.params.id, req.userId!);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.user_disabled', { targetUserId: user.id });
+
+    res.json(toAdminUserView(user));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const enableUser = (req: AuthRequest, res: Response): void => {
+  try {
+    const user = enableAccount(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.user_enabled', { targetUserId: user.id });
+
+    res.json(toAdminUserView(user));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const forcePasswordReset = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const user = await requirePasswordReset(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.password_reset_forced', { targetUserId: user.id });
+
+    res.json({ message: 'The user has been signed out and sent a link to choose a new password' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deleteUser = (req: AuthRequest, res: Response): void => {
+  try {
+    if (req.params.id === req.userId) {
+      res.status(400).json({ error: 'You cannot delete your own account here' });
+      return;
+    }
+
+    if (!deleteUserAccount(req.params.id)) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.user_deleted', { targetUserId: req.params.id });
+
+    res.json({ message: 'User deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const listUserSessions = (req: AuthRequest, res: Response): void => {
+  try {
+    const user = findUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    audit(req, 'admin.sessions_viewed', { targetUserId: user.id });
+
+    const sessions = listActiveSessions(user.id).map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      userAgent: session.userAgent,
+      ip: session.ip,
+    }));
+
+    res.json({ sessions });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeUserSession = (req: AuthRequest, res: Response): void => {
+  try {
+    const session = findSessionById(req.params.sessionId);
+
+    if (!session || session.userId !== req.params.id) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    endSession(session.id);
+
+    audit(req, 'admin.session_revoked', { targetUserId: session.userId, details: { sessionId: session.id } });
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeUserSessions = (req: AuthRequest, res: Response): void => {
+  try {
+    const user = findUserById(req.params.id);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const revoked = endOtherSessions(user.id);
+
+    audit(req, 'admin.sessions_revoked', { targetUserId: user.id, details: { revoked } });
+
+    res.json({ message: 'Sessions revoked', revoked });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const impersonateUser = (req: AuthRequest, res: Response): void => {
+  try {
+    // Impersonation tokens are tied to the admin's session, which personal access tokens do not have
+    if (!req.sessionId) {
+      res.status(403).json({ error: 'Impersonation requires a signed-in session' });
+      return;
+    }
+
+    const result = startImpersonation(req.user, req.sessionId, req.params.id, getClientInfo(req));
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (result.status === 'forbidden') {
+      res.status(403).json({ error: result.error });
+      return;
+    }
+
+    res.json({
+      token: result.token,
+      expiresIn: result.expiresIn,
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
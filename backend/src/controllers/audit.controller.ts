@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AuditEventFilters, AuditEventListQuery } from '../types/audit.types';
+import { findUserActivity, queryAuditEvents } from '../services/audit.service';
+import { paginate, parsePagination } from '../utils/pagination';
+
+const readString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const isTimestamp = (value: string | undefined): boolean => {
+  return value === undefined || !Number.isNaN(Date.parse(value));
+};
+
+export const listAuditEvents = (req: AuthRequest, res: Response): void => {
+  try {
+    const query: AuditEventListQuery = req.query;
+    const pagination = parsePagination(query);
+
+    if (!pagination) {
+      res.status(400).json({ error: 'page and pageSize must be positive integers' });
+      return;
+    }
+
+    const filters: AuditEventFilters = {
+      action: readString(query.action) as AuditEventFilters['action'],
+      actorId: readString(query.actorId),
+      targetUserId: readString(query.targetUserId),
+      from: readString(query.from),
+      to: readString(query.to),
+    };
+
+    if (!isTimestamp(filters.from) || !isTimestamp(filters.to)) {
+      res.status(400).json({ error: 'from and to must be valid timestamps' });
+      return;
+    }
+
+    const { events, total } = queryAuditEvents(filters, pagination);
+
+    res.json({ events, ...pagination, total });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getActivityFeed = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const pagination = parsePagination(req.query);
+
+    if (!pagination) {
+      res.status(400).json({ error: 'page and pageSize must be positive integers' });
+      return;
+    }
+
+    const activity = findUserActivity(req.userId);
+
+    res.json({
+      events: paginate(activity, pagination),
+      ...pagination,
+      total: activity.length,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,15 +1,26 @@
-import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { login, register, logout } from './auth.controller';
+import * as signingKeyService from '../services/signing-key.service';
+import { login, register, refresh, logout } from './auth.controller';
 import * as db from '../database/db';
+import * as emailVerificationService from '../services/email-verification.service';
+import * as twoFactorService from '../services/two-factor.service';
+import * as loginThrottleService from '../services/login-throttle.service';
+import { authConfig } from '../config/auth.config';
 import { User } from '../types/user.types';
 
 // Mock dependencies
 vi.mock('bcryptjs');
-vi.mock('jsonwebtoken');
+vi.mock('../services/signing-key.service');
 vi.mock('../database/db');
+vi.mock('../services/email-verification.service');
+vi.mock('../services/two-factor.service');
+vi.mock('../services/login-throttle.service');
+vi.mock('../utils/crypto', () => ({
+  generateToken: vi.fn(() => 'mock-refresh-token'),
+  hashToken: vi.fn((token: string) => `hashed-${token}`),
+}));
 
 describe('Auth Controller', () => {
   let mockRequest: Partial<Request>;
@@ -30,43 +41,86 @@ describe('Auth Controller', () => {
 
     mockRequest = {
       body: {},
+      headers: {},
     };
 
     mockResponse = {
       status: vi.fn().mockReturnThis(),
       json: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
     };
 
     mockNext = vi.fn();
+
+    vi.mocked(loginThrottleService.checkLoginAllowed).mockReturnValue({ status: 'allowed' });
   });
 
   describe('login', () => {
     it('should login user with valid credentials', async () => {
       mockRequest.body = {
         email: 'test@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
       };
 
       vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
       vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
-      vi.mocked(jwt.sign).mockReturnValue('mock-jwt-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
 
       await login(mockRequest as Request, mockResponse as Response);
 
       expect(db.findUserByEmail).toHaveBeenCalledWith('test@example.com');
-      expect(bcrypt.compare).toHaveBeenCalledWith('password123', mockUser.password);
-      expect(jwt.sign).toHaveBeenCalledWith(
-        { userId: mockUser.id },
-        expect.any(String),
-        { expiresIn: '7d' }
+      expect(bcrypt.compare).toHaveBeenCalledWith('quiet-harbor-42', mockUser.password);
+      expect(signingKeyService.signJwt).toHaveBeenCalledWith(
+        { userId: mockUser.id, sid: expect.any(String), jti: expect.any(String) },
+        900
+      );
+      expect(db.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id })
+      );
+      expect(db.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id })
       );
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
     });
 
+    it('should upgrade a password hash made with a lower cost', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue({ ...mockUser, password: '$2a$08$oldhashedpassword' });
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$rehashedpassword' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(bcrypt.hash).toHaveBeenCalledWith('quiet-harbor-42', 10);
+      expect(db.updateUser).toHaveBeenCalledWith(mockUser.id, { password: '$2a$10$rehashedpassword' });
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should keep a password hash made with the current settings', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(bcrypt.hash).not.toHaveBeenCalled();
+      expect(db.updateUser).not.toHaveBeenCalled();
+    });
+
     it('should return 400 if email is missing', async () => {
       mockRequest.body = {
-        password: 'password123',
+        password: 'quiet-harbor-42',
       };
 
       await login(mockRequest as Request, mockResponse as Response);
@@ -91,7 +145,7 @@ describe('Auth Controller', () => {
     it('should return 401 if user not found', async () => {
       mockRequest.body = {
         email: 'notfound@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
       };
 
       vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
@@ -119,10 +173,155 @@ describe('Auth Controller', () => {
       expect(responseData).toMatchSnapshot();
     });
 
+    it('should count a failed attempt for unknown emails and wrong passwords', async () => {
+      mockRequest.body = {
+        email: 'Test@Example.com',
+        password: 'wrongpassword',
+      };
+      mockRequest = { ...mockRequest, ip: '10.0.0.1' };
+
+      vi.mocked(db.findUserByEmail).mockReturnValueOnce(undefined).mockReturnValueOnce(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(false as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(loginThrottleService.recordLoginFailure).toHaveBeenCalledTimes(2);
+      expect(loginThrottleService.recordLoginFailure).toHaveBeenCalledWith('test@example.com', '10.0.0.1');
+      expect(loginThrottleService.recordLoginSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should clear failed attempts after a correct password', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(loginThrottleService.recordLoginSuccess).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should audit a successful login with the client it came from', async () => {
+      mockRequest = {
+        body: { email: 'test@example.com', password: 'quiet-harbor-42' },
+        headers: { 'user-agent': 'vitest' },
+        ip: '10.0.0.1',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(db.createAuditEvent).toHaveBeenCalledWith({
+        action: 'auth.login_succeeded',
+        actorId: mockUser.id,
+        targetUserId: mockUser.id,
+        details: { method: 'password' },
+        ip: '10.0.0.1',
+        userAgent: 'vitest',
+      });
+    });
+
+    it('should audit a failed login against the targeted account', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'wrongpassword',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(false as never);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(db.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'auth.login_failed',
+        targetUserId: mockUser.id,
+        details: { email: 'test@example.com', reason: 'invalid_password' },
+      }));
+    });
+
+    it('should return 423 with Retry-After when the account is locked', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(loginThrottleService.checkLoginAllowed).mockReturnValue({ status: 'locked', retryAfterSeconds: 900 });
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(423);
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', '900');
+      expect(db.findUserByEmail).not.toHaveBeenCalled();
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should return 429 with Retry-After when attempts are throttled', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(loginThrottleService.checkLoginAllowed).mockReturnValue({ status: 'throttled', retryAfterSeconds: 4 });
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', '4');
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Too many login attempts, please try again later' });
+    });
+
+    it('should return 403 if email verification is pending', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(mockUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(emailVerificationService.isEmailVerificationPending).mockReturnValueOnce(true);
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(db.createSession).not.toHaveBeenCalled();
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return an MFA challenge instead of tokens when 2FA is enabled', async () => {
+      mockRequest.body = {
+        email: 'test@example.com',
+        password: 'quiet-harbor-42',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue({ ...mockUser, twoFactorEnabled: true });
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(twoFactorService.startMfaChallenge).mockReturnValue('mock-mfa-token');
+
+      await login(mockRequest as Request, mockResponse as Response);
+
+      expect(twoFactorService.startMfaChallenge).toHaveBeenCalledWith('123');
+      // Failures are only cleared once the second factor checks out as well
+      expect(loginThrottleService.recordLoginSuccess).not.toHaveBeenCalled();
+      expect(signingKeyService.signJwt).not.toHaveBeenCalled();
+      expect(db.createSession).not.toHaveBeenCalled();
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).not.toHaveProperty('token');
+      expect(responseData).toMatchSnapshot();
+    });
+
     it('should return 500 on internal server error', async () => {
       mockRequest.body = {
         email: 'test@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
       };
 
       vi.mocked(db.findUserByEmail).mockImplementation(() => {
@@ -141,7 +340,7 @@ describe('Auth Controller', () => {
     it('should register a new user', async () => {
       mockRequest.body = {
         email: 'new@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'New User',
       };
 
@@ -152,14 +351,44 @@ describe('Auth Controller', () => {
         email: 'new@example.com',
         name: 'New User',
       });
-      vi.mocked(jwt.sign).mockReturnValue('mock-jwt-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
       expect(db.findUserByEmail).toHaveBeenCalledWith('new@example.com');
-      expect(bcrypt.hash).toHaveBeenCalledWith('password123', 10);
-      expect(db.createUser).toHaveBeenCalled();
-      expect(jwt.sign).toHaveBeenCalled();
+      expect(bcrypt.hash).toHaveBeenCalledWith('quiet-harbor-42', 10);
+      expect(db.createUser).toHaveBeenCalledWith(expect.objectContaining({ emailVerified: false }));
+      expect(emailVerificationService.sendVerificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'new@example.com' })
+      );
+      expect(signingKeyService.signJwt).toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should not issue tokens while email verification is pending', async () => {
+      mockRequest.body = {
+        email: 'new@example.com',
+        password: 'quiet-harbor-42',
+        name: 'New User',
+      };
+
+      vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
+      vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedpassword' as never);
+      vi.mocked(db.createUser).mockReturnValue({
+        ...mockUser,
+        email: 'new@example.com',
+        name: 'New User',
+        emailVerified: false,
+      });
+      vi.mocked(emailVerificationService.isEmailVerificationPending).mockReturnValueOnce(true);
+
+      await register(mockRequest as Request, mockResponse as Response);
+
+      expect(emailVerificationService.sendVerificationEmail).toHaveBeenCalled();
+      expect(signingKeyService.signJwt).not.toHaveBeenCalled();
+      expect(db.createSession).not.toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(201);
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
@@ -167,7 +396,7 @@ describe('Auth Controller', () => {
 
     it('should return 400 if email is missing', async () => {
       mockRequest.body = {
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'New User',
       };
 
@@ -194,7 +423,7 @@ describe('Auth Controller', () => {
     it('should return 400 if name is missing', async () => {
       mockRequest.body = {
         email: 'new@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
       };
 
       await register(mockRequest as Request, mockResponse as Response);
@@ -207,7 +436,7 @@ describe('Auth Controller', () => {
     it('should return 400 if user already exists', async () => {
       mockRequest.body = {
         email: 'test@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'New User',
       };
 
@@ -223,7 +452,7 @@ describe('Auth Controller', () => {
     it('should return 500 on internal server error', async () => {
       mockRequest.body = {
         email: 'new@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'New User',
       };
 
@@ -237,6 +466,184 @@ describe('Auth Controller', () => {
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
     });
+
+    it('should reject a breached password', async () => {
+      mockRequest.body = {
+        email: 'new@example.com',
+        password: 'password123',
+        name: 'New User',
+      };
+
+      await register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'This password is too common or has appeared in a data breach, please choose a different one',
+      });
+      expect(db.createUser).not.toHaveBeenCalled();
+    });
+
+    describe('registration modes', () => {
+      const invitation = {
+        id: 'invite-1',
+        codeHash: 'hashed-invite-code',
+        email: 'new@example.com',
+        maxUses: 1,
+        useCount: 0,
+        expiresAt: '2099-01-01T00:00:00.000Z',
+        createdBy: 'admin-1',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      };
+
+      beforeEach(() => {
+        mockRequest.body = {
+          email: 'new@example.com',
+          password: 'quiet-harbor-42',
+          name: 'New User',
+        };
+        vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
+        vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedpassword' as never);
+        vi.mocked(db.createUser).mockReturnValue({ ...mockUser, email: 'new@example.com' });
+      });
+
+      afterEach(() => {
+        authConfig.registrationMode = 'open';
+      });
+
+      it('should refuse every registration while registration is closed', async () => {
+        authConfig.registrationMode = 'closed';
+
+        await register(mockRequest as Request, mockResponse as Response);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(403);
+        expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Registration is closed' });
+        expect(db.findUserByEmail).not.toHaveBeenCalled();
+        expect(db.createUser).not.toHaveBeenCalled();
+      });
+
+      it('should require an invitation code while registration is invite-only', async () => {
+        authConfig.registrationMode = 'invite_only';
+
+        await register(mockRequest as Request, mockResponse as Response);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(403);
+        expect(mockResponse.json).toHaveBeenCalledWith({ error: 'An invitation code is required to register' });
+        expect(db.createUser).not.toHaveBeenCalled();
+      });
+
+      it('should use up the invitation when creating the account', async () => {
+        authConfig.registrationMode = 'invite_only';
+        mockRequest.body.invitationCode = 'invite-code';
+        vi.mocked(db.findInvitationByCodeHash).mockReturnValue(invitation);
+
+        await register(mockRequest as Request, mockResponse as Response);
+
+        expect(db.findInvitationByCodeHash).toHaveBeenCalledWith('hashed-invite-code');
+        expect(db.updateInvitation).toHaveBeenCalledWith('invite-1', { useCount: 1 });
+        expect(mockResponse.status).toHaveBeenCalledWith(201);
+      });
+
+      it('should reject an invitation locked to another address', async () => {
+        authConfig.registrationMode = 'invite_only';
+        mockRequest.body.invitationCode = 'invite-code';
+        vi.mocked(db.findInvitationByCodeHash).mockReturnValue({ ...invitation, email: 'someone-else@example.com' });
+
+        await register(mockRequest as Request, mockResponse as Response);
+
+        expect(mockResponse.status).toHaveBeenCalledWith(403);
+        expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invitation code is invalid or has expired' });
+        expect(db.updateInvitation).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('refresh', () => {
+    const storedToken = {
+      id: 'rt-1',
+      userId: mockUser.id,
+      familyId: 'family-1',
+      tokenHash: 'hash',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      createdAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    it('should rotate a valid refresh token', () => {
+      mockRequest.body = { refreshToken: 'valid-refresh-token' };
+
+      vi.mocked(db.findSessionById).mockReturnValue({
+        id: 'family-1',
+        userId: mockUser.id,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        lastSeenAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: '2099-01-01T00:00:00.000Z',
+        userAgent: 'vitest',
+        ip: '127.0.0.1',
+      });
+      vi.mocked(db.findRefreshTokenByHash).mockReturnValue(storedToken);
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(db.createRefreshToken).mockReturnValue({ ...storedToken, id: 'rt-2', tokenHash: 'hash-2' });
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('new-jwt-token' as never);
+
+      refresh(mockRequest as Request, mockResponse as Response);
+
+      expect(db.updateRefreshToken).toHaveBeenCalledWith('rt-1', { replacedBy: 'rt-2' });
+      expect(db.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, familyId: 'family-1' })
+      );
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(db.findRefreshTokenByHash).toHaveBeenCalledWith('hashed-valid-refresh-token');
+      expect(responseData).toEqual({ token: 'new-jwt-token', refreshToken: 'mock-refresh-token' });
+    });
+
+    it('should return 400 if refresh token is missing', () => {
+      mockRequest.body = {};
+
+      refresh(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 401 for an unknown refresh token', () => {
+      mockRequest.body = { refreshToken: 'unknown-token' };
+
+      vi.mocked(db.findRefreshTokenByHash).mockReturnValue(undefined);
+
+      refresh(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 401 for an expired refresh token', () => {
+      mockRequest.body = { refreshToken: 'expired-token' };
+
+      vi.mocked(db.findRefreshTokenByHash).mockReturnValue({
+        ...storedToken,
+        expiresAt: '2024-01-01T00:00:00.000Z',
+      });
+
+      refresh(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(db.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a rotated token is replayed', () => {
+      mockRequest.body = { refreshToken: 'replayed-token' };
+
+      vi.mocked(db.findRefreshTokenByHash).mockReturnValue({ ...storedToken, replacedBy: 'rt-2' });
+
+      refresh(mockRequest as Request, mockResponse as Response);
+
+      expect(db.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-1');
+      expect(db.deleteSession).toHaveBeenCalledWith('family-1');
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
   });
 
   describe('logout', () => {
@@ -246,29 +653,75 @@ describe('Auth Controller', () => {
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
     });
+
+    it('should revoke the presented access token until it expires', () => {
+      mockRequest.headers = { authorization: 'Bearer access-token' };
+      vi.mocked(signingKeyService.verifyJwt).mockReturnValue({
+        userId: '123',
+        sid: 'session-1',
+        jti: 'token-id',
+        exp: 1704067200,
+      } as any);
+
+      logout(mockRequest as Request, mockResponse as Response);
+
+      expect(db.revokeToken).toHaveBeenCalledWith('token-id', '2024-01-01T00:00:00.000Z');
+      expect(db.deleteSession).toHaveBeenCalledWith('session-1');
+      expect(db.pruneRevokedTokens).toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the refresh token family when a refresh token is sent', () => {
+      mockRequest.body = { refreshToken: 'refresh-token' };
+      vi.mocked(db.findRefreshTokenByHash).mockReturnValue({
+        id: 'rt-1',
+        userId: '123',
+        familyId: 'family-1',
+        tokenHash: 'hashed-refresh-token',
+        expiresAt: '2099-01-01T00:00:00.000Z',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+
+      logout(mockRequest as Request, mockResponse as Response);
+
+      expect(db.findRefreshTokenByHash).toHaveBeenCalledWith('hashed-refresh-token');
+      expect(db.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-1');
+    });
+
+    it('should still succeed when the access token is invalid', () => {
+      mockRequest.headers = { authorization: 'Bearer expired-token' };
+      vi.mocked(signingKeyService.verifyJwt).mockImplementation(() => {
+        throw new Error('jwt expired');
+      });
+
+      logout(mockRequest as Request, mockResponse as Response);
+
+      expect(db.revokeToken).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Logged out successfully' });
+    });
   });
 
   describe('Password Hashing Edge Cases', () => {
     it('should hash password with correct salt rounds (10)', async () => {
       mockRequest.body = {
         email: 'hash@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Hash Test',
       };
 
       vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
       vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedpassword' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
-      expect(bcrypt.hash).toHaveBeenCalledWith('password123', 10);
+      expect(bcrypt.hash).toHaveBeenCalledWith('quiet-harbor-42', 10);
     });
 
-    it('should handle very long passwords', async () => {
+    it('should handle passwords at the maximum length', async () => {
       // Long password with letter and number to meet validation requirements
-      const longPassword = 'a'.repeat(999) + '1';
+      const longPassword = 'a'.repeat(71) + '1';
       mockRequest.body = {
         email: 'longpass@test.com',
         password: longPassword,
@@ -278,7 +731,7 @@ describe('Auth Controller', () => {
       vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
       vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedlongpassword' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
@@ -286,6 +739,20 @@ describe('Auth Controller', () => {
       expect(mockResponse.status).toHaveBeenCalledWith(201);
     });
 
+    it('should reject passwords over the maximum length', async () => {
+      mockRequest.body = {
+        email: 'longpass@test.com',
+        password: 'a'.repeat(999) + '1',
+        name: 'Long Pass User',
+      };
+
+      await register(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Password must be at most 72 characters long' });
+      expect(bcrypt.hash).not.toHaveBeenCalled();
+    });
+
     it('should handle passwords with special characters', async () => {
       const specialPassword = 'p@ssw0rd!@#$%^&*()_+-=[]{}|;:,.<>?';
       mockRequest.body = {
@@ -297,7 +764,7 @@ describe('Auth Controller', () => {
       vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
       vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedspecial' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
@@ -316,7 +783,7 @@ describe('Auth Controller', () => {
       vi.mocked(db.findUserByEmail).mockReturnValue(undefined);
       vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$hashedunicode' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
@@ -351,7 +818,7 @@ describe('Auth Controller', () => {
       // First hash
       vi.mocked(bcrypt.hash).mockResolvedValueOnce('$2a$10$hash1' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
@@ -367,7 +834,7 @@ describe('Auth Controller', () => {
       // Second hash (should be different due to salt)
       vi.mocked(bcrypt.hash).mockResolvedValueOnce('$2a$10$hash2' as never);
       vi.mocked(db.createUser).mockReturnValue(mockUser);
-      vi.mocked(jwt.sign).mockReturnValue('mock-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-token' as never);
 
       await register(mockRequest as Request, mockResponse as Response);
 
@@ -393,7 +860,7 @@ describe('Auth Controller', () => {
 
       vi.mocked(db.findUserByEmail).mockReturnValue(userWithHashedPassword);
       vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
-      vi.mocked(jwt.sign).mockReturnValue('mock-jwt-token' as never);
+      vi.mocked(signingKeyService.signJwt).mockReturnValue('mock-jwt-token' as never);
 
       await login(mockRequest as Request, mockResponse as Response);
 
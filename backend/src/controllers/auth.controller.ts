@@ -1,19 +1,52 @@
 import { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { findUserByEmail, createUser } from '../database/db';
+import { findUserByEmail } from '../database/db';
 import { LoginRequest, RegisterRequest } from '../types/user.types';
+import { ClientInfo, LogoutRequest, RefreshRequest } from '../types/auth.types';
+import {
+  issueAuthTokens,
+  rotateRefreshToken,
+  verifyAccessToken,
+  revokeAccessToken,
+  revokeRefreshToken,
+} from '../services/token.service';
+import { endSession } from '../services/session.service';
+import { isEmailVerificationPending, sendVerificationEmail } from '../services/email-verification.service';
+import { startMfaChallenge } from '../services/two-factor.service';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from '../services/login-throttle.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import { recordAuditEvent, recordLogin, recordUserAction } from '../services/audit.service';
+import { getNewPasswordError } from '../services/password-policy.service';
+import { hashPassword, rehashPasswordIfNeeded, verifyPassword } from '../services/password-hasher.service';
+import { checkRegistration, createRegisteredUser, RegistrationCheck } from '../services/invitation.service';
+import { authConfig } from '../config/auth.config';
+import { cookieConfig } from '../config/cookie.config';
+import { getClientInfo } from '../utils/request';
+import {
+  deliverAuthTokens,
+  clearAuthCookies,
+  getCookie,
+  hasAuthCookies,
+  wantsCookieAuth,
+} from '../utils/auth-cookies';
 import {
   isValidEmail,
   isNonEmptyString,
-  isValidPassword,
   isValidName,
   getNameError,
   sanitizeEmail,
   sanitizeName,
 } from '../utils/validation';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// The actor of a failed login is unknown, so only the targeted account is recorded
+const auditLoginFailure = (client: ClientInfo, email: string, reason: string, userId?: string): void => {
+  recordAuditEvent('auth.login_failed', client, { targetUserId: userId, details: { email, reason } });
+};
+
+const REGISTRATION_ERRORS: Record<Exclude<RegistrationCheck['status'], 'ok'>, string> = {
+  closed: 'Registration is closed',
+  invitation_required: 'An invitation code is required to register',
+  invalid_invitation: 'Invitation code is invalid or has expired',
+};
 
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -32,25 +65,75 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
     // Sanitize email (trim and lowercase)
     const sanitizedEmail = sanitizeEmail(email);
+    const client = getClientInfo(req);
+
+    // Checked before the password so a locked account gives nothing away, even to the right password
+    const throttle = checkLoginAllowed(sanitizedEmail, client.ip);
+
+    if (throttle.status === 'locked') {
+      auditLoginFailure(client, sanitizedEmail, 'locked');
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      res.status(423).json({ error: 'Account temporarily locked due to too many failed login attempts, please try again later' });
+      return;
+    }
+
+    if (throttle.status === 'throttled') {
+      auditLoginFailure(client, sanitizedEmail, 'throttled');
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      res.status(429).json({ error: 'Too many login attempts, please try again later' });
+      return;
+    }
     
     const user = findUserByEmail(sanitizedEmail);
     
     if (!user) {
+      recordLoginFailure(sanitizedEmail, client.ip);
+      auditLoginFailure(client, sanitizedEmail, 'unknown_account');
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
     
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await verifyPassword(password, user.password);
     
     if (!isPasswordValid) {
+      recordLoginFailure(sanitizedEmail, client.ip);
+      auditLoginFailure(client, sanitizedEmail, 'invalid_password', user.id);
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
-    
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
-    
+
+    // The plain password is only known now, so this is when a hash made with older settings gets upgraded
+    await rehashPasswordIfNeeded(user, password);
+
+    if (isAccountDisabled(user)) {
+      auditLoginFailure(client, sanitizedEmail, 'account_disabled', user.id);
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    if (isEmailVerificationPending(user)) {
+      auditLoginFailure(client, sanitizedEmail, 'email_unverified', user.id);
+      res.status(403).json({ error: 'Please verify your email address before logging in' });
+      return;
+    }
+
+    // The session is only created once the second factor has been verified, and the failure count
+    // is kept until then so that wrong codes keep adding up
+    if (user.twoFactorEnabled) {
+      res.json({
+        mfaRequired: true,
+        mfaToken: startMfaChallenge(user.id),
+        expiresIn: Math.floor(authConfig.mfaChallengeTtlMs / 1000),
+      });
+      return;
+    }
+
+    recordLoginSuccess(sanitizedEmail);
+    const tokens = issueAuthTokens(user.id, client);
+    recordLogin(user.id, 'password', client);
+
     res.json({
-      token,
+      ...deliverAuthTokens(req, res, tokens),
       user: {
         id: user.id,
         email: user.email,
@@ -64,7 +147,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email, password, name }: RegisterRequest = req.body;
+    const { email, password, name, invitationCode }: RegisterRequest = req.body;
     
     // Validate required fields
     if (!email || !password || !name) {
@@ -78,11 +161,10 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Validate password strength
-    if (!isValidPassword(password)) {
-      res.status(400).json({
-        error: 'Password must be at least 8 characters long and contain at least one letter and one number',
-      });
+    // Validate password against the password policy and known breaches
+    const passwordError = getNewPasswordError(password, { email, name });
+    if (passwordError) {
+      res.status(400).json({ error: passwordError });
       return;
     }
 
@@ -96,6 +178,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     // Sanitize inputs
     const sanitizedEmail = sanitizeEmail(email);
     const sanitizedName = sanitizeName(name);
+
+    // Checked before looking the address up, so closed registration does not reveal which accounts exist
+    const admission = checkRegistration(invitationCode, sanitizedEmail);
+    if (admission.status !== 'ok') {
+      res.status(403).json({ error: REGISTRATION_ERRORS[admission.status] });
+      return;
+    }
     
     // Check if user already exists
     const existingUser = findUserByEmail(sanitizedEmail);
@@ -105,19 +194,44 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     }
     
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    const hashedPassword = await hashPassword(password);
     
-    // Create user with sanitized data
-    const user = createUser({
+    // Create user with sanitized data; the invitation is checked again, as it may have been used up while hashing
+    const result = createRegisteredUser({
       email: sanitizedEmail,
       password: hashedPassword,
       name: sanitizedName,
-    });
-    
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
+      emailVerified: false,
+    }, invitationCode);
+
+    if (result.status !== 'ok') {
+      res.status(403).json({ error: REGISTRATION_ERRORS[result.status] });
+      return;
+    }
+
+    const { user, invitation } = result;
+    const client = getClientInfo(req);
+
+    recordUserAction('auth.registered', user.id, client, invitation ? { details: { invitationId: invitation.id } } : {});
+    sendVerificationEmail(user);
+
+    // No session until the address is confirmed when verification is enforced
+    if (isEmailVerificationPending(user)) {
+      res.status(201).json({
+        message: 'Registration successful, please check your email to verify your account',
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+        },
+      });
+      return;
+    }
     
+    const tokens = issueAuthTokens(user.id, client);
+
     res.status(201).json({
-      token,
+      ...deliverAuthTokens(req, res, tokens),
       user: {
         id: user.id,
         email: user.email,
@@ -129,9 +243,69 @@ export const register = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
-export const logout = (req: Request, res: Response): void => {
-  // Since we're using JWT, logout is handled client-side by removing the token
-  // But we can provide an endpoint for consistency
-  res.json({ message: 'Logged out successfully' });
+export const refresh = (req: Request, res: Response): void => {
+  try {
+    // Cookie-mode clients send the refresh token as an HttpOnly cookie instead of in the body
+    const { refreshToken = getCookie(req, cookieConfig.refreshTokenCookie) }: Partial<RefreshRequest> = req.body || {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    const result = rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      res.status(401).json({ error: 'Refresh token reuse detected, please log in again' });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      res.status(401).json({ error: 'Invalid or expired refresh token' });
+      return;
+    }
+
+    res.json(deliverAuthTokens(req, res, result.tokens));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
 
+export const logout = (req: Request, res: Response): void => {
+  try {
+    const { refreshToken = getCookie(req, cookieConfig.refreshTokenCookie) }: LogoutRequest = req.body || {};
+    const token = req.headers.authorization?.split(' ')[1] || getCookie(req, cookieConfig.accessTokenCookie);
+
+    // Revoke the access token and end its session so both stop working immediately
+    if (token) {
+      try {
+        const payload = verifyAccessToken(token);
+        revokeAccessToken(payload);
+
+        // An impersonation token belongs to the admin's session, which stays signed in
+        if (payload.actorId) {
+          recordAuditEvent('auth.logged_out', getClientInfo(req), { actorId: payload.actorId, targetUserId: payload.userId });
+        } else {
+          if (payload.sid) {
+            endSession(payload.sid);
+          }
+          recordUserAction('auth.logged_out', payload.userId, getClientInfo(req));
+        }
+      } catch (error) {
+        // An invalid or expired token needs no revocation
+      }
+    }
+
+    if (refreshToken && typeof refreshToken === 'string') {
+      revokeRefreshToken(refreshToken);
+    }
+
+    if (hasAuthCookies(req) || wantsCookieAuth(req)) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { requestExport, getExportStatus, downloadExport } from './data-export.controller';
+import * as dataExportService from '../services/data-export.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { DataExportJob, PersonalDataExport } from '../types/user.types';
+
+vi.mock('../services/data-export.service');
+
+describe('Data Export Controller', () => {
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+
+  const pendingJob: DataExportJob = {
+    id: 'job-1',
+    userId: '123',
+    status: 'pending',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const archive = {
+    exportedAt: '2024-01-01T00:00:05.000Z',
+    profile: { id: '123' },
+  } as PersonalDataExport;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      userId: '123',
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('requestExport', () => {
+    it('should queue an export and point to its status', () => {
+      vi.mocked(dataExportService.requestDataExport).mockReturnValue(pendingJob);
+
+      requestExport(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(dataExportService.requestDataExport).toHaveBeenCalledWith('123');
+      expect(mockResponse.set).toHaveBeenCalledWith('Location', '/api/profile/export/job-1');
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1', status: 'pending' }));
+    });
+
+    it('should return 401 if userId is missing', () => {
+      mockRequest.userId = undefined;
+
+      requestExport(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('getExportStatus', () => {
+    it('should include a download link once the export is ready', () => {
+      mockRequest.params = { id: 'job-1' };
+      vi.mocked(dataExportService.getDataExportJob).mockReturnValue({ ...pendingJob, status: 'ready' });
+      vi.mocked(dataExportService.issueDataExportDownloadLink).mockReturnValue({
+        url: '/api/profile/export/job-1/download?token=abc',
+        expiresAt: '2024-01-01T00:15:00.000Z',
+      });
+
+      getExportStatus(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(dataExportService.getDataExportJob).toHaveBeenCalledWith('123', 'job-1');
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'ready',
+          downloadUrl: '/api/profile/export/job-1/download?token=abc',
+          downloadExpiresAt: '2024-01-01T00:15:00.000Z',
+        })
+      );
+    });
+
+    it('should return 404 for an unknown export', () => {
+      mockRequest.params = { id: 'missing' };
+      vi.mocked(dataExportService.getDataExportJob).mockReturnValue(null);
+
+      getExportStatus(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Export not found' });
+    });
+  });
+
+  describe('downloadExport', () => {
+    it('should send the archive as an attachment', () => {
+      mockRequest.params = { id: 'job-1' };
+      mockRequest.query = { token: 'abc' };
+      vi.mocked(dataExportService.getDataExportDownload).mockReturnValue(archive);
+
+      downloadExport(mockRequest as Request, mockResponse as Response);
+
+      expect(dataExportService.getDataExportDownload).toHaveBeenCalledWith('job-1', 'abc');
+      expect(mockResponse.set).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename="personal-data-2024-01-01.json"'
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith(archive);
+    });
+
+    it('should return 400 without a token', () => {
+      mockRequest.params = { id: 'job-1' };
+
+      downloadExport(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(dataExportService.getDataExportDownload).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an invalid or expired link', () => {
+      mockRequest.params = { id: 'job-1' };
+      mockRequest.query = { token: 'stale' };
+      vi.mocked(dataExportService.getDataExportDownload).mockReturnValue(null);
+
+      downloadExport(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Download link is invalid or has expired' });
+    });
+  });
+});
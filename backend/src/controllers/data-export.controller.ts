@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { DataExportJob } from '../types/user.types';
+import {
+  requestDataExport,
+  getDataExportJob,
+  issueDataExportDownloadLink,
+  getDataExportDownload,
+} from '../services/data-export.service';
+
+const getStatusUrl = (job: DataExportJob): string => `/api/profile/export/${job.id}`;
+
+export const requestExport = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const job = requestDataExport(req.userId);
+
+    res.set('Location', getStatusUrl(job));
+    res.status(202).json({
+      id: job.id,
+      status: job.status,
+      createdAt: job.createdAt,
+      statusUrl: getStatusUrl(job),
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getExportStatus = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const job = getDataExportJob(req.userId, req.params.id);
+
+    if (!job) {
+      res.status(404).json({ error: 'Export not found' });
+      return;
+    }
+
+    const download = issueDataExportDownloadLink(job);
+
+    res.json({
+      id: job.id,
+      status: job.status,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+      downloadUrl: download?.url,
+      downloadExpiresAt: download?.expiresAt,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// The download link carries its own token so it also works outside the app, e.g. opened in a new tab
+export const downloadExport = (req: Request, res: Response): void => {
+  try {
+    const { token } = req.query;
+
+    if (typeof token !== 'string' || !token) {
+      res.status(400).json({ error: 'Download token is required' });
+      return;
+    }
+
+    const archive = getDataExportDownload(req.params.id, token);
+
+    if (!archive) {
+      res.status(404).json({ error: 'Download link is invalid or has expired' });
+      return;
+    }
+
+    res.set('Content-Disposition', `attachment; filename="personal-data-${archive.exportedAt.slice(0, 10)}.json"`);
+    res.set('Cache-Control', 'no-store');
+    res.json(archive);
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { OutboxTransport, getMailTransport } from '../services/mail.service';
+
+// Only useful while mail goes to the development outbox; other transports keep no copy
+
+export const listOutbox = (req: Request, res: Response): void => {
+  try {
+    const transport = getMailTransport();
+
+    if (!(transport instanceof OutboxTransport)) {
+      res.status(404).json({ error: 'Mail outbox is not in use' });
+      return;
+    }
+
+    const { to } = req.query;
+    const messages = transport.readMessages().filter(message => typeof to !== 'string' || message.to === to);
+
+    res.json({ messages });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const clearOutbox = (req: Request, res: Response): void => {
+  try {
+    const transport = getMailTransport();
+
+    if (!(transport instanceof OutboxTransport)) {
+      res.status(404).json({ error: 'Mail outbox is not in use' });
+      return;
+    }
+
+    transport.clear();
+
+    res.json({ message: 'Mail outbox cleared' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { verifyEmail, resendVerification } from './email-verification.controller';
+import * as emailVerificationService from '../services/email-verification.service';
+import { User } from '../types/user.types';
+
+// Mock the service layer
+vi.mock('../services/email-verification.service');
+
+describe('Email Verification Controller', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the email with a valid token', () => {
+      mockRequest.body = { token: 'verify-token' };
+      vi.mocked(emailVerificationService.verifyEmail).mockReturnValue({
+        id: '123',
+        email: 'test@example.com',
+        emailVerified: true,
+        emailVerifiedAt: '2024-01-01T00:00:00.000Z',
+      } as User);
+
+      verifyEmail(mockRequest as Request, mockResponse as Response);
+
+      expect(emailVerificationService.verifyEmail).toHaveBeenCalledWith('verify-token');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 for an invalid token', () => {
+      mockRequest.body = { token: 'bad-token' };
+      vi.mocked(emailVerificationService.verifyEmail).mockReturnValue(null);
+
+      verifyEmail(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if the token is missing', () => {
+      verifyEmail(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(emailVerificationService.verifyEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should resend for the sanitized email', () => {
+      mockRequest.body = { email: '  User@Example.com ' };
+
+      resendVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(emailVerificationService.resendVerificationEmail).toHaveBeenCalledWith('user@example.com');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if email is missing or invalid', () => {
+      resendVerification(mockRequest as Request, mockResponse as Response);
+      mockRequest.body = { email: 'not-an-email' };
+      resendVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenNthCalledWith(1, 400);
+      expect(mockResponse.status).toHaveBeenNthCalledWith(2, 400);
+      expect(emailVerificationService.resendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 on internal server error', () => {
+      mockRequest.body = { email: 'user@example.com' };
+      vi.mocked(emailVerificationService.resendVerificationEmail).mockImplementation(() => {
+        throw new Error('Database error');
+      });
+
+      resendVerification(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+});
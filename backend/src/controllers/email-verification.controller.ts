@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { ResendVerificationRequest, VerifyEmailRequest } from '../types/auth.types';
+import {
+  verifyEmail as verifyEmailWithToken,
+  resendVerificationEmail,
+} from '../services/email-verification.service';
+import { isValidEmail, sanitizeEmail } from '../utils/validation';
+
+export const verifyEmail = (req: Request, res: Response): void => {
+  try {
+    const { token }: VerifyEmailRequest = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ error: 'Verification token is required' });
+      return;
+    }
+
+    const user = verifyEmailWithToken(token);
+
+    if (!user) {
+      res.status(400).json({ error: 'Invalid or expired verification token' });
+      return;
+    }
+
+    res.json({
+      message: 'Email address verified',
+      emailVerifiedAt: user.emailVerifiedAt,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const resendVerification = (req: Request, res: Response): void => {
+  try {
+    const { email }: ResendVerificationRequest = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    if (!isValidEmail(email)) {
+      res.status(400).json({ error: 'Invalid email format' });
+      return;
+    }
+
+    resendVerificationEmail(sanitizeEmail(email));
+
+    // Same response whether or not the account exists, to avoid revealing registered emails
+    res.json({ message: 'If this email needs verification, a new link has been sent' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
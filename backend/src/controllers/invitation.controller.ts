@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CreateInvitationRequest, Invitation } from '../types/auth.types';
+import { recordAuditEvent } from '../services/audit.service';
+import {
+  getInvitationStatus,
+  issueInvitation,
+  listAllInvitations,
+  revokeInvitationById,
+} from '../services/invitation.service';
+import { paginate, parsePagination } from '../utils/pagination';
+import { getClientInfo } from '../utils/request';
+
+const toInvitationView = (invitation: Invitation) => ({
+  id: invitation.id,
+  email: invitation.email,
+  maxUses: invitation.maxUses,
+  useCount: invitation.useCount,
+  status: getInvitationStatus(invitation),
+  expiresAt: invitation.expiresAt,
+  revokedAt: invitation.revokedAt,
+  createdBy: invitation.createdBy,
+  createdAt: invitation.createdAt,
+});
+
+export const createInvitation = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { email, maxUses, expiresInDays }: CreateInvitationRequest = req.body || {};
+    const result = issueInvitation(req.userId, { email, maxUses, expiresInDays });
+
+    if (result.status === 'invalid') {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    recordAuditEvent('admin.invitation_created', getClientInfo(req), {
+      actorId: req.userId,
+      details: { invitationId: result.invitation.id, email: result.invitation.email, maxUses: result.invitation.maxUses },
+    });
+
+    // The code is only ever shown in this response
+    res.status(201).json({
+      ...toInvitationView(result.invitation),
+      code: result.code,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const listInvitations = (req: AuthRequest, res: Response): void => {
+  try {
+    const pagination = parsePagination(req.query);
+
+    if (!pagination) {
+      res.status(400).json({ error: 'page and pageSize must be positive integers' });
+      return;
+    }
+
+    const invitations = listAllInvitations();
+
+    res.json({
+      invitations: paginate(invitations, pagination).map(toInvitationView),
+      ...pagination,
+      total: invitations.length,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeInvitation = (req: AuthRequest, res: Response): void => {
+  try {
+    const invitation = revokeInvitationById(req.params.id);
+
+    if (!invitation) {
+      res.status(404).json({ error: 'Invitation not found' });
+      return;
+    }
+
+    recordAuditEvent('admin.invitation_revoked', getClientInfo(req), {
+      actorId: req.userId,
+      details: { invitationId: invitation.id },
+    });
+
+    res.json(toInvitationView(invitation));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
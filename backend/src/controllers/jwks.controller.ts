@@ -0,0 +1,12 @@
+import { Request, Response } from 'express';
+import { getJwks } from '../services/signing-key.service';
+
+export const jwks = (req: Request, res: Response): void => {
+  try {
+    // Keys are published long before they take over, so verifiers never miss one because of this
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(getJwks());
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { requestMagicLink, verifyMagicLink } from './magic-link.controller';
+import * as magicLinkService from '../services/magic-link.service';
+import * as tokenService from '../services/token.service';
+import * as twoFactorService from '../services/two-factor.service';
+import { User } from '../types/user.types';
+
+// Mock the service layer
+vi.mock('../services/magic-link.service');
+vi.mock('../services/token.service');
+vi.mock('../services/two-factor.service');
+
+describe('Magic Link Controller', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    name: 'Test User',
+  } as User;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      body: {},
+      headers: {},
+      ip: '127.0.0.1',
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('requestMagicLink', () => {
+    it('should send a link to the sanitized address', () => {
+      mockRequest.body = { email: '  Test@Example.com ' };
+
+      requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(magicLinkService.requestMagicLink).toHaveBeenCalledWith('test@example.com');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'If an account exists for this email, a sign-in link has been sent',
+      });
+    });
+
+    it('should return 400 if the email is missing', () => {
+      requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(magicLinkService.requestMagicLink).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid email', () => {
+      mockRequest.body = { email: 'not-an-email' };
+
+      requestMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid email format' });
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    it('should respond like login with a valid link', () => {
+      mockRequest.body = { token: 'magic-token' };
+      vi.mocked(magicLinkService.consumeMagicLink).mockReturnValue(mockUser);
+      vi.mocked(tokenService.issueAuthTokens).mockReturnValue({ token: 'access-token', refreshToken: 'refresh-token' });
+
+      verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(magicLinkService.consumeMagicLink).toHaveBeenCalledWith('magic-token');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        token: 'access-token',
+        refreshToken: 'refresh-token',
+        user: { id: '123', email: 'test@example.com', name: 'Test User' },
+      });
+    });
+
+    it('should ask for the second factor when 2FA is enabled', () => {
+      mockRequest.body = { token: 'magic-token' };
+      vi.mocked(magicLinkService.consumeMagicLink).mockReturnValue({ ...mockUser, twoFactorEnabled: true });
+      vi.mocked(twoFactorService.startMfaChallenge).mockReturnValue('mfa-token');
+
+      verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ mfaRequired: true, mfaToken: 'mfa-token' })
+      );
+    });
+
+    it('should return 401 for an invalid or used link', () => {
+      mockRequest.body = { token: 'used-token' };
+      vi.mocked(magicLinkService.consumeMagicLink).mockReturnValue(null);
+
+      verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid or expired sign-in link' });
+    });
+
+    it('should return 400 if the token is missing', () => {
+      verifyMagicLink(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(magicLinkService.consumeMagicLink).not.toHaveBeenCalled();
+    });
+  });
+});
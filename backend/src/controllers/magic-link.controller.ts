@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { MagicLinkRequest, MagicLinkVerifyRequest } from '../types/auth.types';
+import { requestMagicLink as sendMagicLink, consumeMagicLink } from '../services/magic-link.service';
+import { issueAuthTokens } from '../services/token.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import { recordLogin } from '../services/audit.service';
+import { startMfaChallenge } from '../services/two-factor.service';
+import { authConfig } from '../config/auth.config';
+import { getClientInfo } from '../utils/request';
+import { deliverAuthTokens } from '../utils/auth-cookies';
+import { isValidEmail, sanitizeEmail } from '../utils/validation';
+
+export const requestMagicLink = (req: Request, res: Response): void => {
+  try {
+    const { email }: MagicLinkRequest = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    if (!isValidEmail(email)) {
+      res.status(400).json({ error: 'Invalid email format' });
+      return;
+    }
+
+    sendMagicLink(sanitizeEmail(email));
+
+    // Same response whether or not the account exists, to avoid revealing registered emails
+    res.json({ message: 'If an account exists for this email, a sign-in link has been sent' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const verifyMagicLink = (req: Request, res: Response): void => {
+  try {
+    const { token }: MagicLinkVerifyRequest = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ error: 'Token is required' });
+      return;
+    }
+
+    const user = consumeMagicLink(token);
+
+    if (!user) {
+      res.status(401).json({ error: 'Invalid or expired sign-in link' });
+      return;
+    }
+
+    if (isAccountDisabled(user)) {
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    // The link replaces the password, not the second factor
+    if (user.twoFactorEnabled) {
+      res.json({
+        mfaRequired: true,
+        mfaToken: startMfaChallenge(user.id),
+        expiresIn: Math.floor(authConfig.mfaChallengeTtlMs / 1000),
+      });
+      return;
+    }
+
+    const client = getClientInfo(req);
+    const tokens = issueAuthTokens(user.id, client);
+    recordLogin(user.id, 'magic_link', client);
+
+    res.json({
+      ...deliverAuthTokens(req, res, tokens),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import { MockAuthorizeQuery, MockTokenRequest, getMockOidcServer } from '../services/mock-oidc.service';
+
+// Responses follow the OAuth 2.0 and OpenID Connect specs rather than this API's { error } shape
+
+export const discovery = (req: Request, res: Response): void => {
+  res.json(getMockOidcServer().getDiscoveryDocument());
+};
+
+export const jwks = (req: Request, res: Response): void => {
+  res.json(getMockOidcServer().getJwks());
+};
+
+export const authorize = (req: Request, res: Response): void => {
+  const result = getMockOidcServer().authorize(req.query as MockAuthorizeQuery);
+
+  if (result.status === 'error') {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.redirect(302, result.redirectUrl);
+};
+
+export const token = (req: Request, res: Response): void => {
+  const result = getMockOidcServer().exchangeCode((req.body || {}) as MockTokenRequest);
+
+  res.set('Cache-Control', 'no-store');
+
+  if (result.status === 'error') {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  res.json(result.tokens);
+};
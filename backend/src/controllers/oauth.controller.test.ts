@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { startOAuth, oauthCallback, completeOAuth } from './oauth.controller';
+import * as oauthService from '../services/oauth.service';
+import * as emailVerificationService from '../services/email-verification.service';
+import * as twoFactorService from '../services/two-factor.service';
+import * as tokenService from '../services/token.service';
+import { User } from '../types/user.types';
+
+// Mock dependencies
+vi.mock('../services/oauth.service');
+vi.mock('../services/email-verification.service');
+vi.mock('../services/two-factor.service');
+vi.mock('../services/token.service');
+
+describe('OAuth Controller', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const mockUser: User = {
+    id: '123',
+    email: 'test@example.com',
+    password: '$2a$10$hashedpassword',
+    name: 'Test User',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      params: { provider: 'mock' },
+      query: {},
+      headers: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      redirect: vi.fn(),
+      cookie: vi.fn(),
+      clearCookie: vi.fn(),
+    };
+  });
+
+  // The fragment of the URL the callback sends the browser to
+  const redirectOutcome = () => {
+    const [status, url] = vi.mocked(mockResponse.redirect!).mock.calls[0] as unknown as [number, string];
+    expect(status).toBe(302);
+    expect(url.startsWith('http://localhost:5173/oauth/callback#')).toBe(true);
+    return Object.fromEntries(new URLSearchParams(new URL(url).hash.slice(1)));
+  };
+
+  describe('startOAuth', () => {
+    it('should remember the state in a cookie and redirect to the provider', async () => {
+      vi.mocked(oauthService.startOAuthLogin).mockResolvedValue({
+        status: 'ok',
+        authorizationUrl: 'https://idp.example.com/authorize?state=abc',
+        state: 'abc',
+      });
+
+      await startOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(oauthService.startOAuthLogin).toHaveBeenCalledWith('mock');
+      expect(mockResponse.cookie).toHaveBeenCalledWith(
+        'oauth_state',
+        'abc',
+        expect.objectContaining({ httpOnly: true, sameSite: 'lax', path: '/api/auth/oauth' })
+      );
+      expect(mockResponse.redirect).toHaveBeenCalledWith(302, 'https://idp.example.com/authorize?state=abc');
+    });
+
+    it('should return 404 for unknown providers', async () => {
+      vi.mocked(oauthService.startOAuthLogin).mockResolvedValue({ status: 'unknown_provider' });
+
+      await startOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Unknown identity provider' });
+    });
+
+    it('should return 500 when the provider cannot be reached', async () => {
+      vi.mocked(oauthService.startOAuthLogin).mockRejectedValue(new Error('fetch failed'));
+
+      await startOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('oauthCallback', () => {
+    beforeEach(() => {
+      mockRequest.query = { code: 'code-1', state: 'state-1' };
+      mockRequest.headers = { cookie: 'oauth_state=state-1' };
+    });
+
+    it('should hand a one-time code to the frontend', async () => {
+      vi.mocked(oauthService.completeOAuthLogin).mockResolvedValue({ status: 'ok', user: mockUser, created: false });
+      vi.mocked(oauthService.issueOAuthLoginCode).mockReturnValueOnce('login-code');
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(oauthService.completeOAuthLogin).toHaveBeenCalledWith('mock', 'code-1', 'state-1');
+      expect(oauthService.issueOAuthLoginCode).toHaveBeenCalledWith(mockUser);
+      expect(mockResponse.clearCookie).toHaveBeenCalledWith('oauth_state', expect.any(Object));
+      expect(redirectOutcome()).toEqual({ code: 'login-code' });
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback in a browser that did not start the sign-in', async () => {
+      mockRequest.headers = { cookie: 'oauth_state=state-2' };
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(redirectOutcome()).toEqual({ error: 'Sign-in request is invalid or has expired, please try again' });
+      expect(oauthService.completeOAuthLogin).not.toHaveBeenCalled();
+    });
+
+    it('should reject a callback without the state cookie', async () => {
+      mockRequest.headers = {};
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(redirectOutcome().error).toBeDefined();
+      expect(oauthService.completeOAuthLogin).not.toHaveBeenCalled();
+    });
+
+    it('should report that the user denied access at the provider', async () => {
+      mockRequest.query = { error: 'access_denied', state: 'state-1' };
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(redirectOutcome()).toEqual({ error: 'Sign-in was cancelled or denied at the identity provider' });
+      expect(oauthService.completeOAuthLogin).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing code or state', async () => {
+      mockRequest.query = { code: 'code-1' };
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(redirectOutcome()).toEqual({ error: 'Authorization code and state are required' });
+    });
+
+    it('should report when the login cannot be completed', async () => {
+      vi.mocked(oauthService.completeOAuthLogin).mockResolvedValue({
+        status: 'error',
+        error: 'Could not complete sign-in with the identity provider',
+      });
+
+      await oauthCallback(mockRequest as Request, mockResponse as Response);
+
+      expect(redirectOutcome()).toEqual({ error: 'Could not complete sign-in with the identity provider' });
+      expect(oauthService.issueOAuthLoginCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeOAuth', () => {
+    beforeEach(() => {
+      mockRequest.body = { code: 'login-code' };
+      vi.mocked(tokenService.issueAuthTokens).mockReturnValue({
+        token: 'mock-jwt-token',
+        refreshToken: 'mock-refresh-token',
+      });
+    });
+
+    it('should issue tokens for a valid code', () => {
+      vi.mocked(oauthService.consumeOAuthLoginCode).mockReturnValueOnce(mockUser);
+
+      completeOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(oauthService.consumeOAuthLoginCode).toHaveBeenCalledWith('login-code');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        token: 'mock-jwt-token',
+        refreshToken: 'mock-refresh-token',
+        user: { id: '123', email: 'test@example.com', name: 'Test User' },
+      });
+    });
+
+    it('should return 400 without a code', () => {
+      mockRequest.body = {};
+
+      completeOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Code is required' });
+    });
+
+    it('should return 401 for an invalid or used code', () => {
+      vi.mocked(oauthService.consumeOAuthLoginCode).mockReturnValueOnce(null);
+
+      completeOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should require the second factor for users with 2FA', () => {
+      vi.mocked(oauthService.consumeOAuthLoginCode).mockReturnValueOnce({ ...mockUser, twoFactorEnabled: true });
+      vi.mocked(twoFactorService.startMfaChallenge).mockReturnValueOnce('mfa-token');
+
+      completeOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({ mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 });
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 while email verification is pending', () => {
+      vi.mocked(oauthService.consumeOAuthLoginCode).mockReturnValueOnce(mockUser);
+      vi.mocked(emailVerificationService.isEmailVerificationPending).mockReturnValueOnce(true);
+
+      completeOAuth(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { OAuthCallbackQuery, OAuthCompleteRequest } from '../types/auth.types';
+import {
+  startOAuthLogin,
+  completeOAuthLogin,
+  issueOAuthLoginCode,
+  consumeOAuthLoginCode,
+} from '../services/oauth.service';
+import { isEmailVerificationPending } from '../services/email-verification.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import { recordLogin } from '../services/audit.service';
+import { startMfaChallenge } from '../services/two-factor.service';
+import { issueAuthTokens } from '../services/token.service';
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { oauthConfig } from '../config/oauth.config';
+import { getClientInfo } from '../utils/request';
+import {
+  deliverAuthTokens,
+  getCookie,
+  setOAuthStateCookie,
+  clearOAuthStateCookie,
+} from '../utils/auth-cookies';
+
+/**
+ * Sends the browser back to the frontend with the outcome of the callback
+ * The outcome travels in the URL fragment, which is neither sent to servers nor leaked in the Referer header.
+ */
+const redirectToApp = (res: Response, outcome: { code: string } | { error: string }): void => {
+  res.redirect(302, `${mailConfig.appUrl}/oauth/callback#${new URLSearchParams(outcome)}`);
+};
+
+export const startOAuth = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await startOAuthLogin(String(req.params.provider));
+
+    if (result.status === 'unknown_provider') {
+      res.status(404).json({ error: 'Unknown identity provider' });
+      return;
+    }
+
+    setOAuthStateCookie(res, result.state);
+    res.redirect(302, result.authorizationUrl);
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const oauthCallback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code, state, error }: OAuthCallbackQuery = req.query;
+    clearOAuthStateCookie(res);
+
+    if (error) {
+      redirectToApp(res, { error: 'Sign-in was cancelled or denied at the identity provider' });
+      return;
+    }
+
+    if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
+      redirectToApp(res, { error: 'Authorization code and state are required' });
+      return;
+    }
+
+    // Only the browser that started the sign-in holds the state, so nobody can finish
+    // their own sign-in in someone else's browser and log them into the wrong account
+    if (getCookie(req, oauthConfig.stateCookie) !== state) {
+      redirectToApp(res, { error: 'Sign-in request is invalid or has expired, please try again' });
+      return;
+    }
+
+    const result = await completeOAuthLogin(String(req.params.provider), code, state);
+
+    if (result.status === 'unknown_provider') {
+      redirectToApp(res, { error: 'Unknown identity provider' });
+      return;
+    }
+
+    if (result.status === 'error') {
+      redirectToApp(res, { error: result.error });
+      return;
+    }
+
+    redirectToApp(res, { code: issueOAuthLoginCode(result.user) });
+  } catch (error) {
+    redirectToApp(res, { error: 'Could not complete sign-in, please try again' });
+  }
+};
+
+export const completeOAuth = (req: Request, res: Response): void => {
+  try {
+    const { code }: OAuthCompleteRequest = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Code is required' });
+      return;
+    }
+
+    const user = consumeOAuthLoginCode(code);
+
+    if (!user) {
+      res.status(401).json({ error: 'Invalid or expired sign-in code' });
+      return;
+    }
+
+    if (isAccountDisabled(user)) {
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    if (isEmailVerificationPending(user)) {
+      res.status(403).json({ error: 'Please verify your email address before logging in' });
+      return;
+    }
+
+    // Users with 2FA still need their second factor, whoever vouched for the first
+    if (user.twoFactorEnabled) {
+      res.json({
+        mfaRequired: true,
+        mfaToken: startMfaChallenge(user.id),
+        expiresIn: Math.floor(authConfig.mfaChallengeTtlMs / 1000),
+      });
+      return;
+    }
+
+    const client = getClientInfo(req);
+    const tokens = issueAuthTokens(user.id, client);
+    recordLogin(user.id, 'oauth', client);
+
+    res.json({
+      ...deliverAuthTokens(req, res, tokens),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
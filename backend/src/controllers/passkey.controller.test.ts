@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import {
+  passkeyRegistrationOptions,
+  registerPasskey,
+  passkeyLoginOptions,
+  loginWithPasskey,
+  listPasskeys,
+  deletePasskey,
+} from './passkey.controller';
+import * as db from '../database/db';
+import * as passkeyService from '../services/passkey.service';
+import * as emailVerificationService from '../services/email-verification.service';
+import * as tokenService from '../services/token.service';
+import * as twoFactorService from '../services/two-factor.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { PasskeyCredential } from '../types/auth.types';
+import { User } from '../types/user.types';
+
+// Mock dependencies
+vi.mock('../database/db');
+vi.mock('../services/passkey.service');
+vi.mock('../services/email-verification.service');
+vi.mock('../services/token.service');
+vi.mock('../services/two-factor.service');
+
+describe('Passkey Controller', () => {
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+
+  const mockUser: User = {
+    id: '123',
+    email: 'test@example.com',
+    password: '$2a$10$hashedpassword',
+    name: 'Test User',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockPasskey: PasskeyCredential = {
+    id: 'passkey-1',
+    userId: '123',
+    credentialId: 'credential-1',
+    publicKey: { kty: 'EC', crv: 'P-256', x: 'x', y: 'y' },
+    algorithm: -7,
+    signCount: 0,
+    name: 'Laptop',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockCredential = {
+    id: 'credential-1',
+    rawId: 'credential-1',
+    type: 'public-key',
+    response: {},
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      userId: '123',
+      body: {},
+      params: {},
+      headers: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('passkeyRegistrationOptions', () => {
+    it('should return creation options for the current user', () => {
+      const options = { challenge: 'challenge' } as ReturnType<typeof passkeyService.generatePasskeyRegistrationOptions>;
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(passkeyService.generatePasskeyRegistrationOptions).mockReturnValue(options);
+
+      passkeyRegistrationOptions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(passkeyService.generatePasskeyRegistrationOptions).toHaveBeenCalledWith(mockUser);
+      expect(mockResponse.json).toHaveBeenCalledWith(options);
+    });
+
+    it('should return 401 if userId is missing', () => {
+      mockRequest.userId = undefined;
+
+      passkeyRegistrationOptions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('registerPasskey', () => {
+    it('should store a verified passkey', () => {
+      mockRequest.body = { credential: mockCredential, name: 'Laptop' };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(passkeyService.verifyPasskeyRegistration).mockReturnValue({ status: 'ok', passkey: mockPasskey });
+
+      registerPasskey(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(passkeyService.verifyPasskeyRegistration).toHaveBeenCalledWith(mockUser, mockCredential, 'Laptop');
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 when verification fails', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(passkeyService.verifyPasskeyRegistration).mockReturnValue({
+        status: 'error',
+        error: 'Unexpected origin',
+      });
+
+      registerPasskey(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Unexpected origin' });
+    });
+
+    it('should return 400 if the credential is missing', () => {
+      registerPasskey(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(passkeyService.verifyPasskeyRegistration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('passkeyLoginOptions', () => {
+    it('should return request options', () => {
+      const options = { challenge: 'challenge' } as ReturnType<typeof passkeyService.generatePasskeyLoginOptions>;
+      vi.mocked(passkeyService.generatePasskeyLoginOptions).mockReturnValue(options);
+
+      passkeyLoginOptions(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith(options);
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    it('should issue tokens for a verified assertion', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(passkeyService.verifyPasskeyLogin).mockReturnValue({ status: 'ok', user: mockUser, passkey: mockPasskey, userVerified: true });
+      vi.mocked(tokenService.issueAuthTokens).mockReturnValue({
+        token: 'mock-jwt-token',
+        refreshToken: 'mock-refresh-token',
+      });
+
+      loginWithPasskey(mockRequest as Request, mockResponse as Response);
+
+      expect(tokenService.issueAuthTokens).toHaveBeenCalledWith('123', expect.any(Object));
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 401 when verification fails', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(passkeyService.verifyPasskeyLogin).mockReturnValue({ status: 'error', error: 'Invalid signature' });
+
+      loginWithPasskey(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 while email verification is pending', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(passkeyService.verifyPasskeyLogin).mockReturnValue({ status: 'ok', user: mockUser, passkey: mockPasskey, userVerified: true });
+      vi.mocked(emailVerificationService.isEmailVerificationPending).mockReturnValueOnce(true);
+
+      loginWithPasskey(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should ask two-factor users for a code when the authenticator did not verify them', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(passkeyService.verifyPasskeyLogin).mockReturnValue({
+        status: 'ok',
+        user: { ...mockUser, twoFactorEnabled: true },
+        passkey: mockPasskey,
+        userVerified: false,
+      });
+      vi.mocked(twoFactorService.startMfaChallenge).mockReturnValueOnce('mfa-token');
+
+      loginWithPasskey(mockRequest as Request, mockResponse as Response);
+
+      expect(twoFactorService.startMfaChallenge).toHaveBeenCalledWith('123');
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith({ mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 });
+    });
+
+    it('should issue tokens to two-factor users the authenticator verified', () => {
+      mockRequest.body = { credential: mockCredential };
+      vi.mocked(passkeyService.verifyPasskeyLogin).mockReturnValue({
+        status: 'ok',
+        user: { ...mockUser, twoFactorEnabled: true },
+        passkey: mockPasskey,
+        userVerified: true,
+      });
+      vi.mocked(tokenService.issueAuthTokens).mockReturnValue({
+        token: 'mock-jwt-token',
+        refreshToken: 'mock-refresh-token',
+      });
+
+      loginWithPasskey(mockRequest as Request, mockResponse as Response);
+
+      expect(twoFactorService.startMfaChallenge).not.toHaveBeenCalled();
+      expect(tokenService.issueAuthTokens).toHaveBeenCalledWith('123', expect.any(Object));
+    });
+  });
+
+  describe('listPasskeys', () => {
+    it('should list passkeys without key material', () => {
+      vi.mocked(db.findPasskeysByUserId).mockReturnValue([mockPasskey]);
+
+      listPasskeys(mockRequest as AuthRequest, mockResponse as Response);
+
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData.passkeys[0]).not.toHaveProperty('publicKey');
+      expect(responseData).toMatchSnapshot();
+    });
+  });
+
+  describe('deletePasskey', () => {
+    it('should delete one of the user\'s passkeys', () => {
+      mockRequest.params = { id: 'passkey-1' };
+      vi.mocked(db.findPasskeysByUserId).mockReturnValue([mockPasskey]);
+
+      deletePasskey(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(db.deletePasskey).toHaveBeenCalledWith('passkey-1');
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Passkey deleted' });
+    });
+
+    it('should return 404 for passkeys of other users', () => {
+      mockRequest.params = { id: 'someone-elses' };
+      vi.mocked(db.findPasskeysByUserId).mockReturnValue([mockPasskey]);
+
+      deletePasskey(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(db.deletePasskey).not.toHaveBeenCalled();
+    });
+  });
+});
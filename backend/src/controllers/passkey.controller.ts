@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { findUserById, findPasskeysByUserId, deletePasskey as deletePasskeyById } from '../database/db';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { PasskeyLoginRequest, PasskeyRegistrationRequest } from '../types/auth.types';
+import {
+  generatePasskeyRegistrationOptions,
+  verifyPasskeyRegistration,
+  generatePasskeyLoginOptions,
+  verifyPasskeyLogin,
+} from '../services/passkey.service';
+import { isEmailVerificationPending } from '../services/email-verification.service';
+import { issueAuthTokens } from '../services/token.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import { recordLogin } from '../services/audit.service';
+import { startMfaChallenge } from '../services/two-factor.service';
+import { authConfig } from '../config/auth.config';
+import { getClientInfo } from '../utils/request';
+import { deliverAuthTokens } from '../utils/auth-cookies';
+
+export const passkeyRegistrationOptions = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json(generatePasskeyRegistrationOptions(user));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const registerPasskey = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { credential, name }: PasskeyRegistrationRequest = req.body;
+
+    if (!credential) {
+      res.status(400).json({ error: 'Credential is required' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const result = verifyPasskeyRegistration(user, credential, typeof name === 'string' ? name : undefined);
+
+    if (result.status === 'error') {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.status(201).json({
+      id: result.passkey.id,
+      name: result.passkey.name,
+      createdAt: result.passkey.createdAt,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const passkeyLoginOptions = (req: Request, res: Response): void => {
+  try {
+    res.json(generatePasskeyLoginOptions());
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const loginWithPasskey = (req: Request, res: Response): void => {
+  try {
+    const { credential }: PasskeyLoginRequest = req.body;
+
+    if (!credential) {
+      res.status(400).json({ error: 'Credential is required' });
+      return;
+    }
+
+    const result = verifyPasskeyLogin(credential);
+
+    if (result.status === 'error') {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+
+    const { user } = result;
+
+    if (isAccountDisabled(user)) {
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    if (isEmailVerificationPending(user)) {
+      res.status(403).json({ error: 'Please verify your email address before logging in' });
+      return;
+    }
+
+    // A verified passkey already combines possession with a PIN or biometric; a mere touch does not
+    if (user.twoFactorEnabled && !result.userVerified) {
+      res.json({
+        mfaRequired: true,
+        mfaToken: startMfaChallenge(user.id),
+        expiresIn: Math.floor(authConfig.mfaChallengeTtlMs / 1000),
+      });
+      return;
+    }
+
+    const client = getClientInfo(req);
+    const tokens = issueAuthTokens(user.id, client);
+    recordLogin(user.id, 'passkey', client);
+
+    res.json({
+      ...deliverAuthTokens(req, res, tokens),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const listPasskeys = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const passkeys = findPasskeysByUserId(req.userId).map(passkey => ({
+      id: passkey.id,
+      name: passkey.name,
+      createdAt: passkey.createdAt,
+      lastUsedAt: passkey.lastUsedAt,
+    }));
+
+    res.json({ passkeys });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const deletePasskey = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Passkeys of other users are reported as missing rather than forbidden
+    const passkey = findPasskeysByUserId(req.userId).find(entry => entry.id === req.params.id);
+
+    if (!passkey) {
+      res.status(404).json({ error: 'Passkey not found' });
+      return;
+    }
+
+    deletePasskeyById(passkey.id);
+
+    res.json({ message: 'Passkey deleted' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,12 @@
+import { Request, Response } from 'express';
+import { passwordPolicyConfig } from '../config/password-policy.config';
+
+export const getPasswordPolicy = (req: Request, res: Response): void => {
+  try {
+    // Clients validate passwords against the same rules before submitting them
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(passwordPolicyConfig);
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { forgotPassword, resetPassword } from './password-reset.controller';
+import * as passwordResetService from '../services/password-reset.service';
+
+// Mock the service layer
+vi.mock('../services/password-reset.service');
+
+describe('Password Reset Controller', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('forgotPassword', () => {
+    it('should request a reset for the sanitized email', () => {
+      mockRequest.body = { email: '  User@Example.com ' };
+
+      forgotPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(passwordResetService.requestPasswordReset).toHaveBeenCalledWith('user@example.com');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if email is missing', () => {
+      forgotPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(passwordResetService.requestPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if email is invalid', () => {
+      mockRequest.body = { email: 'not-an-email' };
+
+      forgotPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should return 500 on internal server error', () => {
+      mockRequest.body = { email: 'user@example.com' };
+      vi.mocked(passwordResetService.requestPasswordReset).mockImplementation(() => {
+        throw new Error('Database error');
+      });
+
+      forgotPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reset the password with a valid token', async () => {
+      mockRequest.body = { token: 'reset-token', password: 'quiet-harbor-42' };
+      vi.mocked(passwordResetService.resetPassword).mockResolvedValue({ status: 'ok' });
+
+      await resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(passwordResetService.resetPassword).toHaveBeenCalledWith('reset-token', 'quiet-harbor-42');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 for an invalid token', async () => {
+      mockRequest.body = { token: 'bad-token', password: 'quiet-harbor-42' };
+      vi.mocked(passwordResetService.resetPassword).mockResolvedValue({ status: 'invalid_token' });
+
+      await resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if token or password is missing', async () => {
+      mockRequest.body = { token: 'reset-token' };
+
+      await resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(passwordResetService.resetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a weak password', async () => {
+      mockRequest.body = { token: 'reset-token', password: 'short' };
+
+      await resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(passwordResetService.resetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 with the reason when the service rejects the password', async () => {
+      mockRequest.body = { token: 'reset-token', password: 'quiet-harbor-42' };
+      vi.mocked(passwordResetService.resetPassword).mockResolvedValue({
+        status: 'rejected',
+        error: 'This password was used recently, please choose a different one',
+      });
+
+      await resetPassword(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'This password was used recently, please choose a different one',
+      });
+    });
+  });
+});
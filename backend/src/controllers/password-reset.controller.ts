@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { ForgotPasswordRequest, ResetPasswordRequest } from '../types/auth.types';
+import { requestPasswordReset, resetPassword as resetPasswordWithToken } from '../services/password-reset.service';
+import { getPasswordPolicyError } from '../services/password-policy.service';
+import { isValidEmail, sanitizeEmail } from '../utils/validation';
+
+export const forgotPassword = (req: Request, res: Response): void => {
+  try {
+    const { email }: ForgotPasswordRequest = req.body;
+
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    if (!isValidEmail(email)) {
+      res.status(400).json({ error: 'Invalid email format' });
+      return;
+    }
+
+    requestPasswordReset(sanitizeEmail(email));
+
+    // Same response whether or not the account exists, to avoid revealing registered emails
+    res.json({ message: 'If an account exists for this email, a password reset link has been sent' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password }: ResetPasswordRequest = req.body;
+
+    if (!token || !password || typeof token !== 'string') {
+      res.status(400).json({ error: 'Token and password are required' });
+      return;
+    }
+
+    // Rules that depend on the account, such as personal information and history, are checked by the service
+    const policyError = getPasswordPolicyError(password);
+    if (policyError) {
+      res.status(400).json({ error: policyError });
+      return;
+    }
+
+    const result = await resetPasswordWithToken(token, password);
+
+    if (result.status === 'invalid_token') {
+      res.status(400).json({ error: 'Invalid or expired reset token' });
+      return;
+    }
+
+    if (result.status === 'rejected') {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    res.json({ message: 'Password has been reset. Please log in with your new password' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,84 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CreatePersonalAccessTokenRequest, PersonalAccessToken } from '../types/auth.types';
+import { recordUserAction } from '../services/audit.service';
+import {
+  issuePersonalAccessToken,
+  isPersonalAccessTokenExpired,
+  listUserPersonalAccessTokens,
+  revokeUserPersonalAccessToken,
+} from '../services/personal-access-token.service';
+import { getClientInfo } from '../utils/request';
+
+const toTokenView = (accessToken: PersonalAccessToken) => ({
+  id: accessToken.id,
+  name: accessToken.name,
+  scopes: accessToken.scopes,
+  createdAt: accessToken.createdAt,
+  expiresAt: accessToken.expiresAt,
+  lastUsedAt: accessToken.lastUsedAt,
+  expired: isPersonalAccessTokenExpired(accessToken),
+});
+
+export const createPersonalAccessToken = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { name, scopes, expiresInDays }: CreatePersonalAccessTokenRequest = req.body || {};
+    const result = issuePersonalAccessToken(req.userId, { name, scopes, expiresInDays });
+
+    if (result.status === 'invalid') {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    recordUserAction('auth.token_created', req.userId, getClientInfo(req), {
+      details: { tokenId: result.accessToken.id, name: result.accessToken.name, scopes: result.accessToken.scopes },
+    });
+
+    // The token is only ever shown in this response
+    res.status(201).json({
+      ...toTokenView(result.accessToken),
+      token: result.token,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const listPersonalAccessTokens = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    res.json({ tokens: listUserPersonalAccessTokens(req.userId).map(toTokenView) });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokePersonalAccessToken = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    // Tokens of other users are reported as missing rather than forbidden
+    if (!revokeUserPersonalAccessToken(req.userId, req.params.id)) {
+      res.status(404).json({ error: 'Token not found' });
+      return;
+    }
+
+    recordUserAction('auth.token_revoked', req.userId, getClientInfo(req), { details: { tokenId: req.params.id } });
+
+    res.json({ message: 'Token revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,12 +1,22 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Response } from 'express';
-import { getProfile, updateProfile } from './profile.controller';
+import bcrypt from 'bcryptjs';
+import { getProfile, updateProfile, changePassword, deleteAccount } from './profile.controller';
 import * as db from '../database/db';
+import * as emailVerificationService from '../services/email-verification.service';
+import * as sessionService from '../services/session.service';
+import * as personalAccessTokenService from '../services/personal-access-token.service';
+import * as accountDeletionService from '../services/account-deletion.service';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { User } from '../types/user.types';
 
 // Mock database
 vi.mock('../database/db');
+vi.mock('../services/email-verification.service');
+vi.mock('../services/session.service');
+vi.mock('../services/personal-access-token.service');
+vi.mock('../services/account-deletion.service');
+vi.mock('bcryptjs');
 
 describe('Profile Controller', () => {
   let mockRequest: Partial<AuthRequest>;
@@ -90,6 +100,7 @@ describe('Profile Controller', () => {
       updateProfile(mockRequest as AuthRequest, mockResponse as Response);
 
       expect(db.updateUser).toHaveBeenCalledWith('123', { name: 'Updated Name' });
+      expect(emailVerificationService.sendVerificationEmail).not.toHaveBeenCalled();
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
     });
@@ -105,11 +116,46 @@ describe('Profile Controller', () => {
       updateProfile(mockRequest as AuthRequest, mockResponse as Response);
 
       expect(db.findUserByEmail).toHaveBeenCalledWith('newemail@example.com');
-      expect(db.updateUser).toHaveBeenCalledWith('123', { email: 'newemail@example.com' });
+      expect(db.updateUser).toHaveBeenCalledWith('123', {
+        email: 'newemail@example.com',
+        emailVerified: false,
+      });
+      expect(emailVerificationService.sendVerificationEmail).toHaveBeenCalledWith(updatedUser);
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
     });
 
+    it('should audit the before and after values of changed fields', () => {
+      mockRequest.body = { name: 'Updated Name' };
+
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(db.updateUser).mockReturnValue({ ...mockUser, name: 'Updated Name' });
+
+      updateProfile(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(db.createAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'profile.updated',
+        actorId: '123',
+        targetUserId: '123',
+        changes: { name: { from: mockUser.name, to: 'Updated Name' } },
+      }));
+    });
+
+    it('should return 403 when a personal access token tries to change the email', () => {
+      mockRequest.tokenScopes = ['profile:write'];
+      mockRequest.body = { email: 'attacker@example.com' };
+
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+
+      updateProfile(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'The email address cannot be changed with a personal access token',
+      });
+      expect(db.updateUser).not.toHaveBeenCalled();
+    });
+
     it('should update user profile with both name and email', () => {
       mockRequest.body = {
         name: 'Updated Name',
@@ -130,6 +176,7 @@ describe('Profile Controller', () => {
       expect(db.updateUser).toHaveBeenCalledWith('123', {
         name: 'Updated Name',
         email: 'newemail@example.com',
+        emailVerified: false,
       });
       const responseData = (mockResponse.json as any).mock.calls[0][0];
       expect(responseData).toMatchSnapshot();
@@ -215,5 +262,158 @@ describe('Profile Controller', () => {
       expect(responseData).toMatchSnapshot();
     });
   });
-});
 
+  describe('changePassword', () => {
+    beforeEach(() => {
+      mockRequest.sessionId = 'session-1';
+      mockRequest.body = { currentPassword: 'OldPassword1', newPassword: 'NewPassword1' };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(db.updateUser).mockReturnValue(mockUser);
+    });
+
+    it('should store the new password, end the other sessions and revoke tokens', async () => {
+      vi.mocked(bcrypt.compare)
+        .mockResolvedValueOnce(true as never)
+        .mockResolvedValueOnce(false as never);
+      vi.mocked(bcrypt.hash).mockResolvedValue('$2a$10$newhash' as never);
+      vi.mocked(sessionService.endOtherSessions).mockReturnValue(2);
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(bcrypt.compare).toHaveBeenNthCalledWith(1, 'OldPassword1', mockUser.password);
+      expect(db.updateUser).toHaveBeenCalledWith('123', {
+        password: '$2a$10$newhash',
+        passwordHistory: [mockUser.password],
+      });
+      expect(sessionService.endOtherSessions).toHaveBeenCalledWith('123', 'session-1');
+      expect(personalAccessTokenService.revokeAllPersonalAccessTokens).toHaveBeenCalledWith('123');
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Password changed successfully', revoked: 2 });
+    });
+
+    it('should return 400 if a field is missing', async () => {
+      mockRequest.body = { newPassword: 'NewPassword1' };
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Current password and new password are required' });
+    });
+
+    it('should return 400 if the new password is too weak', async () => {
+      mockRequest.body = { currentPassword: 'OldPassword1', newPassword: 'short' };
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the current password is wrong', async () => {
+      vi.mocked(bcrypt.compare).mockResolvedValueOnce(false as never);
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Current password is incorrect' });
+      expect(db.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when reusing the current password', async () => {
+      vi.mocked(bcrypt.compare)
+        .mockResolvedValueOnce(true as never)
+        .mockResolvedValueOnce(true as never);
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'New password must be different from the current password',
+      });
+      expect(sessionService.endOtherSessions).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when reusing a recent password', async () => {
+      vi.mocked(db.findUserById).mockReturnValue({ ...mockUser, passwordHistory: ['$2a$10$previoushash'] });
+      vi.mocked(bcrypt.compare)
+        .mockResolvedValueOnce(true as never)
+        .mockResolvedValueOnce(false as never)
+        .mockResolvedValueOnce(false as never)
+        .mockResolvedValueOnce(true as never);
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(bcrypt.compare).toHaveBeenLastCalledWith('NewPassword1', '$2a$10$previoushash');
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'This password was used recently, please choose a different one',
+      });
+      expect(db.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if userId is missing', async () => {
+      mockRequest.userId = undefined;
+
+      await changePassword(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('deleteAccount', () => {
+    beforeEach(() => {
+      mockRequest.body = { password: 'quiet-harbor-42' };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+    });
+
+    it('should schedule the deletion and return 202', async () => {
+      vi.mocked(bcrypt.compare).mockResolvedValueOnce(true as never);
+      vi.mocked(accountDeletionService.scheduleAccountDeletion).mockReturnValueOnce({
+        ...mockUser,
+        deletionScheduledFor: '2024-02-01T00:00:00.000Z',
+      });
+
+      await deleteAccount(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(accountDeletionService.scheduleAccountDeletion).toHaveBeenCalledWith('123');
+      expect(mockResponse.status).toHaveBeenCalledWith(202);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ deletionScheduledFor: '2024-02-01T00:00:00.000Z' })
+      );
+    });
+
+    it('should return 400 if the password is missing', async () => {
+      mockRequest.body = {};
+
+      await deleteAccount(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Password is required' });
+    });
+
+    it('should return 400 if the password is wrong', async () => {
+      vi.mocked(bcrypt.compare).mockResolvedValueOnce(false as never);
+
+      await deleteAccount(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Password is incorrect' });
+      expect(accountDeletionService.scheduleAccountDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if the user does not exist', async () => {
+      vi.mocked(db.findUserById).mockReturnValueOnce(undefined);
+
+      await deleteAccount(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should return 401 if userId is missing', async () => {
+      mockRequest.userId = undefined;
+
+      await deleteAccount(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+  });
+});
@@ -1,14 +1,21 @@
 import { Response } from 'express';
-import { updateUser, findUserById, findUserByEmail } from '../database/db';
-import { UpdateProfileRequest } from '../types/user.types';
+import { updateUser, findUserById } from '../database/db';
+import { ChangePasswordRequest, DeleteAccountRequest, UpdateProfileRequest } from '../types/user.types';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { IMPERSONATION_BLOCKED_ERROR } from '../middleware/impersonation.middleware';
+import { endOtherSessions } from '../services/session.service';
+import { revokeAllPersonalAccessTokens } from '../services/personal-access-token.service';
+import { scheduleAccountDeletion } from '../services/account-deletion.service';
+import { updateUserProfile } from '../services/profile.service';
+import { diffFields, recordUserAction } from '../services/audit.service';
+import { hashPassword, verifyPassword } from '../services/password-hasher.service';
 import {
-  isValidEmail,
-  isValidName,
-  getNameError,
-  sanitizeEmail,
-  sanitizeName,
-} from '../utils/validation';
+  getNewPasswordError,
+  isRecentPassword,
+  RECENT_PASSWORD_ERROR,
+  withPasswordHistory,
+} from '../services/password-policy.service';
+import { getClientInfo } from '../utils/request';
 
 export const getProfile = (req: AuthRequest, res: Response): void => {
   try {
@@ -28,6 +35,7 @@ export const getProfile = (req: AuthRequest, res: Response): void => {
       id: user.id,
       email: user.email,
       name: user.name,
+      emailVerified: !!user.emailVerified,
     });
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' });
@@ -41,66 +49,156 @@ export const updateProfile = (req: AuthRequest, res: Response): void => {
       return;
     }
     
-    const { name, email }: UpdateProfileRequest = req.body;
-    
-    if (!name && !email) {
-      res.status(400).json({ error: 'At least one field (name or email) is required' });
+    const updates: UpdateProfileRequest = req.body || {};
+
+    // The email address is a sign-in credential, so admins acting as the user may not change it
+    if (req.actorId && updates.email !== undefined) {
+      res.status(403).json({ error: IMPERSONATION_BLOCKED_ERROR });
       return;
     }
 
-    // Validate email format if provided
-    if (email !== undefined) {
-      if (!isValidEmail(email)) {
-        res.status(400).json({ error: 'Invalid email format' });
-        return;
-      }
+    // Nor may a leaked token, which could otherwise take the account over through a password reset
+    if (req.tokenScopes && updates.email !== undefined) {
+      res.status(403).json({ error: 'The email address cannot be changed with a personal access token' });
+      return;
     }
 
-    // Validate name if provided
-    if (name !== undefined) {
-      const nameError = getNameError(name);
-      if (nameError) {
-        res.status(400).json({ error: nameError });
-        return;
-      }
-    }
-    
-    // Build updates object with only defined and validated fields
-    const updates: { name?: string; email?: string } = {};
-    if (name !== undefined) {
-      updates.name = sanitizeName(name);
-    }
-    if (email !== undefined) {
-      updates.email = sanitizeEmail(email);
-    }
-
-    // If email is being updated, check if it's already taken
-    if (email) {
-      const sanitizedEmail = sanitizeEmail(email);
-      const existingUser = findUserById(req.userId);
-      if (existingUser && existingUser.email !== sanitizedEmail) {
-        const emailTaken = findUserByEmail(sanitizedEmail);
-        if (emailTaken) {
-          res.status(400).json({ error: 'Email already in use' });
-          return;
-        }
-      }
+    const before = findUserById(req.userId);
+    const result = updateUserProfile(req.userId, updates);
+
+    if (result.status === 'invalid') {
+      res.status(400).json({ error: result.error });
+      return;
     }
-    
-    const updatedUser = updateUser(req.userId, updates);
-    
-    if (!updatedUser) {
+
+    if (result.status === 'not_found') {
       res.status(404).json({ error: 'User not found' });
       return;
     }
-    
+
+    const updatedUser = result.user;
+    const changes = diffFields(before!, updatedUser, ['name', 'email']);
+
+    if (changes) {
+      recordUserAction('profile.updated', updatedUser.id, getClientInfo(req), { changes });
+    }
+
     res.json({
       id: updatedUser.id,
       email: updatedUser.email,
       name: updatedUser.name,
+      emailVerified: !!updatedUser.emailVerified,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { currentPassword, newPassword }: ChangePasswordRequest = req.body;
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ error: 'Current password and new password are required' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const passwordError = getNewPasswordError(newPassword, user);
+    if (passwordError) {
+      res.status(400).json({ error: passwordError });
+      return;
+    }
+
+    const isPasswordValid = await verifyPassword(currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      res.status(400).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    if (await verifyPassword(newPassword, user.password)) {
+      res.status(400).json({ error: 'New password must be different from the current password' });
+      return;
+    }
+
+    if (await isRecentPassword(user, newPassword)) {
+      res.status(400).json({ error: RECENT_PASSWORD_ERROR });
+      return;
+    }
+
+    const hashedPassword = await hashPassword(newPassword);
+    updateUser(user.id, withPasswordHistory(user, hashedPassword));
+
+    // Sign out every other device and revoke tokens, in case the old password was compromised
+    const revoked = endOtherSessions(user.id, req.sessionId);
+    const revokedTokens = revokeAllPersonalAccessTokens(user.id);
+    recordUserAction('profile.password_changed', user.id, getClientInfo(req), {
+      details: { revokedSessions: revoked, revokedTokens },
     });
+
+    res.json({ message: 'Password changed successfully', revoked });
   } catch (error) {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
 
+export const deleteAccount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { password }: DeleteAccountRequest = req.body;
+
+    if (!password) {
+      res.status(400).json({ error: 'Password is required' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const isPasswordValid = await verifyPassword(password, user.password);
+
+    if (!isPasswordValid) {
+      res.status(400).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    // Signs the user out everywhere; the account is only purged after the grace period
+    const scheduled = scheduleAccountDeletion(user.id);
+
+    if (!scheduled) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    recordUserAction('profile.deletion_requested', user.id, getClientInfo(req), {
+      details: { deletionScheduledFor: scheduled.deletionScheduledFor },
+    });
+
+    res.status(202).json({
+      message: 'Account scheduled for deletion, log in before then to cancel',
+      deletionScheduledFor: scheduled.deletionScheduledFor,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Response } from 'express';
+import { listSessions, revokeSession, revokeOtherSessions } from './session.controller';
+import * as db from '../database/db';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { Session } from '../types/auth.types';
+
+// Mock database
+vi.mock('../database/db');
+
+describe('Session Controller', () => {
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-1',
+    userId: '123',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastSeenAt: '2024-01-01T00:00:00.000Z',
+    expiresAt: '2099-01-01T00:00:00.000Z',
+    userAgent: 'Mozilla/5.0',
+    ip: '127.0.0.1',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      userId: '123',
+      sessionId: 'session-1',
+      params: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', () => {
+      vi.mocked(db.findSessionsByUserId).mockReturnValue([
+        createSession(),
+        createSession({ id: 'session-2', lastSeenAt: '2024-01-02T00:00:00.000Z', userAgent: 'curl/8.0' }),
+        createSession({ id: 'session-3', expiresAt: '2020-01-01T00:00:00.000Z' }),
+      ]);
+
+      listSessions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(db.findSessionsByUserId).toHaveBeenCalledWith('123');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 401 if userId is missing', () => {
+      mockRequest.userId = undefined;
+
+      listSessions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should return 500 on internal server error', () => {
+      vi.mocked(db.findSessionsByUserId).mockImplementation(() => {
+        throw new Error('Database error');
+      });
+
+      listSessions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should end the given session', () => {
+      mockRequest.params = { id: 'session-2' };
+      vi.mocked(db.findSessionById).mockReturnValue(createSession({ id: 'session-2' }));
+
+      revokeSession(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(db.deleteSession).toHaveBeenCalledWith('session-2');
+      expect(db.revokeRefreshTokenFamily).toHaveBeenCalledWith('session-2');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 404 if the session does not exist', () => {
+      mockRequest.params = { id: 'missing' };
+      vi.mocked(db.findSessionById).mockReturnValue(undefined);
+
+      revokeSession(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(db.deleteSession).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a session of another user', () => {
+      mockRequest.params = { id: 'session-9' };
+      vi.mocked(db.findSessionById).mockReturnValue(createSession({ id: 'session-9', userId: '456' }));
+
+      revokeSession(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(db.deleteSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should end every session except the current one', () => {
+      vi.mocked(db.findSessionsByUserId).mockReturnValue([
+        createSession(),
+        createSession({ id: 'session-2' }),
+        createSession({ id: 'session-3' }),
+      ]);
+
+      revokeOtherSessions(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(db.deleteSession).toHaveBeenCalledTimes(2);
+      expect(db.deleteSession).not.toHaveBeenCalledWith('session-1');
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Other sessions revoked', revoked: 2 });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Response } from 'express';
+import { findSessionById } from '../database/db';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { listActiveSessions, endSession, endOtherSessions } from '../services/session.service';
+
+export const listSessions = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const sessions = listActiveSessions(req.userId).map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      current: session.id === req.sessionId,
+    }));
+
+    res.json({ sessions });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeSession = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const session = findSessionById(req.params.id);
+
+    // Sessions of other users are reported as missing rather than forbidden
+    if (!session || session.userId !== req.userId) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    endSession(session.id);
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const revokeOtherSessions = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const revoked = endOtherSessions(req.userId, req.sessionId);
+
+    res.json({ message: 'Other sessions revoked', revoked });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
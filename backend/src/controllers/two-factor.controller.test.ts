@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { setupTwoFactor, confirmTwoFactor, disableTwoFactor, verifyMfa } from './two-factor.controller';
+import * as db from '../database/db';
+import * as twoFactorService from '../services/two-factor.service';
+import * as tokenService from '../services/token.service';
+import * as loginThrottleService from '../services/login-throttle.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { User } from '../types/user.types';
+
+// Mock dependencies
+vi.mock('bcryptjs');
+vi.mock('../database/db');
+vi.mock('../services/two-factor.service');
+vi.mock('../services/token.service');
+vi.mock('../services/login-throttle.service');
+
+describe('Two-Factor Controller', () => {
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+
+  const mockUser: User = {
+    id: '123',
+    email: 'test@example.com',
+    password: '$2a$10$hashedpassword',
+    name: 'Test User',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  const enabledUser: User = {
+    ...mockUser,
+    twoFactorEnabled: true,
+    twoFactorSecret: 'SECRET',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRequest = {
+      userId: '123',
+      body: {},
+      headers: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+      set: vi.fn().mockReturnThis(),
+    };
+
+    vi.mocked(loginThrottleService.checkSecondFactorAllowed).mockReturnValue({ status: 'allowed' });
+  });
+
+  describe('setupTwoFactor', () => {
+    it('should return the secret and otpauth URI', () => {
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+      vi.mocked(twoFactorService.beginTwoFactorSetup).mockReturnValue({
+        secret: 'SECRET',
+        otpauthUri: 'otpauth://totp/QA%20Testing%20App%3Atest%40example.com?secret=SECRET',
+      });
+
+      setupTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(twoFactorService.beginTwoFactorSetup).toHaveBeenCalledWith(mockUser);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if 2FA is already enabled', () => {
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+
+      setupTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(twoFactorService.beginTwoFactorSetup).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if userId is missing', () => {
+      mockRequest.userId = undefined;
+
+      setupTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('confirmTwoFactor', () => {
+    it('should enable 2FA and return recovery codes', () => {
+      mockRequest.body = { code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue({ ...mockUser, twoFactorPendingSecret: 'SECRET' });
+      vi.mocked(twoFactorService.confirmTwoFactorSetup).mockReturnValue(['aaaaa-bbbbb', 'ccccc-ddddd']);
+
+      confirmTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 for an invalid code', () => {
+      mockRequest.body = { code: '000000' };
+      vi.mocked(db.findUserById).mockReturnValue({ ...mockUser, twoFactorPendingSecret: 'SECRET' });
+      vi.mocked(twoFactorService.confirmTwoFactorSetup).mockReturnValue(null);
+
+      confirmTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid verification code' });
+      expect(loginThrottleService.recordSecondFactorFailure).toHaveBeenCalledWith('123');
+    });
+
+    it('should return 429 without checking the code after too many wrong codes', () => {
+      mockRequest.body = { code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue({ ...mockUser, twoFactorPendingSecret: 'SECRET' });
+      vi.mocked(loginThrottleService.checkSecondFactorAllowed).mockReturnValueOnce({ status: 'locked', retryAfterSeconds: 900 });
+
+      confirmTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', '900');
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(twoFactorService.confirmTwoFactorSetup).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if setup was not started', () => {
+      mockRequest.body = { code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+
+      confirmTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(twoFactorService.confirmTwoFactorSetup).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the code is missing', () => {
+      confirmTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should disable 2FA with the password and a valid code', async () => {
+      mockRequest.body = { password: 'quiet-harbor-42', code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(twoFactorService.verifySecondFactor).mockReturnValue(true);
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(twoFactorService.disableTwoFactor).toHaveBeenCalledWith('123');
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 for a wrong password', async () => {
+      mockRequest.body = { password: 'wrongpassword', code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(false as never);
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(twoFactorService.disableTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a wrong code', async () => {
+      mockRequest.body = { password: 'quiet-harbor-42', code: '000000' };
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      vi.mocked(twoFactorService.verifySecondFactor).mockReturnValue(false);
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(twoFactorService.disableTwoFactor).not.toHaveBeenCalled();
+      expect(loginThrottleService.recordSecondFactorFailure).toHaveBeenCalledWith('123');
+    });
+
+    it('should return 429 without checking the code after too many wrong codes', async () => {
+      mockRequest.body = { password: 'quiet-harbor-42', code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+      vi.mocked(loginThrottleService.checkSecondFactorAllowed).mockReturnValueOnce({ status: 'locked', retryAfterSeconds: 900 });
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(twoFactorService.verifySecondFactor).not.toHaveBeenCalled();
+      expect(twoFactorService.disableTwoFactor).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the code or password is not a string', async () => {
+      mockRequest.body = { password: 'quiet-harbor-42', code: 123456 };
+      vi.mocked(db.findUserById).mockReturnValue(enabledUser);
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Password and verification code are required' });
+      expect(twoFactorService.verifySecondFactor).not.toHaveBeenCalled();
+
+      mockRequest.body = { password: ['quiet-harbor-42'], code: '123456' };
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if 2FA is not enabled', async () => {
+      mockRequest.body = { password: 'quiet-harbor-42', code: '123456' };
+      vi.mocked(db.findUserById).mockReturnValue(mockUser);
+
+      await disableTwoFactor(mockRequest as AuthRequest, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('verifyMfa', () => {
+    it('should issue tokens once the second factor is verified', () => {
+      mockRequest.body = { mfaToken: 'mfa-token', code: '123456' };
+      vi.mocked(twoFactorService.completeMfaChallenge).mockReturnValue({ status: 'ok', user: enabledUser });
+      vi.mocked(tokenService.issueAuthTokens).mockReturnValue({
+        token: 'mock-jwt-token',
+        refreshToken: 'mock-refresh-token',
+      });
+
+      verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(twoFactorService.completeMfaChallenge).toHaveBeenCalledWith('mfa-token', '123456', expect.any(String));
+      expect(tokenService.issueAuthTokens).toHaveBeenCalledWith('123', expect.any(Object));
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 401 for an invalid code', () => {
+      mockRequest.body = { mfaToken: 'mfa-token', code: '000000' };
+      vi.mocked(twoFactorService.completeMfaChallenge).mockReturnValue({ status: 'invalid_code', userId: 'user-123' });
+
+      verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return 423 with Retry-After once wrong codes have locked the account', () => {
+      mockRequest.body = { mfaToken: 'mfa-token', code: '123456' };
+      vi.mocked(twoFactorService.completeMfaChallenge).mockReturnValue({ status: 'locked', retryAfterSeconds: 900 });
+
+      verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.set).toHaveBeenCalledWith('Retry-After', '900');
+      expect(mockResponse.status).toHaveBeenCalledWith(423);
+      expect(tokenService.issueAuthTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for an invalid or expired challenge', () => {
+      mockRequest.body = { mfaToken: 'expired', code: '123456' };
+      vi.mocked(twoFactorService.completeMfaChallenge).mockReturnValue({ status: 'invalid_challenge' });
+
+      verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      const responseData = (mockResponse.json as any).mock.calls[0][0];
+      expect(responseData).toMatchSnapshot();
+    });
+
+    it('should return 400 if the token or code is missing', () => {
+      mockRequest.body = { mfaToken: 'mfa-token' };
+
+      verifyMfa(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(twoFactorService.completeMfaChallenge).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { Request, Response } from 'express';
+import { findUserById } from '../database/db';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { MfaVerifyRequest, TwoFactorCodeRequest, TwoFactorDisableRequest } from '../types/auth.types';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  disableTwoFactor as disableTwoFactorForUser,
+  verifySecondFactor,
+  completeMfaChallenge,
+} from '../services/two-factor.service';
+import { issueAuthTokens } from '../services/token.service';
+import {
+  checkSecondFactorAllowed,
+  recordSecondFactorFailure,
+  recordSecondFactorSuccess,
+} from '../services/login-throttle.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import { verifyPassword } from '../services/password-hasher.service';
+import { recordAuditEvent, recordLogin } from '../services/audit.service';
+import { getClientInfo } from '../utils/request';
+import { deliverAuthTokens } from '../utils/auth-cookies';
+
+/**
+ * Turns away users who entered too many wrong codes in their 2FA settings
+ * Returns true if the response has been sent.
+ */
+const rejectIfSecondFactorLocked = (userId: string, res: Response): boolean => {
+  const throttle = checkSecondFactorAllowed(userId);
+  if (throttle.status === 'allowed') {
+    return false;
+  }
+
+  res.set('Retry-After', String(throttle.retryAfterSeconds));
+  res.status(429).json({ error: 'Too many invalid verification codes, please try again later' });
+  return true;
+};
+
+export const setupTwoFactor = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    res.json(beginTwoFactorSetup(user));
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const confirmTwoFactor = (req: AuthRequest, res: Response): void => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { code }: TwoFactorCodeRequest = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Verification code is required' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({ error: 'Two-factor setup has not been started' });
+      return;
+    }
+
+    if (rejectIfSecondFactorLocked(user.id, res)) {
+      return;
+    }
+
+    const recoveryCodes = confirmTwoFactorSetup(user, code);
+
+    if (!recoveryCodes) {
+      recordSecondFactorFailure(user.id);
+      res.status(400).json({ error: 'Invalid verification code' });
+      return;
+    }
+
+    recordSecondFactorSuccess(user.id);
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { password, code }: TwoFactorDisableRequest = req.body;
+
+    if (!password || !code || typeof password !== 'string' || typeof code !== 'string') {
+      res.status(400).json({ error: 'Password and verification code are required' });
+      return;
+    }
+
+    const user = findUserById(req.userId);
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (rejectIfSecondFactorLocked(user.id, res)) {
+      return;
+    }
+
+    const isPasswordValid = await verifyPassword(password, user.password);
+
+    if (!isPasswordValid) {
+      res.status(400).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    if (!verifySecondFactor(user, code)) {
+      recordSecondFactorFailure(user.id);
+      res.status(400).json({ error: 'Invalid verification code' });
+      return;
+    }
+
+    recordSecondFactorSuccess(user.id);
+    disableTwoFactorForUser(user.id);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const verifyMfa = (req: Request, res: Response): void => {
+  try {
+    const { mfaToken, code }: MfaVerifyRequest = req.body;
+
+    if (!mfaToken || !code || typeof mfaToken !== 'string' || typeof code !== 'string') {
+      res.status(400).json({ error: 'MFA token and verification code are required' });
+      return;
+    }
+
+    const result = completeMfaChallenge(mfaToken, code, getClientInfo(req).ip);
+
+    if (result.status === 'locked') {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      res.status(423).json({ error: 'Account temporarily locked due to too many failed login attempts, please try again later' });
+      return;
+    }
+
+    if (result.status === 'throttled') {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      res.status(429).json({ error: 'Too many login attempts, please try again later' });
+      return;
+    }
+
+    if (result.status === 'invalid_challenge') {
+      res.status(401).json({ error: 'MFA challenge is invalid or has expired, please log in again' });
+      return;
+    }
+
+    if (result.status === 'invalid_code') {
+      recordAuditEvent('auth.login_failed', getClientInfo(req), {
+        targetUserId: result.userId,
+        details: { reason: 'invalid_second_factor' },
+      });
+      res.status(401).json({ error: 'Invalid verification code' });
+      return;
+    }
+
+    const { user } = result;
+
+    if (isAccountDisabled(user)) {
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    const client = getClientInfo(req);
+    const tokens = issueAuthTokens(user.id, client);
+    recordLogin(user.id, 'two_factor', client);
+
+    res.json({
+      ...deliverAuthTokens(req, res, tokens),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,6 +1,23 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { User } from '../types/user.types';
+import { DataExportJob, User } from '../types/user.types';
+import { AuditEvent } from '../types/audit.types';
+import {
+  ActionToken,
+  ActionTokenPurpose,
+  LoginAttempt,
+  OAuthIdentity,
+  OAuthState,
+  PasskeyCredential,
+  Invitation,
+  PersonalAccessToken,
+  RefreshToken,
+  RevokedToken,
+  Session,
+  SigningKey,
+  WebAuthnChallenge,
+} from '../types/auth.types';
 import { Database } from './db.interface';
 
 export class FileDatabase implements Database {
@@ -30,6 +47,28 @@ export class FileDatabase implements Database {
     fs.writeFileSync(this.dbPath, JSON.stringify(users, null, 2));
   }
 
+  /**
+   * Collections other than users live next to the users file,
+   * e.g. users.json -> users.refresh-tokens.json
+   */
+  private collectionPath(name: string): string {
+    const baseName = path.basename(this.dbPath, '.json');
+    return path.join(path.dirname(this.dbPath), `${baseName}.${name}.json`);
+  }
+
+  private readCollection<T>(name: string): T[] {
+    try {
+      const data = fs.readFileSync(this.collectionPath(name), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeCollection<T>(name: string, items: T[]): void {
+    fs.writeFileSync(this.collectionPath(name), JSON.stringify(items, null, 2));
+  }
+
   findUserByEmail(email: string): User | undefined {
     const users = this.readUsers();
     return users.find(user => user.email === email);
@@ -71,8 +110,600 @@ export class FileDatabase implements Database {
     return users[userIndex];
   }
 
+  deleteUser(id: string): boolean {
+    const users = this.readUsers();
+    const remaining = users.filter(user => user.id !== id);
+    if (remaining.length === users.length) {
+      return false;
+    }
+    this.writeUsers(remaining);
+
+    this.removeOwnedBy<RefreshToken>('refresh-tokens', id);
+    this.removeOwnedBy<Session>('sessions', id);
+    this.removeOwnedBy<ActionToken>('action-tokens', id);
+    this.removeOwnedBy<PasskeyCredential>('passkeys', id);
+    this.removeOwnedBy<PersonalAccessToken>('personal-access-tokens', id);
+    this.removeOwnedBy<WebAuthnChallenge>('webauthn-challenges', id);
+    this.removeOwnedBy<OAuthIdentity>('oauth-identities', id);
+    this.removeOwnedBy<DataExportJob>('data-export-jobs', id);
+    return true;
+  }
+
+  private removeOwnedBy<T extends { userId?: string }>(name: string, userId: string): void {
+    const items = this.readCollection<T>(name);
+    const remaining = items.filter(item => item.userId !== userId);
+    if (remaining.length !== items.length) {
+      this.writeCollection(name, remaining);
+    }
+  }
+
+  createRefreshToken(tokenData: Omit<RefreshToken, 'id' | 'createdAt'>): RefreshToken {
+    const tokens = this.readCollection<RefreshToken>('refresh-tokens');
+    const newToken: RefreshToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    tokens.push(newToken);
+    this.writeCollection('refresh-tokens', tokens);
+    return newToken;
+  }
+
+  findRefreshTokenByHash(tokenHash: string): RefreshToken | undefined {
+    const tokens = this.readCollection<RefreshToken>('refresh-tokens');
+    return tokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  updateRefreshToken(id: string, updates: Partial<Omit<RefreshToken, 'id' | 'createdAt'>>): RefreshToken | null {
+    const tokens = this.readCollection<RefreshToken>('refresh-tokens');
+    const tokenIndex = tokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    tokens[tokenIndex] = {
+      ...tokens[tokenIndex],
+      ...updates,
+    };
+
+    this.writeCollection('refresh-tokens', tokens);
+    return tokens[tokenIndex];
+  }
+
+  revokeRefreshTokenFamily(familyId: string): void {
+    const revokedAt = new Date().toISOString();
+    const tokens = this.readCollection<RefreshToken>('refresh-tokens').map(token =>
+      token.familyId === familyId && !token.revokedAt ? { ...token, revokedAt } : token
+    );
+    this.writeCollection('refresh-tokens', tokens);
+  }
+
+  revokeToken(jti: string, expiresAt: string): void {
+    const tokens = this.readCollection<RevokedToken>('revoked-tokens');
+    if (tokens.some(token => token.jti === jti)) {
+      return;
+    }
+    tokens.push({ jti, expiresAt, revokedAt: new Date().toISOString() });
+    this.writeCollection('revoked-tokens', tokens);
+  }
+
+  isTokenRevoked(jti: string): boolean {
+    const tokens = this.readCollection<RevokedToken>('revoked-tokens');
+    return tokens.some(token => token.jti === jti);
+  }
+
+  pruneRevokedTokens(now: Date = new Date()): number {
+    const tokens = this.readCollection<RevokedToken>('revoked-tokens');
+    const remaining = tokens.filter(token => new Date(token.expiresAt) > now);
+    if (remaining.length !== tokens.length) {
+      this.writeCollection('revoked-tokens', remaining);
+    }
+    return tokens.length - remaining.length;
+  }
+
+  createSession(sessionData: Omit<Session, 'createdAt' | 'lastSeenAt'>): Session {
+    const sessions = this.readCollection<Session>('sessions');
+    const now = new Date().toISOString();
+    const newSession: Session = {
+      ...sessionData,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    sessions.push(newSession);
+    this.writeCollection('sessions', sessions);
+    return newSession;
+  }
+
+  findSessionById(id: string): Session | undefined {
+    const sessions = this.readCollection<Session>('sessions');
+    return sessions.find(session => session.id === id);
+  }
+
+  findSessionsByUserId(userId: string): Session[] {
+    const sessions = this.readCollection<Session>('sessions');
+    return sessions.filter(session => session.userId === userId);
+  }
+
+  updateSession(id: string, updates: Partial<Omit<Session, 'id' | 'userId' | 'createdAt'>>): Session | null {
+    const sessions = this.readCollection<Session>('sessions');
+    const sessionIndex = sessions.findIndex(session => session.id === id);
+
+    if (sessionIndex === -1) {
+      return null;
+    }
+
+    sessions[sessionIndex] = {
+      ...sessions[sessionIndex],
+      ...updates,
+    };
+
+    this.writeCollection('sessions', sessions);
+    return sessions[sessionIndex];
+  }
+
+  deleteSession(id: string): boolean {
+    const sessions = this.readCollection<Session>('sessions');
+    const remaining = sessions.filter(session => session.id !== id);
+    if (remaining.length === sessions.length) {
+      return false;
+    }
+    this.writeCollection('sessions', remaining);
+    return true;
+  }
+
+  createActionToken(tokenData: Omit<ActionToken, 'id' | 'createdAt'>): ActionToken {
+    const tokens = this.readCollection<ActionToken>('action-tokens');
+    const newToken: ActionToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    tokens.push(newToken);
+    this.writeCollection('action-tokens', tokens);
+    return newToken;
+  }
+
+  findActionTokenByHash(tokenHash: string): ActionToken | undefined {
+    const tokens = this.readCollection<ActionToken>('action-tokens');
+    return tokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  updateActionToken(id: string, updates: Partial<Omit<ActionToken, 'id' | 'createdAt'>>): ActionToken | null {
+    const tokens = this.readCollection<ActionToken>('action-tokens');
+    const tokenIndex = tokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    tokens[tokenIndex] = {
+      ...tokens[tokenIndex],
+      ...updates,
+    };
+
+    this.writeCollection('action-tokens', tokens);
+    return tokens[tokenIndex];
+  }
+
+  deleteActionTokens(userId: string, purpose: ActionTokenPurpose): number {
+    const tokens = this.readCollection<ActionToken>('action-tokens');
+    const remaining = tokens.filter(token => token.userId !== userId || token.purpose !== purpose);
+    if (remaining.length !== tokens.length) {
+      this.writeCollection('action-tokens', remaining);
+    }
+    return tokens.length - remaining.length;
+  }
+
+  createPasskey(passkeyData: Omit<PasskeyCredential, 'id' | 'createdAt'>): PasskeyCredential {
+    const passkeys = this.readCollection<PasskeyCredential>('passkeys');
+    const newPasskey: PasskeyCredential = {
+      ...passkeyData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    passkeys.push(newPasskey);
+    this.writeCollection('passkeys', passkeys);
+    return newPasskey;
+  }
+
+  findPasskeyByCredentialId(credentialId: string): PasskeyCredential | undefined {
+    const passkeys = this.readCollection<PasskeyCredential>('passkeys');
+    return passkeys.find(passkey => passkey.credentialId === credentialId);
+  }
+
+  findPasskeysByUserId(userId: string): PasskeyCredential[] {
+    const passkeys = this.readCollection<PasskeyCredential>('passkeys');
+    return passkeys.filter(passkey => passkey.userId === userId);
+  }
+
+  updatePasskey(id: string, updates: Partial<Pick<PasskeyCredential, 'name' | 'signCount' | 'lastUsedAt'>>): PasskeyCredential | null {
+    const passkeys = this.readCollection<PasskeyCredential>('passkeys');
+    const passkeyIndex = passkeys.findIndex(passkey => passkey.id === id);
+
+    if (passkeyIndex === -1) {
+      return null;
+    }
+
+    passkeys[passkeyIndex] = {
+      ...passkeys[passkeyIndex],
+      ...updates,
+    };
+
+    this.writeCollection('passkeys', passkeys);
+    return passkeys[passkeyIndex];
+  }
+
+  deletePasskey(id: string): boolean {
+    const passkeys = this.readCollection<PasskeyCredential>('passkeys');
+    const remaining = passkeys.filter(passkey => passkey.id !== id);
+    if (remaining.length === passkeys.length) {
+      return false;
+    }
+    this.writeCollection('passkeys', remaining);
+    return true;
+  }
+
+  createPersonalAccessToken(tokenData: Omit<PersonalAccessToken, 'id' | 'createdAt'>): PersonalAccessToken {
+    const tokens = this.readCollection<PersonalAccessToken>('personal-access-tokens');
+    const newToken: PersonalAccessToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    tokens.push(newToken);
+    this.writeCollection('personal-access-tokens', tokens);
+    return newToken;
+  }
+
+  findPersonalAccessTokenByHash(tokenHash: string): PersonalAccessToken | undefined {
+    const tokens = this.readCollection<PersonalAccessToken>('personal-access-tokens');
+    return tokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  findPersonalAccessTokensByUserId(userId: string): PersonalAccessToken[] {
+    const tokens = this.readCollection<PersonalAccessToken>('personal-access-tokens');
+    return tokens.filter(token => token.userId === userId);
+  }
+
+  updatePersonalAccessToken(id: string, updates: Partial<Pick<PersonalAccessToken, 'lastUsedAt'>>): PersonalAccessToken | null {
+    const tokens = this.readCollection<PersonalAccessToken>('personal-access-tokens');
+    const tokenIndex = tokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    tokens[tokenIndex] = {
+      ...tokens[tokenIndex],
+      ...updates,
+    };
+
+    this.writeCollection('personal-access-tokens', tokens);
+    return tokens[tokenIndex];
+  }
+
+  deletePersonalAccessToken(id: string): boolean {
+    const tokens = this.readCollection<PersonalAccessToken>('personal-access-tokens');
+    const remaining = tokens.filter(token => token.id !== id);
+    if (remaining.length === tokens.length) {
+      return false;
+    }
+    this.writeCollection('personal-access-tokens', remaining);
+    return true;
+  }
+
+  createInvitation(invitationData: Omit<Invitation, 'id' | 'createdAt'>): Invitation {
+    const invitations = this.readCollection<Invitation>('invitations');
+    const newInvitation: Invitation = {
+      ...invitationData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    invitations.push(newInvitation);
+    this.writeCollection('invitations', invitations);
+    return newInvitation;
+  }
+
+  findInvitationById(id: string): Invitation | undefined {
+    const invitations = this.readCollection<Invitation>('invitations');
+    return invitations.find(invitation => invitation.id === id);
+  }
+
+  findInvitationByCodeHash(codeHash: string): Invitation | undefined {
+    const invitations = this.readCollection<Invitation>('invitations');
+    return invitations.find(invitation => invitation.codeHash === codeHash);
+  }
+
+  findInvitations(): Invitation[] {
+    return this.readCollection<Invitation>('invitations');
+  }
+
+  updateInvitation(id: string, updates: Partial<Pick<Invitation, 'useCount' | 'revokedAt'>>): Invitation | null {
+    const invitations = this.readCollection<Invitation>('invitations');
+    const invitationIndex = invitations.findIndex(invitation => invitation.id === id);
+
+    if (invitationIndex === -1) {
+      return null;
+    }
+
+    invitations[invitationIndex] = {
+      ...invitations[invitationIndex],
+      ...updates,
+    };
+
+    this.writeCollection('invitations', invitations);
+    return invitations[invitationIndex];
+  }
+
+  createWebAuthnChallenge(challengeData: Omit<WebAuthnChallenge, 'id' | 'createdAt'>): WebAuthnChallenge {
+    const challenges = this.readCollection<WebAuthnChallenge>('webauthn-challenges');
+    const newChallenge: WebAuthnChallenge = {
+      ...challengeData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    challenges.push(newChallenge);
+    this.writeCollection('webauthn-challenges', challenges);
+    return newChallenge;
+  }
+
+  consumeWebAuthnChallenge(challenge: string): WebAuthnChallenge | undefined {
+    const challenges = this.readCollection<WebAuthnChallenge>('webauthn-challenges');
+    const found = challenges.find(entry => entry.challenge === challenge);
+    if (found) {
+      this.writeCollection('webauthn-challenges', challenges.filter(entry => entry.id !== found.id));
+    }
+    return found;
+  }
+
+  pruneWebAuthnChallenges(now: Date = new Date()): number {
+    const challenges = this.readCollection<WebAuthnChallenge>('webauthn-challenges');
+    const remaining = challenges.filter(entry => new Date(entry.expiresAt) > now);
+    if (remaining.length !== challenges.length) {
+      this.writeCollection('webauthn-challenges', remaining);
+    }
+    return challenges.length - remaining.length;
+  }
+
+  createOAuthIdentity(identityData: Omit<OAuthIdentity, 'id' | 'createdAt'>): OAuthIdentity {
+    const identities = this.readCollection<OAuthIdentity>('oauth-identities');
+    const newIdentity: OAuthIdentity = {
+      ...identityData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    identities.push(newIdentity);
+    this.writeCollection('oauth-identities', identities);
+    return newIdentity;
+  }
+
+  findOAuthIdentity(provider: string, subject: string): OAuthIdentity | undefined {
+    const identities = this.readCollection<OAuthIdentity>('oauth-identities');
+    return identities.find(identity => identity.provider === provider && identity.subject === subject);
+  }
+
+  findOAuthIdentitiesByUserId(userId: string): OAuthIdentity[] {
+    const identities = this.readCollection<OAuthIdentity>('oauth-identities');
+    return identities.filter(identity => identity.userId === userId);
+  }
+
+  updateOAuthIdentity(id: string, updates: Partial<Pick<OAuthIdentity, 'email' | 'lastUsedAt'>>): OAuthIdentity | null {
+    const identities = this.readCollection<OAuthIdentity>('oauth-identities');
+    const identityIndex = identities.findIndex(identity => identity.id === id);
+
+    if (identityIndex === -1) {
+      return null;
+    }
+
+    identities[identityIndex] = {
+      ...identities[identityIndex],
+      ...updates,
+    };
+
+    this.writeCollection('oauth-identities', identities);
+    return identities[identityIndex];
+  }
+
+  createOAuthState(stateData: Omit<OAuthState, 'id' | 'createdAt'>): OAuthState {
+    const states = this.readCollection<OAuthState>('oauth-states');
+    const newState: OAuthState = {
+      ...stateData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    states.push(newState);
+    this.writeCollection('oauth-states', states);
+    return newState;
+  }
+
+  consumeOAuthState(state: string): OAuthState | undefined {
+    const states = this.readCollection<OAuthState>('oauth-states');
+    const found = states.find(entry => entry.state === state);
+    if (found) {
+      this.writeCollection('oauth-states', states.filter(entry => entry.id !== found.id));
+    }
+    return found;
+  }
+
+  pruneOAuthStates(now: Date = new Date()): number {
+    const states = this.readCollection<OAuthState>('oauth-states');
+    const remaining = states.filter(entry => new Date(entry.expiresAt) > now);
+    if (remaining.length !== states.length) {
+      this.writeCollection('oauth-states', remaining);
+    }
+    return states.length - remaining.length;
+  }
+
+  findLoginAttempt(key: string): LoginAttempt | undefined {
+    const attempts = this.readCollection<LoginAttempt>('login-attempts');
+    return attempts.find(attempt => attempt.key === key);
+  }
+
+  saveLoginAttempt(attempt: LoginAttempt): LoginAttempt {
+    const attempts = this.readCollection<LoginAttempt>('login-attempts');
+    this.writeCollection('login-attempts', [...attempts.filter(entry => entry.key !== attempt.key), attempt]);
+    return attempt;
+  }
+
+  deleteLoginAttempt(key: string): boolean {
+    const attempts = this.readCollection<LoginAttempt>('login-attempts');
+    const remaining = attempts.filter(attempt => attempt.key !== key);
+    if (remaining.length === attempts.length) {
+      return false;
+    }
+    this.writeCollection('login-attempts', remaining);
+    return true;
+  }
+
+  pruneLoginAttempts(now: Date = new Date()): number {
+    const attempts = this.readCollection<LoginAttempt>('login-attempts');
+    const remaining = attempts.filter(attempt => new Date(attempt.expiresAt) > now);
+    if (remaining.length !== attempts.length) {
+      this.writeCollection('login-attempts', remaining);
+    }
+    return attempts.length - remaining.length;
+  }
+
+  createSigningKey(key: SigningKey): SigningKey {
+    const keys = this.readCollection<SigningKey>('signing-keys');
+    keys.push(key);
+    this.writeCollection('signing-keys', keys);
+    return key;
+  }
+
+  findSigningKey(kid: string): SigningKey | undefined {
+    const keys = this.readCollection<SigningKey>('signing-keys');
+    return keys.find(key => key.kid === kid);
+  }
+
+  findSigningKeys(): SigningKey[] {
+    return this.readCollection<SigningKey>('signing-keys');
+  }
+
+  updateSigningKey(kid: string, updates: Partial<Pick<SigningKey, 'retiresAt' | 'expiresAt'>>): SigningKey | null {
+    const keys = this.readCollection<SigningKey>('signing-keys');
+    const keyIndex = keys.findIndex(key => key.kid === kid);
+
+    if (keyIndex === -1) {
+      return null;
+    }
+
+    keys[keyIndex] = {
+      ...keys[keyIndex],
+      ...updates,
+    };
+
+    this.writeCollection('signing-keys', keys);
+    return keys[keyIndex];
+  }
+
+  pruneSigningKeys(now: Date = new Date()): number {
+    const keys = this.readCollection<SigningKey>('signing-keys');
+    const remaining = keys.filter(key => new Date(key.expiresAt) > now);
+    if (remaining.length !== keys.length) {
+      this.writeCollection('signing-keys', remaining);
+    }
+    return keys.length - remaining.length;
+  }
+
+  createDataExportJob(jobData: Omit<DataExportJob, 'id' | 'createdAt'>): DataExportJob {
+    const jobs = this.readCollection<DataExportJob>('data-export-jobs');
+    const newJob: DataExportJob = {
+      ...jobData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    jobs.push(newJob);
+    this.writeCollection('data-export-jobs', jobs);
+    return newJob;
+  }
+
+  findDataExportJobById(id: string): DataExportJob | undefined {
+    const jobs = this.readCollection<DataExportJob>('data-export-jobs');
+    return jobs.find(job => job.id === id);
+  }
+
+  findDataExportJobsByUserId(userId: string): DataExportJob[] {
+    const jobs = this.readCollection<DataExportJob>('data-export-jobs');
+    return jobs.filter(job => job.userId === userId);
+  }
+
+  updateDataExportJob(id: string, updates: Partial<Omit<DataExportJob, 'id' | 'userId' | 'createdAt'>>): DataExportJob | null {
+    const jobs = this.readCollection<DataExportJob>('data-export-jobs');
+    const jobIndex = jobs.findIndex(job => job.id === id);
+
+    if (jobIndex === -1) {
+      return null;
+    }
+
+    jobs[jobIndex] = {
+      ...jobs[jobIndex],
+      ...updates,
+    };
+
+    this.writeCollection('data-export-jobs', jobs);
+    return jobs[jobIndex];
+  }
+
+  pruneDataExportJobs(now: Date = new Date()): number {
+    const jobs = this.readCollection<DataExportJob>('data-export-jobs');
+    const remaining = jobs.filter(job => !job.expiresAt || new Date(job.expiresAt) > now);
+    if (remaining.length !== jobs.length) {
+      this.writeCollection('data-export-jobs', remaining);
+    }
+    return jobs.length - remaining.length;
+  }
+
+  createAuditEvent(eventData: Omit<AuditEvent, 'id' | 'createdAt'>): AuditEvent {
+    const events = this.readCollection<AuditEvent>('audit-log');
+    const newEvent: AuditEvent = {
+      ...eventData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    events.push(newEvent);
+    this.writeCollection('audit-log', events);
+    return newEvent;
+  }
+
+  findAuditEvents(): AuditEvent[] {
+    return this.readCollection<AuditEvent>('audit-log');
+  }
+
+  updateAuditEvent(id: string, updates: Partial<Pick<AuditEvent, 'ip' | 'userAgent' | 'changes' | 'details'>>): AuditEvent | null {
+    const events = this.readCollection<AuditEvent>('audit-log');
+    const eventIndex = events.findIndex(event => event.id === id);
+
+    if (eventIndex === -1) {
+      return null;
+    }
+
+    events[eventIndex] = {
+      ...events[eventIndex],
+      ...updates,
+    };
+
+    this.writeCollection('audit-log', events);
+    return events[eventIndex];
+  }
+
   clear(): void {
     this.writeUsers([]);
+    this.writeCollection('refresh-tokens', []);
+    this.writeCollection('revoked-tokens', []);
+    this.writeCollection('sessions', []);
+    this.writeCollection('action-tokens', []);
+    this.writeCollection('passkeys', []);
+    this.writeCollection('personal-access-tokens', []);
+    this.writeCollection('invitations', []);
+    this.writeCollection('webauthn-challenges', []);
+    this.writeCollection('oauth-identities', []);
+    this.writeCollection('oauth-states', []);
+    this.writeCollection('login-attempts', []);
+    this.writeCollection('signing-keys', []);
+    this.writeCollection('data-export-jobs', []);
+    this.writeCollection('audit-log', []);
   }
 }
 
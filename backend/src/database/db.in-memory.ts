@@ -1,8 +1,39 @@
-import { User } from '../types/user.types';
+import crypto from 'crypto';
+import { DataExportJob, User } from '../types/user.types';
+import { AuditEvent } from '../types/audit.types';
+import {
+  ActionToken,
+  ActionTokenPurpose,
+  LoginAttempt,
+  OAuthIdentity,
+  OAuthState,
+  PasskeyCredential,
+  Invitation,
+  PersonalAccessToken,
+  RefreshToken,
+  RevokedToken,
+  Session,
+  SigningKey,
+  WebAuthnChallenge,
+} from '../types/auth.types';
 import { Database } from './db.interface';
 
 export class InMemoryDatabase implements Database {
   private users: User[] = [];
+  private refreshTokens: RefreshToken[] = [];
+  private revokedTokens: RevokedToken[] = [];
+  private sessions: Session[] = [];
+  private actionTokens: ActionToken[] = [];
+  private passkeys: PasskeyCredential[] = [];
+  private personalAccessTokens: PersonalAccessToken[] = [];
+  private invitations: Invitation[] = [];
+  private webAuthnChallenges: WebAuthnChallenge[] = [];
+  private oauthIdentities: OAuthIdentity[] = [];
+  private oauthStates: OAuthState[] = [];
+  private loginAttempts: LoginAttempt[] = [];
+  private signingKeys: SigningKey[] = [];
+  private dataExportJobs: DataExportJob[] = [];
+  private auditEvents: AuditEvent[] = [];
 
   readUsers(): User[] {
     return [...this.users];
@@ -47,8 +78,487 @@ export class InMemoryDatabase implements Database {
     return this.users[userIndex];
   }
 
+  deleteUser(id: string): boolean {
+    const before = this.users.length;
+    this.users = this.users.filter(user => user.id !== id);
+    if (this.users.length === before) {
+      return false;
+    }
+
+    this.refreshTokens = this.refreshTokens.filter(token => token.userId !== id);
+    this.sessions = this.sessions.filter(session => session.userId !== id);
+    this.actionTokens = this.actionTokens.filter(token => token.userId !== id);
+    this.passkeys = this.passkeys.filter(passkey => passkey.userId !== id);
+    this.personalAccessTokens = this.personalAccessTokens.filter(token => token.userId !== id);
+    this.webAuthnChallenges = this.webAuthnChallenges.filter(entry => entry.userId !== id);
+    this.oauthIdentities = this.oauthIdentities.filter(identity => identity.userId !== id);
+    this.dataExportJobs = this.dataExportJobs.filter(job => job.userId !== id);
+    return true;
+  }
+
+  createRefreshToken(tokenData: Omit<RefreshToken, 'id' | 'createdAt'>): RefreshToken {
+    const newToken: RefreshToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.refreshTokens.push(newToken);
+    return newToken;
+  }
+
+  findRefreshTokenByHash(tokenHash: string): RefreshToken | undefined {
+    return this.refreshTokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  updateRefreshToken(id: string, updates: Partial<Omit<RefreshToken, 'id' | 'createdAt'>>): RefreshToken | null {
+    const tokenIndex = this.refreshTokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    this.refreshTokens[tokenIndex] = {
+      ...this.refreshTokens[tokenIndex],
+      ...updates,
+    };
+
+    return this.refreshTokens[tokenIndex];
+  }
+
+  revokeRefreshTokenFamily(familyId: string): void {
+    const revokedAt = new Date().toISOString();
+    this.refreshTokens = this.refreshTokens.map(token =>
+      token.familyId === familyId && !token.revokedAt ? { ...token, revokedAt } : token
+    );
+  }
+
+  revokeToken(jti: string, expiresAt: string): void {
+    if (this.isTokenRevoked(jti)) {
+      return;
+    }
+    this.revokedTokens.push({ jti, expiresAt, revokedAt: new Date().toISOString() });
+  }
+
+  isTokenRevoked(jti: string): boolean {
+    return this.revokedTokens.some(token => token.jti === jti);
+  }
+
+  pruneRevokedTokens(now: Date = new Date()): number {
+    const before = this.revokedTokens.length;
+    this.revokedTokens = this.revokedTokens.filter(token => new Date(token.expiresAt) > now);
+    return before - this.revokedTokens.length;
+  }
+
+  createSession(sessionData: Omit<Session, 'createdAt' | 'lastSeenAt'>): Session {
+    const now = new Date().toISOString();
+    const newSession: Session = {
+      ...sessionData,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+    this.sessions.push(newSession);
+    return newSession;
+  }
+
+  findSessionById(id: string): Session | undefined {
+    return this.sessions.find(session => session.id === id);
+  }
+
+  findSessionsByUserId(userId: string): Session[] {
+    return this.sessions.filter(session => session.userId === userId);
+  }
+
+  updateSession(id: string, updates: Partial<Omit<Session, 'id' | 'userId' | 'createdAt'>>): Session | null {
+    const sessionIndex = this.sessions.findIndex(session => session.id === id);
+
+    if (sessionIndex === -1) {
+      return null;
+    }
+
+    this.sessions[sessionIndex] = {
+      ...this.sessions[sessionIndex],
+      ...updates,
+    };
+
+    return this.sessions[sessionIndex];
+  }
+
+  deleteSession(id: string): boolean {
+    const before = this.sessions.length;
+    this.sessions = this.sessions.filter(session => session.id !== id);
+    return this.sessions.length !== before;
+  }
+
+  createActionToken(tokenData: Omit<ActionToken, 'id' | 'createdAt'>): ActionToken {
+    const newToken: ActionToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.actionTokens.push(newToken);
+    return newToken;
+  }
+
+  findActionTokenByHash(tokenHash: string): ActionToken | undefined {
+    return this.actionTokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  updateActionToken(id: string, updates: Partial<Omit<ActionToken, 'id' | 'createdAt'>>): ActionToken | null {
+    const tokenIndex = this.actionTokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    this.actionTokens[tokenIndex] = {
+      ...this.actionTokens[tokenIndex],
+      ...updates,
+    };
+
+    return this.actionTokens[tokenIndex];
+  }
+
+  deleteActionTokens(userId: string, purpose: ActionTokenPurpose): number {
+    const before = this.actionTokens.length;
+    this.actionTokens = this.actionTokens.filter(token => token.userId !== userId || token.purpose !== purpose);
+    return before - this.actionTokens.length;
+  }
+
+  createPasskey(passkeyData: Omit<PasskeyCredential, 'id' | 'createdAt'>): PasskeyCredential {
+    const newPasskey: PasskeyCredential = {
+      ...passkeyData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.passkeys.push(newPasskey);
+    return newPasskey;
+  }
+
+  findPasskeyByCredentialId(credentialId: string): PasskeyCredential | undefined {
+    return this.passkeys.find(passkey => passkey.credentialId === credentialId);
+  }
+
+  findPasskeysByUserId(userId: string): PasskeyCredential[] {
+    return this.passkeys.filter(passkey => passkey.userId === userId);
+  }
+
+  updatePasskey(id: string, updates: Partial<Pick<PasskeyCredential, 'name' | 'signCount' | 'lastUsedAt'>>): PasskeyCredential | null {
+    const passkeyIndex = this.passkeys.findIndex(passkey => passkey.id === id);
+
+    if (passkeyIndex === -1) {
+      return null;
+    }
+
+    this.passkeys[passkeyIndex] = {
+      ...this.passkeys[passkeyIndex],
+      ...updates,
+    };
+
+    return this.passkeys[passkeyIndex];
+  }
+
+  deletePasskey(id: string): boolean {
+    const before = this.passkeys.length;
+    this.passkeys = this.passkeys.filter(passkey => passkey.id !== id);
+    return this.passkeys.length !== before;
+  }
+
+  createPersonalAccessToken(tokenData: Omit<PersonalAccessToken, 'id' | 'createdAt'>): PersonalAccessToken {
+    const newToken: PersonalAccessToken = {
+      ...tokenData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.personalAccessTokens.push(newToken);
+    return newToken;
+  }
+
+  findPersonalAccessTokenByHash(tokenHash: string): PersonalAccessToken | undefined {
+    return this.personalAccessTokens.find(token => token.tokenHash === tokenHash);
+  }
+
+  findPersonalAccessTokensByUserId(userId: string): PersonalAccessToken[] {
+    return this.personalAccessTokens.filter(token => token.userId === userId);
+  }
+
+  updatePersonalAccessToken(id: string, updates: Partial<Pick<PersonalAccessToken, 'lastUsedAt'>>): PersonalAccessToken | null {
+    const tokenIndex = this.personalAccessTokens.findIndex(token => token.id === id);
+
+    if (tokenIndex === -1) {
+      return null;
+    }
+
+    this.personalAccessTokens[tokenIndex] = {
+      ...this.personalAccessTokens[tokenIndex],
+      ...updates,
+    };
+
+    return this.personalAccessTokens[tokenIndex];
+  }
+
+  deletePersonalAccessToken(id: string): boolean {
+    const before = this.personalAccessTokens.length;
+    this.personalAccessTokens = this.personalAccessTokens.filter(token => token.id !== id);
+    return this.personalAccessTokens.length !== before;
+  }
+
+  createInvitation(invitationData: Omit<Invitation, 'id' | 'createdAt'>): Invitation {
+    const newInvitation: Invitation = {
+      ...invitationData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.invitations.push(newInvitation);
+    return newInvitation;
+  }
+
+  findInvitationById(id: string): Invitation | undefined {
+    return this.invitations.find(invitation => invitation.id === id);
+  }
+
+  findInvitationByCodeHash(codeHash: string): Invitation | undefined {
+    return this.invitations.find(invitation => invitation.codeHash === codeHash);
+  }
+
+  findInvitations(): Invitation[] {
+    return [...this.invitations];
+  }
+
+  updateInvitation(id: string, updates: Partial<Pick<Invitation, 'useCount' | 'revokedAt'>>): Invitation | null {
+    const invitationIndex = this.invitations.findIndex(invitation => invitation.id === id);
+
+    if (invitationIndex === -1) {
+      return null;
+    }
+
+    this.invitations[invitationIndex] = {
+      ...this.invitations[invitationIndex],
+      ...updates,
+    };
+
+    return this.invitations[invitationIndex];
+  }
+
+  createWebAuthnChallenge(challengeData: Omit<WebAuthnChallenge, 'id' | 'createdAt'>): WebAuthnChallenge {
+    const newChallenge: WebAuthnChallenge = {
+      ...challengeData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.webAuthnChallenges.push(newChallenge);
+    return newChallenge;
+  }
+
+  consumeWebAuthnChallenge(challenge: string): WebAuthnChallenge | undefined {
+    const found = this.webAuthnChallenges.find(entry => entry.challenge === challenge);
+    if (found) {
+      this.webAuthnChallenges = this.webAuthnChallenges.filter(entry => entry.id !== found.id);
+    }
+    return found;
+  }
+
+  pruneWebAuthnChallenges(now: Date = new Date()): number {
+    const before = this.webAuthnChallenges.length;
+    this.webAuthnChallenges = this.webAuthnChallenges.filter(entry => new Date(entry.expiresAt) > now);
+    return before - this.webAuthnChallenges.length;
+  }
+
+  createOAuthIdentity(identityData: Omit<OAuthIdentity, 'id' | 'createdAt'>): OAuthIdentity {
+    const newIdentity: OAuthIdentity = {
+      ...identityData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.oauthIdentities.push(newIdentity);
+    return newIdentity;
+  }
+
+  findOAuthIdentity(provider: string, subject: string): OAuthIdentity | undefined {
+    return this.oauthIdentities.find(identity => identity.provider === provider && identity.subject === subject);
+  }
+
+  findOAuthIdentitiesByUserId(userId: string): OAuthIdentity[] {
+    return this.oauthIdentities.filter(identity => identity.userId === userId);
+  }
+
+  updateOAuthIdentity(id: string, updates: Partial<Pick<OAuthIdentity, 'email' | 'lastUsedAt'>>): OAuthIdentity | null {
+    const identityIndex = this.oauthIdentities.findIndex(identity => identity.id === id);
+
+    if (identityIndex === -1) {
+      return null;
+    }
+
+    this.oauthIdentities[identityIndex] = {
+      ...this.oauthIdentities[identityIndex],
+      ...updates,
+    };
+
+    return this.oauthIdentities[identityIndex];
+  }
+
+  createOAuthState(stateData: Omit<OAuthState, 'id' | 'createdAt'>): OAuthState {
+    const newState: OAuthState = {
+      ...stateData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.oauthStates.push(newState);
+    return newState;
+  }
+
+  consumeOAuthState(state: string): OAuthState | undefined {
+    const found = this.oauthStates.find(entry => entry.state === state);
+    if (found) {
+      this.oauthStates = this.oauthStates.filter(entry => entry.id !== found.id);
+    }
+    return found;
+  }
+
+  pruneOAuthStates(now: Date = new Date()): number {
+    const before = this.oauthStates.length;
+    this.oauthStates = this.oauthStates.filter(entry => new Date(entry.expiresAt) > now);
+    return before - this.oauthStates.length;
+  }
+
+  findLoginAttempt(key: string): LoginAttempt | undefined {
+    return this.loginAttempts.find(attempt => attempt.key === key);
+  }
+
+  saveLoginAttempt(attempt: LoginAttempt): LoginAttempt {
+    this.loginAttempts = [...this.loginAttempts.filter(entry => entry.key !== attempt.key), attempt];
+    return attempt;
+  }
+
+  deleteLoginAttempt(key: string): boolean {
+    const before = this.loginAttempts.length;
+    this.loginAttempts = this.loginAttempts.filter(attempt => attempt.key !== key);
+    return this.loginAttempts.length !== before;
+  }
+
+  pruneLoginAttempts(now: Date = new Date()): number {
+    const before = this.loginAttempts.length;
+    this.loginAttempts = this.loginAttempts.filter(attempt => new Date(attempt.expiresAt) > now);
+    return before - this.loginAttempts.length;
+  }
+
+  createSigningKey(key: SigningKey): SigningKey {
+    this.signingKeys.push(key);
+    return key;
+  }
+
+  findSigningKey(kid: string): SigningKey | undefined {
+    return this.signingKeys.find(key => key.kid === kid);
+  }
+
+  findSigningKeys(): SigningKey[] {
+    return [...this.signingKeys];
+  }
+
+  updateSigningKey(kid: string, updates: Partial<Pick<SigningKey, 'retiresAt' | 'expiresAt'>>): SigningKey | null {
+    const keyIndex = this.signingKeys.findIndex(key => key.kid === kid);
+
+    if (keyIndex === -1) {
+      return null;
+    }
+
+    this.signingKeys[keyIndex] = {
+      ...this.signingKeys[keyIndex],
+      ...updates,
+    };
+
+    return this.signingKeys[keyIndex];
+  }
+
+  pruneSigningKeys(now: Date = new Date()): number {
+    const before = this.signingKeys.length;
+    this.signingKeys = this.signingKeys.filter(key => new Date(key.expiresAt) > now);
+    return before - this.signingKeys.length;
+  }
+
+  createDataExportJob(jobData: Omit<DataExportJob, 'id' | 'createdAt'>): DataExportJob {
+    const newJob: DataExportJob = {
+      ...jobData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.dataExportJobs.push(newJob);
+    return newJob;
+  }
+
+  findDataExportJobById(id: string): DataExportJob | undefined {
+    return this.dataExportJobs.find(job => job.id === id);
+  }
+
+  findDataExportJobsByUserId(userId: string): DataExportJob[] {
+    return this.dataExportJobs.filter(job => job.userId === userId);
+  }
+
+  updateDataExportJob(id: string, updates: Partial<Omit<DataExportJob, 'id' | 'userId' | 'createdAt'>>): DataExportJob | null {
+    const jobIndex = this.dataExportJobs.findIndex(job => job.id === id);
+
+    if (jobIndex === -1) {
+      return null;
+    }
+
+    this.dataExportJobs[jobIndex] = {
+      ...this.dataExportJobs[jobIndex],
+      ...updates,
+    };
+
+    return this.dataExportJobs[jobIndex];
+  }
+
+  pruneDataExportJobs(now: Date = new Date()): number {
+    const before = this.dataExportJobs.length;
+    this.dataExportJobs = this.dataExportJobs.filter(job => !job.expiresAt || new Date(job.expiresAt) > now);
+    return before - this.dataExportJobs.length;
+  }
+
+  createAuditEvent(eventData: Omit<AuditEvent, 'id' | 'createdAt'>): AuditEvent {
+    const newEvent: AuditEvent = {
+      ...eventData,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.auditEvents.push(newEvent);
+    return newEvent;
+  }
+
+  findAuditEvents(): AuditEvent[] {
+    return [...this.auditEvents];
+  }
+
+  updateAuditEvent(id: string, updates: Partial<Pick<AuditEvent, 'ip' | 'userAgent' | 'changes' | 'details'>>): AuditEvent | null {
+    const eventIndex = this.auditEvents.findIndex(event => event.id === id);
+
+    if (eventIndex === -1) {
+      return null;
+    }
+
+    this.auditEvents[eventIndex] = {
+      ...this.auditEvents[eventIndex],
+      ...updates,
+    };
+
+    return this.auditEvents[eventIndex];
+  }
+
   clear(): void {
     this.users = [];
+    this.refreshTokens = [];
+    this.revokedTokens = [];
+    this.sessions = [];
+    this.actionTokens = [];
+    this.passkeys = [];
+    this.personalAccessTokens = [];
+    this.invitations = [];
+    this.webAuthnChallenges = [];
+    this.oauthIdentities = [];
+    this.oauthStates = [];
+    this.loginAttempts = [];
+    this.signingKeys = [];
+    this.dataExportJobs = [];
+    this.auditEvents = [];
   }
 }
 
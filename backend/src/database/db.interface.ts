@@ -1,4 +1,20 @@
-import { User } from '../types/user.types';
+import { DataExportJob, User } from '../types/user.types';
+import { AuditEvent } from '../types/audit.types';
+import {
+  ActionToken,
+  ActionTokenPurpose,
+  LoginAttempt,
+  OAuthIdentity,
+  OAuthState,
+  PasskeyCredential,
+  Invitation,
+  PersonalAccessToken,
+  RefreshToken,
+  RevokedToken,
+  Session,
+  SigningKey,
+  WebAuthnChallenge,
+} from '../types/auth.types';
 
 export interface Database {
   readUsers(): User[];
@@ -7,6 +23,80 @@ export interface Database {
   findUserById(id: string): User | undefined;
   createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): User;
   updateUser(id: string, updates: Partial<Omit<User, 'id' | 'createdAt'>>): User | null;
+  // Also removes everything that belongs to the user: sessions, tokens, passkeys, linked identities and exports
+  deleteUser(id: string): boolean;
+
+  createRefreshToken(tokenData: Omit<RefreshToken, 'id' | 'createdAt'>): RefreshToken;
+  findRefreshTokenByHash(tokenHash: string): RefreshToken | undefined;
+  updateRefreshToken(id: string, updates: Partial<Omit<RefreshToken, 'id' | 'createdAt'>>): RefreshToken | null;
+  revokeRefreshTokenFamily(familyId: string): void;
+
+  revokeToken(jti: string, expiresAt: string): void;
+  isTokenRevoked(jti: string): boolean;
+  pruneRevokedTokens(now?: Date): number;
+
+  createSession(sessionData: Omit<Session, 'createdAt' | 'lastSeenAt'>): Session;
+  findSessionById(id: string): Session | undefined;
+  findSessionsByUserId(userId: string): Session[];
+  updateSession(id: string, updates: Partial<Omit<Session, 'id' | 'userId' | 'createdAt'>>): Session | null;
+  deleteSession(id: string): boolean;
+
+  createActionToken(tokenData: Omit<ActionToken, 'id' | 'createdAt'>): ActionToken;
+  findActionTokenByHash(tokenHash: string): ActionToken | undefined;
+  updateActionToken(id: string, updates: Partial<Omit<ActionToken, 'id' | 'createdAt'>>): ActionToken | null;
+  deleteActionTokens(userId: string, purpose: ActionTokenPurpose): number;
+
+  createPasskey(passkeyData: Omit<PasskeyCredential, 'id' | 'createdAt'>): PasskeyCredential;
+  findPasskeyByCredentialId(credentialId: string): PasskeyCredential | undefined;
+  findPasskeysByUserId(userId: string): PasskeyCredential[];
+  updatePasskey(id: string, updates: Partial<Pick<PasskeyCredential, 'name' | 'signCount' | 'lastUsedAt'>>): PasskeyCredential | null;
+  deletePasskey(id: string): boolean;
+
+  createPersonalAccessToken(tokenData: Omit<PersonalAccessToken, 'id' | 'createdAt'>): PersonalAccessToken;
+  findPersonalAccessTokenByHash(tokenHash: string): PersonalAccessToken | undefined;
+  findPersonalAccessTokensByUserId(userId: string): PersonalAccessToken[];
+  updatePersonalAccessToken(id: string, updates: Partial<Pick<PersonalAccessToken, 'lastUsedAt'>>): PersonalAccessToken | null;
+  deletePersonalAccessToken(id: string): boolean;
+
+  createInvitation(invitationData: Omit<Invitation, 'id' | 'createdAt'>): Invitation;
+  findInvitationById(id: string): Invitation | undefined;
+  findInvitationByCodeHash(codeHash: string): Invitation | undefined;
+  findInvitations(): Invitation[];
+  updateInvitation(id: string, updates: Partial<Pick<Invitation, 'useCount' | 'revokedAt'>>): Invitation | null;
+
+  createWebAuthnChallenge(challengeData: Omit<WebAuthnChallenge, 'id' | 'createdAt'>): WebAuthnChallenge;
+  consumeWebAuthnChallenge(challenge: string): WebAuthnChallenge | undefined;
+  pruneWebAuthnChallenges(now?: Date): number;
+
+  createOAuthIdentity(identityData: Omit<OAuthIdentity, 'id' | 'createdAt'>): OAuthIdentity;
+  findOAuthIdentity(provider: string, subject: string): OAuthIdentity | undefined;
+  findOAuthIdentitiesByUserId(userId: string): OAuthIdentity[];
+  updateOAuthIdentity(id: string, updates: Partial<Pick<OAuthIdentity, 'email' | 'lastUsedAt'>>): OAuthIdentity | null;
+
+  createOAuthState(stateData: Omit<OAuthState, 'id' | 'createdAt'>): OAuthState;
+  consumeOAuthState(state: string): OAuthState | undefined;
+  pruneOAuthStates(now?: Date): number;
+
+  findLoginAttempt(key: string): LoginAttempt | undefined;
+  saveLoginAttempt(attempt: LoginAttempt): LoginAttempt;
+  deleteLoginAttempt(key: string): boolean;
+  pruneLoginAttempts(now?: Date): number;
+
+  createSigningKey(key: SigningKey): SigningKey;
+  findSigningKey(kid: string): SigningKey | undefined;
+  findSigningKeys(): SigningKey[];
+  updateSigningKey(kid: string, updates: Partial<Pick<SigningKey, 'retiresAt' | 'expiresAt'>>): SigningKey | null;
+  pruneSigningKeys(now?: Date): number;
+
+  createDataExportJob(jobData: Omit<DataExportJob, 'id' | 'createdAt'>): DataExportJob;
+  findDataExportJobById(id: string): DataExportJob | undefined;
+  findDataExportJobsByUserId(userId: string): DataExportJob[];
+  updateDataExportJob(id: string, updates: Partial<Omit<DataExportJob, 'id' | 'userId' | 'createdAt'>>): DataExportJob | null;
+  pruneDataExportJobs(now?: Date): number;
+
+  createAuditEvent(eventData: Omit<AuditEvent, 'id' | 'createdAt'>): AuditEvent;
+  findAuditEvents(): AuditEvent[];
+  updateAuditEvent(id: string, updates: Partial<Pick<AuditEvent, 'ip' | 'userAgent' | 'changes' | 'details'>>): AuditEvent | null;
+
   clear(): void;
 }
-
@@ -8,6 +8,7 @@ import {
   findUserById,
   createUser,
   updateUser,
+  deleteUser,
 } from './db';
 import { User } from '../types/user.types';
 
@@ -283,5 +284,26 @@ describe('Database Functions', () => {
       expect(updatedUser?.id).toBe('1');
     });
   });
-});
 
+  describe('deleteUser', () => {
+    it('should remove the user and keep the others', () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockUsers));
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+      const deleted = deleteUser('1');
+
+      expect(deleted).toBe(true);
+      const written = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+      expect(written.map((user: User) => user.id)).toEqual(['2']);
+    });
+
+    it('should return false if user not found', () => {
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockUsers));
+
+      const deleted = deleteUser('999');
+
+      expect(deleted).toBe(false);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,19 @@
-import { User } from '../types/user.types';
+import { DataExportJob, User } from '../types/user.types';
+import { AuditEvent } from '../types/audit.types';
+import {
+  ActionToken,
+  ActionTokenPurpose,
+  LoginAttempt,
+  OAuthIdentity,
+  OAuthState,
+  PasskeyCredential,
+  Invitation,
+  PersonalAccessToken,
+  RefreshToken,
+  Session,
+  SigningKey,
+  WebAuthnChallenge,
+} from '../types/auth.types';
 import { getDatabase } from './db.manager';
 
 // Re-export database functions using the database manager
@@ -27,3 +42,262 @@ export const updateUser = (id: string, updates: Partial<Omit<User, 'id' | 'creat
   return getDatabase().updateUser(id, updates);
 };
 
+export const deleteUser = (id: string): boolean => {
+  return getDatabase().deleteUser(id);
+};
+
+
+export const createRefreshToken = (tokenData: Omit<RefreshToken, 'id' | 'createdAt'>): RefreshToken => {
+  return getDatabase().createRefreshToken(tokenData);
+};
+
+export const findRefreshTokenByHash = (tokenHash: string): RefreshToken | undefined => {
+  return getDatabase().findRefreshTokenByHash(tokenHash);
+};
+
+export const updateRefreshToken = (id: string, updates: Partial<Omit<RefreshToken, 'id' | 'createdAt'>>): RefreshToken | null => {
+  return getDatabase().updateRefreshToken(id, updates);
+};
+
+export const revokeRefreshTokenFamily = (familyId: string): void => {
+  getDatabase().revokeRefreshTokenFamily(familyId);
+};
+
+export const revokeToken = (jti: string, expiresAt: string): void => {
+  getDatabase().revokeToken(jti, expiresAt);
+};
+
+export const isTokenRevoked = (jti: string): boolean => {
+  return getDatabase().isTokenRevoked(jti);
+};
+
+export const pruneRevokedTokens = (now?: Date): number => {
+  return getDatabase().pruneRevokedTokens(now);
+};
+
+export const createSession = (sessionData: Omit<Session, 'createdAt' | 'lastSeenAt'>): Session => {
+  return getDatabase().createSession(sessionData);
+};
+
+export const findSessionById = (id: string): Session | undefined => {
+  return getDatabase().findSessionById(id);
+};
+
+export const findSessionsByUserId = (userId: string): Session[] => {
+  return getDatabase().findSessionsByUserId(userId);
+};
+
+export const updateSession = (id: string, updates: Partial<Omit<Session, 'id' | 'userId' | 'createdAt'>>): Session | null => {
+  return getDatabase().updateSession(id, updates);
+};
+
+export const deleteSession = (id: string): boolean => {
+  return getDatabase().deleteSession(id);
+};
+
+export const createActionToken = (tokenData: Omit<ActionToken, 'id' | 'createdAt'>): ActionToken => {
+  return getDatabase().createActionToken(tokenData);
+};
+
+export const findActionTokenByHash = (tokenHash: string): ActionToken | undefined => {
+  return getDatabase().findActionTokenByHash(tokenHash);
+};
+
+export const updateActionToken = (id: string, updates: Partial<Omit<ActionToken, 'id' | 'createdAt'>>): ActionToken | null => {
+  return getDatabase().updateActionToken(id, updates);
+};
+
+export const deleteActionTokens = (userId: string, purpose: ActionTokenPurpose): number => {
+  return getDatabase().deleteActionTokens(userId, purpose);
+};
+
+export const createPasskey = (passkeyData: Omit<PasskeyCredential, 'id' | 'createdAt'>): PasskeyCredential => {
+  return getDatabase().createPasskey(passkeyData);
+};
+
+export const findPasskeyByCredentialId = (credentialId: string): PasskeyCredential | undefined => {
+  return getDatabase().findPasskeyByCredentialId(credentialId);
+};
+
+export const findPasskeysByUserId = (userId: string): PasskeyCredential[] => {
+  return getDatabase().findPasskeysByUserId(userId);
+};
+
+export const updatePasskey = (
+  id: string,
+  updates: Partial<Pick<PasskeyCredential, 'name' | 'signCount' | 'lastUsedAt'>>
+): PasskeyCredential | null => {
+  return getDatabase().updatePasskey(id, updates);
+};
+
+export const deletePasskey = (id: string): boolean => {
+  return getDatabase().deletePasskey(id);
+};
+
+export const createPersonalAccessToken = (
+  tokenData: Omit<PersonalAccessToken, 'id' | 'createdAt'>
+): PersonalAccessToken => {
+  return getDatabase().createPersonalAccessToken(tokenData);
+};
+
+export const findPersonalAccessTokenByHash = (tokenHash: string): PersonalAccessToken | undefined => {
+  return getDatabase().findPersonalAccessTokenByHash(tokenHash);
+};
+
+export const findPersonalAccessTokensByUserId = (userId: string): PersonalAccessToken[] => {
+  return getDatabase().findPersonalAccessTokensByUserId(userId);
+};
+
+export const updatePersonalAccessToken = (
+  id: string,
+  updates: Partial<Pick<PersonalAccessToken, 'lastUsedAt'>>
+): PersonalAccessToken | null => {
+  return getDatabase().updatePersonalAccessToken(id, updates);
+};
+
+export const deletePersonalAccessToken = (id: string): boolean => {
+  return getDatabase().deletePersonalAccessToken(id);
+};
+
+export const createInvitation = (invitationData: Omit<Invitation, 'id' | 'createdAt'>): Invitation => {
+  return getDatabase().createInvitation(invitationData);
+};
+
+export const findInvitationById = (id: string): Invitation | undefined => {
+  return getDatabase().findInvitationById(id);
+};
+
+export const findInvitationByCodeHash = (codeHash: string): Invitation | undefined => {
+  return getDatabase().findInvitationByCodeHash(codeHash);
+};
+
+export const findInvitations = (): Invitation[] => {
+  return getDatabase().findInvitations();
+};
+
+export const updateInvitation = (
+  id: string,
+  updates: Partial<Pick<Invitation, 'useCount' | 'revokedAt'>>
+): Invitation | null => {
+  return getDatabase().updateInvitation(id, updates);
+};
+
+export const createWebAuthnChallenge = (challengeData: Omit<WebAuthnChallenge, 'id' | 'createdAt'>): WebAuthnChallenge => {
+  return getDatabase().createWebAuthnChallenge(challengeData);
+};
+
+export const consumeWebAuthnChallenge = (challenge: string): WebAuthnChallenge | undefined => {
+  return getDatabase().consumeWebAuthnChallenge(challenge);
+};
+
+export const pruneWebAuthnChallenges = (now?: Date): number => {
+  return getDatabase().pruneWebAuthnChallenges(now);
+};
+
+export const createOAuthIdentity = (identityData: Omit<OAuthIdentity, 'id' | 'createdAt'>): OAuthIdentity => {
+  return getDatabase().createOAuthIdentity(identityData);
+};
+
+export const findOAuthIdentity = (provider: string, subject: string): OAuthIdentity | undefined => {
+  return getDatabase().findOAuthIdentity(provider, subject);
+};
+
+export const findOAuthIdentitiesByUserId = (userId: string): OAuthIdentity[] => {
+  return getDatabase().findOAuthIdentitiesByUserId(userId);
+};
+
+export const updateOAuthIdentity = (
+  id: string,
+  updates: Partial<Pick<OAuthIdentity, 'email' | 'lastUsedAt'>>
+): OAuthIdentity | null => {
+  return getDatabase().updateOAuthIdentity(id, updates);
+};
+
+export const createOAuthState = (stateData: Omit<OAuthState, 'id' | 'createdAt'>): OAuthState => {
+  return getDatabase().createOAuthState(stateData);
+};
+
+export const consumeOAuthState = (state: string): OAuthState | undefined => {
+  return getDatabase().consumeOAuthState(state);
+};
+
+export const pruneOAuthStates = (now?: Date): number => {
+  return getDatabase().pruneOAuthStates(now);
+};
+
+export const findLoginAttempt = (key: string): LoginAttempt | undefined => {
+  return getDatabase().findLoginAttempt(key);
+};
+
+export const saveLoginAttempt = (attempt: LoginAttempt): LoginAttempt => {
+  return getDatabase().saveLoginAttempt(attempt);
+};
+
+export const deleteLoginAttempt = (key: string): boolean => {
+  return getDatabase().deleteLoginAttempt(key);
+};
+
+export const pruneLoginAttempts = (now?: Date): number => {
+  return getDatabase().pruneLoginAttempts(now);
+};
+
+export const createSigningKey = (key: SigningKey): SigningKey => {
+  return getDatabase().createSigningKey(key);
+};
+
+export const findSigningKey = (kid: string): SigningKey | undefined => {
+  return getDatabase().findSigningKey(kid);
+};
+
+export const findSigningKeys = (): SigningKey[] => {
+  return getDatabase().findSigningKeys();
+};
+
+export const updateSigningKey = (
+  kid: string,
+  updates: Partial<Pick<SigningKey, 'retiresAt' | 'expiresAt'>>
+): SigningKey | null => {
+  return getDatabase().updateSigningKey(kid, updates);
+};
+
+export const pruneSigningKeys = (now?: Date): number => {
+  return getDatabase().pruneSigningKeys(now);
+};
+
+export const createDataExportJob = (jobData: Omit<DataExportJob, 'id' | 'createdAt'>): DataExportJob => {
+  return getDatabase().createDataExportJob(jobData);
+};
+
+export const findDataExportJobById = (id: string): DataExportJob | undefined => {
+  return getDatabase().findDataExportJobById(id);
+};
+
+export const findDataExportJobsByUserId = (userId: string): DataExportJob[] => {
+  return getDatabase().findDataExportJobsByUserId(userId);
+};
+
+export const updateDataExportJob = (
+  id: string,
+  updates: Partial<Omit<DataExportJob, 'id' | 'userId' | 'createdAt'>>
+): DataExportJob | null => {
+  return getDatabase().updateDataExportJob(id, updates);
+};
+
+export const pruneDataExportJobs = (now?: Date): number => {
+  return getDatabase().pruneDataExportJobs(now);
+};
+
+export const createAuditEvent = (eventData: Omit<AuditEvent, 'id' | 'createdAt'>): AuditEvent => {
+  return getDatabase().createAuditEvent(eventData);
+};
+
+export const findAuditEvents = (): AuditEvent[] => {
+  return getDatabase().findAuditEvents();
+};
+
+export const updateAuditEvent = (
+  id: string,
+  updates: Partial<Pick<AuditEvent, 'ip' | 'userAgent' | 'changes' | 'details'>>
+): AuditEvent | null => {
+  return getDatabase().updateAuditEvent(id, updates);
+};
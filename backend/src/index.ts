@@ -1,6 +1,23 @@
 import express, { Request, Response } from 'express';
 import authRoutes from './routes/auth.routes';
 import profileRoutes from './routes/profile.routes';
+import mockOidcRoutes from './routes/mock-oidc.routes';
+import devOutboxRoutes from './routes/dev-outbox.routes';
+import wellKnownRoutes from './routes/well-known.routes';
+import adminRoutes from './routes/admin.routes';
+import { oauthConfig } from './config/oauth.config';
+import { mailConfig } from './config/mail.config';
+import { rateLimitConfig } from './config/rate-limit.config';
+import { cookieConfig } from './config/cookie.config';
+import { createRateLimiter } from './middleware/rate-limit.middleware';
+import { csrfProtection } from './middleware/csrf.middleware';
+import { registerOAuthProvider } from './services/oauth-provider.service';
+import { MockOidcProvider, getMockOidcServer } from './services/mock-oidc.service';
+import { startAccountPurgeJob } from './services/account-deletion.service';
+import { loadBreachedPasswordCorpus } from './services/breached-password.service';
+
+// Fail at startup rather than on the first sign-up when the breached-password corpus is missing
+loadBreachedPasswordCorpus();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -11,9 +28,18 @@ app.use(express.urlencoded({ extended: true }));
 
 // CORS middleware (for frontend communication)
 app.use((req, res, next) => {
-  res.header('Access-Control-Allow-Origin', '*');
+  // Cookie sessions need credentialed requests, which browsers only allow for an explicitly named origin
+  const origin = req.headers.origin;
+  if (origin && cookieConfig.allowedOrigins.includes(origin)) {
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Access-Control-Allow-Credentials', 'true');
+    res.header('Vary', 'Origin');
+  } else {
+    res.header('Access-Control-Allow-Origin', '*');
+  }
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Auth-Mode, X-CSRF-Token');
+  res.header('Access-Control-Expose-Headers', 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After');
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
   } else {
@@ -30,18 +56,94 @@ app.get('/api/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+app.use('/.well-known', wellKnownRoutes);
+
+// Rate limiting; the stricter auth limiter runs last so its headers are the ones clients see
+if (rateLimitConfig.enabled) {
+  app.use('/api', createRateLimiter({ name: 'api', policy: rateLimitConfig.api }));
+  app.use('/api/auth', createRateLimiter({ name: 'auth', policy: rateLimitConfig.auth }));
+}
+
+// Cookie sessions must prove state-changing requests come from the app itself
+app.use('/api', csrfProtection);
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
+app.use('/api/admin', adminRoutes);
+
+// Local identity provider for trying out social login without network access
+if (oauthConfig.mockProviderEnabled) {
+  registerOAuthProvider(new MockOidcProvider(getMockOidcServer()));
+  app.use('/api/mock-oidc', mockOidcRoutes);
+}
+
+// Emails written to the development outbox, e.g. to follow magic links without a mail server
+if (mailConfig.outboxApiEnabled) {
+  app.use('/api/dev/outbox', devOutboxRoutes);
+}
+
+// Closed accounts are purged in the background once their grace period is over
+startAccountPurgeJob();
 
 // Start server
 app.listen(PORT, () => {
   console.log(`Server is running on http://localhost:${PORT}`);
   console.log(`API endpoints:`);
+  console.log(`  GET  /.well-known/jwks.json`);
   console.log(`  POST /api/auth/login`);
   console.log(`  POST /api/auth/register`);
+  console.log(`  POST /api/auth/refresh`);
   console.log(`  POST /api/auth/logout`);
+  console.log(`  POST /api/auth/forgot-password`);
+  console.log(`  POST /api/auth/reset-password`);
+  console.log(`  GET  /api/auth/password-policy`);
+  console.log(`  POST /api/auth/verify-email`);
+  console.log(`  POST /api/auth/resend-verification`);
+  console.log(`  POST /api/auth/magic-link`);
+  console.log(`  POST /api/auth/magic-link/verify`);
+  console.log(`  POST /api/auth/2fa/verify`);
+  console.log(`  POST /api/auth/passkeys/login/options`);
+  console.log(`  POST /api/auth/passkeys/login`);
+  console.log(`  GET  /api/auth/oauth/:provider/start`);
+  console.log(`  GET  /api/auth/oauth/:provider/callback`);
+  console.log(`  POST /api/auth/oauth/complete`);
+  console.log(`  GET  /api/auth/sessions`);
+  console.log(`  DELETE /api/auth/sessions`);
+  console.log(`  DELETE /api/auth/sessions/:id`);
+  console.log(`  POST /api/auth/2fa/setup`);
+  console.log(`  POST /api/auth/2fa/confirm`);
+  console.log(`  POST /api/auth/2fa/disable`);
+  console.log(`  GET  /api/auth/passkeys`);
+  console.log(`  POST /api/auth/passkeys/register/options`);
+  console.log(`  POST /api/auth/passkeys/register`);
+  console.log(`  DELETE /api/auth/passkeys/:id`);
+  console.log(`  GET  /api/auth/tokens`);
+  console.log(`  POST /api/auth/tokens`);
+  console.log(`  DELETE /api/auth/tokens/:id`);
   console.log(`  GET  /api/profile`);
   console.log(`  PUT  /api/profile`);
+  console.log(`  DELETE /api/profile`);
+  console.log(`  PUT  /api/profile/password`);
+  console.log(`  GET  /api/profile/activity`);
+  console.log(`  POST /api/profile/export`);
+  console.log(`  GET  /api/profile/export/:id`);
+  console.log(`  GET  /api/profile/export/:id/download`);
+  console.log(`  GET  /api/admin/users`);
+  console.log(`  GET  /api/admin/users/:id`);
+  console.log(`  PUT  /api/admin/users/:id`);
+  console.log(`  PUT  /api/admin/users/:id/role`);
+  console.log(`  POST /api/admin/users/:id/disable`);
+  console.log(`  POST /api/admin/users/:id/enable`);
+  console.log(`  POST /api/admin/users/:id/password-reset`);
+  console.log(`  POST /api/admin/users/:id/impersonate`);
+  console.log(`  DELETE /api/admin/users/:id`);
+  console.log(`  GET  /api/admin/users/:id/sessions`);
+  console.log(`  DELETE /api/admin/users/:id/sessions`);
+  console.log(`  DELETE /api/admin/users/:id/sessions/:sessionId`);
+  console.log(`  GET  /api/admin/audit-events`);
+  console.log(`  GET  /api/admin/invitations`);
+  console.log(`  POST /api/admin/invitations`);
+  console.log(`  DELETE /api/admin/invitations/:id`);
 });
 
@@ -1,30 +1,133 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { findUserById } from '../database/db';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+import { findUserById, findSessionById } from '../database/db';
+import { verifyAccessToken, isAccessTokenRevoked } from '../services/token.service';
+import { isSessionActive, touchSession } from '../services/session.service';
+import { isEmailVerificationPending } from '../services/email-verification.service';
+import { isAccountDisabled } from '../services/user-admin.service';
+import {
+  isPersonalAccessToken,
+  verifyPersonalAccessToken,
+  touchPersonalAccessToken,
+} from '../services/personal-access-token.service';
+import { canImpersonate, recordImpersonatedRequest } from '../services/impersonation.service';
+import { getClientInfo } from '../utils/request';
+import { getCookie } from '../utils/auth-cookies';
+import { cookieConfig } from '../config/cookie.config';
+import { TokenScope } from '../types/auth.types';
 
 export interface AuthRequest extends Request {
   userId?: string;
   user?: any;
+  sessionId?: string; // unset for personal access tokens, which have no session, and while impersonating
+  actorId?: string; // admin acting as the user, set only while impersonating
+  tokenScopes?: TokenScope[]; // set only for personal access tokens
+  allowedTokenScope?: TokenScope; // set by allowTokenScope on routes open to personal access tokens
 }
 
+// Personal access tokens only work on routes that name a scope, and only if the token has it
+const authenticatePersonalAccessToken = (req: AuthRequest, res: Response, next: NextFunction, token: string): void => {
+  const accessToken = verifyPersonalAccessToken(token);
+
+  if (!accessToken) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  if (!req.allowedTokenScope) {
+    res.status(403).json({ error: 'Personal access tokens cannot be used for this endpoint' });
+    return;
+  }
+
+  if (!accessToken.scopes.includes(req.allowedTokenScope)) {
+    res.status(403).json({ error: `This token does not have the ${req.allowedTokenScope} scope` });
+    return;
+  }
+
+  const user = findUserById(accessToken.userId);
+
+  if (!user) {
+    res.status(401).json({ error: 'User not found' });
+    return;
+  }
+
+  if (isAccountDisabled(user)) {
+    res.status(403).json({ error: 'This account has been disabled' });
+    return;
+  }
+
+  if (isEmailVerificationPending(user)) {
+    res.status(403).json({ error: 'Email address has not been verified' });
+    return;
+  }
+
+  touchPersonalAccessToken(accessToken);
+
+  req.userId = user.id;
+  req.user = user;
+  req.tokenScopes = accessToken.scopes;
+  next();
+};
+
 export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction): void => {
   try {
-    const token = req.headers.authorization?.split(' ')[1]; // Bearer <token>
-    
+    // A Bearer header takes precedence over the cookie set in cookie mode
+    const token = req.headers.authorization?.split(' ')[1] || getCookie(req, cookieConfig.accessTokenCookie);
+
     if (!token) {
       res.status(401).json({ error: 'No token provided' });
       return;
     }
+
+    if (isPersonalAccessToken(token)) {
+      authenticatePersonalAccessToken(req, res, next, token);
+      return;
+    }
     
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    const decoded = verifyAccessToken(token);
+
+    if (isAccessTokenRevoked(decoded)) {
+      res.status(401).json({ error: 'Token has been revoked' });
+      return;
+    }
+
     const user = findUserById(decoded.userId);
     
     if (!user) {
       res.status(401).json({ error: 'User not found' });
       return;
     }
+
+    if (isAccountDisabled(user)) {
+      res.status(403).json({ error: 'This account has been disabled' });
+      return;
+    }
+
+    if (isEmailVerificationPending(user)) {
+      res.status(403).json({ error: 'Email address has not been verified' });
+      return;
+    }
+
+    // Every token must belong to a session that is still active; impersonation tokens use the admin's
+    const session = decoded.sid ? findSessionById(decoded.sid) : undefined;
+    if (!session || !isSessionActive(session, decoded.actorId || decoded.userId)) {
+      res.status(401).json({ error: 'Session has expired or been revoked' });
+      return;
+    }
+
+    const client = getClientInfo(req);
+    touchSession(session, client);
+
+    if (decoded.actorId) {
+      if (!canImpersonate(findUserById(decoded.actorId))) {
+        res.status(401).json({ error: 'Impersonation is no longer allowed' });
+        return;
+      }
+
+      recordImpersonatedRequest(decoded.actorId, user.id, { method: req.method, path: req.originalUrl }, client);
+      req.actorId = decoded.actorId;
+    } else {
+      req.sessionId = session.id;
+    }
     
     req.userId = decoded.userId;
     req.user = user;
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { csrfProtection } from './csrf.middleware';
+
+describe('CSRF Middleware', () => {
+  const app = express();
+  app.use(csrfProtection);
+  app.all('/', (req, res) => {
+    res.json({ ok: true });
+  });
+
+  it('should let safe methods through without a token', async () => {
+    await request(app).get('/').set('Cookie', 'access_token=abc').expect(200);
+  });
+
+  it('should let requests without session cookies through', async () => {
+    await request(app).post('/').expect(200);
+  });
+
+  it('should let Bearer requests through', async () => {
+    await request(app)
+      .post('/')
+      .set('Authorization', 'Bearer abc')
+      .set('Cookie', 'access_token=abc')
+      .expect(200);
+  });
+
+  it('should reject cookie-authenticated requests without the header', async () => {
+    const response = await request(app)
+      .post('/')
+      .set('Cookie', 'access_token=abc; csrf_token=csrf-1')
+      .expect(403);
+
+    expect(response.body.error).toBe('Invalid or missing CSRF token');
+  });
+
+  it('should reject a header that does not match the cookie', async () => {
+    await request(app)
+      .put('/')
+      .set('Cookie', 'refresh_token=abc; csrf_token=csrf-1')
+      .set('X-CSRF-Token', 'csrf-2')
+      .expect(403);
+  });
+
+  it('should accept a header matching the cookie', async () => {
+    await request(app)
+      .delete('/')
+      .set('Cookie', 'access_token=abc; csrf_token=csrf-1')
+      .set('X-CSRF-Token', 'csrf-1')
+      .expect(200);
+  });
+});
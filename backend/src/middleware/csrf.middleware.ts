@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { cookieConfig } from '../config/cookie.config';
+import { getCookie, hasAuthCookies } from '../utils/auth-cookies';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const tokensMatch = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Double-submit CSRF check for cookie sessions
+ * A state-changing request authenticated by cookies must repeat the CSRF cookie in the
+ * X-CSRF-Token header, which another site cannot read or set. Requests with a Bearer
+ * token, or without session cookies, are not exposed to CSRF and pass through.
+ */
+export const csrfProtection = (req: Request, res: Response, next: NextFunction): void => {
+  if (SAFE_METHODS.includes(req.method) || req.headers.authorization || !hasAuthCookies(req)) {
+    next();
+    return;
+  }
+
+  const cookieToken = getCookie(req, cookieConfig.csrfCookie);
+  const headerToken = req.headers[cookieConfig.csrfHeader];
+
+  if (!cookieToken || typeof headerToken !== 'string' || !tokensMatch(cookieToken, headerToken)) {
+    res.status(403).json({ error: 'Invalid or missing CSRF token' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,17 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+
+export const IMPERSONATION_BLOCKED_ERROR = 'This action is not available while impersonating a user';
+
+/**
+ * Keeps admins acting as a user away from sensitive actions, such as changing credentials
+ * Must run after authMiddleware, which sets actorId on impersonated requests.
+ */
+export const denyWhileImpersonating = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.actorId) {
+    res.status(403).json({ error: IMPERSONATION_BLOCKED_ERROR });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import express, { Response, NextFunction } from 'express';
+import { requirePermission } from './permission.middleware';
+import { authMiddleware, AuthRequest } from './auth.middleware';
+import { issueAuthTokens } from '../services/token.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Permission Middleware', () => {
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const createUser = (role?: User['role']): User => ({
+    id: '123',
+    email: 'test@example.com',
+    password: '$2a$10$hashedpassword',
+    name: 'Test User',
+    role,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    mockRequest = { headers: {} };
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    mockNext = vi.fn();
+  });
+
+  it('should call next() when the role grants the permission', () => {
+    mockRequest.user = createUser('support');
+
+    requirePermission('users:read')(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(mockResponse.status).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when the role lacks the permission', () => {
+    mockRequest.user = createUser('support');
+
+    requirePermission('users:delete')(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(mockResponse.json).toHaveBeenCalledWith({ error: 'You do not have permission to perform this action' });
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('should require every listed permission', () => {
+    mockRequest.user = createUser('support');
+
+    requirePermission('users:read', 'users:write')(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should treat users without a role as regular users', () => {
+    mockRequest.user = createUser();
+
+    requirePermission('users:read')(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should return 401 when no user was authenticated', () => {
+    requirePermission('users:read')(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+  });
+
+  describe('with authMiddleware', () => {
+    const app = express();
+    app.get('/users', authMiddleware, requirePermission('users:read'), (req, res) => {
+      res.json({ ok: true });
+    });
+
+    beforeEach(() => {
+      setupTestDatabase();
+      clearTestDatabase();
+    });
+
+    afterAll(() => {
+      teardownTestDatabase();
+    });
+
+    it('should apply role changes to tokens issued before them', async () => {
+      const user = db.createUser(createTestUserData());
+      const { token } = issueAuthTokens(user.id, { userAgent: 'vitest', ip: '127.0.0.1' });
+
+      await request(app).get('/users').set('Authorization', `Bearer ${token}`).expect(403);
+
+      db.updateUser(user.id, { role: 'support' });
+      await request(app).get('/users').set('Authorization', `Bearer ${token}`).expect(200);
+
+      db.updateUser(user.id, { role: 'user' });
+      await request(app).get('/users').set('Authorization', `Bearer ${token}`).expect(403);
+    });
+  });
+});
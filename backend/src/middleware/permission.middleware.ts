@@ -0,0 +1,24 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { Permission } from '../types/auth.types';
+import { hasPermission } from '../services/authorization.service';
+
+/**
+ * Creates a middleware that only lets through users whose role grants every given permission
+ * Must run after authMiddleware, which loads the current user for each request.
+ */
+export const requirePermission = (...permissions: Permission[]): RequestHandler => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    if (!permissions.every(permission => hasPermission(req.user, permission))) {
+      res.status(403).json({ error: 'You do not have permission to perform this action' });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createRateLimiter, RateLimiterOptions } from './rate-limit.middleware';
+import { MemoryRateLimitStore, RateLimitStore } from '../services/rate-limit.service';
+
+describe('Rate Limit Middleware', () => {
+  const createApp = (options: Partial<RateLimiterOptions> = {}) => {
+    const app = express();
+    app.use(
+      createRateLimiter({
+        name: 'test',
+        policy: { algorithm: 'sliding-window', limit: 2, windowMs: 60 * 1000 },
+        ...options,
+      })
+    );
+    app.get('/', (req, res) => {
+      res.json({ ok: true });
+    });
+    return app;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should set RateLimit headers on allowed requests', async () => {
+    const response = await request(createApp()).get('/').expect(200);
+
+    expect(response.headers['ratelimit-limit']).toBe('2');
+    expect(response.headers['ratelimit-remaining']).toBe('1');
+    expect(Number(response.headers['ratelimit-reset'])).toBeGreaterThan(0);
+    expect(response.headers['ratelimit-policy']).toBe('2;w=60');
+  });
+
+  it('should reject requests over the limit with 429 and Retry-After', async () => {
+    const app = createApp();
+    await request(app).get('/').expect(200);
+    await request(app).get('/').expect(200);
+
+    const response = await request(app).get('/').expect(429);
+
+    expect(response.body).toEqual({ error: 'Too many requests, please try again later' });
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should describe token bucket policies', async () => {
+    const app = createApp({ policy: { algorithm: 'token-bucket', capacity: 10, refillPerSecond: 2 } });
+
+    const response = await request(app).get('/').expect(200);
+
+    expect(response.headers['ratelimit-policy']).toBe('10;w=5');
+    expect(response.headers['ratelimit-remaining']).toBe('9');
+  });
+
+  it('should limit clients by the generated key', async () => {
+    const app = createApp({ keyGenerator: req => String(req.headers['x-client']) });
+    await request(app).get('/').set('X-Client', 'a').expect(200);
+    await request(app).get('/').set('X-Client', 'a').expect(200);
+
+    await request(app).get('/').set('X-Client', 'a').expect(429);
+    await request(app).get('/').set('X-Client', 'b').expect(200);
+  });
+
+  it('should keep counters of limiters sharing a store apart', async () => {
+    const store = new MemoryRateLimitStore();
+    const update = vi.spyOn(store, 'update');
+
+    await request(createApp({ name: 'first', store })).get('/').expect(200);
+    await request(createApp({ name: 'second', store })).get('/').expect(200);
+
+    expect(update.mock.calls.map(([key]) => key.split(':')[0])).toEqual(['first', 'second']);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store: RateLimitStore = {
+      update: vi.fn().mockRejectedValue(new Error('connection refused')),
+    };
+
+    const response = await request(createApp({ store })).get('/').expect(200);
+
+    expect(response.headers['ratelimit-limit']).toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimitPolicy } from '../config/rate-limit.config';
+import { MemoryRateLimitStore, RateLimitStore, consumeRateLimit } from '../services/rate-limit.service';
+import { getClientInfo } from '../utils/request';
+
+export interface RateLimiterOptions {
+  // Distinguishes this limiter's counters from other limiters sharing the store
+  name: string;
+  policy: RateLimitPolicy;
+  store?: RateLimitStore;
+  // Identifies the client; defaults to its IP address
+  keyGenerator?: (req: Request) => string;
+}
+
+const describePolicy = (policy: RateLimitPolicy): string => {
+  return policy.algorithm === 'token-bucket'
+    ? `${policy.capacity};w=${Math.ceil(policy.capacity / policy.refillPerSecond)}`
+    : `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`;
+};
+
+/**
+ * Creates a middleware limiting how often each client may call the routes it is mounted on
+ * Sets the RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and RateLimit-Policy headers
+ * from the IETF draft, and answers 429 with Retry-After once the limit is reached.
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RequestHandler => {
+  const store = options.store || new MemoryRateLimitStore();
+  const keyGenerator = options.keyGenerator || ((req: Request) => getClientInfo(req).ip);
+  const policyHeader = describePolicy(options.policy);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let decision;
+    try {
+      decision = await consumeRateLimit(store, `${options.name}:${keyGenerator(req)}`, options.policy);
+    } catch (error) {
+      // An unreachable store should not take the API down with it
+      console.error(`Rate limiter "${options.name}" failed, letting the request through:`, error);
+      next();
+      return;
+    }
+
+    res.set({
+      'RateLimit-Limit': String(decision.limit),
+      'RateLimit-Remaining': String(decision.remaining),
+      'RateLimit-Reset': String(decision.resetSeconds),
+      'RateLimit-Policy': policyHeader,
+    });
+
+    if (!decision.allowed) {
+      res.set('Retry-After', String(decision.retryAfterSeconds));
+      res.status(429).json({ error: 'Too many requests, please try again later' });
+      return;
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,14 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { TokenScope } from '../types/auth.types';
+
+/**
+ * Lets personal access tokens with the given scope use the route
+ * Must run before authMiddleware, which rejects tokens on routes that declare no scope.
+ */
+export const allowTokenScope = (scope: TokenScope): RequestHandler => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    req.allowedTokenScope = scope;
+    next();
+  };
+};
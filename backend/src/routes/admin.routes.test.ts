@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import * as adminUserController from '../controllers/admin-user.controller';
+import * as auditController from '../controllers/audit.controller';
+import * as invitationController from '../controllers/invitation.controller';
+
+// Mock the controller before importing routes
+vi.mock('../controllers/admin-user.controller', () => ({
+  listUsers: vi.fn((req, res) => res.json({ users: [], page: 1, pageSize: 20, total: 0 })),
+  getUser: vi.fn((req, res) => res.json({ id: req.params.id })),
+  updateUser: vi.fn((req, res) => res.json({ id: req.params.id })),
+  changeRole: vi.fn((req, res) => res.json({ id: req.params.id })),
+  disableUser: vi.fn((req, res) => res.json({ id: req.params.id, disabled: true })),
+  enableUser: vi.fn((req, res) => res.json({ id: req.params.id, disabled: false })),
+  forcePasswordReset: vi.fn((req, res) => res.json({ message: 'ok' })),
+  deleteUser: vi.fn((req, res) => res.json({ message: 'User deleted' })),
+  listUserSessions: vi.fn((req, res) => res.json({ sessions: [] })),
+  revokeUserSession: vi.fn((req, res) => res.json({ message: 'Session revoked' })),
+  revokeUserSessions: vi.fn((req, res) => res.json({ message: 'Sessions revoked', revoked: 0 })),
+  impersonateUser: vi.fn((req, res) => res.json({ token: 'impersonation-token' })),
+}));
+
+vi.mock('../controllers/audit.controller', () => ({
+  listAuditEvents: vi.fn((req, res) => res.json({ events: [], page: 1, pageSize: 20, total: 0 })),
+}));
+
+vi.mock('../controllers/invitation.controller', () => ({
+  listInvitations: vi.fn((req, res) => res.json({ invitations: [], page: 1, pageSize: 20, total: 0 })),
+  createInvitation: vi.fn((req, res) => res.status(201).json({ id: 'invite-1', code: 'code' })),
+  revokeInvitation: vi.fn((req, res) => res.json({ id: req.params.id, status: 'revoked' })),
+}));
+
+// Mock auth middleware to sign in with the role given in a test header
+vi.mock('../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn((req, res, next) => {
+    req.userId = 'admin-1';
+    req.user = { id: 'admin-1', role: req.headers['x-test-role'] };
+    req.actorId = req.headers['x-test-actor'];
+    next();
+  }),
+}));
+
+// Import routes after mocking
+import adminRoutes from './admin.routes';
+
+describe('Admin Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRoutes);
+  });
+
+  it('should let support staff list and view users', async () => {
+    await request(app).get('/api/admin/users').set('X-Test-Role', 'support').expect(200);
+    await request(app).get('/api/admin/users/123').set('X-Test-Role', 'support').expect(200);
+
+    expect(adminUserController.listUsers).toHaveBeenCalled();
+    expect(adminUserController.getUser).toHaveBeenCalled();
+  });
+
+  it('should keep regular users out', async () => {
+    const response = await request(app).get('/api/admin/users').set('X-Test-Role', 'user').expect(403);
+
+    expect(response.body.error).toBe('You do not have permission to perform this action');
+    expect(adminUserController.listUsers).not.toHaveBeenCalled();
+  });
+
+  it('should let support staff list sessions but only admins revoke them', async () => {
+    await request(app).get('/api/admin/users/123/sessions').set('X-Test-Role', 'support').expect(200);
+    await request(app).delete('/api/admin/users/123/sessions').set('X-Test-Role', 'support').expect(403);
+    await request(app).delete('/api/admin/users/123/sessions/session-1').set('X-Test-Role', 'support').expect(403);
+
+    expect(adminUserController.listUserSessions).toHaveBeenCalled();
+    expect(adminUserController.revokeUserSession).not.toHaveBeenCalled();
+    expect(adminUserController.revokeUserSessions).not.toHaveBeenCalled();
+
+    await request(app).delete('/api/admin/users/123/sessions').set('X-Test-Role', 'admin').expect(200);
+    await request(app).delete('/api/admin/users/123/sessions/session-1').set('X-Test-Role', 'admin').expect(200);
+
+    const req = vi.mocked(adminUserController.revokeUserSession).mock.calls[0][0];
+    expect(req.params).toMatchObject({ id: '123', sessionId: 'session-1' });
+  });
+
+  it('should reserve changes for admins', async () => {
+    await request(app).put('/api/admin/users/123').set('X-Test-Role', 'support').send({ name: 'New' }).expect(403);
+    await request(app).put('/api/admin/users/123/role').set('X-Test-Role', 'support').send({ role: 'admin' }).expect(403);
+    await request(app).post('/api/admin/users/123/disable').set('X-Test-Role', 'support').expect(403);
+    await request(app).delete('/api/admin/users/123').set('X-Test-Role', 'support').expect(403);
+
+    expect(adminUserController.updateUser).not.toHaveBeenCalled();
+    expect(adminUserController.changeRole).not.toHaveBeenCalled();
+    expect(adminUserController.disableUser).not.toHaveBeenCalled();
+    expect(adminUserController.deleteUser).not.toHaveBeenCalled();
+  });
+
+  it('should route admin actions to their controllers', async () => {
+    await request(app).put('/api/admin/users/123').set('X-Test-Role', 'admin').send({ name: 'New' }).expect(200);
+    await request(app).put('/api/admin/users/123/role').set('X-Test-Role', 'admin').send({ role: 'support' }).expect(200);
+    await request(app).post('/api/admin/users/123/disable').set('X-Test-Role', 'admin').expect(200);
+    await request(app).post('/api/admin/users/123/enable').set('X-Test-Role', 'admin').expect(200);
+    await request(app).post('/api/admin/users/123/password-reset').set('X-Test-Role', 'admin').expect(200);
+    await request(app).delete('/api/admin/users/123').set('X-Test-Role', 'admin').expect(200);
+
+    expect(adminUserController.updateUser).toHaveBeenCalled();
+    expect(adminUserController.changeRole).toHaveBeenCalled();
+    expect(adminUserController.disableUser).toHaveBeenCalled();
+    expect(adminUserController.enableUser).toHaveBeenCalled();
+    expect(adminUserController.forcePasswordReset).toHaveBeenCalled();
+    expect(adminUserController.deleteUser).toHaveBeenCalled();
+  });
+
+  it('should show the audit log to admins only', async () => {
+    await request(app).get('/api/admin/audit-events').set('X-Test-Role', 'support').expect(403);
+    expect(auditController.listAuditEvents).not.toHaveBeenCalled();
+
+    await request(app).get('/api/admin/audit-events').set('X-Test-Role', 'admin').expect(200);
+    expect(auditController.listAuditEvents).toHaveBeenCalled();
+  });
+
+  it('should let only admins manage invitations', async () => {
+    await request(app).post('/api/admin/invitations').set('X-Test-Role', 'support').send({}).expect(403);
+    expect(invitationController.createInvitation).not.toHaveBeenCalled();
+
+    await request(app).get('/api/admin/invitations').set('X-Test-Role', 'admin').expect(200);
+    await request(app).post('/api/admin/invitations').set('X-Test-Role', 'admin').send({}).expect(201);
+    await request(app).delete('/api/admin/invitations/invite-1').set('X-Test-Role', 'admin').expect(200);
+
+    expect(invitationController.listInvitations).toHaveBeenCalled();
+    expect(invitationController.createInvitation).toHaveBeenCalled();
+    expect(invitationController.revokeInvitation).toHaveBeenCalled();
+  });
+
+  it('should let only admins start impersonation', async () => {
+    await request(app).post('/api/admin/users/123/impersonate').set('X-Test-Role', 'support').expect(403);
+    expect(adminUserController.impersonateUser).not.toHaveBeenCalled();
+
+    await request(app).post('/api/admin/users/123/impersonate').set('X-Test-Role', 'admin').expect(200);
+    expect(adminUserController.impersonateUser).toHaveBeenCalled();
+  });
+
+  it('should keep impersonated requests out of the admin API', async () => {
+    const response = await request(app)
+      .get('/api/admin/users')
+      .set('X-Test-Role', 'admin')
+      .set('X-Test-Actor', 'admin-2')
+      .expect(403);
+
+    expect(response.body.error).toBe('This action is not available while impersonating a user');
+    expect(adminUserController.listUsers).not.toHaveBeenCalled();
+  });
+});
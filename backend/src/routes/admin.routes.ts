@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import {
+  listUsers,
+  getUser,
+  updateUser,
+  changeRole,
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  deleteUser,
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+  impersonateUser,
+} from '../controllers/admin-user.controller';
+import { listAuditEvents } from '../controllers/audit.controller';
+import { createInvitation, listInvitations, revokeInvitation } from '../controllers/invitation.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import { denyWhileImpersonating } from '../middleware/impersonation.middleware';
+
+const router = Router();
+
+// Admins acting as a user cannot reach the admin API with that user's token
+router.use(authMiddleware, denyWhileImpersonating);
+
+router.get('/users', requirePermission('users:read'), listUsers);
+router.get('/users/:id', requirePermission('users:read'), getUser);
+router.put('/users/:id', requirePermission('users:write'), updateUser);
+router.put('/users/:id/role', requirePermission('roles:assign'), changeRole);
+router.post('/users/:id/disable', requirePermission('users:write'), disableUser);
+router.post('/users/:id/enable', requirePermission('users:write'), enableUser);
+router.post('/users/:id/password-reset', requirePermission('users:write'), forcePasswordReset);
+router.delete('/users/:id', requirePermission('users:delete'), deleteUser);
+router.get('/users/:id/sessions', requirePermission('sessions:read'), listUserSessions);
+router.delete('/users/:id/sessions', requirePermission('sessions:revoke'), revokeUserSessions);
+router.delete('/users/:id/sessions/:sessionId', requirePermission('sessions:revoke'), revokeUserSession);
+router.post('/users/:id/impersonate', requirePermission('users:impersonate'), impersonateUser);
+router.get('/audit-events', requirePermission('audit:read'), listAuditEvents);
+router.get('/invitations', requirePermission('invitations:manage'), listInvitations);
+router.post('/invitations', requirePermission('invitations:manage'), createInvitation);
+router.delete('/invitations/:id', requirePermission('invitations:manage'), revokeInvitation);
+
+export default router;
@@ -2,14 +2,85 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import * as authController from '../controllers/auth.controller';
+import * as sessionController from '../controllers/session.controller';
+import * as passwordResetController from '../controllers/password-reset.controller';
+import * as passwordPolicyController from '../controllers/password-policy.controller';
+import * as emailVerificationController from '../controllers/email-verification.controller';
+import * as twoFactorController from '../controllers/two-factor.controller';
+import * as passkeyController from '../controllers/passkey.controller';
+import * as oauthController from '../controllers/oauth.controller';
+import * as magicLinkController from '../controllers/magic-link.controller';
+import * as personalAccessTokenController from '../controllers/personal-access-token.controller';
 
 // Mock the controller before importing routes
 vi.mock('../controllers/auth.controller', () => ({
   login: vi.fn((req, res) => res.json({ token: 'mock-token', user: {} })),
   register: vi.fn((req, res) => res.status(201).json({ token: 'mock-token', user: {} })),
+  refresh: vi.fn((req, res) => res.json({ token: 'mock-token', refreshToken: 'mock-refresh-token' })),
   logout: vi.fn((req, res) => res.json({ message: 'Logged out successfully' })),
 }));
 
+vi.mock('../controllers/session.controller', () => ({
+  listSessions: vi.fn((req, res) => res.json({ sessions: [] })),
+  revokeSession: vi.fn((req, res) => res.json({ message: 'Session revoked' })),
+  revokeOtherSessions: vi.fn((req, res) => res.json({ message: 'Other sessions revoked', revoked: 0 })),
+}));
+
+vi.mock('../controllers/password-reset.controller', () => ({
+  forgotPassword: vi.fn((req, res) => res.json({ message: 'If an account exists for this email, a password reset link has been sent' })),
+  resetPassword: vi.fn((req, res) => res.json({ message: 'Password has been reset. Please log in with your new password' })),
+}));
+
+vi.mock('../controllers/password-policy.controller', () => ({
+  getPasswordPolicy: vi.fn((req, res) => res.json({ minLength: 8 })),
+}));
+
+vi.mock('../controllers/email-verification.controller', () => ({
+  verifyEmail: vi.fn((req, res) => res.json({ message: 'Email address verified' })),
+  resendVerification: vi.fn((req, res) => res.json({ message: 'If this email needs verification, a new link has been sent' })),
+}));
+
+vi.mock('../controllers/two-factor.controller', () => ({
+  setupTwoFactor: vi.fn((req, res) => res.json({ secret: 'SECRET', otpauthUri: 'otpauth://totp/test' })),
+  confirmTwoFactor: vi.fn((req, res) => res.json({ message: 'Two-factor authentication enabled', recoveryCodes: [] })),
+  disableTwoFactor: vi.fn((req, res) => res.json({ message: 'Two-factor authentication disabled' })),
+  verifyMfa: vi.fn((req, res) => res.json({ token: 'mock-token', refreshToken: 'mock-refresh-token', user: {} })),
+}));
+
+vi.mock('../controllers/passkey.controller', () => ({
+  passkeyRegistrationOptions: vi.fn((req, res) => res.json({ challenge: 'challenge' })),
+  registerPasskey: vi.fn((req, res) => res.status(201).json({ id: 'passkey-1', name: 'Passkey 1' })),
+  passkeyLoginOptions: vi.fn((req, res) => res.json({ challenge: 'challenge' })),
+  loginWithPasskey: vi.fn((req, res) => res.json({ token: 'mock-token', refreshToken: 'mock-refresh-token', user: {} })),
+  listPasskeys: vi.fn((req, res) => res.json({ passkeys: [] })),
+  deletePasskey: vi.fn((req, res) => res.json({ message: 'Passkey deleted' })),
+}));
+
+vi.mock('../controllers/oauth.controller', () => ({
+  startOAuth: vi.fn((req, res) => res.redirect(302, 'https://idp.example.com/authorize')),
+  oauthCallback: vi.fn((req, res) => res.redirect(302, 'http://localhost:5173/oauth/callback#code=mock-code')),
+  completeOAuth: vi.fn((req, res) => res.json({ token: 'mock-token', refreshToken: 'mock-refresh-token', user: {} })),
+}));
+
+vi.mock('../controllers/magic-link.controller', () => ({
+  requestMagicLink: vi.fn((req, res) => res.json({ message: 'If an account exists for this email, a sign-in link has been sent' })),
+  verifyMagicLink: vi.fn((req, res) => res.json({ token: 'mock-token', refreshToken: 'mock-refresh-token', user: {} })),
+}));
+
+vi.mock('../controllers/personal-access-token.controller', () => ({
+  createPersonalAccessToken: vi.fn((req, res) => res.status(201).json({ id: 'pat-1', token: 'pat_mock' })),
+  listPersonalAccessTokens: vi.fn((req, res) => res.json({ tokens: [] })),
+  revokePersonalAccessToken: vi.fn((req, res) => res.json({ message: 'Token revoked' })),
+}));
+
+// Mock auth middleware to allow requests through
+vi.mock('../middleware/auth.middleware', () => ({
+  authMiddleware: vi.fn((req, res, next) => {
+    req.userId = '123';
+    next();
+  }),
+}));
+
 // Import routes after mocking
 import authRoutes from './auth.routes';
 
@@ -27,7 +98,7 @@ describe('Auth Routes', () => {
     it('should call login controller', async () => {
       const response = await request(app)
         .post('/api/auth/login')
-        .send({ email: 'test@example.com', password: 'password123' })
+        .send({ email: 'test@example.com', password: 'quiet-harbor-42' })
         .expect(200);
 
       expect(authController.login).toHaveBeenCalled();
@@ -37,7 +108,7 @@ describe('Auth Routes', () => {
     it('should handle login request with JSON body', async () => {
       await request(app)
         .post('/api/auth/login')
-        .send({ email: 'test@example.com', password: 'password123' })
+        .send({ email: 'test@example.com', password: 'quiet-harbor-42' })
         .expect(200);
 
       expect(authController.login).toHaveBeenCalledTimes(1);
@@ -50,7 +121,7 @@ describe('Auth Routes', () => {
         .post('/api/auth/register')
         .send({
           email: 'new@example.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'New User',
         })
         .expect(201);
@@ -64,7 +135,7 @@ describe('Auth Routes', () => {
         .post('/api/auth/register')
         .send({
           email: 'new@example.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'New User',
         })
         .expect(201);
@@ -73,6 +144,18 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('POST /api/auth/refresh', () => {
+    it('should call refresh controller', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'mock-refresh-token' })
+        .expect(200);
+
+      expect(authController.refresh).toHaveBeenCalledTimes(1);
+      expect(response.body).toMatchSnapshot();
+    });
+  });
+
   describe('POST /api/auth/logout', () => {
     it('should call logout controller', async () => {
       const response = await request(app)
@@ -90,6 +173,204 @@ describe('Auth Routes', () => {
     });
   });
 
+  describe('Password reset routes', () => {
+    it('should call forgotPassword controller', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      expect(passwordResetController.forgotPassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call resetPassword controller', async () => {
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'reset-token', password: 'newpassword123' })
+        .expect(200);
+
+      expect(passwordResetController.resetPassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call getPasswordPolicy controller', async () => {
+      await request(app)
+        .get('/api/auth/password-policy')
+        .expect(200);
+
+      expect(passwordPolicyController.getPasswordPolicy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Magic link routes', () => {
+    it('should call requestMagicLink controller', async () => {
+      await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      expect(magicLinkController.requestMagicLink).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call verifyMagicLink controller', async () => {
+      await request(app)
+        .post('/api/auth/magic-link/verify')
+        .send({ token: 'magic-token' })
+        .expect(200);
+
+      expect(magicLinkController.verifyMagicLink).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Email verification routes', () => {
+    it('should call verifyEmail controller', async () => {
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'verify-token' })
+        .expect(200);
+
+      expect(emailVerificationController.verifyEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call resendVerification controller', async () => {
+      await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      expect(emailVerificationController.resendVerification).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Two-factor routes', () => {
+    it('should call setupTwoFactor controller', async () => {
+      await request(app).post('/api/auth/2fa/setup').expect(200);
+
+      expect(twoFactorController.setupTwoFactor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call confirmTwoFactor controller', async () => {
+      await request(app).post('/api/auth/2fa/confirm').send({ code: '123456' }).expect(200);
+
+      expect(twoFactorController.confirmTwoFactor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call disableTwoFactor controller', async () => {
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .send({ password: 'quiet-harbor-42', code: '123456' })
+        .expect(200);
+
+      expect(twoFactorController.disableTwoFactor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call verifyMfa controller', async () => {
+      await request(app)
+        .post('/api/auth/2fa/verify')
+        .send({ mfaToken: 'mfa-token', code: '123456' })
+        .expect(200);
+
+      expect(twoFactorController.verifyMfa).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Passkey routes', () => {
+    it('should call passkeyRegistrationOptions controller', async () => {
+      await request(app).post('/api/auth/passkeys/register/options').expect(200);
+
+      expect(passkeyController.passkeyRegistrationOptions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call registerPasskey controller', async () => {
+      await request(app).post('/api/auth/passkeys/register').send({ credential: {} }).expect(201);
+
+      expect(passkeyController.registerPasskey).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call passkeyLoginOptions controller', async () => {
+      await request(app).post('/api/auth/passkeys/login/options').expect(200);
+
+      expect(passkeyController.passkeyLoginOptions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call loginWithPasskey controller', async () => {
+      await request(app).post('/api/auth/passkeys/login').send({ credential: {} }).expect(200);
+
+      expect(passkeyController.loginWithPasskey).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call listPasskeys controller', async () => {
+      await request(app).get('/api/auth/passkeys').expect(200);
+
+      expect(passkeyController.listPasskeys).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call deletePasskey controller with the passkey id', async () => {
+      await request(app).delete('/api/auth/passkeys/passkey-1').expect(200);
+
+      const req = vi.mocked(passkeyController.deletePasskey).mock.calls[0][0];
+      expect(req.params.id).toBe('passkey-1');
+    });
+  });
+
+  describe('OAuth routes', () => {
+    it('should call startOAuth controller with the provider name', async () => {
+      await request(app).get('/api/auth/oauth/acme/start').expect(302);
+
+      const req = vi.mocked(oauthController.startOAuth).mock.calls[0][0];
+      expect(req.params.provider).toBe('acme');
+    });
+
+    it('should call oauthCallback controller', async () => {
+      await request(app).get('/api/auth/oauth/acme/callback?code=abc&state=xyz').expect(302);
+
+      const req = vi.mocked(oauthController.oauthCallback).mock.calls[0][0];
+      expect(req.params.provider).toBe('acme');
+      expect(req.query.code).toBe('abc');
+    });
+
+    it('should call completeOAuth controller', async () => {
+      await request(app).post('/api/auth/oauth/complete').send({ code: 'mock-code' }).expect(200);
+
+      const req = vi.mocked(oauthController.completeOAuth).mock.calls[0][0];
+      expect(req.body.code).toBe('mock-code');
+    });
+  });
+
+  describe('Session routes', () => {
+    it('should call listSessions controller', async () => {
+      await request(app).get('/api/auth/sessions').expect(200);
+
+      expect(sessionController.listSessions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call revokeSession controller with the session id', async () => {
+      await request(app).delete('/api/auth/sessions/session-1').expect(200);
+
+      expect(sessionController.revokeSession).toHaveBeenCalledTimes(1);
+      const req = vi.mocked(sessionController.revokeSession).mock.calls[0][0];
+      expect(req.params.id).toBe('session-1');
+    });
+
+    it('should call revokeOtherSessions controller', async () => {
+      await request(app).delete('/api/auth/sessions').expect(200);
+
+      expect(sessionController.revokeOtherSessions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Personal access token routes', () => {
+    it('should call the token management controllers', async () => {
+      await request(app).get('/api/auth/tokens').expect(200);
+      await request(app).post('/api/auth/tokens').send({ name: 'CI', scopes: ['profile:read'] }).expect(201);
+      await request(app).delete('/api/auth/tokens/pat-1').expect(200);
+
+      expect(personalAccessTokenController.listPersonalAccessTokens).toHaveBeenCalledTimes(1);
+      expect(personalAccessTokenController.createPersonalAccessToken).toHaveBeenCalledTimes(1);
+      const req = vi.mocked(personalAccessTokenController.revokePersonalAccessToken).mock.calls[0][0];
+      expect(req.params.id).toBe('pat-1');
+    });
+  });
+
   describe('Route registration', () => {
     it('should register all auth routes', () => {
       // Verify routes are registered by checking they respond
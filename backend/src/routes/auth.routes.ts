@@ -1,11 +1,69 @@
 import { Router } from 'express';
-import { login, register, logout } from '../controllers/auth.controller';
+import { login, register, refresh, logout } from '../controllers/auth.controller';
+import { listSessions, revokeSession, revokeOtherSessions } from '../controllers/session.controller';
+import { forgotPassword, resetPassword } from '../controllers/password-reset.controller';
+import { getPasswordPolicy } from '../controllers/password-policy.controller';
+import { verifyEmail, resendVerification } from '../controllers/email-verification.controller';
+import { setupTwoFactor, confirmTwoFactor, disableTwoFactor, verifyMfa } from '../controllers/two-factor.controller';
+import {
+  passkeyRegistrationOptions,
+  registerPasskey,
+  passkeyLoginOptions,
+  loginWithPasskey,
+  listPasskeys,
+  deletePasskey,
+} from '../controllers/passkey.controller';
+import { startOAuth, oauthCallback, completeOAuth } from '../controllers/oauth.controller';
+import { requestMagicLink, verifyMagicLink } from '../controllers/magic-link.controller';
+import {
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+} from '../controllers/personal-access-token.controller';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { allowTokenScope } from '../middleware/token-scope.middleware';
+import { denyWhileImpersonating } from '../middleware/impersonation.middleware';
 
 const router = Router();
 
 router.post('/login', login);
 router.post('/register', register);
+router.post('/refresh', refresh);
 router.post('/logout', logout);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.get('/password-policy', getPasswordPolicy);
+router.post('/verify-email', verifyEmail);
+router.post('/resend-verification', resendVerification);
+router.post('/magic-link', requestMagicLink);
+router.post('/magic-link/verify', verifyMagicLink);
+router.post('/2fa/verify', verifyMfa);
+router.post('/passkeys/login/options', passkeyLoginOptions);
+router.post('/passkeys/login', loginWithPasskey);
+router.get('/oauth/:provider/start', startOAuth);
+router.get('/oauth/:provider/callback', oauthCallback);
+router.post('/oauth/complete', completeOAuth);
+
+// Session management requires authentication
+router.get('/sessions', allowTokenScope('sessions:read'), authMiddleware, listSessions);
+router.delete('/sessions', authMiddleware, denyWhileImpersonating, revokeOtherSessions);
+router.delete('/sessions/:id', allowTokenScope('sessions:write'), authMiddleware, denyWhileImpersonating, revokeSession);
+
+// Two-factor enrollment requires authentication
+router.post('/2fa/setup', authMiddleware, denyWhileImpersonating, setupTwoFactor);
+router.post('/2fa/confirm', authMiddleware, denyWhileImpersonating, confirmTwoFactor);
+router.post('/2fa/disable', authMiddleware, denyWhileImpersonating, disableTwoFactor);
+
+// Passkey management requires authentication
+router.get('/passkeys', authMiddleware, listPasskeys);
+router.post('/passkeys/register/options', authMiddleware, denyWhileImpersonating, passkeyRegistrationOptions);
+router.post('/passkeys/register', authMiddleware, denyWhileImpersonating, registerPasskey);
+router.delete('/passkeys/:id', authMiddleware, denyWhileImpersonating, deletePasskey);
+
+// Personal access tokens can only be managed from a signed-in session
+router.get('/tokens', authMiddleware, listPersonalAccessTokens);
+router.post('/tokens', authMiddleware, denyWhileImpersonating, createPersonalAccessToken);
+router.delete('/tokens/:id', authMiddleware, denyWhileImpersonating, revokePersonalAccessToken);
 
 export default router;
 
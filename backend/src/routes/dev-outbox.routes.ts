@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { listOutbox, clearOutbox } from '../controllers/dev-outbox.controller';
+
+/**
+ * Development mail outbox, only mounted when MAIL_OUTBOX_API=true
+ */
+const router = Router();
+
+router.get('/', listOutbox);
+router.delete('/', clearOutbox);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { discovery, jwks, authorize, token } from '../controllers/mock-oidc.controller';
+
+/**
+ * Local OpenID Connect provider, only mounted when OAUTH_MOCK_PROVIDER=true
+ */
+const router = Router();
+
+router.get('/.well-known/openid-configuration', discovery);
+router.get('/jwks', jwks);
+router.get('/authorize', authorize);
+router.post('/token', token);
+
+export default router;
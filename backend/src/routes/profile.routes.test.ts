@@ -2,12 +2,21 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import express from 'express';
 import * as profileController from '../controllers/profile.controller';
+import * as dataExportController from '../controllers/data-export.controller';
 import * as authMiddleware from '../middleware/auth.middleware';
 
 // Mock the controller and middleware before importing routes
 vi.mock('../controllers/profile.controller', () => ({
   getProfile: vi.fn((req, res) => res.json({ id: '123', email: 'test@example.com', name: 'Test' })),
   updateProfile: vi.fn((req, res) => res.json({ id: '123', email: 'test@example.com', name: 'Updated' })),
+  changePassword: vi.fn((req, res) => res.json({ message: 'Password changed successfully', revoked: 0 })),
+  deleteAccount: vi.fn((req, res) => res.status(202).json({ deletionScheduledFor: '2024-02-01T00:00:00.000Z' })),
+}));
+
+vi.mock('../controllers/data-export.controller', () => ({
+  requestExport: vi.fn((req, res) => res.status(202).json({ id: 'job-1', status: 'pending' })),
+  getExportStatus: vi.fn((req, res) => res.json({ id: 'job-1', status: 'ready' })),
+  downloadExport: vi.fn((req, res) => res.json({ profile: { id: '123' } })),
 }));
 
 // Mock auth middleware to allow requests through
@@ -104,6 +113,60 @@ describe('Profile Routes', () => {
     });
   });
 
+  describe('PUT /api/profile/password', () => {
+    it('should call changePassword controller', async () => {
+      await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ currentPassword: 'OldPassword1', newPassword: 'NewPassword1' })
+        .expect(200);
+
+      expect(profileController.changePassword).toHaveBeenCalledTimes(1);
+      expect(authMiddleware.authMiddleware).toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/profile', () => {
+    it('should call deleteAccount controller', async () => {
+      await request(app)
+        .delete('/api/profile')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ password: 'quiet-harbor-42' })
+        .expect(202);
+
+      expect(profileController.deleteAccount).toHaveBeenCalledTimes(1);
+      expect(authMiddleware.authMiddleware).toHaveBeenCalled();
+    });
+  });
+
+  describe('/api/profile/export', () => {
+    it('should call requestExport controller on POST', async () => {
+      await request(app).post('/api/profile/export').set('Authorization', 'Bearer mock-token').expect(202);
+
+      expect(dataExportController.requestExport).toHaveBeenCalledTimes(1);
+      expect(authMiddleware.authMiddleware).toHaveBeenCalled();
+    });
+
+    it('should not start an export on GET', async () => {
+      await request(app).get('/api/profile/export').set('Authorization', 'Bearer mock-token');
+
+      expect(dataExportController.requestExport).not.toHaveBeenCalled();
+    });
+
+    it('should call getExportStatus controller', async () => {
+      await request(app).get('/api/profile/export/job-1').set('Authorization', 'Bearer mock-token').expect(200);
+
+      expect(dataExportController.getExportStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve downloads without authentication', async () => {
+      await request(app).get('/api/profile/export/job-1/download?token=abc').expect(200);
+
+      expect(dataExportController.downloadExport).toHaveBeenCalledTimes(1);
+      expect(authMiddleware.authMiddleware).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Route registration', () => {
     it('should register all profile routes', () => {
       expect(profileRoutes).toBeDefined();
@@ -1,14 +1,31 @@
 import { Router } from 'express';
-import { getProfile, updateProfile } from '../controllers/profile.controller';
+import { getProfile, updateProfile, changePassword, deleteAccount } from '../controllers/profile.controller';
+import { requestExport, getExportStatus, downloadExport } from '../controllers/data-export.controller';
+import { getActivityFeed } from '../controllers/audit.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { allowTokenScope } from '../middleware/token-scope.middleware';
+import { denyWhileImpersonating } from '../middleware/impersonation.middleware';
 
 const router = Router();
 
-// All profile routes require authentication
+// Export downloads are authorized by the token in the link instead
+router.get('/export/:id/download', downloadExport);
+
+// Personal access tokens may only use the routes that name the scope they need
+router.get('/', allowTokenScope('profile:read'));
+router.put('/', allowTokenScope('profile:write'));
+router.get('/activity', allowTokenScope('profile:read'));
+
+// All other profile routes require authentication
 router.use(authMiddleware);
 
 router.get('/', getProfile);
 router.put('/', updateProfile);
+router.delete('/', denyWhileImpersonating, deleteAccount);
+router.put('/password', denyWhileImpersonating, changePassword);
+router.get('/activity', getActivityFeed);
+router.post('/export', denyWhileImpersonating, requestExport);
+router.get('/export/:id', denyWhileImpersonating, getExportStatus);
 
 export default router;
 
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { jwks } from '../controllers/jwks.controller';
+
+/**
+ * Public metadata for other services, e.g. the keys to verify our access tokens with
+ */
+const router = Router();
+
+router.get('/jwks.json', jwks);
+
+export default router;
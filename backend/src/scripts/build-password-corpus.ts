@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import { buildPasswordCorpus, CORPUS_ENTRY_BYTES } from '../utils/password-corpus';
+
+/**
+ * Builds the breached-password corpus from plain-text password lists, one password per line
+ * Usage: npm run build:password-corpus -- <output.bin> <list.txt> [more lists...]
+ */
+const [output, ...lists] = process.argv.slice(2);
+
+if (!output || lists.length === 0) {
+  console.error('Usage: npm run build:password-corpus -- <output.bin> <list.txt> [more lists...]');
+  process.exit(1);
+}
+
+const passwords = lists.flatMap(list => fs.readFileSync(list, 'utf-8').split(/\r?\n/));
+const corpus = buildPasswordCorpus(passwords);
+
+fs.mkdirSync(path.dirname(output), { recursive: true });
+fs.writeFileSync(output, corpus);
+
+console.log(`Wrote ${corpus.length / CORPUS_ENTRY_BYTES} passwords to ${output} (${corpus.length} bytes)`);
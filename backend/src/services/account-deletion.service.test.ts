@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  purgeDueAccounts,
+  isAccountDeletionPending,
+} from './account-deletion.service';
+import { issueAuthTokens } from './token.service';
+import { issuePersonalAccessToken } from './personal-access-token.service';
+import { recordLoginFailure } from './login-throttle.service';
+import { recordAuditEvent } from './audit.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { setupTestOutbox, teardownTestOutbox, getOutboxMessages, flushMail } from '../test/mail-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Account Deletion Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    setupTestOutbox();
+    user = db.createUser(createTestUserData({ email: 'leaving@example.com' }));
+  });
+
+  afterEach(() => {
+    teardownTestOutbox();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('scheduleAccountDeletion', () => {
+    it('should schedule the purge after the grace period', () => {
+      const before = Date.now();
+
+      const scheduled = scheduleAccountDeletion(user.id);
+
+      expect(scheduled && isAccountDeletionPending(scheduled)).toBe(true);
+      const purgeAt = new Date(scheduled!.deletionScheduledFor!).getTime();
+      expect(purgeAt).toBeGreaterThanOrEqual(before + authConfig.accountDeletionGraceMs);
+      expect(purgeAt).toBeLessThanOrEqual(Date.now() + authConfig.accountDeletionGraceMs);
+    });
+
+    it('should end every session and revoke every token of the user', () => {
+      issueAuthTokens(user.id, client);
+      issueAuthTokens(user.id, client);
+      issuePersonalAccessToken(user.id, { name: 'CI', scopes: ['profile:read'] });
+
+      scheduleAccountDeletion(user.id);
+
+      expect(db.findSessionsByUserId(user.id)).toHaveLength(0);
+      expect(db.findPersonalAccessTokensByUserId(user.id)).toHaveLength(0);
+    });
+
+    it('should email the user how to cancel', async () => {
+      scheduleAccountDeletion(user.id);
+      await flushMail();
+
+      const messages = getOutboxMessages('leaving@example.com');
+      expect(messages).toHaveLength(1);
+      expect(messages[0].text).toContain('/login');
+    });
+
+    it('should return null for an unknown user', () => {
+      expect(scheduleAccountDeletion('missing')).toBeNull();
+    });
+  });
+
+  describe('cancelAccountDeletion', () => {
+    it('should keep the account', () => {
+      scheduleAccountDeletion(user.id);
+
+      expect(cancelAccountDeletion(user.id)).toBe(true);
+      expect(isAccountDeletionPending(db.findUserById(user.id)!)).toBe(false);
+      expect(purgeDueAccounts(new Date(Date.now() + authConfig.accountDeletionGraceMs + 1000))).toBe(0);
+    });
+
+    it('should return false when no deletion is pending', () => {
+      expect(cancelAccountDeletion(user.id)).toBe(false);
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    it('should not purge accounts still in their grace period', () => {
+      scheduleAccountDeletion(user.id);
+
+      expect(purgeDueAccounts()).toBe(0);
+      expect(db.findUserById(user.id)).toBeDefined();
+    });
+
+    it('should remove the user and their data once the grace period is over', () => {
+      const other = db.createUser(createTestUserData({ email: 'staying@example.com' }));
+      issueAuthTokens(other.id, client);
+      db.createOAuthIdentity({ userId: user.id, provider: 'mock', subject: 'subject-1' });
+      db.createActionToken({ userId: user.id, purpose: 'password_reset', tokenHash: 'hash', expiresAt: new Date().toISOString() });
+      recordLoginFailure(user.email, client.ip);
+      scheduleAccountDeletion(user.id);
+
+      const purged = purgeDueAccounts(new Date(Date.now() + authConfig.accountDeletionGraceMs + 1000));
+
+      expect(purged).toBe(1);
+      expect(db.findUserById(user.id)).toBeUndefined();
+      expect(db.findOAuthIdentity('mock', 'subject-1')).toBeUndefined();
+      expect(db.findActionTokenByHash('hash')).toBeUndefined();
+      expect(db.findLoginAttempt(`account:${user.email}`)).toBeUndefined();
+      expect(db.findUserById(other.id)).toBeDefined();
+      expect(db.findSessionsByUserId(other.id)).toHaveLength(1);
+    });
+
+    it('should redact the user from the audit log', () => {
+      recordAuditEvent('auth.login_failed', client, { targetUserId: user.id, details: { email: user.email } });
+      scheduleAccountDeletion(user.id);
+
+      purgeDueAccounts(new Date(Date.now() + authConfig.accountDeletionGraceMs + 1000));
+
+      expect(JSON.stringify(db.findAuditEvents())).not.toContain(user.email);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { findUserById, updateUser, deleteUser, readUsers } from '../database/db';
+import { User } from '../types/user.types';
+import { clearLoginAttempts } from './login-throttle.service';
+import { redactUserFromAuditLog } from './audit.service';
+import { sendMailInBackground } from './mail.service';
+import { endOtherSessions } from './session.service';
+import { revokeAllPersonalAccessTokens } from './personal-access-token.service';
+
+export const isAccountDeletionPending = (user: User): boolean => {
+  return !!user.deletionScheduledFor;
+};
+
+/**
+ * Closes the account and schedules it for purging once the grace period is over
+ * Every session and access token is revoked; logging in again before the purge restores the account.
+ */
+export const scheduleAccountDeletion = (userId: string): User | null => {
+  const now = Date.now();
+  const user = updateUser(userId, {
+    deletionRequestedAt: new Date(now).toISOString(),
+    deletionScheduledFor: new Date(now + authConfig.accountDeletionGraceMs).toISOString(),
+  });
+  if (!user) {
+    return null;
+  }
+
+  endOtherSessions(user.id);
+  revokeAllPersonalAccessTokens(user.id);
+
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Your account is scheduled for deletion',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `We received a request to delete your account. It will be permanently deleted on ${user.deletionScheduledFor}.`,
+      'If you change your mind, just log in before then and your account will be kept:',
+      `${mailConfig.appUrl}/login`,
+    ].join('\n'),
+  });
+
+  return user;
+};
+
+/**
+ * Keeps an account that was scheduled for deletion
+ * Returns false if no deletion was pending.
+ */
+export const cancelAccountDeletion = (userId: string): boolean => {
+  const user = findUserById(userId);
+  if (!user || !isAccountDeletionPending(user)) {
+    return false;
+  }
+
+  updateUser(user.id, { deletionRequestedAt: undefined, deletionScheduledFor: undefined });
+  return true;
+};
+
+/**
+ * Permanently removes the user and everything stored about them
+ * Audit entries are kept for the record, with the user's personal data redacted.
+ */
+export const purgeAccount = (user: User): void => {
+  deleteUser(user.id);
+  clearLoginAttempts(user.email);
+  redactUserFromAuditLog(user);
+};
+
+/**
+ * Purges every account whose grace period has ended
+ * Returns the number of accounts removed.
+ */
+export const purgeDueAccounts = (now: Date = new Date()): number => {
+  const due = readUsers().filter(user => user.deletionScheduledFor && new Date(user.deletionScheduledFor) <= now);
+  due.forEach(purgeAccount);
+  return due.length;
+};
+
+/**
+ * Runs the purge now and then on an interval
+ * Accounts can outlive their grace period by up to one interval.
+ */
+export const startAccountPurgeJob = (intervalMs: number = authConfig.accountPurgeIntervalMs): NodeJS.Timeout => {
+  const run = () => {
+    try {
+      const purged = purgeDueAccounts();
+      if (purged > 0) {
+        console.log(`Purged ${purged} deleted account(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to purge deleted accounts:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  // The job must not keep the process alive on its own
+  timer.unref();
+  return timer;
+};
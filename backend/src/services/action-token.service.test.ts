@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { issueActionToken, consumeActionToken, findActiveActionToken } from './action-token.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { hashToken } from '../utils/crypto';
+
+describe('Action Token Service', () => {
+  const ONE_HOUR = 60 * 60 * 1000;
+  let userId: string;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    userId = db.createUser(createTestUserData()).id;
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  it('should store only a hash of the token', () => {
+    const token = issueActionToken(userId, 'password_reset', ONE_HOUR);
+
+    expect(db.findActionTokenByHash(token)).toBeUndefined();
+    expect(db.findActionTokenByHash(hashToken(token))?.userId).toBe(userId);
+  });
+
+  it('should consume a token only once', () => {
+    const token = issueActionToken(userId, 'password_reset', ONE_HOUR);
+
+    expect(consumeActionToken(token, 'password_reset')?.userId).toBe(userId);
+    expect(consumeActionToken(token, 'password_reset')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = issueActionToken(userId, 'password_reset', -1000);
+
+    expect(consumeActionToken(token, 'password_reset')).toBeNull();
+  });
+
+  it('should look up a token without using it up', () => {
+    const token = issueActionToken(userId, 'password_reset', ONE_HOUR);
+
+    expect(findActiveActionToken(token, 'password_reset')?.userId).toBe(userId);
+    expect(findActiveActionToken(token, 'email_verification')).toBeNull();
+    expect(consumeActionToken(token, 'password_reset')?.userId).toBe(userId);
+    expect(findActiveActionToken(token, 'password_reset')).toBeNull();
+  });
+
+  it('should reject unknown tokens', () => {
+    expect(consumeActionToken('unknown', 'password_reset')).toBeNull();
+  });
+
+  it('should invalidate earlier tokens of the same purpose', () => {
+    const first = issueActionToken(userId, 'password_reset', ONE_HOUR);
+    const second = issueActionToken(userId, 'password_reset', ONE_HOUR);
+
+    expect(consumeActionToken(first, 'password_reset')).toBeNull();
+    expect(consumeActionToken(second, 'password_reset')).not.toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  createActionToken,
+  findActionTokenByHash,
+  updateActionToken,
+  deleteActionTokens,
+} from '../database/db';
+import { ActionToken, ActionTokenPurpose } from '../types/auth.types';
+import { generateToken, hashToken } from '../utils/crypto';
+
+/**
+ * Issues a single-use token for the given purpose
+ * Any earlier token of the same purpose is discarded, so only the most recent link works.
+ */
+export const issueActionToken = (
+  userId: string,
+  purpose: ActionTokenPurpose,
+  ttlMs: number,
+  email?: string
+): string => {
+  deleteActionTokens(userId, purpose);
+
+  const token = generateToken();
+  createActionToken({
+    userId,
+    purpose,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+  });
+  return token;
+};
+
+/**
+ * Looks up a token without using it up
+ * Returns null if the token is unknown, meant for another purpose, expired or already used.
+ */
+export const findActiveActionToken = (token: string, purpose: ActionTokenPurpose): ActionToken | null => {
+  const record = findActionTokenByHash(hashToken(token));
+
+  if (!record || record.purpose !== purpose || record.usedAt) {
+    return null;
+  }
+
+  if (new Date(record.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return record;
+};
+
+/**
+ * Validates a token and marks it as used
+ * Returns null if the token is unknown, meant for another purpose, expired or already used.
+ */
+export const consumeActionToken = (token: string, purpose: ActionTokenPurpose): ActionToken | null => {
+  const record = findActiveActionToken(token, purpose);
+
+  if (!record) {
+    return null;
+  }
+
+  return updateActionToken(record.id, { usedAt: new Date().toISOString() });
+};
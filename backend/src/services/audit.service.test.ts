@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import {
+  recordAuditEvent,
+  recordUserAction,
+  recordLogin,
+  diffFields,
+  queryAuditEvents,
+  findUserActivity,
+  redactUserFromAuditLog,
+} from './audit.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import * as db from '../database/db';
+
+describe('Audit Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  const page = { page: 1, pageSize: 20 };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('recordAuditEvent', () => {
+    it('should store the action with the client it came from', () => {
+      const event = recordAuditEvent('admin.user_disabled', client, { actorId: 'admin-1', targetUserId: 'user-1' });
+
+      expect(event).toMatchObject({
+        action: 'admin.user_disabled',
+        actorId: 'admin-1',
+        targetUserId: 'user-1',
+        ip: '127.0.0.1',
+        userAgent: 'vitest',
+      });
+      expect(db.findAuditEvents()).toEqual([event]);
+    });
+
+    it('should record self-service actions with the user as both actor and target', () => {
+      const event = recordLogin('user-1', 'passkey', client);
+
+      expect(event).toMatchObject({
+        action: 'auth.login_succeeded',
+        actorId: 'user-1',
+        targetUserId: 'user-1',
+        details: { method: 'passkey' },
+      });
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should keep only the fields that changed', () => {
+      const before = { name: 'Old Name', email: 'same@example.com' };
+      const after = { name: 'New Name', email: 'same@example.com' };
+
+      expect(diffFields(before, after, ['name', 'email'])).toEqual({
+        name: { from: 'Old Name', to: 'New Name' },
+      });
+    });
+
+    it('should return undefined when nothing changed', () => {
+      const record = { name: 'Same' };
+
+      expect(diffFields(record, { ...record }, ['name'])).toBeUndefined();
+    });
+  });
+
+  describe('queryAuditEvents', () => {
+    it('should return matching events, newest first, one page at a time', () => {
+      recordLogin('user-1', 'password', client);
+      recordUserAction('auth.logged_out', 'user-1', client);
+      recordLogin('user-2', 'password', client);
+      recordLogin('user-1', 'magic_link', client);
+
+      const first = queryAuditEvents({ action: 'auth.login_succeeded', actorId: 'user-1' }, { page: 1, pageSize: 1 });
+      const second = queryAuditEvents({ action: 'auth.login_succeeded', actorId: 'user-1' }, { page: 2, pageSize: 1 });
+
+      expect(first.total).toBe(2);
+      expect(first.events[0].details).toEqual({ method: 'magic_link' });
+      expect(second.events[0].details).toEqual({ method: 'password' });
+    });
+
+    it('should filter by time range', () => {
+      recordLogin('user-1', 'password', client);
+
+      const future = new Date(Date.now() + 60000).toISOString();
+      const past = new Date(Date.now() - 60000).toISOString();
+
+      expect(queryAuditEvents({ from: future }, page).total).toBe(0);
+      expect(queryAuditEvents({ from: past, to: future }, page).total).toBe(1);
+    });
+  });
+
+  describe('findUserActivity', () => {
+    it('should list events targeting the user without naming the actor', () => {
+      recordLogin('user-1', 'password', client);
+      recordAuditEvent('admin.user_updated', client, {
+        actorId: 'admin-1',
+        targetUserId: 'user-1',
+        changes: { name: { from: 'Old', to: 'New' } },
+        details: { internal: true },
+      });
+      recordAuditEvent('admin.users_listed', client, { actorId: 'admin-1' });
+
+      const activity = findUserActivity('user-1');
+
+      expect(activity.map(entry => entry.action)).toEqual(['admin.user_updated', 'auth.login_succeeded']);
+      expect(activity[0].changes).toEqual({ name: { from: 'Old', to: 'New' } });
+      expect(activity[0]).not.toHaveProperty('actorId');
+      expect(activity[0]).not.toHaveProperty('details');
+    });
+
+    it('should only show the client for the user\'s own and anonymous events', () => {
+      recordLogin('user-1', 'password', client);
+      recordAuditEvent('auth.login_failed', { userAgent: 'curl', ip: '203.0.113.9' }, { targetUserId: 'user-1' });
+      recordAuditEvent('admin.user_viewed', { userAgent: 'staff-browser', ip: '10.0.0.5' }, {
+        actorId: 'admin-1',
+        targetUserId: 'user-1',
+      });
+
+      const [viewed, failed, login] = findUserActivity('user-1');
+
+      expect(viewed).toMatchObject({ action: 'admin.user_viewed', ip: undefined, userAgent: undefined });
+      expect(failed).toMatchObject({ action: 'auth.login_failed', ip: '203.0.113.9', userAgent: 'curl' });
+      expect(login).toMatchObject({ action: 'auth.login_succeeded', ip: '127.0.0.1', userAgent: 'vitest' });
+    });
+  });
+
+  describe('redactUserFromAuditLog', () => {
+    const user = { id: 'user-1', email: 'leaving@example.com' };
+
+    it('should strip names, addresses and the user\'s clients but keep the entries', () => {
+      recordAuditEvent('auth.login_failed', client, { details: { email: user.email, reason: 'unknown_email' } });
+      recordUserAction('profile.updated', user.id, client, {
+        changes: { name: { from: 'Old Name', to: 'New Name' }, email: { from: 'old@example.com', to: user.email } },
+      });
+      recordAuditEvent('admin.role_changed', { userAgent: 'staff-browser', ip: '10.0.0.5' }, {
+        actorId: 'admin-1',
+        targetUserId: user.id,
+        changes: { role: { from: 'user', to: 'support' } },
+      });
+      const unrelated = recordLogin('user-2', 'password', client);
+
+      expect(redactUserFromAuditLog(user)).toBe(3);
+
+      const [failed, updated, roleChanged, other] = db.findAuditEvents();
+      expect(failed.details).toEqual({ email: '[redacted]', reason: 'unknown_email' });
+      expect(failed.ip).toBeUndefined();
+      expect(updated.changes).toEqual({
+        name: { from: '[redacted]', to: '[redacted]' },
+        email: { from: '[redacted]', to: '[redacted]' },
+      });
+      expect(updated).toMatchObject({ actorId: user.id, ip: undefined, userAgent: undefined });
+      expect(roleChanged).toMatchObject({
+        ip: '10.0.0.5',
+        userAgent: 'staff-browser',
+        changes: { role: { from: 'user', to: 'support' } },
+      });
+      expect(other).toEqual(unrelated);
+    });
+  });
+});
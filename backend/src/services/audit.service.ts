@@ -0,0 +1,136 @@
+import { createAuditEvent, findAuditEvents, updateAuditEvent } from '../database/db';
+import { ActivityEntry, AuditAction, AuditChanges, AuditEvent, AuditEventFilters, LoginMethod } from '../types/audit.types';
+import { ClientInfo } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { paginate, Pagination } from '../utils/pagination';
+
+export type AuditEventFields = Pick<AuditEvent, 'actorId' | 'targetUserId' | 'changes' | 'details'>;
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+/**
+ * Appends an entry to the audit log, along with the client it came from
+ */
+export const recordAuditEvent = (action: AuditAction, client: ClientInfo, fields: AuditEventFields = {}): AuditEvent => {
+  return createAuditEvent({ action, ...fields, ip: client.ip, userAgent: client.userAgent });
+};
+
+/**
+ * Records an action users performed on their own account
+ */
+export const recordUserAction = (
+  action: AuditAction,
+  userId: string,
+  client: ClientInfo,
+  fields: Omit<AuditEventFields, 'actorId' | 'targetUserId'> = {}
+): AuditEvent => {
+  return recordAuditEvent(action, client, { ...fields, actorId: userId, targetUserId: userId });
+};
+
+/**
+ * Records a completed sign-in and how it was done
+ */
+export const recordLogin = (userId: string, method: LoginMethod, client: ClientInfo): AuditEvent => {
+  return recordUserAction('auth.login_succeeded', userId, client, { details: { method } });
+};
+
+/**
+ * Lists the fields whose values differ between two versions of a record
+ * Returns undefined when nothing changed.
+ */
+export const diffFields = <T extends object>(before: T, after: T, fields: (keyof T & string)[]): AuditChanges | undefined => {
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : undefined;
+};
+
+const matchesFilters = (event: AuditEvent, filters: AuditEventFilters): boolean => {
+  const createdAt = Date.parse(event.createdAt);
+  return (!filters.action || event.action === filters.action)
+    && (!filters.actorId || event.actorId === filters.actorId)
+    && (!filters.targetUserId || event.targetUserId === filters.targetUserId)
+    && (!filters.from || createdAt >= Date.parse(filters.from))
+    && (!filters.to || createdAt <= Date.parse(filters.to));
+};
+
+// Entries are appended in the order they happen, so reversing puts the newest first
+const newestFirst = (events: AuditEvent[]): AuditEvent[] => [...events].reverse();
+
+/**
+ * Searches the audit log, newest first
+ */
+export const queryAuditEvents = (filters: AuditEventFilters, pagination: Pagination): AuditEventPage => {
+  const matches = newestFirst(findAuditEvents().filter(event => matchesFilters(event, filters)));
+  return {
+    events: paginate(matches, pagination),
+    total: matches.length,
+  };
+};
+
+/**
+ * Everything done to or by the user's account, newest first
+ */
+export const findUserActivity = (userId: string): ActivityEntry[] => {
+  return newestFirst(findAuditEvents().filter(event => event.targetUserId === userId)).map(event => {
+    // Failed logins have no known actor; their client is the one that tried to get in
+    const showClient = !event.actorId || event.actorId === userId;
+
+    return {
+      id: event.id,
+      action: event.action,
+      ip: showClient ? event.ip : undefined,
+      userAgent: showClient ? event.userAgent : undefined,
+      changes: event.changes,
+      createdAt: event.createdAt,
+    };
+  });
+};
+
+// Fields of an audit entry that can identify a person once their account is gone
+const PERSONAL_FIELDS = ['name', 'email'];
+const REDACTED = '[redacted]';
+
+const redactChanges = (changes: AuditChanges | undefined): AuditChanges | undefined => {
+  if (!changes) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(changes).map(([field, change]) =>
+      [field, PERSONAL_FIELDS.includes(field) ? { from: REDACTED, to: REDACTED } : change]
+    )
+  );
+};
+
+/**
+ * Strips a purged user's personal data from the audit log
+ * Entries stay, keyed by the now meaningless user id, but lose the names and addresses they
+ * recorded and the client details of everything the user did. Failed logins are matched by
+ * address too, as attempts before the account existed name no user.
+ * Returns the number of entries redacted.
+ */
+export const redactUserFromAuditLog = (user: Pick<User, 'id' | 'email'>): number => {
+  const events = findAuditEvents().filter(event =>
+    event.actorId === user.id || event.targetUserId === user.id || event.details?.email === user.email
+  );
+
+  events.forEach(event => {
+    const byUser = !event.actorId || event.actorId === user.id;
+    const details = event.details && 'email' in event.details ? { ...event.details, email: REDACTED } : event.details;
+
+    updateAuditEvent(event.id, {
+      ip: byUser ? undefined : event.ip,
+      userAgent: byUser ? undefined : event.userAgent,
+      changes: redactChanges(event.changes),
+      details,
+    });
+  });
+
+  return events.length;
+};
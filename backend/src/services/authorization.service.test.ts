@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getUserRole, getRolePermissions, hasPermission, isValidRole } from './authorization.service';
+import { User } from '../types/user.types';
+
+describe('Authorization Service', () => {
+  const createUser = (role?: unknown): User =>
+    ({
+      id: '123',
+      email: 'test@example.com',
+      password: 'hash',
+      name: 'Test User',
+      role,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    }) as User;
+
+  it('should default to the user role', () => {
+    expect(getUserRole(createUser())).toBe('user');
+    expect(getUserRole(createUser('superuser'))).toBe('user');
+  });
+
+  it('should only accept known roles', () => {
+    expect(isValidRole('admin')).toBe(true);
+    expect(isValidRole('superuser')).toBe(false);
+    expect(isValidRole(undefined)).toBe(false);
+  });
+
+  it('should grant admins everything support can do', () => {
+    const admin = getRolePermissions('admin');
+
+    getRolePermissions('support').forEach(permission => expect(admin).toContain(permission));
+  });
+
+  it('should check permissions against the role', () => {
+    expect(hasPermission(createUser('user'), 'users:read')).toBe(false);
+    expect(hasPermission(createUser('support'), 'users:read')).toBe(true);
+    expect(hasPermission(createUser('support'), 'roles:assign')).toBe(false);
+    expect(hasPermission(createUser('admin'), 'roles:assign')).toBe(true);
+  });
+});
@@ -0,0 +1,24 @@
+import { rbacConfig, ROLES } from '../config/rbac.config';
+import { Permission } from '../types/auth.types';
+import { Role, User } from '../types/user.types';
+
+export const isValidRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && ROLES.includes(value as Role);
+};
+
+export const getUserRole = (user: User): Role => {
+  return isValidRole(user.role) ? user.role : rbacConfig.defaultRole;
+};
+
+export const getRolePermissions = (role: Role): Permission[] => {
+  return rbacConfig.rolePermissions[role] || [];
+};
+
+/**
+ * Checks whether the user's role grants the permission
+ * The role is read from the stored user rather than the access token, so a role change
+ * applies to the very next request.
+ */
+export const hasPermission = (user: User, permission: Permission): boolean => {
+  return getRolePermissions(getUserRole(user)).includes(permission);
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isBreachedPassword, loadBreachedPasswordCorpus } from './breached-password.service';
+import { authConfig } from '../config/auth.config';
+import { buildPasswordCorpus } from '../utils/password-corpus';
+
+describe('Breached Password Service', () => {
+  const bundledCorpusPath = authConfig.breachedPasswordCorpusPath;
+  let tempDir: string | undefined;
+
+  const useCorpusFile = (contents: Buffer): void => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'password-corpus-'));
+    authConfig.breachedPasswordCorpusPath = path.join(tempDir, 'corpus.bin');
+    fs.writeFileSync(authConfig.breachedPasswordCorpusPath, contents);
+  };
+
+  afterEach(() => {
+    authConfig.breachedPasswordCorpusPath = bundledCorpusPath;
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it('should reject common passwords using the bundled corpus', () => {
+    expect(isBreachedPassword('password123')).toBe(true);
+    expect(isBreachedPassword('Qwerty123')).toBe(true);
+    expect(isBreachedPassword('quiet-harbor-42')).toBe(false);
+  });
+
+  it('should read the corpus from the configured location', () => {
+    useCorpusFile(buildPasswordCorpus(['quiet-harbor-42']));
+
+    expect(isBreachedPassword('quiet-harbor-42')).toBe(true);
+    expect(isBreachedPassword('password123')).toBe(false);
+  });
+
+  it('should fail loudly when the corpus is missing or malformed', () => {
+    useCorpusFile(Buffer.from('not a corpus'));
+    expect(() => loadBreachedPasswordCorpus()).toThrow('is not a breached-password corpus');
+
+    authConfig.breachedPasswordCorpusPath = path.join(tempDir!, 'missing.bin');
+    expect(() => isBreachedPassword('quiet-harbor-42')).toThrow();
+  });
+});
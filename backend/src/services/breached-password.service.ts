@@ -0,0 +1,33 @@
+import fs from 'fs';
+import { authConfig } from '../config/auth.config';
+import { corpusContains, isPasswordCorpus } from '../utils/password-corpus';
+
+export const BREACHED_PASSWORD_ERROR =
+  'This password is too common or has appeared in a data breach, please choose a different one';
+
+let loaded: { path: string; corpus: Buffer } | undefined;
+
+/**
+ * Reads the corpus from the configured location, once per location
+ * Throws when the file is missing or malformed, so the check is never silently skipped.
+ */
+export const loadBreachedPasswordCorpus = (): Buffer => {
+  const corpusPath = authConfig.breachedPasswordCorpusPath;
+
+  if (loaded?.path !== corpusPath) {
+    const corpus = fs.readFileSync(corpusPath);
+    if (!isPasswordCorpus(corpus)) {
+      throw new Error(`${corpusPath} is not a breached-password corpus`);
+    }
+    loaded = { path: corpusPath, corpus };
+  }
+
+  return loaded.corpus;
+};
+
+/**
+ * Checks a new password against the local corpus of breached and common passwords
+ */
+export const isBreachedPassword = (password: string): boolean => {
+  return corpusContains(loadBreachedPasswordCorpus(), password);
+};
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  buildPersonalDataExport,
+  requestDataExport,
+  processDataExportJob,
+  getDataExportJob,
+  issueDataExportDownloadLink,
+  getDataExportDownload,
+} from './data-export.service';
+import { issueAuthTokens } from './token.service';
+import { recordLogin } from './audit.service';
+import { exportConfig } from '../config/export.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+const getToken = (url: string): string => new URL(url, 'http://localhost').searchParams.get('token')!;
+
+describe('Data Export Service', () => {
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    user = db.createUser({
+      ...createTestUserData({ email: 'export@example.com' }),
+      twoFactorEnabled: true,
+      twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+      recoveryCodeHashes: ['recovery-hash'],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('buildPersonalDataExport', () => {
+    it('should include the profile, sessions and linked accounts', () => {
+      issueAuthTokens(user.id, { userAgent: 'vitest', ip: '127.0.0.1' });
+      db.createOAuthIdentity({ userId: user.id, provider: 'mock', subject: 'subject-1', email: user.email });
+
+      const archive = buildPersonalDataExport(user);
+
+      expect(archive.profile).toMatchObject({ id: user.id, email: 'export@example.com', twoFactorEnabled: true });
+      expect(archive.sessions).toHaveLength(1);
+      expect(archive.sessions[0]).toMatchObject({ userAgent: 'vitest', ip: '127.0.0.1' });
+      expect(archive.linkedAccounts).toEqual([expect.objectContaining({ provider: 'mock', email: user.email })]);
+    });
+
+    it('should include the account activity from the audit log', () => {
+      recordLogin(user.id, 'password', { userAgent: 'vitest', ip: '127.0.0.1' });
+
+      const archive = buildPersonalDataExport(user);
+
+      expect(archive.activity).toEqual([
+        expect.objectContaining({ action: 'auth.login_succeeded', ip: '127.0.0.1', userAgent: 'vitest' }),
+      ]);
+    });
+
+    it('should leave out the password hash and other secrets', () => {
+      const serialized = JSON.stringify(buildPersonalDataExport(user));
+
+      expect(serialized).not.toContain(user.password);
+      expect(serialized).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(serialized).not.toContain('recovery-hash');
+    });
+  });
+
+  describe('requestDataExport', () => {
+    it('should queue a job that finishes in the background', async () => {
+      const job = requestDataExport(user.id);
+      expect(job.status).toBe('pending');
+
+      await new Promise(resolve => setImmediate(resolve));
+
+      const finished = getDataExportJob(user.id, job.id);
+      expect(finished?.status).toBe('ready');
+      expect(finished?.archive?.profile.email).toBe('export@example.com');
+    });
+
+    it('should return the job already in progress', () => {
+      const first = requestDataExport(user.id);
+      const second = requestDataExport(user.id);
+
+      expect(second.id).toBe(first.id);
+    });
+  });
+
+  describe('processDataExportJob', () => {
+    it('should fail the job if the user no longer exists', () => {
+      const job = db.createDataExportJob({ userId: 'missing', status: 'pending' });
+
+      expect(processDataExportJob(job.id)?.status).toBe('failed');
+    });
+  });
+
+  describe('getDataExportJob', () => {
+    it('should not return exports of other users', () => {
+      const job = db.createDataExportJob({ userId: user.id, status: 'pending' });
+
+      expect(getDataExportJob('someone-else', job.id)).toBeNull();
+    });
+
+    it('should forget exports once they expire', () => {
+      const job = db.createDataExportJob({ userId: user.id, status: 'pending' });
+      processDataExportJob(job.id);
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + exportConfig.archiveTtlMs + 1000);
+
+      expect(getDataExportJob(user.id, job.id)).toBeNull();
+    });
+  });
+
+  describe('download links', () => {
+    it('should only be issued for finished exports', () => {
+      const job = db.createDataExportJob({ userId: user.id, status: 'pending' });
+
+      expect(issueDataExportDownloadLink(job)).toBeNull();
+    });
+
+    it('should return the archive for a valid link', () => {
+      const job = processDataExportJob(db.createDataExportJob({ userId: user.id, status: 'pending' }).id)!;
+      const link = issueDataExportDownloadLink(job)!;
+
+      expect(link.url).toContain(`/api/profile/export/${job.id}/download?token=`);
+      expect(getDataExportDownload(job.id, getToken(link.url))?.profile.id).toBe(user.id);
+      expect(getDataExportDownload(job.id, 'wrong-token')).toBeNull();
+    });
+
+    it('should stop working once a newer link is issued', () => {
+      const job = processDataExportJob(db.createDataExportJob({ userId: user.id, status: 'pending' }).id)!;
+      const first = issueDataExportDownloadLink(job)!;
+      issueDataExportDownloadLink(job);
+
+      expect(getDataExportDownload(job.id, getToken(first.url))).toBeNull();
+    });
+
+    it('should expire after the link TTL', () => {
+      const job = processDataExportJob(db.createDataExportJob({ userId: user.id, status: 'pending' }).id)!;
+      const link = issueDataExportDownloadLink(job)!;
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + exportConfig.downloadLinkTtlMs + 1000);
+
+      expect(getDataExportDownload(job.id, getToken(link.url))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { exportConfig } from '../config/export.config';
+import {
+  findUserById,
+  findSessionsByUserId,
+  findPasskeysByUserId,
+  findOAuthIdentitiesByUserId,
+  findPersonalAccessTokensByUserId,
+  createDataExportJob,
+  findDataExportJobById,
+  findDataExportJobsByUserId,
+  updateDataExportJob,
+  pruneDataExportJobs,
+} from '../database/db';
+import { DataExportJob, PersonalDataExport, User } from '../types/user.types';
+import { generateToken, hashToken } from '../utils/crypto';
+import { findUserActivity } from './audit.service';
+
+export interface DataExportDownloadLink {
+  url: string;
+  expiresAt: string;
+}
+
+/**
+ * Collects everything stored about the user into a portable archive
+ * Secrets are left out: the password hash, 2FA secrets, recovery codes and passkey public keys.
+ */
+export const buildPersonalDataExport = (user: User): PersonalDataExport => {
+  return {
+    format: 'qa-testing-app/personal-data-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      emailVerified: !!user.emailVerified,
+      emailVerifiedAt: user.emailVerifiedAt,
+      twoFactorEnabled: !!user.twoFactorEnabled,
+      deletionRequestedAt: user.deletionRequestedAt,
+      deletionScheduledFor: user.deletionScheduledFor,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    sessions: findSessionsByUserId(user.id).map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ip: session.ip,
+    })),
+    passkeys: findPasskeysByUserId(user.id).map(passkey => ({
+      id: passkey.id,
+      name: passkey.name,
+      transports: passkey.transports,
+      createdAt: passkey.createdAt,
+      lastUsedAt: passkey.lastUsedAt,
+    })),
+    linkedAccounts: findOAuthIdentitiesByUserId(user.id).map(identity => ({
+      provider: identity.provider,
+      email: identity.email,
+      createdAt: identity.createdAt,
+      lastUsedAt: identity.lastUsedAt,
+    })),
+    accessTokens: findPersonalAccessTokensByUserId(user.id).map(accessToken => ({
+      name: accessToken.name,
+      scopes: accessToken.scopes,
+      createdAt: accessToken.createdAt,
+      expiresAt: accessToken.expiresAt,
+      lastUsedAt: accessToken.lastUsedAt,
+    })),
+    activity: findUserActivity(user.id),
+  };
+};
+
+/**
+ * Builds the archive for a pending job
+ * The job ends up ready, with the archive kept until it expires, or failed.
+ */
+export const processDataExportJob = (jobId: string): DataExportJob | null => {
+  const job = findDataExportJobById(jobId);
+  if (!job || job.status !== 'pending') {
+    return job || null;
+  }
+
+  const user = findUserById(job.userId);
+  if (!user) {
+    return updateDataExportJob(job.id, { status: 'failed', completedAt: new Date().toISOString() });
+  }
+
+  try {
+    const archive = buildPersonalDataExport(user);
+    const now = Date.now();
+    return updateDataExportJob(job.id, {
+      status: 'ready',
+      archive,
+      completedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + exportConfig.archiveTtlMs).toISOString(),
+    });
+  } catch (error) {
+    console.error(`Data export ${job.id} failed:`, error);
+    return updateDataExportJob(job.id, { status: 'failed', completedAt: new Date().toISOString() });
+  }
+};
+
+/**
+ * Queues an export of the user's data and returns the job
+ * A user only has one export in progress at a time; asking again returns that job.
+ * Jobs run in the background of this process, after the current request has been answered.
+ */
+export const requestDataExport = (userId: string): DataExportJob => {
+  pruneDataExportJobs();
+
+  const pending = findDataExportJobsByUserId(userId).find(job => job.status === 'pending');
+  if (pending) {
+    return pending;
+  }
+
+  const job = createDataExportJob({ userId, status: 'pending' });
+  setImmediate(() => processDataExportJob(job.id));
+  return job;
+};
+
+/**
+ * Looks up one of the user's exports
+ * Returns null for expired exports and for exports of other users.
+ */
+export const getDataExportJob = (userId: string, jobId: string): DataExportJob | null => {
+  pruneDataExportJobs();
+
+  const job = findDataExportJobById(jobId);
+  return job && job.userId === userId ? job : null;
+};
+
+/**
+ * Hands out a short-lived download link for a finished export
+ * Each call replaces the previous link, which stops working.
+ */
+export const issueDataExportDownloadLink = (job: DataExportJob): DataExportDownloadLink | null => {
+  if (job.status !== 'ready' || !job.expiresAt) {
+    return null;
+  }
+
+  const token = generateToken();
+  const expiresAt = new Date(
+    Math.min(Date.now() + exportConfig.downloadLinkTtlMs, new Date(job.expiresAt).getTime())
+  ).toISOString();
+  updateDataExportJob(job.id, { downloadTokenHash: hashToken(token), downloadExpiresAt: expiresAt });
+
+  return {
+    url: `/api/profile/export/${job.id}/download?token=${token}`,
+    expiresAt,
+  };
+};
+
+/**
+ * Returns the archive a download link points to
+ * Returns null if the link is unknown, was replaced or has expired.
+ */
+export const getDataExportDownload = (jobId: string, token: string): PersonalDataExport | null => {
+  pruneDataExportJobs();
+
+  const job = findDataExportJobById(jobId);
+  if (!job || job.status !== 'ready' || !job.archive || !job.downloadTokenHash || !job.downloadExpiresAt) {
+    return null;
+  }
+
+  if (job.downloadTokenHash !== hashToken(token) || new Date(job.downloadExpiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return job.archive;
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  sendVerificationEmail,
+  resendVerificationEmail,
+  verifyEmail,
+  isEmailVerificationPending,
+} from './email-verification.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import {
+  setupTestOutbox,
+  teardownTestOutbox,
+  getOutboxMessages,
+  getLatestTokenFromOutbox,
+  flushMail,
+} from '../test/mail-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Email Verification Service', () => {
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    setupTestOutbox();
+    user = db.createUser({ ...createTestUserData({ email: 'verify@example.com' }), emailVerified: false });
+  });
+
+  afterEach(() => {
+    teardownTestOutbox();
+    authConfig.requireEmailVerification = false;
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  it('should email a verification link to the user', async () => {
+    sendVerificationEmail(user);
+    await flushMail();
+
+    const messages = getOutboxMessages('verify@example.com');
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text).toContain('/verify-email?token=');
+  });
+
+  it('should mark the email as verified with a valid token', async () => {
+    sendVerificationEmail(user);
+    await flushMail();
+
+    const verified = verifyEmail(getLatestTokenFromOutbox('verify@example.com'));
+
+    expect(verified?.emailVerified).toBe(true);
+    expect(verified?.emailVerifiedAt).toBeDefined();
+    expect(db.findUserById(user.id)?.emailVerified).toBe(true);
+  });
+
+  it('should reject a token that was already used', async () => {
+    sendVerificationEmail(user);
+    await flushMail();
+    const token = getLatestTokenFromOutbox('verify@example.com');
+
+    expect(verifyEmail(token)).not.toBeNull();
+    expect(verifyEmail(token)).toBeNull();
+  });
+
+  it('should reject a token sent to a previous address', async () => {
+    sendVerificationEmail(user);
+    await flushMail();
+    const token = getLatestTokenFromOutbox('verify@example.com');
+
+    db.updateUser(user.id, { email: 'changed@example.com' });
+
+    expect(verifyEmail(token)).toBeNull();
+    expect(db.findUserById(user.id)?.emailVerified).toBe(false);
+  });
+
+  it('should not resend to unknown or already verified accounts', async () => {
+    resendVerificationEmail('nobody@example.com');
+    db.updateUser(user.id, { emailVerified: true });
+    resendVerificationEmail('verify@example.com');
+    await flushMail();
+
+    expect(getOutboxMessages()).toHaveLength(0);
+  });
+
+  it('should resend to unverified accounts', async () => {
+    resendVerificationEmail('verify@example.com');
+    await flushMail();
+
+    expect(getOutboxMessages('verify@example.com')).toHaveLength(1);
+  });
+
+  it('should only report verification as pending when it is required', () => {
+    expect(isEmailVerificationPending(user)).toBe(false);
+
+    authConfig.requireEmailVerification = true;
+    expect(isEmailVerificationPending(user)).toBe(true);
+    expect(isEmailVerificationPending({ ...user, emailVerified: true })).toBe(false);
+  });
+});
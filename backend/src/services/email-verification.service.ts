@@ -0,0 +1,70 @@
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { findUserByEmail, findUserById, updateUser } from '../database/db';
+import { User } from '../types/user.types';
+import { issueActionToken, consumeActionToken } from './action-token.service';
+import { sendMailInBackground } from './mail.service';
+
+/**
+ * Checks whether the user must verify their email before signing in
+ */
+export const isEmailVerificationPending = (user: User): boolean => {
+  return authConfig.requireEmailVerification && !user.emailVerified;
+};
+
+/**
+ * Emails a verification link for the user's current address
+ */
+export const sendVerificationEmail = (user: User): void => {
+  const token = issueActionToken(user.id, 'email_verification', authConfig.emailVerificationTtlMs, user.email);
+  const link = `${mailConfig.appUrl}/verify-email?token=${token}`;
+  const hours = Math.round(authConfig.emailVerificationTtlMs / 3600000);
+
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm that this is your email address by opening the link below:',
+      link,
+      '',
+      `The link expires in ${hours} hours.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Resends the verification email if the account exists and is not verified yet
+ * Callers must respond the same way whether or not anything was sent.
+ */
+export const resendVerificationEmail = (email: string): void => {
+  const user = findUserByEmail(email);
+  if (!user || user.emailVerified) {
+    return;
+  }
+  sendVerificationEmail(user);
+};
+
+/**
+ * Marks the user's email as verified using a token from a verification email
+ * The token only counts for the address it was sent to, so a link sent before
+ * an email change cannot verify the new address.
+ * Returns null if the token is invalid, expired or already used.
+ */
+export const verifyEmail = (token: string): User | null => {
+  const record = consumeActionToken(token, 'email_verification');
+  if (!record) {
+    return null;
+  }
+
+  const user = findUserById(record.userId);
+  if (!user || user.email !== record.email) {
+    return null;
+  }
+
+  return updateUser(user.id, {
+    emailVerified: true,
+    emailVerifiedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { startImpersonation, canImpersonate } from './impersonation.service';
+import { verifyJwt } from './signing-key.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Impersonation Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  let admin: User;
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    admin = db.createUser(createTestUserData({ role: 'admin' }));
+    user = db.createUser(createTestUserData());
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('startImpersonation', () => {
+    it('should issue a short-lived token naming both the user and the admin', () => {
+      const result = startImpersonation(admin, 'session-1', user.id, client);
+
+      if (result.status !== 'ok') {
+        throw new Error(`Unexpected status ${result.status}`);
+      }
+      expect(result.expiresIn).toBe(authConfig.impersonationTtlSeconds);
+      expect(verifyJwt(result.token)).toMatchObject({ userId: user.id, actorId: admin.id, sid: 'session-1' });
+      expect(db.findAuditEvents()).toEqual([
+        expect.objectContaining({ action: 'admin.impersonation_started', actorId: admin.id, targetUserId: user.id }),
+      ]);
+    });
+
+    it('should refuse unknown, staff, disabled and own accounts', () => {
+      const support = db.createUser(createTestUserData({ role: 'support' }));
+      const disabled = db.createUser(createTestUserData());
+      db.updateUser(disabled.id, { disabledAt: new Date().toISOString() });
+
+      expect(startImpersonation(admin, 'session-1', 'missing', client).status).toBe('not_found');
+      expect(startImpersonation(admin, 'session-1', support.id, client)).toEqual({
+        status: 'forbidden',
+        error: 'Staff accounts cannot be impersonated',
+      });
+      expect(startImpersonation(admin, 'session-1', disabled.id, client).status).toBe('forbidden');
+      expect(startImpersonation(admin, 'session-1', admin.id, client).status).toBe('forbidden');
+      expect(db.findAuditEvents()).toHaveLength(0);
+    });
+  });
+
+  describe('canImpersonate', () => {
+    it('should require an enabled account with the impersonate permission', () => {
+      expect(canImpersonate(admin)).toBe(true);
+      expect(canImpersonate(user)).toBe(false);
+      expect(canImpersonate({ ...admin, disabledAt: new Date().toISOString() })).toBe(false);
+      expect(canImpersonate(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { authConfig } from '../config/auth.config';
+import { findUserById } from '../database/db';
+import { ClientInfo } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { recordAuditEvent } from './audit.service';
+import { getRolePermissions, getUserRole, hasPermission } from './authorization.service';
+import { signImpersonationToken } from './token.service';
+import { isAccountDisabled } from './user-admin.service';
+
+export type ImpersonationResult =
+  | { status: 'ok'; token: string; expiresIn: number; user: User }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; error: string };
+
+/**
+ * Checks that the admin behind an impersonation token may still act as other users
+ */
+export const canImpersonate = (actor: User | undefined): actor is User => {
+  return !!actor && !isAccountDisabled(actor) && hasPermission(actor, 'users:impersonate');
+};
+
+/**
+ * Issues a short-lived token that lets the admin act as the target user
+ * Staff accounts cannot be impersonated, so impersonation never grants extra permissions.
+ */
+export const startImpersonation = (
+  actor: User,
+  actorSessionId: string,
+  targetUserId: string,
+  client: ClientInfo
+): ImpersonationResult => {
+  const target = findUserById(targetUserId);
+  if (!target) {
+    return { status: 'not_found' };
+  }
+
+  if (target.id === actor.id) {
+    return { status: 'forbidden', error: 'You cannot impersonate yourself' };
+  }
+
+  if (getRolePermissions(getUserRole(target)).length > 0) {
+    return { status: 'forbidden', error: 'Staff accounts cannot be impersonated' };
+  }
+
+  if (isAccountDisabled(target)) {
+    return { status: 'forbidden', error: 'Disabled accounts cannot be impersonated' };
+  }
+
+  recordAuditEvent('admin.impersonation_started', client, { actorId: actor.id, targetUserId: target.id });
+
+  return {
+    status: 'ok',
+    token: signImpersonationToken(target.id, actor.id, actorSessionId),
+    expiresIn: authConfig.impersonationTtlSeconds,
+    user: target,
+  };
+};
+
+/**
+ * Logs a request made with an impersonation token
+ */
+export const recordImpersonatedRequest = (
+  actorId: string,
+  targetUserId: string,
+  request: { method: string; path: string },
+  client: ClientInfo
+): void => {
+  recordAuditEvent('admin.impersonated_request', client, { actorId, targetUserId, details: request });
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  issueInvitation,
+  listAllInvitations,
+  revokeInvitationById,
+  getInvitationStatus,
+  checkRegistration,
+  createRegisteredUser,
+} from './invitation.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+
+describe('Invitation Service', () => {
+  const issue = (overrides: Record<string, unknown> = {}) => {
+    const result = issueInvitation('admin-1', overrides);
+    if (result.status !== 'ok') {
+      throw new Error(result.error);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    authConfig.registrationMode = 'invite_only';
+  });
+
+  afterEach(() => {
+    authConfig.registrationMode = 'open';
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('issueInvitation', () => {
+    it('should return the code once and store only its hash', () => {
+      const { code, invitation } = issue({ email: ' Invitee@Example.com ', maxUses: 3 });
+
+      expect(JSON.stringify(db.findInvitations())).not.toContain(code);
+      expect(invitation).toMatchObject({ email: 'invitee@example.com', maxUses: 3, useCount: 0, createdBy: 'admin-1' });
+      expect(getInvitationStatus(invitation)).toBe('active');
+    });
+
+    it('should reject an invalid email, usage limit or expiry', () => {
+      expect(issueInvitation('admin-1', { email: 'not-an-email' }).status).toBe('invalid');
+      expect(issueInvitation('admin-1', { maxUses: 0 }).status).toBe('invalid');
+      expect(issueInvitation('admin-1', { expiresInDays: authConfig.invitationMaxTtlDays + 1 }).status).toBe('invalid');
+      expect(listAllInvitations()).toHaveLength(0);
+    });
+  });
+
+  describe('checkRegistration', () => {
+    it('should let anyone register while registration is open and nobody while it is closed', () => {
+      authConfig.registrationMode = 'open';
+      expect(checkRegistration(undefined, 'new@example.com')).toEqual({ status: 'ok' });
+
+      authConfig.registrationMode = 'closed';
+      const { code } = issue();
+      expect(checkRegistration(code, 'new@example.com')).toEqual({ status: 'closed' });
+    });
+
+    it('should only accept an active invitation for its locked address', () => {
+      const { code } = issue({ email: 'invitee@example.com' });
+
+      expect(checkRegistration(undefined, 'invitee@example.com').status).toBe('invitation_required');
+      expect(checkRegistration('unknown', 'invitee@example.com').status).toBe('invalid_invitation');
+      expect(checkRegistration(code, 'other@example.com').status).toBe('invalid_invitation');
+      expect(checkRegistration(code, 'invitee@example.com').status).toBe('ok');
+    });
+
+    it('should reject expired and revoked invitations', () => {
+      vi.useFakeTimers();
+      const expiring = issue({ expiresInDays: 1 });
+      const revoked = issue();
+
+      revokeInvitationById(revoked.invitation.id);
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(checkRegistration(expiring.code, 'new@example.com').status).toBe('invalid_invitation');
+      expect(checkRegistration(revoked.code, 'new@example.com').status).toBe('invalid_invitation');
+      expect(listAllInvitations().map(invitation => getInvitationStatus(invitation))).toEqual(['revoked', 'expired']);
+    });
+  });
+
+  describe('createRegisteredUser', () => {
+    it('should use up the invitation together with creating the account', () => {
+      const { code, invitation } = issue({ maxUses: 1 });
+
+      const first = createRegisteredUser(createTestUserData(), code);
+      const second = createRegisteredUser(createTestUserData(), code);
+
+      expect(first.status).toBe('ok');
+      expect(second.status).toBe('invalid_invitation');
+      expect(db.readUsers()).toHaveLength(1);
+      expect(getInvitationStatus(db.findInvitationById(invitation.id)!)).toBe('used_up');
+    });
+  });
+
+  describe('revokeInvitationById', () => {
+    it('should return null for unknown invitations', () => {
+      expect(revokeInvitationById('missing')).toBeNull();
+    });
+  });
+});
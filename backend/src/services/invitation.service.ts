@@ -0,0 +1,145 @@
+import { authConfig } from '../config/auth.config';
+import {
+  createInvitation,
+  createUser,
+  findInvitationByCodeHash,
+  findInvitationById,
+  findInvitations,
+  updateInvitation,
+} from '../database/db';
+import { CreateInvitationRequest, Invitation } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { generateToken, hashToken } from '../utils/crypto';
+import { isValidEmail, sanitizeEmail } from '../utils/validation';
+
+const MAX_USES_LIMIT = 1000;
+
+export type InvitationStatus = 'active' | 'expired' | 'revoked' | 'used_up';
+
+export type InvitationResult =
+  | { status: 'ok'; code: string; invitation: Invitation }
+  | { status: 'invalid'; error: string };
+
+export type RegistrationCheck =
+  | { status: 'ok'; invitation?: Invitation }
+  | { status: 'closed' }
+  | { status: 'invitation_required' }
+  | { status: 'invalid_invitation' };
+
+export type RegistrationResult =
+  | Exclude<RegistrationCheck, { status: 'ok' }>
+  | { status: 'ok'; user: User; invitation?: Invitation };
+
+export const getInvitationStatus = (invitation: Invitation, now = new Date()): InvitationStatus => {
+  if (invitation.revokedAt) {
+    return 'revoked';
+  }
+  if (new Date(invitation.expiresAt).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return invitation.useCount >= invitation.maxUses ? 'used_up' : 'active';
+};
+
+/**
+ * Creates an invitation code
+ * The code is returned once; only its hash is stored.
+ */
+export const issueInvitation = (
+  createdBy: string,
+  { email, maxUses = 1, expiresInDays = authConfig.invitationDefaultTtlDays }: CreateInvitationRequest
+): InvitationResult => {
+  if (email !== undefined && (typeof email !== 'string' || !isValidEmail(email))) {
+    return { status: 'invalid', error: 'Invalid email format' };
+  }
+
+  if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES_LIMIT) {
+    return { status: 'invalid', error: `maxUses must be a whole number from 1 to ${MAX_USES_LIMIT}` };
+  }
+
+  const maxDays = authConfig.invitationMaxTtlDays;
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > maxDays) {
+    return { status: 'invalid', error: `expiresInDays must be a whole number from 1 to ${maxDays}` };
+  }
+
+  const code = generateToken(16);
+  const invitation = createInvitation({
+    codeHash: hashToken(code),
+    email: email === undefined ? undefined : sanitizeEmail(email),
+    maxUses,
+    useCount: 0,
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    createdBy,
+  });
+
+  return { status: 'ok', code, invitation };
+};
+
+/**
+ * Lists all invitations, newest first
+ */
+export const listAllInvitations = (): Invitation[] => {
+  return findInvitations().reverse();
+};
+
+/**
+ * Stops an invitation from being used, returning null when there is no such invitation
+ * Accounts already created with it are left alone.
+ */
+export const revokeInvitationById = (id: string): Invitation | null => {
+  const invitation = findInvitationById(id);
+  if (!invitation) {
+    return null;
+  }
+  if (invitation.revokedAt) {
+    return invitation;
+  }
+  return updateInvitation(id, { revokedAt: new Date().toISOString() });
+};
+
+/**
+ * Checks whether someone may register with the given email address under the current registration mode
+ * Invitations that are unknown, used up, expired, revoked or locked to another address are all
+ * reported the same way, so codes cannot be probed.
+ */
+export const checkRegistration = (invitationCode: unknown, email: string): RegistrationCheck => {
+  if (authConfig.registrationMode === 'closed') {
+    return { status: 'closed' };
+  }
+
+  if (authConfig.registrationMode === 'open') {
+    return { status: 'ok' };
+  }
+
+  if (typeof invitationCode !== 'string' || !invitationCode) {
+    return { status: 'invitation_required' };
+  }
+
+  const invitation = findInvitationByCodeHash(hashToken(invitationCode));
+  if (!invitation || getInvitationStatus(invitation) !== 'active' || (invitation.email && invitation.email !== email)) {
+    return { status: 'invalid_invitation' };
+  }
+
+  return { status: 'ok', invitation };
+};
+
+/**
+ * Creates the account if registration is allowed, using up the invitation in the same step
+ * Nothing is awaited between the check and the writes, so concurrent sign-ups cannot use a code
+ * more often than it allows.
+ */
+export const createRegisteredUser = (
+  userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>,
+  invitationCode: unknown
+): RegistrationResult => {
+  const check = checkRegistration(invitationCode, userData.email);
+  if (check.status !== 'ok') {
+    return check;
+  }
+
+  const user = createUser(userData);
+  if (check.invitation) {
+    updateInvitation(check.invitation.id, { useCount: check.invitation.useCount + 1 });
+  }
+
+  return { status: 'ok', user, invitation: check.invitation };
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  checkLoginAllowed,
+  recordLoginFailure,
+  recordLoginSuccess,
+  checkSecondFactorAllowed,
+  recordSecondFactorFailure,
+  recordSecondFactorSuccess,
+} from './login-throttle.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import * as db from '../database/db';
+
+describe('Login Throttle Service', () => {
+  const email = 'target@example.com';
+  const ip = '10.0.0.1';
+
+  const fail = (times: number, from = ip) => {
+    for (let i = 0; i < times; i++) {
+      recordLoginFailure(email, from);
+    }
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  it('should allow attempts below the backoff threshold', () => {
+    fail(authConfig.loginBackoffAfterFailures - 1);
+
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'allowed' });
+  });
+
+  it('should double the wait with each further failure', () => {
+    fail(authConfig.loginBackoffAfterFailures);
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'throttled', retryAfterSeconds: 1 });
+
+    vi.advanceTimersByTime(1000);
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'allowed' });
+
+    fail(1);
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'throttled', retryAfterSeconds: 2 });
+  });
+
+  it('should lock the account after too many failures and unlock it later', () => {
+    fail(authConfig.loginMaxAccountFailures);
+
+    expect(checkLoginAllowed(email, ip)).toEqual({
+      status: 'locked',
+      retryAfterSeconds: authConfig.loginLockoutMs / 1000,
+    });
+    // The lock follows the account to other IPs
+    expect(checkLoginAllowed(email, '10.0.0.2').status).toBe('locked');
+
+    vi.advanceTimersByTime(authConfig.loginLockoutMs);
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'allowed' });
+  });
+
+  it('should block an IP that fails against many accounts', () => {
+    for (let i = 0; i < authConfig.loginMaxIpFailures; i++) {
+      recordLoginFailure(`user${i}@example.com`, ip);
+    }
+
+    const result = checkLoginAllowed('fresh@example.com', ip);
+
+    expect(result.status).toBe('throttled');
+    expect(checkLoginAllowed('fresh@example.com', '10.0.0.2')).toEqual({ status: 'allowed' });
+  });
+
+  it('should forget failures after the attempt window', () => {
+    fail(authConfig.loginBackoffAfterFailures - 1);
+    vi.advanceTimersByTime(authConfig.loginAttemptWindowMs);
+    fail(1);
+
+    expect(db.findLoginAttempt(`account:${email}`)!.failures).toBe(1);
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'allowed' });
+  });
+
+  it('should clear account failures, but not IP failures, after a successful login', () => {
+    fail(authConfig.loginBackoffAfterFailures - 1);
+
+    recordLoginSuccess(email);
+
+    expect(db.findLoginAttempt(`account:${email}`)).toBeUndefined();
+    expect(db.findLoginAttempt(`ip:${ip}`)!.failures).toBe(authConfig.loginBackoffAfterFailures - 1);
+  });
+
+  it('should lock a user out of their 2FA settings after too many wrong codes, without affecting login', () => {
+    for (let i = 0; i < authConfig.mfaMaxAttempts - 1; i++) {
+      recordSecondFactorFailure('user-1');
+    }
+    expect(checkSecondFactorAllowed('user-1')).toEqual({ status: 'allowed' });
+
+    recordSecondFactorFailure('user-1');
+
+    expect(checkSecondFactorAllowed('user-1')).toEqual({
+      status: 'locked',
+      retryAfterSeconds: authConfig.loginLockoutMs / 1000,
+    });
+    expect(checkSecondFactorAllowed('user-2')).toEqual({ status: 'allowed' });
+    expect(checkLoginAllowed(email, ip)).toEqual({ status: 'allowed' });
+  });
+
+  it('should forget wrong 2FA codes once a right one is entered', () => {
+    recordSecondFactorFailure('user-1');
+
+    recordSecondFactorSuccess('user-1');
+
+    expect(db.findLoginAttempt('second-factor:user-1')).toBeUndefined();
+  });
+});
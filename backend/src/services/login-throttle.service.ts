@@ -0,0 +1,129 @@
+import { authConfig } from '../config/auth.config';
+import { findLoginAttempt, saveLoginAttempt, deleteLoginAttempt, pruneLoginAttempts } from '../database/db';
+import { LoginAttempt } from '../types/auth.types';
+
+/**
+ * Brute-force protection for password logins
+ * Attempts are tracked by email whether or not an account exists, so lockouts look
+ * the same for registered and unknown addresses.
+ */
+
+export type LoginThrottleResult =
+  | { status: 'allowed' }
+  // The account is locked after too many failures
+  | { status: 'locked'; retryAfterSeconds: number }
+  // The client must slow down: backoff after recent failures, or its IP is blocked
+  | { status: 'throttled'; retryAfterSeconds: number };
+
+const accountKey = (email: string): string => `account:${email}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+const secondFactorKey = (userId: string): string => `second-factor:${userId}`;
+
+const getActiveAttempt = (key: string, now: number): LoginAttempt | undefined => {
+  const attempt = findLoginAttempt(key);
+  return attempt && new Date(attempt.expiresAt).getTime() > now ? attempt : undefined;
+};
+
+const getLockRemainingMs = (attempt: LoginAttempt | undefined, now: number): number => {
+  return attempt?.lockedUntil ? new Date(attempt.lockedUntil).getTime() - now : 0;
+};
+
+const getBackoffRemainingMs = (attempt: LoginAttempt | undefined, now: number): number => {
+  if (!attempt || attempt.failures < authConfig.loginBackoffAfterFailures) {
+    return 0;
+  }
+  const delay = Math.min(
+    authConfig.loginBackoffBaseMs * 2 ** (attempt.failures - authConfig.loginBackoffAfterFailures),
+    authConfig.loginBackoffMaxMs
+  );
+  return new Date(attempt.lastFailureAt).getTime() + delay - now;
+};
+
+const toSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
+
+/**
+ * Checks whether a login attempt may go ahead, before the password is looked at
+ */
+export const checkLoginAllowed = (email: string, ip: string): LoginThrottleResult => {
+  const now = Date.now();
+  const account = getActiveAttempt(accountKey(email), now);
+  const client = getActiveAttempt(ipKey(ip), now);
+
+  const accountLockMs = getLockRemainingMs(account, now);
+  if (accountLockMs > 0) {
+    return { status: 'locked', retryAfterSeconds: toSeconds(accountLockMs) };
+  }
+
+  const waitMs = Math.max(
+    getLockRemainingMs(client, now),
+    getBackoffRemainingMs(account, now),
+    getBackoffRemainingMs(client, now)
+  );
+  if (waitMs > 0) {
+    return { status: 'throttled', retryAfterSeconds: toSeconds(waitMs) };
+  }
+
+  return { status: 'allowed' };
+};
+
+const countFailure = (key: string, maxFailures: number, now: number): void => {
+  const previous = getActiveAttempt(key, now);
+  const failures = (previous?.failures || 0) + 1;
+  const lockedUntil = failures >= maxFailures ? now + authConfig.loginLockoutMs : undefined;
+
+  saveLoginAttempt({
+    key,
+    failures,
+    lastFailureAt: new Date(now).toISOString(),
+    lockedUntil: lockedUntil ? new Date(lockedUntil).toISOString() : undefined,
+    expiresAt: new Date(Math.max(now + authConfig.loginAttemptWindowMs, lockedUntil || 0)).toISOString(),
+  });
+};
+
+/**
+ * Counts a failed login against both the account and the client IP
+ */
+export const recordLoginFailure = (email: string, ip: string): void => {
+  const now = Date.now();
+  pruneLoginAttempts(new Date(now));
+  countFailure(accountKey(email), authConfig.loginMaxAccountFailures, now);
+  countFailure(ipKey(ip), authConfig.loginMaxIpFailures, now);
+};
+
+/**
+ * Clears the account's failures after a successful login
+ * The IP count is kept, so logging into one's own account cannot reset it.
+ */
+export const recordLoginSuccess = (email: string): void => {
+  deleteLoginAttempt(accountKey(email));
+};
+
+/**
+ * Checks whether a signed-in user may try another two-factor code, e.g. to enable or disable 2FA
+ * Codes entered at login are throttled with the password instead, through checkLoginAllowed.
+ */
+export const checkSecondFactorAllowed = (userId: string): LoginThrottleResult => {
+  const now = Date.now();
+  const lockMs = getLockRemainingMs(getActiveAttempt(secondFactorKey(userId), now), now);
+  return lockMs > 0 ? { status: 'locked', retryAfterSeconds: toSeconds(lockMs) } : { status: 'allowed' };
+};
+
+/**
+ * Counts a wrong two-factor code; mfaMaxAttempts of them lock the user out of their 2FA settings
+ */
+export const recordSecondFactorFailure = (userId: string): void => {
+  const now = Date.now();
+  pruneLoginAttempts(new Date(now));
+  countFailure(secondFactorKey(userId), authConfig.mfaMaxAttempts, now);
+};
+
+export const recordSecondFactorSuccess = (userId: string): void => {
+  deleteLoginAttempt(secondFactorKey(userId));
+};
+
+/**
+ * Forgets the failures counted against an address, e.g. when its account is deleted
+ */
+export const clearLoginAttempts = (email: string): void => {
+  deleteLoginAttempt(accountKey(email));
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { requestMagicLink, consumeMagicLink } from './magic-link.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import {
+  setupTestOutbox,
+  teardownTestOutbox,
+  getOutboxMessages,
+  getLatestTokenFromOutbox,
+  flushMail,
+} from '../test/mail-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Magic Link Service', () => {
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    setupTestOutbox();
+    user = db.createUser({ ...createTestUserData({ email: 'magic@example.com' }), emailVerified: false });
+  });
+
+  afterEach(() => {
+    teardownTestOutbox();
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  it('should email a sign-in link to an existing account', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+
+    const messages = getOutboxMessages('magic@example.com');
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text).toContain('/magic-link?token=');
+  });
+
+  it('should not send anything for an unknown address', async () => {
+    requestMagicLink('nobody@example.com');
+    await flushMail();
+
+    expect(getOutboxMessages()).toHaveLength(0);
+  });
+
+  it('should store only the hash of the token', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+
+    expect(db.findActionTokenByHash(getLatestTokenFromOutbox('magic@example.com'))).toBeUndefined();
+  });
+
+  it('should sign in once per link and verify the address', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+    const token = getLatestTokenFromOutbox('magic@example.com');
+
+    const signedIn = consumeMagicLink(token);
+
+    expect(signedIn?.id).toBe(user.id);
+    expect(signedIn?.emailVerified).toBe(true);
+    expect(consumeMagicLink(token)).toBeNull();
+  });
+
+  it('should only accept the most recent link', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+    const first = getLatestTokenFromOutbox('magic@example.com');
+    requestMagicLink('magic@example.com');
+    await flushMail();
+
+    expect(consumeMagicLink(first)).toBeNull();
+    expect(consumeMagicLink(getLatestTokenFromOutbox('magic@example.com'))).not.toBeNull();
+  });
+
+  it('should reject an expired link', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+    const token = getLatestTokenFromOutbox('magic@example.com');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + authConfig.magicLinkTtlMs + 1000);
+
+    expect(consumeMagicLink(token)).toBeNull();
+  });
+
+  it('should reject a link sent before the email address changed', async () => {
+    requestMagicLink('magic@example.com');
+    await flushMail();
+    const token = getLatestTokenFromOutbox('magic@example.com');
+    db.updateUser(user.id, { email: 'changed@example.com' });
+
+    expect(consumeMagicLink(token)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { findUserByEmail, findUserById, updateUser } from '../database/db';
+import { User } from '../types/user.types';
+import { issueActionToken, consumeActionToken } from './action-token.service';
+import { sendMailInBackground } from './mail.service';
+
+/**
+ * Emails a passwordless sign-in link if an account exists for the address
+ * Callers must respond the same way whether or not a user was found.
+ */
+export const requestMagicLink = (email: string): void => {
+  const user = findUserByEmail(email);
+  if (!user) {
+    return;
+  }
+
+  const token = issueActionToken(user.id, 'magic_link', authConfig.magicLinkTtlMs, user.email);
+  const link = `${mailConfig.appUrl}/magic-link?token=${token}`;
+  const minutes = Math.round(authConfig.magicLinkTtlMs / 60000);
+
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Your sign-in link',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Use the link below to sign in without your password:',
+      link,
+      '',
+      `The link expires in ${minutes} minutes and can only be used once.`,
+      'If you did not ask to sign in, you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+/**
+ * Signs in with a token from a magic link email
+ * The link only works for the address it was sent to, and since opening it proves
+ * the user owns that address, the address counts as verified from then on.
+ * Returns null if the token is invalid, expired or already used.
+ */
+export const consumeMagicLink = (token: string): User | null => {
+  const record = consumeActionToken(token, 'magic_link');
+  if (!record) {
+    return null;
+  }
+
+  const user = findUserById(record.userId);
+  if (!user || user.email !== record.email) {
+    return null;
+  }
+
+  if (user.emailVerified) {
+    return user;
+  }
+
+  return updateUser(user.id, {
+    emailVerified: true,
+    emailVerifiedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutboxTransport, sendMail, setMailTransport, resetMailTransport, getMailTransport } from './mail.service';
+import { mailConfig } from '../config/mail.config';
+
+describe('Mail Service', () => {
+  let outboxDir: string;
+  let outbox: OutboxTransport;
+
+  beforeEach(() => {
+    outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-mail-test-'));
+    outbox = new OutboxTransport(outboxDir);
+  });
+
+  afterEach(() => {
+    outbox.clear();
+    resetMailTransport();
+  });
+
+  describe('OutboxTransport', () => {
+    it('should write each message as a JSON file', async () => {
+      await outbox.send({ from: 'app@test.com', to: 'user@test.com', subject: 'Hello', text: 'Body' });
+
+      const files = fs.readdirSync(outboxDir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.json$/);
+    });
+
+    it('should read messages back in the order they were sent', async () => {
+      await outbox.send({ from: 'app@test.com', to: 'first@test.com', subject: 'One', text: '1' });
+      await outbox.send({ from: 'app@test.com', to: 'second@test.com', subject: 'Two', text: '2' });
+
+      const messages = outbox.readMessages();
+
+      expect(messages.map(message => message.to)).toEqual(['first@test.com', 'second@test.com']);
+      expect(messages[0]).toHaveProperty('id');
+      expect(messages[0]).toHaveProperty('sentAt');
+    });
+
+    it('should return no messages for a missing outbox', () => {
+      outbox.clear();
+
+      expect(outbox.readMessages()).toEqual([]);
+    });
+  });
+
+  describe('sendMail', () => {
+    it('should send through the configured transport with the default sender', async () => {
+      setMailTransport(outbox);
+
+      await sendMail({ to: 'user@test.com', subject: 'Hi', text: 'Body' });
+
+      const [message] = outbox.readMessages();
+      expect(message.from).toBe(mailConfig.from);
+      expect(message.to).toBe('user@test.com');
+    });
+
+    it('should default to the outbox transport', () => {
+      expect(getMailTransport()).toBeInstanceOf(OutboxTransport);
+    });
+  });
+});
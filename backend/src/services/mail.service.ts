@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { mailConfig } from '../config/mail.config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface OutgoingMailMessage extends MailMessage {
+  from: string;
+}
+
+export interface StoredMailMessage extends OutgoingMailMessage {
+  id: string;
+  sentAt: string;
+}
+
+/**
+ * Delivers outgoing mail
+ * Implement this to plug in SMTP or a mail API.
+ */
+export interface MailTransport {
+  send(message: OutgoingMailMessage): Promise<void>;
+}
+
+// Keeps file names in send order when several messages share a millisecond
+let outboxSequence = 0;
+
+/**
+ * Development transport that writes each message as a JSON file into a local outbox
+ * Nothing leaves the machine, and tests can read the messages back.
+ */
+export class OutboxTransport implements MailTransport {
+  private outboxDir: string;
+
+  constructor(outboxDir?: string) {
+    this.outboxDir = outboxDir || mailConfig.outboxDir;
+  }
+
+  async send(message: OutgoingMailMessage): Promise<void> {
+    const stored: StoredMailMessage = {
+      ...message,
+      id: crypto.randomUUID(),
+      sentAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(this.outboxDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.outboxDir, `${Date.now()}-${String(outboxSequence++).padStart(6, '0')}-${stored.id}.json`),
+      JSON.stringify(stored, null, 2)
+    );
+  }
+
+  readMessages(): StoredMailMessage[] {
+    if (!fs.existsSync(this.outboxDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.outboxDir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.outboxDir, file), 'utf-8')) as StoredMailMessage);
+  }
+
+  clear(): void {
+    fs.rmSync(this.outboxDir, { recursive: true, force: true });
+  }
+}
+
+let transportInstance: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transportInstance) {
+    transportInstance = new OutboxTransport();
+  }
+  return transportInstance;
+}
+
+export function setMailTransport(transport: MailTransport): void {
+  transportInstance = transport;
+}
+
+export function resetMailTransport(): void {
+  transportInstance = null;
+}
+
+export const sendMail = (message: MailMessage): Promise<void> => {
+  return getMailTransport().send({ ...message, from: mailConfig.from });
+};
+
+// Background sends still in flight, so they can be waited for
+const pendingMail = new Set<Promise<void>>();
+
+/**
+ * Sends mail without making the caller wait for delivery
+ * Used where response timing must not reveal whether an email was sent.
+ */
+export const sendMailInBackground = (message: MailMessage): void => {
+  const sending = sendMail(message)
+    .catch(error => {
+      console.error(`Failed to send "${message.subject}" email:`, error);
+    })
+    .finally(() => {
+      pendingMail.delete(sending);
+    });
+  pendingMail.add(sending);
+};
+
+/**
+ * Resolves once every mail handed to sendMailInBackground so far has been delivered or has failed
+ */
+export const waitForPendingMail = async (): Promise<void> => {
+  await Promise.all(pendingMail);
+};
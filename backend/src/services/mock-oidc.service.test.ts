@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { MockOidcServer, MockOidcProvider, MockAuthorizeQuery } from './mock-oidc.service';
+
+describe('Mock OIDC Service', () => {
+  const issuer = 'http://localhost:3000/api/mock-oidc';
+  const redirectUri = 'http://localhost:3000/api/auth/oauth/mock/callback';
+  const codeVerifier = 'verifier-verifier-verifier-verifier-verifier';
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  let server: MockOidcServer;
+
+  const authorizeQuery = (overrides: Partial<MockAuthorizeQuery> = {}): MockAuthorizeQuery => ({
+    response_type: 'code',
+    client_id: server.clientId,
+    redirect_uri: redirectUri,
+    state: 'state-1',
+    nonce: 'nonce-1',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    ...overrides,
+  });
+
+  const getCode = (overrides: Partial<MockAuthorizeQuery> = {}): string => {
+    const result = server.authorize(authorizeQuery(overrides));
+    if (result.status !== 'ok') {
+      throw new Error(result.error);
+    }
+    return new URL(result.redirectUrl).searchParams.get('code')!;
+  };
+
+  // Generating the signing key is slow, and codes are unique, so one server is shared
+  beforeAll(() => {
+    server = new MockOidcServer(issuer);
+  });
+
+  describe('authorize', () => {
+    it('should redirect back with a code and the original state', () => {
+      const result = server.authorize(authorizeQuery());
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        const url = new URL(result.redirectUrl);
+        expect(`${url.origin}${url.pathname}`).toBe(redirectUri);
+        expect(url.searchParams.get('state')).toBe('state-1');
+        expect(url.searchParams.get('code')).toBeTruthy();
+      }
+    });
+
+    it('should reject unknown clients', () => {
+      expect(server.authorize(authorizeQuery({ client_id: 'someone-else' }))).toEqual({
+        status: 'error',
+        error: 'unauthorized_client',
+      });
+    });
+
+    it('should require PKCE with S256', () => {
+      expect(server.authorize(authorizeQuery({ code_challenge: undefined })).status).toBe('error');
+      expect(server.authorize(authorizeQuery({ code_challenge_method: 'plain' })).status).toBe('error');
+    });
+  });
+
+  describe('exchangeCode', () => {
+    const exchange = (code: string, verifier = codeVerifier) =>
+      server.exchangeCode({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: server.clientId,
+        code_verifier: verifier,
+      });
+
+    it('should issue an ID token signed with the published key', () => {
+      const result = exchange(getCode({ login_hint: 'Jane@Example.com' }));
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        const [jwk] = server.getJwks().keys;
+        const claims = jwt.verify(result.tokens.id_token, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+          issuer,
+          audience: server.clientId,
+        }) as jwt.JwtPayload;
+        expect(claims.email).toBe('jane@example.com');
+        expect(claims.email_verified).toBe(true);
+        expect(claims.nonce).toBe('nonce-1');
+        expect(claims.sub).toMatch(/^mock-/);
+      }
+    });
+
+    it('should reject a code verifier that does not match the challenge', () => {
+      expect(exchange(getCode(), 'wrong-verifier')).toEqual({ status: 'error', error: 'invalid_grant' });
+    });
+
+    it('should only accept a code once', () => {
+      const code = getCode();
+
+      expect(exchange(code).status).toBe('ok');
+      expect(exchange(code)).toEqual({ status: 'error', error: 'invalid_grant' });
+    });
+
+    it('should give the same user the same subject', () => {
+      const first = exchange(getCode({ login_hint: 'same@example.com' }));
+      const second = exchange(getCode({ login_hint: 'same@example.com' }));
+
+      if (first.status !== 'ok' || second.status !== 'ok') {
+        throw new Error('exchange failed');
+      }
+      expect(jwt.decode(first.tokens.id_token)!.sub).toBe(jwt.decode(second.tokens.id_token)!.sub);
+    });
+  });
+
+  describe('MockOidcProvider', () => {
+    it('should complete the flow and return the verified profile', async () => {
+      const provider = new MockOidcProvider(server);
+      const authorizationUrl = await provider.getAuthorizationUrl({
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeChallenge,
+        redirectUri,
+      });
+      const query = Object.fromEntries(new URL(authorizationUrl).searchParams);
+      const code = getCode({ ...query, email_verified: 'false' });
+
+      const profile = await provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1', redirectUri });
+
+      expect(profile).toEqual({
+        subject: expect.stringMatching(/^mock-/),
+        email: 'mock.user@example.com',
+        emailVerified: false,
+        name: 'Mock User',
+      });
+    });
+
+    it('should reject an ID token issued for another nonce', async () => {
+      const provider = new MockOidcProvider(server);
+      const code = getCode();
+
+      await expect(
+        provider.exchangeCode({ code, codeVerifier, nonce: 'other-nonce', redirectUri })
+      ).rejects.toThrow('ID token nonce does not match');
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { oauthConfig } from '../config/oauth.config';
+import { generateToken, hashToken } from '../utils/crypto';
+import {
+  AuthorizationUrlParams,
+  CodeExchangeParams,
+  JsonWebKeySet,
+  OAuthProfile,
+  OAuthProvider,
+  verifyIdToken,
+} from './oauth-provider.service';
+
+export const MOCK_PROVIDER_NAME = 'mock';
+
+const DEFAULT_EMAIL = 'mock.user@example.com';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+export interface MockAuthorizeQuery {
+  response_type?: string;
+  client_id?: string;
+  redirect_uri?: string;
+  state?: string;
+  nonce?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  // Chooses who "signs in"; anyone can be the mock provider's user
+  login_hint?: string;
+  // Set to 'false' to simulate a provider that has not verified the address
+  email_verified?: string;
+}
+
+export interface MockTokenRequest {
+  grant_type?: string;
+  code?: string;
+  redirect_uri?: string;
+  client_id?: string;
+  code_verifier?: string;
+}
+
+export interface MockTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  id_token: string;
+}
+
+interface PendingAuthorization {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+export type MockAuthorizeResult = { status: 'ok'; redirectUrl: string } | { status: 'error'; error: string };
+
+export type MockTokenResult = { status: 'ok'; tokens: MockTokenResponse } | { status: 'error'; error: string };
+
+const sha256Base64Url = (value: string): string => crypto.createHash('sha256').update(value).digest('base64url');
+
+/**
+ * A local OpenID Connect identity provider for development and tests
+ * It approves every authorization request without asking for credentials and signs
+ * ID tokens with a key generated at startup, so the whole login flow runs offline.
+ */
+export class MockOidcServer {
+  readonly issuer: string;
+  readonly clientId = 'qa-testing-app';
+  private keyId = crypto.randomUUID();
+  private keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private codes = new Map<string, PendingAuthorization>();
+
+  constructor(issuer: string = `${oauthConfig.apiUrl}/api/mock-oidc`) {
+    this.issuer = issuer;
+  }
+
+  get authorizationEndpoint(): string {
+    return `${this.issuer}/authorize`;
+  }
+
+  getDiscoveryDocument() {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: this.authorizationEndpoint,
+      token_endpoint: `${this.issuer}/token`,
+      jwks_uri: `${this.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+    };
+  }
+
+  getJwks(): JsonWebKeySet {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+    return { keys: [{ ...jwk, kid: this.keyId, alg: 'RS256', use: 'sig' }] };
+  }
+
+  getSigningKey(kid: string | undefined): crypto.KeyObject | undefined {
+    return kid === this.keyId ? this.keyPair.publicKey : undefined;
+  }
+
+  authorize(query: MockAuthorizeQuery): MockAuthorizeResult {
+    if (query.response_type !== 'code') {
+      return { status: 'error', error: 'unsupported_response_type' };
+    }
+    if (query.client_id !== this.clientId) {
+      return { status: 'error', error: 'unauthorized_client' };
+    }
+    if (!query.redirect_uri || !query.state || !query.code_challenge || query.code_challenge_method !== 'S256') {
+      return { status: 'error', error: 'invalid_request' };
+    }
+
+    const code = generateToken();
+    this.codes.set(code, {
+      clientId: query.client_id,
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+      nonce: query.nonce,
+      email: (query.login_hint || DEFAULT_EMAIL).trim().toLowerCase(),
+      emailVerified: query.email_verified !== 'false',
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirectUrl = new URL(query.redirect_uri);
+    redirectUrl.searchParams.set('code', code);
+    redirectUrl.searchParams.set('state', query.state);
+    return { status: 'ok', redirectUrl: redirectUrl.toString() };
+  }
+
+  exchangeCode(request: MockTokenRequest): MockTokenResult {
+    if (request.grant_type !== 'authorization_code' || !request.code) {
+      return { status: 'error', error: 'invalid_request' };
+    }
+
+    // Codes are single-use, even when the exchange fails
+    const pending = this.codes.get(request.code);
+    this.codes.delete(request.code);
+
+    if (
+      !pending ||
+      pending.expiresAt <= Date.now() ||
+      pending.clientId !== request.client_id ||
+      pending.redirectUri !== request.redirect_uri ||
+      !request.code_verifier ||
+      sha256Base64Url(request.code_verifier) !== pending.codeChallenge
+    ) {
+      return { status: 'error', error: 'invalid_grant' };
+    }
+
+    const idToken = jwt.sign(
+      {
+        email: pending.email,
+        email_verified: pending.emailVerified,
+        name: pending.email === DEFAULT_EMAIL ? 'Mock User' : pending.email.split('@')[0],
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+      },
+      this.keyPair.privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: this.keyId,
+        issuer: this.issuer,
+        audience: pending.clientId,
+        // Derived from the address so the same mock user always gets the same subject
+        subject: `mock-${hashToken(pending.email).slice(0, 16)}`,
+        expiresIn: ID_TOKEN_TTL_SECONDS,
+      }
+    );
+
+    return {
+      status: 'ok',
+      tokens: {
+        access_token: generateToken(),
+        token_type: 'Bearer',
+        expires_in: ID_TOKEN_TTL_SECONDS,
+        id_token: idToken,
+      },
+    };
+  }
+}
+
+/**
+ * Client side of the mock provider
+ * Talks to the mock server in-process instead of over HTTP, but checks the ID token
+ * exactly as a real OpenID Connect provider's would be checked.
+ */
+export class MockOidcProvider implements OAuthProvider {
+  readonly name = MOCK_PROVIDER_NAME;
+  private server: MockOidcServer;
+
+  constructor(server: MockOidcServer) {
+    this.server = server;
+  }
+
+  async getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string> {
+    const url = new URL(this.server.authorizationEndpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.server.clientId,
+      redirect_uri: params.redirectUri,
+      scope: 'openid email profile',
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  async exchangeCode(params: CodeExchangeParams): Promise<OAuthProfile> {
+    const result = this.server.exchangeCode({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.server.clientId,
+      code_verifier: params.codeVerifier,
+    });
+
+    if (result.status === 'error') {
+      throw new Error(`Token request failed: ${result.error}`);
+    }
+
+    return verifyIdToken(result.tokens.id_token, {
+      issuer: this.server.issuer,
+      audience: this.server.clientId,
+      nonce: params.nonce,
+      resolveKey: async kid => this.server.getSigningKey(kid),
+    });
+  }
+}
+
+let serverInstance: MockOidcServer | null = null;
+
+export function getMockOidcServer(): MockOidcServer {
+  if (!serverInstance) {
+    serverInstance = new MockOidcServer();
+  }
+  return serverInstance;
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { OidcProvider, getOAuthProvider, registerOAuthProvider, unregisterOAuthProvider, OAuthProvider } from './oauth-provider.service';
+import { MockOidcServer, MockTokenRequest } from './mock-oidc.service';
+import { oauthConfig } from '../config/oauth.config';
+
+describe('OAuth Provider Service', () => {
+  describe('OidcProvider', () => {
+    const issuer = 'https://idp.example.com';
+    const redirectUri = 'http://localhost:3000/api/auth/oauth/acme/callback';
+    const codeVerifier = 'verifier-verifier-verifier-verifier-verifier';
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    let server: MockOidcServer;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    // Serves the mock identity provider's endpoints as if they were reached over the network
+    const fakeFetch = async (input: string | URL, init?: RequestInit): Promise<Response> => {
+      const url = new URL(input.toString());
+      if (url.pathname === '/.well-known/openid-configuration') {
+        return json({ ...server.getDiscoveryDocument(), issuer });
+      }
+      if (url.pathname === '/jwks') {
+        return json(server.getJwks());
+      }
+      if (url.pathname === '/token') {
+        const result = server.exchangeCode(Object.fromEntries(init!.body as URLSearchParams) as MockTokenRequest);
+        return result.status === 'ok' ? json(result.tokens) : json({ error: result.error }, 400);
+      }
+      return json({}, 404);
+    };
+
+    const createProvider = () =>
+      new OidcProvider({ name: 'acme', issuer, clientId: server.clientId, clientSecret: 'secret' });
+
+    const authorize = async (provider: OidcProvider, nonce = 'nonce-1') => {
+      const authorizationUrl = await provider.getAuthorizationUrl({ state: 'state-1', nonce, codeChallenge, redirectUri });
+      const result = server.authorize(Object.fromEntries(new URL(authorizationUrl).searchParams));
+      if (result.status !== 'ok') {
+        throw new Error(result.error);
+      }
+      return new URL(result.redirectUrl).searchParams.get('code')!;
+    };
+
+    beforeAll(() => {
+      server = new MockOidcServer(issuer);
+    });
+
+    beforeEach(() => {
+      fetchMock = vi.fn(fakeFetch);
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should build the authorization URL from the discovery document', async () => {
+      const provider = createProvider();
+
+      const url = new URL(await provider.getAuthorizationUrl({ state: 's', nonce: 'n', codeChallenge, redirectUri }));
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(server.clientId);
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('code_challenge')).toBe(codeChallenge);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should exchange the code and verify the ID token', async () => {
+      const provider = createProvider();
+      const code = await authorize(provider);
+
+      const profile = await provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1', redirectUri });
+
+      expect(profile.email).toBe('mock.user@example.com');
+      expect(profile.emailVerified).toBe(true);
+      const tokenCall = fetchMock.mock.calls.find(([input]) => input.toString().endsWith('/token'));
+      expect((tokenCall![1]!.body as URLSearchParams).get('client_secret')).toBe('secret');
+    });
+
+    it('should only fetch discovery and keys once', async () => {
+      const provider = createProvider();
+
+      for (const nonce of ['n1', 'n2']) {
+        const code = await authorize(provider, nonce);
+        await provider.exchangeCode({ code, codeVerifier, nonce, redirectUri });
+      }
+
+      const paths = fetchMock.mock.calls.map(([input]) => new URL(input.toString()).pathname);
+      expect(paths.filter(path => path === '/.well-known/openid-configuration')).toHaveLength(1);
+      expect(paths.filter(path => path === '/jwks')).toHaveLength(1);
+    });
+
+    describe('unknown signing keys', () => {
+      const defaultCooldown = oauthConfig.jwksRefetchCooldownMs;
+
+      // Serves a key set without the key the provider signs with
+      const serveNoKeys = () => {
+        fetchMock.mockImplementation(async (input: string | URL, init?: RequestInit) =>
+          new URL(input.toString()).pathname === '/jwks' ? json({ keys: [] }) : fakeFetch(input, init)
+        );
+      };
+
+      const jwksFetches = () =>
+        fetchMock.mock.calls.filter(([input]) => new URL(input.toString()).pathname === '/jwks').length;
+
+      afterEach(() => {
+        oauthConfig.jwksRefetchCooldownMs = defaultCooldown;
+      });
+
+      it('should not refetch the keys again within the cooldown', async () => {
+        const provider = createProvider();
+        serveNoKeys();
+
+        for (const nonce of ['n1', 'n2']) {
+          const code = await authorize(provider, nonce);
+          await expect(provider.exchangeCode({ code, codeVerifier, nonce, redirectUri })).rejects.toThrow(
+            'ID token was signed with an unknown key'
+          );
+        }
+
+        expect(jwksFetches()).toBe(1);
+      });
+
+      it('should pick up a new key once the cooldown has passed', async () => {
+        oauthConfig.jwksRefetchCooldownMs = 0;
+        const provider = createProvider();
+        serveNoKeys();
+
+        const first = await authorize(provider, 'n1');
+        await expect(provider.exchangeCode({ code: first, codeVerifier, nonce: 'n1', redirectUri })).rejects.toThrow();
+
+        fetchMock.mockImplementation(fakeFetch);
+        const second = await authorize(provider, 'n2');
+        const profile = await provider.exchangeCode({ code: second, codeVerifier, nonce: 'n2', redirectUri });
+
+        expect(profile.email).toBe('mock.user@example.com');
+        expect(jwksFetches()).toBe(2);
+      });
+    });
+
+    it('should fail when the provider rejects the code', async () => {
+      const provider = createProvider();
+      const code = await authorize(provider);
+
+      await expect(
+        provider.exchangeCode({ code, codeVerifier: 'wrong-verifier', nonce: 'nonce-1', redirectUri })
+      ).rejects.toThrow('Token request failed: invalid_grant');
+    });
+
+    it('should reject an ID token from another issuer', async () => {
+      const provider = new OidcProvider({
+        name: 'acme',
+        issuer: 'https://other.example.com',
+        clientId: server.clientId,
+        authorizationEndpoint: `${issuer}/authorize`,
+        tokenEndpoint: `${issuer}/token`,
+        jwksUri: `${issuer}/jwks`,
+      });
+      const code = await authorize(provider);
+
+      await expect(provider.exchangeCode({ code, codeVerifier, nonce: 'nonce-1', redirectUri })).rejects.toThrow(
+        /issuer invalid/
+      );
+    });
+  });
+
+  describe('getOAuthProvider', () => {
+    const originalProviders = oauthConfig.providers;
+
+    afterEach(() => {
+      oauthConfig.providers = originalProviders;
+      unregisterOAuthProvider('custom');
+    });
+
+    it('should return undefined for unknown providers', () => {
+      expect(getOAuthProvider('nope')).toBeUndefined();
+    });
+
+    it('should create an OIDC provider from configuration', () => {
+      oauthConfig.providers = [{ name: 'corp', issuer: 'https://corp.example.com', clientId: 'app' }];
+
+      const provider = getOAuthProvider('corp');
+
+      expect(provider).toBeInstanceOf(OidcProvider);
+      expect(getOAuthProvider('corp')).toBe(provider);
+    });
+
+    it('should prefer providers registered in code', () => {
+      const custom: OAuthProvider = {
+        name: 'custom',
+        getAuthorizationUrl: vi.fn(),
+        exchangeCode: vi.fn(),
+      };
+
+      registerOAuthProvider(custom);
+
+      expect(getOAuthProvider('custom')).toBe(custom);
+    });
+  });
+});
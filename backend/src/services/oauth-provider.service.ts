@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcProviderConfig, oauthConfig } from '../config/oauth.config';
+
+/**
+ * The user as reported by an identity provider
+ */
+export interface OAuthProfile {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+export interface AuthorizationUrlParams {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export interface CodeExchangeParams {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+/**
+ * An identity provider supporting the authorization-code flow with PKCE
+ * Implement this to plug in providers that do not speak OpenID Connect.
+ */
+export interface OAuthProvider {
+  readonly name: string;
+  getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string>;
+  // Throws if the code is rejected or the provider's answer cannot be trusted
+  exchangeCode(params: CodeExchangeParams): Promise<OAuthProfile>;
+}
+
+export interface IdTokenExpectations {
+  issuer: string;
+  audience: string;
+  nonce: string;
+  resolveKey(kid: string | undefined): Promise<crypto.KeyObject | undefined>;
+}
+
+/**
+ * Verifies an OpenID Connect ID token and extracts the user's profile
+ */
+export const verifyIdToken = async (idToken: string, expected: IdTokenExpectations): Promise<OAuthProfile> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Malformed ID token');
+  }
+
+  const key = await expected.resolveKey(decoded.header.kid);
+  if (!key) {
+    throw new Error('ID token was signed with an unknown key');
+  }
+
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'ES256'],
+    issuer: expected.issuer,
+    audience: expected.audience,
+  }) as jwt.JwtPayload;
+
+  if (claims.nonce !== expected.nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    emailVerified: claims.email_verified === true,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+  };
+};
+
+export interface JsonWebKeySet {
+  keys: (crypto.webcrypto.JsonWebKey & { kid?: string })[];
+}
+
+interface OidcMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/**
+ * Generic OpenID Connect provider configured from OAUTH_PROVIDERS
+ */
+export class OidcProvider implements OAuthProvider {
+  readonly name: string;
+  private config: OidcProviderConfig;
+  private metadata: OidcMetadata | null = null;
+  private keys: JsonWebKeySet | null = null;
+  private keysFetchedAt = 0;
+
+  constructor(config: OidcProviderConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string> {
+    const metadata = await this.getMetadata();
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: params.redirectUri,
+      scope: (this.config.scopes || ['openid', 'email', 'profile']).join(' '),
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  async exchangeCode(params: CodeExchangeParams): Promise<OAuthProfile> {
+    const metadata = await this.getMetadata();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: params.codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    });
+    const tokens = (await response.json()) as { id_token?: string; error?: string };
+    if (!response.ok || !tokens.id_token) {
+      throw new Error(`Token request failed: ${tokens.error || response.status}`);
+    }
+
+    return verifyIdToken(tokens.id_token, {
+      issuer: this.config.issuer,
+      audience: this.config.clientId,
+      nonce: params.nonce,
+      resolveKey: kid => this.resolveKey(kid),
+    });
+  }
+
+  private async getMetadata(): Promise<OidcMetadata> {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    const { authorizationEndpoint, tokenEndpoint, jwksUri } = this.config;
+    if (authorizationEndpoint && tokenEndpoint && jwksUri) {
+      this.metadata = { authorization_endpoint: authorizationEndpoint, token_endpoint: tokenEndpoint, jwks_uri: jwksUri };
+      return this.metadata;
+    }
+
+    const response = await fetch(`${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`Could not load discovery document for ${this.name}`);
+    }
+    const discovered = (await response.json()) as OidcMetadata;
+    this.metadata = {
+      authorization_endpoint: authorizationEndpoint || discovered.authorization_endpoint,
+      token_endpoint: tokenEndpoint || discovered.token_endpoint,
+      jwks_uri: jwksUri || discovered.jwks_uri,
+    };
+    return this.metadata;
+  }
+
+  // Providers rotate signing keys, so an unknown kid triggers a refetch of the key set,
+  // though at most once per cooldown so tokens with made-up kids cannot flood the provider
+  private async resolveKey(kid: string | undefined): Promise<crypto.KeyObject | undefined> {
+    const find = () => this.keys?.keys.find(key => !kid || key.kid === kid);
+
+    if (!find() && Date.now() - this.keysFetchedAt >= oauthConfig.jwksRefetchCooldownMs) {
+      this.keysFetchedAt = Date.now();
+      const metadata = await this.getMetadata();
+      const response = await fetch(metadata.jwks_uri);
+      if (!response.ok) {
+        throw new Error(`Could not load signing keys for ${this.name}`);
+      }
+      this.keys = (await response.json()) as JsonWebKeySet;
+    }
+
+    const jwk = find();
+    return jwk ? crypto.createPublicKey({ key: jwk, format: 'jwk' }) : undefined;
+  }
+}
+
+const customProviders = new Map<string, OAuthProvider>();
+const configuredProviders = new Map<string, OAuthProvider>();
+
+/**
+ * Looks up a provider by name, either registered in code or configured through OAUTH_PROVIDERS
+ */
+export function getOAuthProvider(name: string): OAuthProvider | undefined {
+  const custom = customProviders.get(name);
+  if (custom) {
+    return custom;
+  }
+
+  if (!configuredProviders.has(name)) {
+    const config = oauthConfig.providers.find(provider => provider.name === name);
+    if (!config) {
+      return undefined;
+    }
+    configuredProviders.set(name, new OidcProvider(config));
+  }
+  return configuredProviders.get(name);
+}
+
+export function registerOAuthProvider(provider: OAuthProvider): void {
+  customProviders.set(provider.name, provider);
+}
+
+export function unregisterOAuthProvider(name: string): void {
+  customProviders.delete(name);
+}
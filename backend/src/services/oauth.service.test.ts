@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { startOAuthLogin, completeOAuthLogin, issueOAuthLoginCode, consumeOAuthLoginCode } from './oauth.service';
+import { registerOAuthProvider, unregisterOAuthProvider } from './oauth-provider.service';
+import { MockOidcServer, MockOidcProvider, MOCK_PROVIDER_NAME } from './mock-oidc.service';
+import { sendVerificationEmail } from './email-verification.service';
+import { issueAuthTokens } from './token.service';
+import { issuePersonalAccessToken } from './personal-access-token.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { authConfig } from '../config/auth.config';
+
+vi.mock('./email-verification.service');
+
+describe('OAuth Service', () => {
+  let server: MockOidcServer;
+
+  // Plays the user's browser: starts the login, signs in at the mock provider and returns the callback parameters
+  const signInAtProvider = async (loginHint: string, emailVerified = true) => {
+    const started = await startOAuthLogin(MOCK_PROVIDER_NAME);
+    if (started.status !== 'ok') {
+      throw new Error('start failed');
+    }
+    const query = Object.fromEntries(new URL(started.authorizationUrl).searchParams);
+    const result = server.authorize({ ...query, login_hint: loginHint, email_verified: String(emailVerified) });
+    if (result.status !== 'ok') {
+      throw new Error(result.error);
+    }
+    const callback = new URL(result.redirectUrl).searchParams;
+    return { code: callback.get('code')!, state: callback.get('state')! };
+  };
+
+  const loginAs = async (loginHint: string, emailVerified = true) => {
+    const { code, state } = await signInAtProvider(loginHint, emailVerified);
+    return completeOAuthLogin(MOCK_PROVIDER_NAME, code, state);
+  };
+
+  beforeAll(() => {
+    server = new MockOidcServer();
+    registerOAuthProvider(new MockOidcProvider(server));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setupTestDatabase();
+    clearTestDatabase();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    unregisterOAuthProvider(MOCK_PROVIDER_NAME);
+    teardownTestDatabase();
+  });
+
+  describe('startOAuthLogin', () => {
+    it('should report unknown providers', async () => {
+      expect(await startOAuthLogin('nope')).toEqual({ status: 'unknown_provider' });
+    });
+
+    it('should send a PKCE challenge, never the verifier', async () => {
+      const result = await startOAuthLogin(MOCK_PROVIDER_NAME);
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        const params = new URL(result.authorizationUrl).searchParams;
+        expect(params.get('code_challenge_method')).toBe('S256');
+        expect(params.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(params.get('redirect_uri')).toBe('http://localhost:3000/api/auth/oauth/mock/callback');
+        expect(result.authorizationUrl).not.toContain('code_verifier');
+        expect(params.get('state')).toBe(result.state);
+      }
+    });
+  });
+
+  describe('completeOAuthLogin', () => {
+    it('should create a user on first sign-in', async () => {
+      const result = await loginAs('new.person@example.com');
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.created).toBe(true);
+        expect(result.user.email).toBe('new.person@example.com');
+        expect(result.user.name).toBe('new.person');
+        expect(result.user.emailVerified).toBe(true);
+      }
+      expect(sendVerificationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should return the same user on later sign-ins', async () => {
+      const first = await loginAs('repeat@example.com');
+      const second = await loginAs('repeat@example.com');
+
+      if (first.status !== 'ok' || second.status !== 'ok') {
+        throw new Error('login failed');
+      }
+      expect(second.created).toBe(false);
+      expect(second.user.id).toBe(first.user.id);
+      expect(db.readUsers()).toHaveLength(1);
+    });
+
+    it('should link an existing account when the provider verified the email', async () => {
+      const existing = db.createUser(createTestUserData({ email: 'existing@example.com', emailVerified: true }));
+
+      const result = await loginAs('existing@example.com');
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.created).toBe(false);
+        expect(result.user.id).toBe(existing.id);
+        expect(result.user.password).toBe(existing.password);
+      }
+    });
+
+    it('should lock out whoever registered an unverified account before linking it', async () => {
+      const existing = db.createUser(createTestUserData({
+        email: 'existing@example.com',
+        emailVerified: false,
+        twoFactorEnabled: true,
+        twoFactorSecret: 'SECRET',
+      }));
+      issueAuthTokens(existing.id, { userAgent: 'vitest', ip: '127.0.0.1' });
+      issuePersonalAccessToken(existing.id, { name: 'CI', scopes: ['profile:read'] });
+      db.createPasskey({
+        userId: existing.id,
+        credentialId: 'credential-1',
+        publicKey: { kty: 'EC' },
+        algorithm: -7,
+        signCount: 0,
+        name: 'Attacker key',
+      });
+
+      const result = await loginAs('existing@example.com');
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.user.id).toBe(existing.id);
+        expect(result.user.emailVerified).toBe(true);
+        expect(result.user.password).not.toBe(existing.password);
+        expect(result.user.twoFactorEnabled).toBe(false);
+      }
+      expect(db.findSessionsByUserId(existing.id)).toHaveLength(0);
+      expect(db.findPersonalAccessTokensByUserId(existing.id)).toHaveLength(0);
+      expect(db.findPasskeysByUserId(existing.id)).toHaveLength(0);
+    });
+
+    it('should not link an existing account when the provider did not verify the email', async () => {
+      db.createUser(createTestUserData({ email: 'victim@example.com' }));
+
+      const result = await loginAs('victim@example.com', false);
+
+      expect(result).toEqual({
+        status: 'error',
+        error: 'An account with this email already exists, sign in with your password to continue',
+      });
+    });
+
+    it('should ask new users with an unverified email to verify it', async () => {
+      const result = await loginAs('unverified@example.com', false);
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.user.emailVerified).toBe(false);
+        expect(sendVerificationEmail).toHaveBeenCalledWith(result.user);
+      }
+    });
+
+    it('should only sign in existing accounts unless registration is open', async () => {
+      const existing = db.createUser(createTestUserData({ email: 'member@example.com', emailVerified: true }));
+      authConfig.registrationMode = 'invite_only';
+
+      try {
+        const member = await loginAs('member@example.com');
+        const stranger = await loginAs('stranger@example.com');
+
+        expect(member.status === 'ok' && member.user.id).toBe(existing.id);
+        expect(stranger).toEqual({
+          status: 'error',
+          error: 'There is no account for this email address and new accounts cannot be created through social login',
+        });
+        expect(db.readUsers()).toHaveLength(1);
+      } finally {
+        authConfig.registrationMode = 'open';
+      }
+    });
+
+    it('should only accept a state once', async () => {
+      const { code, state } = await signInAtProvider('once@example.com');
+
+      expect((await completeOAuthLogin(MOCK_PROVIDER_NAME, code, state)).status).toBe('ok');
+      expect(await completeOAuthLogin(MOCK_PROVIDER_NAME, code, state)).toEqual({
+        status: 'error',
+        error: 'Sign-in request is invalid or has expired, please try again',
+      });
+    });
+
+    it('should reject an expired state', async () => {
+      const { code, state } = await signInAtProvider('slow@example.com');
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+      const result = await completeOAuthLogin(MOCK_PROVIDER_NAME, code, state);
+
+      expect(result.status).toBe('error');
+    });
+
+    it('should fail when the provider rejects the code', async () => {
+      const { state } = await signInAtProvider('forged@example.com');
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await completeOAuthLogin(MOCK_PROVIDER_NAME, 'forged-code', state);
+
+      expect(result).toEqual({ status: 'error', error: 'Could not complete sign-in with the identity provider' });
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('login codes', () => {
+    it('should redeem a code once', () => {
+      const user = db.createUser(createTestUserData());
+      const code = issueOAuthLoginCode(user);
+
+      expect(consumeOAuthLoginCode(code)?.id).toBe(user.id);
+      expect(consumeOAuthLoginCode(code)).toBeNull();
+    });
+
+    it('should reject an expired code', () => {
+      const user = db.createUser(createTestUserData());
+      const code = issueOAuthLoginCode(user);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+      expect(consumeOAuthLoginCode(code)).toBeNull();
+    });
+  });
+});
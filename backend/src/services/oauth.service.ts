@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+import { oauthConfig } from '../config/oauth.config';
+import {
+  createOAuthState,
+  consumeOAuthState,
+  pruneOAuthStates,
+  createOAuthIdentity,
+  findOAuthIdentity,
+  updateOAuthIdentity,
+  findUserByEmail,
+  findUserById,
+  createUser,
+  updateUser,
+  findPasskeysByUserId,
+  deletePasskey,
+} from '../database/db';
+import { User } from '../types/user.types';
+import { generateToken } from '../utils/crypto';
+import { isValidEmail, sanitizeEmail, sanitizeName } from '../utils/validation';
+import { sendVerificationEmail } from './email-verification.service';
+import { endOtherSessions } from './session.service';
+import { revokeAllPersonalAccessTokens } from './personal-access-token.service';
+import { disableTwoFactor } from './two-factor.service';
+import { OAuthProfile, OAuthProvider, getOAuthProvider } from './oauth-provider.service';
+import { hashPassword } from './password-hasher.service';
+import { issueActionToken, consumeActionToken } from './action-token.service';
+
+export type OAuthStartResult = { status: 'ok'; authorizationUrl: string; state: string } | { status: 'unknown_provider' };
+
+export type OAuthLoginResult =
+  | { status: 'ok'; user: User; created: boolean }
+  | { status: 'unknown_provider' }
+  | { status: 'error'; error: string };
+
+const fail = (error: string): { status: 'error'; error: string } => ({ status: 'error', error });
+
+export const getOAuthRedirectUri = (provider: OAuthProvider): string => {
+  return `${oauthConfig.apiUrl}/api/auth/oauth/${encodeURIComponent(provider.name)}/callback`;
+};
+
+/**
+ * Starts an authorization-code login with PKCE
+ * Returns the provider URL to send the user to, and the state the browser must present on its way back.
+ */
+export const startOAuthLogin = async (providerName: string): Promise<OAuthStartResult> => {
+  const provider = getOAuthProvider(providerName);
+  if (!provider) {
+    return { status: 'unknown_provider' };
+  }
+
+  pruneOAuthStates();
+
+  const state = generateToken();
+  const nonce = generateToken();
+  const codeVerifier = generateToken();
+
+  createOAuthState({
+    state,
+    provider: provider.name,
+    codeVerifier,
+    nonce,
+    expiresAt: new Date(Date.now() + oauthConfig.stateTtlMs).toISOString(),
+  });
+
+  const authorizationUrl = await provider.getAuthorizationUrl({
+    state,
+    nonce,
+    codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+    redirectUri: getOAuthRedirectUri(provider),
+  });
+
+  return { status: 'ok', authorizationUrl, state };
+};
+
+/**
+ * Hands an account that was registered with this address, but never verified, to the address's owner
+ * Whoever registered it may not own the address, so every way they could still sign in is removed.
+ */
+const claimUnverifiedAccount = async (user: User): Promise<User> => {
+  endOtherSessions(user.id);
+  revokeAllPersonalAccessTokens(user.id);
+  findPasskeysByUserId(user.id).forEach(passkey => deletePasskey(passkey.id));
+  disableTwoFactor(user.id);
+
+  // As for accounts created here, password reset lets the owner set a password
+  const claimed = updateUser(user.id, {
+    password: await hashPassword(generateToken()),
+    emailVerified: true,
+    emailVerifiedAt: new Date().toISOString(),
+  });
+  return claimed || user;
+};
+
+/**
+ * Finds the user for a provider account, linking or creating one on first sign-in
+ * An existing account is only linked when the provider vouches for the email address,
+ * otherwise anyone could take it over by registering that address at their provider.
+ */
+const resolveUser = async (providerName: string, profile: OAuthProfile): Promise<OAuthLoginResult> => {
+  const email = profile.email && isValidEmail(profile.email) ? sanitizeEmail(profile.email) : undefined;
+  const identity = findOAuthIdentity(providerName, profile.subject);
+
+  if (identity) {
+    const user = findUserById(identity.userId);
+    if (!user) {
+      return fail('The linked account no longer exists');
+    }
+    updateOAuthIdentity(identity.id, { email, lastUsedAt: new Date().toISOString() });
+    return { status: 'ok', user, created: false };
+  }
+
+  if (!email) {
+    return fail('The identity provider did not share an email address');
+  }
+
+  const existingUser = findUserByEmail(email);
+  if (existingUser) {
+    if (!profile.emailVerified) {
+      return fail('An account with this email already exists, sign in with your password to continue');
+    }
+
+    const user = existingUser.emailVerified ? existingUser : await claimUnverifiedAccount(existingUser);
+    createOAuthIdentity({ userId: user.id, provider: providerName, subject: profile.subject, email, lastUsedAt: new Date().toISOString() });
+    return { status: 'ok', user, created: false };
+  }
+
+  // Providers cannot pass on an invitation code, so accounts are only created here while registration is open
+  if (authConfig.registrationMode !== 'open') {
+    return fail('There is no account for this email address and new accounts cannot be created through social login');
+  }
+
+  // Accounts created through a provider get a random password; password reset lets the owner set one
+  const user = createUser({
+    email,
+    password: await hashPassword(generateToken()),
+    name: sanitizeName(profile.name || email.split('@')[0]),
+    emailVerified: profile.emailVerified,
+    emailVerifiedAt: profile.emailVerified ? new Date().toISOString() : undefined,
+  });
+  createOAuthIdentity({ userId: user.id, provider: providerName, subject: profile.subject, email, lastUsedAt: new Date().toISOString() });
+
+  if (!profile.emailVerified) {
+    sendVerificationEmail(user);
+  }
+
+  return { status: 'ok', user, created: true };
+};
+
+/**
+ * Finishes a login when the provider redirects back with an authorization code
+ */
+export const completeOAuthLogin = async (providerName: string, code: string, state: string): Promise<OAuthLoginResult> => {
+  const provider = getOAuthProvider(providerName);
+  if (!provider) {
+    return { status: 'unknown_provider' };
+  }
+
+  // The state is used up even if it belongs to another provider, so it cannot be replayed
+  const pending = consumeOAuthState(state);
+  if (!pending || pending.provider !== provider.name || new Date(pending.expiresAt).getTime() <= Date.now()) {
+    return fail('Sign-in request is invalid or has expired, please try again');
+  }
+
+  let profile: OAuthProfile;
+  try {
+    profile = await provider.exchangeCode({
+      code,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+      redirectUri: getOAuthRedirectUri(provider),
+    });
+  } catch (error) {
+    console.error(`OAuth code exchange with ${provider.name} failed:`, error);
+    return fail('Could not complete sign-in with the identity provider');
+  }
+
+  return resolveUser(provider.name, profile);
+};
+
+/**
+ * Issues the one-time code the frontend exchanges for a session once the provider has vouched for the user
+ */
+export const issueOAuthLoginCode = (user: User): string => {
+  return issueActionToken(user.id, 'oauth_login', oauthConfig.loginCodeTtlMs);
+};
+
+/**
+ * Redeems a code from issueOAuthLoginCode
+ * Returns null if the code is invalid, expired or already used.
+ */
+export const consumeOAuthLoginCode = (code: string): User | null => {
+  const record = consumeActionToken(code, 'oauth_login');
+  return (record && findUserById(record.userId)) || null;
+};
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  generatePasskeyRegistrationOptions,
+  verifyPasskeyRegistration,
+  generatePasskeyLoginOptions,
+  verifyPasskeyLogin,
+} from './passkey.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { SoftwareAuthenticator } from '../test/webauthn-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Passkey Service', () => {
+  let user: User;
+
+  const register = (authenticator: SoftwareAuthenticator, name?: string) => {
+    const options = generatePasskeyRegistrationOptions(user);
+    return verifyPasskeyRegistration(user, authenticator.createCredential(options), name);
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    user = db.createUser(createTestUserData({ email: 'passkey@example.com' }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('registration', () => {
+    it('should return creation options for the user', () => {
+      const options = generatePasskeyRegistrationOptions(user);
+
+      expect(options.rp.id).toBe(authConfig.webauthnRpId);
+      expect(options.user.name).toBe('passkey@example.com');
+      expect(options.challenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(options.excludeCredentials).toEqual([]);
+    });
+
+    it('should store an ES256 passkey', () => {
+      const authenticator = new SoftwareAuthenticator();
+
+      const result = register(authenticator, 'Laptop');
+
+      expect(result.status).toBe('ok');
+      const [stored] = db.findPasskeysByUserId(user.id);
+      expect(stored.credentialId).toBe(authenticator.id);
+      expect(stored.name).toBe('Laptop');
+      expect(stored.publicKey.kty).toBe('EC');
+    });
+
+    it('should store an EdDSA passkey', () => {
+      expect(register(new SoftwareAuthenticator({ algorithm: 'EdDSA' })).status).toBe('ok');
+      expect(db.findPasskeysByUserId(user.id)[0].publicKey.kty).toBe('OKP');
+    });
+
+    it('should exclude already registered passkeys', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+
+      const options = generatePasskeyRegistrationOptions(user);
+
+      expect(options.excludeCredentials.map(entry => entry.id)).toEqual([authenticator.id]);
+    });
+
+    it('should reject registering the same credential twice', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+
+      expect(register(authenticator)).toEqual({ status: 'error', error: 'Passkey is already registered' });
+    });
+
+    it('should reject a challenge issued to another user', () => {
+      const other = db.createUser(createTestUserData({ email: 'other@example.com' }));
+      const options = generatePasskeyRegistrationOptions(other);
+      const credential = new SoftwareAuthenticator().createCredential(options);
+
+      expect(verifyPasskeyRegistration(user, credential).status).toBe('error');
+    });
+
+    it('should reject responses from an unexpected origin', () => {
+      const options = generatePasskeyRegistrationOptions(user);
+      const credential = new SoftwareAuthenticator({ origin: 'https://evil.example' }).createCredential(options);
+
+      expect(verifyPasskeyRegistration(user, credential)).toEqual({ status: 'error', error: 'Unexpected origin' });
+    });
+
+    it('should reject an expired challenge', () => {
+      vi.useFakeTimers();
+      const options = generatePasskeyRegistrationOptions(user);
+      vi.advanceTimersByTime(authConfig.webauthnChallengeTtlMs + 1000);
+
+      const result = verifyPasskeyRegistration(user, new SoftwareAuthenticator().createCredential(options));
+
+      expect(result).toEqual({ status: 'error', error: 'Challenge is invalid or has expired' });
+    });
+
+    it('should reject malformed credentials', () => {
+      const result = verifyPasskeyRegistration(user, {
+        id: 'x',
+        rawId: 'x',
+        type: 'public-key',
+        response: { clientDataJSON: 'not-json', attestationObject: 'AA' },
+      });
+
+      expect(result).toEqual({ status: 'error', error: 'Malformed credential' });
+    });
+  });
+
+  describe('authentication', () => {
+    it('should sign in with a registered passkey', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+
+      const result = verifyPasskeyLogin(authenticator.getAssertion(generatePasskeyLoginOptions()));
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.user.id).toBe(user.id);
+        expect(result.passkey.lastUsedAt).toBeDefined();
+        expect(result.userVerified).toBe(true);
+      }
+    });
+
+    it('should report when the authenticator only checked user presence', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+
+      const result = verifyPasskeyLogin(authenticator.getAssertion({ ...generatePasskeyLoginOptions(), userVerified: false }));
+
+      expect(result.status).toBe('ok');
+      if (result.status === 'ok') {
+        expect(result.userVerified).toBe(false);
+      }
+    });
+
+    it('should sign in with an EdDSA passkey without a counter', () => {
+      const authenticator = new SoftwareAuthenticator({ algorithm: 'EdDSA', useCounter: false });
+      register(authenticator);
+
+      expect(verifyPasskeyLogin(authenticator.getAssertion(generatePasskeyLoginOptions())).status).toBe('ok');
+      expect(verifyPasskeyLogin(authenticator.getAssertion(generatePasskeyLoginOptions())).status).toBe('ok');
+    });
+
+    it('should not accept the same challenge twice', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+      const options = generatePasskeyLoginOptions();
+
+      expect(verifyPasskeyLogin(authenticator.getAssertion(options)).status).toBe('ok');
+      expect(verifyPasskeyLogin(authenticator.getAssertion(options))).toEqual({
+        status: 'error',
+        error: 'Challenge is invalid or has expired',
+      });
+    });
+
+    it('should reject a registration challenge', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+      const { challenge } = generatePasskeyRegistrationOptions(user);
+
+      const result = verifyPasskeyLogin(authenticator.getAssertion({ challenge, rpId: authConfig.webauthnRpId }));
+
+      expect(result.status).toBe('error');
+    });
+
+    it('should reject unknown passkeys', () => {
+      const result = verifyPasskeyLogin(new SoftwareAuthenticator().getAssertion(generatePasskeyLoginOptions()));
+
+      expect(result).toEqual({ status: 'error', error: 'Unknown passkey' });
+    });
+
+    it('should reject a tampered signature', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+      const credential = authenticator.getAssertion(generatePasskeyLoginOptions());
+      const signature = Buffer.from(credential.response.signature, 'base64url');
+      signature[signature.length - 1] ^= 0xff;
+      credential.response.signature = signature.toString('base64url');
+
+      expect(verifyPasskeyLogin(credential)).toEqual({ status: 'error', error: 'Invalid signature' });
+    });
+
+    it('should reject an assertion for another relying party', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+      const { challenge } = generatePasskeyLoginOptions();
+
+      const result = verifyPasskeyLogin(authenticator.getAssertion({ challenge, rpId: 'evil.example' }));
+
+      expect(result).toEqual({ status: 'error', error: 'Unexpected relying party' });
+    });
+
+    it('should reject a counter that goes backwards', () => {
+      const authenticator = new SoftwareAuthenticator();
+      register(authenticator);
+      const [passkey] = db.findPasskeysByUserId(user.id);
+      db.updatePasskey(passkey.id, { signCount: 100 });
+
+      const result = verifyPasskeyLogin(authenticator.getAssertion(generatePasskeyLoginOptions()));
+
+      expect(result).toEqual({ status: 'error', error: 'Passkey counter did not increase' });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+import {
+  createPasskey,
+  findPasskeyByCredentialId,
+  findPasskeysByUserId,
+  updatePasskey,
+  findUserById,
+  createWebAuthnChallenge,
+  consumeWebAuthnChallenge,
+  pruneWebAuthnChallenges,
+} from '../database/db';
+import {
+  AuthenticationCredentialJSON,
+  PasskeyCredential,
+  RegistrationCredentialJSON,
+  WebAuthnCeremony,
+  WebAuthnChallenge,
+} from '../types/auth.types';
+import { User } from '../types/user.types';
+import { generateToken } from '../utils/crypto';
+import { decodeCbor } from '../utils/cbor';
+import {
+  COSE_ALGORITHMS,
+  ClientData,
+  coseKeyToJwk,
+  parseAuthenticatorData,
+  parseClientData,
+  verifyWebAuthnSignature,
+} from '../utils/webauthn';
+
+export type PasskeyRegistrationResult =
+  | { status: 'ok'; passkey: PasskeyCredential }
+  | { status: 'error'; error: string };
+
+export type PasskeyLoginResult =
+  | { status: 'ok'; user: User; passkey: PasskeyCredential; userVerified: boolean }
+  | { status: 'error'; error: string };
+
+const fail = (error: string): { status: 'error'; error: string } => ({ status: 'error', error });
+
+const sha256 = (data: Buffer | string): Buffer => crypto.createHash('sha256').update(data).digest();
+
+const issueChallenge = (ceremony: WebAuthnCeremony, userId?: string): string => {
+  pruneWebAuthnChallenges();
+
+  const challenge = generateToken();
+  createWebAuthnChallenge({
+    challenge,
+    ceremony,
+    userId,
+    expiresAt: new Date(Date.now() + authConfig.webauthnChallengeTtlMs).toISOString(),
+  });
+  return challenge;
+};
+
+/**
+ * Checks the parts of clientDataJSON common to both ceremonies and uses up the challenge
+ * Returns an error message, or the consumed challenge.
+ */
+const checkClientData = (
+  clientData: ClientData,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  ceremony: WebAuthnCeremony
+): WebAuthnChallenge | string => {
+  if (clientData.type !== expectedType) {
+    return 'Unexpected client data type';
+  }
+
+  const challenge = consumeWebAuthnChallenge(clientData.challenge);
+  if (!challenge || challenge.ceremony !== ceremony || new Date(challenge.expiresAt).getTime() <= Date.now()) {
+    return 'Challenge is invalid or has expired';
+  }
+
+  if (!authConfig.webauthnOrigins.includes(clientData.origin)) {
+    return 'Unexpected origin';
+  }
+
+  return challenge;
+};
+
+/**
+ * Builds the options for navigator.credentials.create()
+ * Existing passkeys are excluded so the same authenticator is not registered twice.
+ */
+export const generatePasskeyRegistrationOptions = (user: User) => {
+  return {
+    challenge: issueChallenge('registration', user.id),
+    rp: {
+      id: authConfig.webauthnRpId,
+      name: authConfig.webauthnRpName,
+    },
+    user: {
+      id: Buffer.from(user.id).toString('base64url'),
+      name: user.email,
+      displayName: user.name,
+    },
+    pubKeyCredParams: [COSE_ALGORITHMS.ES256, COSE_ALGORITHMS.EdDSA, COSE_ALGORITHMS.RS256].map(alg => ({
+      type: 'public-key',
+      alg,
+    })),
+    timeout: authConfig.webauthnChallengeTtlMs,
+    attestation: 'none',
+    excludeCredentials: findPasskeysByUserId(user.id).map(passkey => ({
+      type: 'public-key',
+      id: passkey.credentialId,
+      transports: passkey.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'preferred',
+    },
+  };
+};
+
+/**
+ * Verifies the response to a registration ceremony and stores the new passkey
+ * Attestation statements are not checked: we ask for "none" and trust the authenticator's key.
+ */
+export const verifyPasskeyRegistration = (
+  user: User,
+  credential: RegistrationCredentialJSON,
+  name?: string
+): PasskeyRegistrationResult => {
+  if (!credential?.response?.clientDataJSON || !credential.response.attestationObject) {
+    return fail('Malformed credential');
+  }
+
+  try {
+    const clientData = parseClientData(credential.response.clientDataJSON);
+    const challenge = checkClientData(clientData, 'webauthn.create', 'registration');
+    if (typeof challenge === 'string') {
+      return fail(challenge);
+    }
+    if (challenge.userId !== user.id) {
+      return fail('Challenge is invalid or has expired');
+    }
+
+    const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url'));
+    const authData = attestation instanceof Map ? attestation.get('authData') : undefined;
+    if (!Buffer.isBuffer(authData)) {
+      return fail('Malformed credential');
+    }
+
+    const parsed = parseAuthenticatorData(authData);
+    if (!parsed.rpIdHash.equals(sha256(authConfig.webauthnRpId))) {
+      return fail('Unexpected relying party');
+    }
+    if (!parsed.userPresent) {
+      return fail('User presence is required');
+    }
+    if (!parsed.attestedCredential) {
+      return fail('Malformed credential');
+    }
+
+    const credentialId = parsed.attestedCredential.credentialId.toString('base64url');
+    if (findPasskeyByCredentialId(credentialId)) {
+      return fail('Passkey is already registered');
+    }
+
+    let publicKey;
+    try {
+      publicKey = coseKeyToJwk(parsed.attestedCredential.publicKey);
+    } catch (error) {
+      return fail('Unsupported public key algorithm');
+    }
+
+    const existingCount = findPasskeysByUserId(user.id).length;
+    const passkey = createPasskey({
+      userId: user.id,
+      credentialId,
+      publicKey: publicKey.jwk,
+      algorithm: publicKey.algorithm,
+      signCount: parsed.signCount,
+      transports: Array.isArray(credential.response.transports) ? credential.response.transports : undefined,
+      name: name?.trim() || `Passkey ${existingCount + 1}`,
+    });
+
+    return { status: 'ok', passkey };
+  } catch (error) {
+    return fail('Malformed credential');
+  }
+};
+
+/**
+ * Builds the options for navigator.credentials.get()
+ * allowCredentials is empty so the browser offers any discoverable passkey for this site.
+ */
+export const generatePasskeyLoginOptions = () => {
+  return {
+    challenge: issueChallenge('authentication'),
+    rpId: authConfig.webauthnRpId,
+    timeout: authConfig.webauthnChallengeTtlMs,
+    userVerification: 'preferred',
+    allowCredentials: [],
+  };
+};
+
+/**
+ * Verifies the response to an authentication ceremony
+ * The signature covers authenticatorData followed by the SHA-256 of clientDataJSON.
+ */
+export const verifyPasskeyLogin = (credential: AuthenticationCredentialJSON): PasskeyLoginResult => {
+  const response = credential?.response;
+  if (!response?.clientDataJSON || !response.authenticatorData || !response.signature || !credential.id) {
+    return fail('Malformed credential');
+  }
+
+  try {
+    const clientData = parseClientData(response.clientDataJSON);
+    const challenge = checkClientData(clientData, 'webauthn.get', 'authentication');
+    if (typeof challenge === 'string') {
+      return fail(challenge);
+    }
+
+    const passkey = findPasskeyByCredentialId(credential.rawId || credential.id);
+    if (!passkey) {
+      return fail('Unknown passkey');
+    }
+
+    if (response.userHandle && response.userHandle !== Buffer.from(passkey.userId).toString('base64url')) {
+      return fail('Passkey does not belong to this user');
+    }
+
+    const authData = Buffer.from(response.authenticatorData, 'base64url');
+    const parsed = parseAuthenticatorData(authData);
+    if (!parsed.rpIdHash.equals(sha256(authConfig.webauthnRpId))) {
+      return fail('Unexpected relying party');
+    }
+    if (!parsed.userPresent) {
+      return fail('User presence is required');
+    }
+
+    const signedData = Buffer.concat([authData, sha256(Buffer.from(response.clientDataJSON, 'base64url'))]);
+    const signature = Buffer.from(response.signature, 'base64url');
+    if (!verifyWebAuthnSignature(passkey.publicKey, passkey.algorithm, signedData, signature)) {
+      return fail('Invalid signature');
+    }
+
+    // A counter that does not increase suggests a cloned authenticator; many passkeys always report 0
+    if ((parsed.signCount > 0 || passkey.signCount > 0) && parsed.signCount <= passkey.signCount) {
+      return fail('Passkey counter did not increase');
+    }
+
+    const user = findUserById(passkey.userId);
+    if (!user) {
+      return fail('Unknown passkey');
+    }
+
+    const updated = updatePasskey(passkey.id, {
+      signCount: parsed.signCount,
+      lastUsedAt: new Date().toISOString(),
+    });
+
+    // Without user verification the passkey only proves possession, a single factor
+    return { status: 'ok', user, passkey: updated || passkey, userVerified: parsed.userVerified };
+  } catch (error) {
+    return fail('Malformed credential');
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  findPasswordHasher,
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  rehashPasswordIfNeeded,
+} from './password-hasher.service';
+import { passwordHashConfig } from '../config/password-hash.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+
+describe('Password Hasher Service', () => {
+  const defaultConfig = { ...passwordHashConfig };
+
+  beforeEach(() => {
+    // Cheap settings keep the tests fast
+    passwordHashConfig.bcryptCost = 4;
+    passwordHashConfig.scryptCost = 10;
+  });
+
+  afterEach(() => {
+    Object.assign(passwordHashConfig, defaultConfig);
+  });
+
+  describe('bcrypt', () => {
+    it('should store the scheme and cost in the hash and verify it', async () => {
+      const hash = await hashPassword('quiet-harbor-42');
+
+      expect(hash).toMatch(/^\$2[aby]\$04\$/);
+      expect(findPasswordHasher(hash)?.scheme).toBe('bcrypt');
+      expect(await verifyPassword('quiet-harbor-42', hash)).toBe(true);
+      expect(await verifyPassword('wrong-harbor-42', hash)).toBe(false);
+    });
+  });
+
+  describe('scrypt', () => {
+    beforeEach(() => {
+      passwordHashConfig.scheme = 'scrypt';
+    });
+
+    it('should store the scheme and parameters in the hash and verify it', async () => {
+      const hash = await hashPassword('quiet-harbor-42');
+
+      expect(hash).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+      expect(findPasswordHasher(hash)?.scheme).toBe('scrypt');
+      expect(await verifyPassword('quiet-harbor-42', hash)).toBe(true);
+      expect(await verifyPassword('wrong-harbor-42', hash)).toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+      expect(await hashPassword('quiet-harbor-42')).not.toBe(await hashPassword('quiet-harbor-42'));
+    });
+
+    it('should verify hashes made with earlier parameters', async () => {
+      const hash = await hashPassword('quiet-harbor-42');
+      passwordHashConfig.scryptCost = 11;
+
+      expect(await verifyPassword('quiet-harbor-42', hash)).toBe(true);
+      expect(needsRehash(hash)).toBe(true);
+    });
+  });
+
+  describe('verifyPassword', () => {
+    it('should never match hashes of unknown schemes', async () => {
+      expect(await verifyPassword('quiet-harbor-42', 'quiet-harbor-42')).toBe(false);
+      expect(await verifyPassword('quiet-harbor-42', '$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA')).toBe(false);
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('should ask for a rehash when the cost or the preferred scheme changes', async () => {
+      const hash = await hashPassword('quiet-harbor-42');
+      expect(needsRehash(hash)).toBe(false);
+
+      passwordHashConfig.bcryptCost = 5;
+      expect(needsRehash(hash)).toBe(true);
+
+      passwordHashConfig.bcryptCost = 4;
+      passwordHashConfig.scheme = 'scrypt';
+      expect(needsRehash(hash)).toBe(true);
+    });
+  });
+
+  describe('rehashPasswordIfNeeded', () => {
+    beforeEach(() => {
+      setupTestDatabase();
+      clearTestDatabase();
+    });
+
+    afterAll(() => {
+      teardownTestDatabase();
+    });
+
+    it('should replace an outdated hash and leave a current one alone', async () => {
+      const user = db.createUser(createTestUserData({ password: await hashPassword('quiet-harbor-42') }));
+
+      await rehashPasswordIfNeeded(user, 'quiet-harbor-42');
+      expect(db.findUserById(user.id)?.password).toBe(user.password);
+
+      passwordHashConfig.scheme = 'scrypt';
+      await rehashPasswordIfNeeded(user, 'quiet-harbor-42');
+
+      const upgraded = db.findUserById(user.id)!.password;
+      expect(findPasswordHasher(upgraded)?.scheme).toBe('scrypt');
+      expect(await verifyPassword('quiet-harbor-42', upgraded)).toBe(true);
+    });
+  });
+});
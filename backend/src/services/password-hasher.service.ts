@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { passwordHashConfig } from '../config/password-hash.config';
+import { updateUser } from '../database/db';
+import { PasswordHashScheme } from '../types/auth.types';
+import { User } from '../types/user.types';
+
+/**
+ * A password hashing algorithm
+ * Hashes carry the scheme's identifier and the parameters they were made with,
+ * so they can still be verified after the preferred settings change.
+ */
+export interface PasswordHasher {
+  readonly scheme: PasswordHashScheme;
+  hash(password: string): Promise<string>;
+  verify(password: string, hash: string): Promise<boolean>;
+  // Whether this hasher made the hash
+  identifies(hash: string): boolean;
+  // Whether the hash was made with weaker or different settings than the current ones
+  isOutdated(hash: string): boolean;
+}
+
+// Modular crypt format: $2b$<cost>$<salt and hash>
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$(\d{2})\$/;
+
+const bcryptHasher: PasswordHasher = {
+  scheme: 'bcrypt',
+
+  hash: (password) => bcrypt.hash(password, passwordHashConfig.bcryptCost),
+
+  verify: (password, hash) => bcrypt.compare(password, hash),
+
+  identifies: (hash) => BCRYPT_HASH_PATTERN.test(hash),
+
+  isOutdated: (hash) => Number(hash.match(BCRYPT_HASH_PATTERN)?.[1]) !== passwordHashConfig.bcryptCost,
+};
+
+// PHC string format: $scrypt$ln=<log2 of cost>,r=<block size>,p=<parallelization>$<salt>$<key>
+const SCRYPT_HASH_PATTERN = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/;
+const SCRYPT_SALT_BYTES = 16;
+const SCRYPT_KEY_BYTES = 32;
+
+interface ScryptParams {
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+}
+
+const deriveScryptKey = (password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> => {
+  const options: crypto.ScryptOptions = {
+    N: 2 ** params.cost,
+    r: params.blockSize,
+    p: params.parallelization,
+    // Node refuses to use more than 32 MiB unless told otherwise, which the largest settings need
+    maxmem: 256 * 2 ** params.cost * params.blockSize,
+  };
+
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+};
+
+const encodeBase64 = (value: Buffer): string => value.toString('base64').replace(/=+$/, '');
+
+const currentScryptParams = (): ScryptParams => ({
+  cost: passwordHashConfig.scryptCost,
+  blockSize: passwordHashConfig.scryptBlockSize,
+  parallelization: passwordHashConfig.scryptParallelization,
+});
+
+const parseScryptHash = (hash: string): { params: ScryptParams; salt: Buffer; key: Buffer } | null => {
+  const match = hash.match(SCRYPT_HASH_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    params: { cost: Number(match[1]), blockSize: Number(match[2]), parallelization: Number(match[3]) },
+    salt: Buffer.from(match[4], 'base64'),
+    key: Buffer.from(match[5], 'base64'),
+  };
+};
+
+const scryptHasher: PasswordHasher = {
+  scheme: 'scrypt',
+
+  hash: async (password) => {
+    const params = currentScryptParams();
+    const salt = crypto.randomBytes(SCRYPT_SALT_BYTES);
+    const key = await deriveScryptKey(password, salt, params, SCRYPT_KEY_BYTES);
+
+    return `$scrypt$ln=${params.cost},r=${params.blockSize},p=${params.parallelization}$${encodeBase64(salt)}$${encodeBase64(key)}`;
+  },
+
+  verify: async (password, hash) => {
+    const parsed = parseScryptHash(hash);
+    if (!parsed) {
+      return false;
+    }
+
+    const key = await deriveScryptKey(password, parsed.salt, parsed.params, parsed.key.length);
+    return crypto.timingSafeEqual(key, parsed.key);
+  },
+
+  identifies: (hash) => SCRYPT_HASH_PATTERN.test(hash),
+
+  isOutdated: (hash) => {
+    const parsed = parseScryptHash(hash);
+    const current = currentScryptParams();
+
+    return !parsed
+      || parsed.params.cost !== current.cost
+      || parsed.params.blockSize !== current.blockSize
+      || parsed.params.parallelization !== current.parallelization;
+  },
+};
+
+const hashers: Record<PasswordHashScheme, PasswordHasher> = {
+  bcrypt: bcryptHasher,
+  scrypt: scryptHasher,
+};
+
+/**
+ * Returns the hasher that made a hash, or undefined if no known scheme did
+ */
+export const findPasswordHasher = (hash: string): PasswordHasher | undefined => {
+  return Object.values(hashers).find(hasher => hasher.identifies(hash));
+};
+
+/**
+ * Hashes a password with the preferred scheme and cost
+ */
+export const hashPassword = (password: string): Promise<string> => {
+  return hashers[passwordHashConfig.scheme].hash(password);
+};
+
+/**
+ * Checks a password against a hash made by any known scheme
+ * Hashes of unknown schemes never match.
+ */
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  const hasher = findPasswordHasher(hash);
+  return hasher ? hasher.verify(password, hash) : false;
+};
+
+/**
+ * Checks whether a hash should be replaced by one made with the preferred scheme and cost
+ */
+export const needsRehash = (hash: string): boolean => {
+  const hasher = findPasswordHasher(hash);
+  return !hasher || hasher.scheme !== passwordHashConfig.scheme || hasher.isOutdated(hash);
+};
+
+/**
+ * Re-hashes the user's password with the current settings if their hash is outdated
+ * Only call this with a password that has just been verified against the stored hash.
+ * Earlier passwords in the history keep their hashes, which verify just the same.
+ */
+export const rehashPasswordIfNeeded = async (user: User, password: string): Promise<void> => {
+  if (!needsRehash(user.password)) {
+    return;
+  }
+
+  updateUser(user.id, { password: await hashPassword(password) });
+};
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import bcrypt from 'bcryptjs';
+import {
+  getPasswordPolicyError,
+  getNewPasswordError,
+  isRecentPassword,
+  withPasswordHistory,
+} from './password-policy.service';
+import { BREACHED_PASSWORD_ERROR } from './breached-password.service';
+import { passwordPolicyConfig } from '../config/password-policy.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { PasswordPolicy } from '../types/auth.types';
+
+describe('Password Policy Service', () => {
+  const defaultPolicy: PasswordPolicy = { ...passwordPolicyConfig };
+
+  afterEach(() => {
+    Object.assign(passwordPolicyConfig, defaultPolicy);
+  });
+
+  describe('getPasswordPolicyError', () => {
+    it('should accept passwords that follow the default policy', () => {
+      const strong = ['Password123', 'Str0ng#P@ss', 'MyP@ssw0rd!', 'Complex123!@#', 'abc123XYZ'];
+
+      strong.forEach(password => {
+        expect(getPasswordPolicyError(password)).toBeNull();
+      });
+    });
+
+    it('should reject passwords that break the default policy', () => {
+      expect(getPasswordPolicyError('')).toBe('Password must be at least 8 characters long');
+      expect(getPasswordPolicyError('short')).toBe('Password must be at least 8 characters long');
+      expect(getPasswordPolicyError('12345678')).toBe('Password must contain at least one letter');
+      expect(getPasswordPolicyError('abcdefgh')).toBe('Password must contain at least one number');
+      expect(getPasswordPolicyError('a1'.repeat(37))).toBe('Password must be at most 72 characters long');
+    });
+
+    it('should reject values that are not strings', () => {
+      expect(getPasswordPolicyError(null as any)).not.toBeNull();
+      expect(getPasswordPolicyError(undefined as any)).not.toBeNull();
+      expect(getPasswordPolicyError(12345 as any)).not.toBeNull();
+    });
+
+    it('should require each configured character class', () => {
+      const policy: PasswordPolicy = {
+        ...defaultPolicy,
+        requiredCharacterClasses: ['lowercase', 'uppercase', 'digit', 'symbol'],
+      };
+
+      expect(getPasswordPolicyError('PASSWORD1!', {}, policy)).toBe('Password must contain at least one lowercase letter');
+      expect(getPasswordPolicyError('password1!', {}, policy)).toBe('Password must contain at least one uppercase letter');
+      expect(getPasswordPolicyError('Password1', {}, policy)).toBe('Password must contain at least one symbol');
+      expect(getPasswordPolicyError('Pässword1!', {}, policy)).toBeNull();
+    });
+
+    it('should reject passwords containing the name or email address', () => {
+      const owner = { email: 'jane.doe@example.com', name: 'Jane Smithson' };
+
+      expect(getPasswordPolicyError('smithson-99', owner)).toBe('Password must not contain your name or email address');
+      expect(getPasswordPolicyError('xJANE.DOE77', owner)).toBe('Password must not contain your name or email address');
+      expect(getPasswordPolicyError('quiet-harbor-42', owner)).toBeNull();
+    });
+
+    it('should ignore short name parts and allow turning the check off', () => {
+      expect(getPasswordPolicyError('bob-harbor-42', { name: 'Bob Li' })).toBeNull();
+      expect(getPasswordPolicyError('smithson-99', { name: 'Jane Smithson' }, {
+        ...defaultPolicy,
+        forbidPersonalInfo: false,
+      })).toBeNull();
+    });
+
+    it('should reject configured substrings regardless of case', () => {
+      const policy: PasswordPolicy = { ...defaultPolicy, forbiddenSubstrings: ['acme'] };
+
+      expect(getPasswordPolicyError('ACME-harbor-42', {}, policy)).toBe('Password must not contain "acme"');
+    });
+  });
+
+  describe('getNewPasswordError', () => {
+    it('should reject breached passwords that follow the policy', () => {
+      expect(getNewPasswordError('password123', {})).toBe(BREACHED_PASSWORD_ERROR);
+      expect(getNewPasswordError('quiet-harbor-42', {})).toBeNull();
+    });
+  });
+
+  describe('password history', () => {
+    beforeEach(() => {
+      setupTestDatabase();
+      clearTestDatabase();
+    });
+
+    afterAll(() => {
+      teardownTestDatabase();
+    });
+
+    const changePassword = async (userId: string, password: string) => {
+      const user = db.findUserById(userId)!;
+      db.updateUser(userId, withPasswordHistory(user, await bcrypt.hash(password, 4)));
+    };
+
+    it('should remember previous passwords up to the configured depth', async () => {
+      passwordPolicyConfig.historyDepth = 3;
+      const user = db.createUser(createTestUserData({ password: await bcrypt.hash('first-pass-1', 4) }));
+
+      await changePassword(user.id, 'second-pass-2');
+      await changePassword(user.id, 'third-pass-3');
+      await changePassword(user.id, 'fourth-pass-4');
+
+      const updated = db.findUserById(user.id)!;
+      expect(updated.passwordHistory).toHaveLength(2);
+      expect(await isRecentPassword(updated, 'fourth-pass-4')).toBe(true);
+      expect(await isRecentPassword(updated, 'second-pass-2')).toBe(true);
+      expect(await isRecentPassword(updated, 'first-pass-1')).toBe(false);
+    });
+
+    it('should keep no history when the depth is zero', async () => {
+      passwordPolicyConfig.historyDepth = 0;
+      const user = db.createUser(createTestUserData({ password: await bcrypt.hash('first-pass-1', 4) }));
+
+      await changePassword(user.id, 'second-pass-2');
+
+      const updated = db.findUserById(user.id)!;
+      expect(updated.passwordHistory).toEqual([]);
+      expect(await isRecentPassword(updated, 'second-pass-2')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { passwordPolicyConfig } from '../config/password-policy.config';
+import { PasswordCharacterClass, PasswordPolicy } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { BREACHED_PASSWORD_ERROR, isBreachedPassword } from './breached-password.service';
+import { verifyPassword } from './password-hasher.service';
+
+export const RECENT_PASSWORD_ERROR = 'This password was used recently, please choose a different one';
+
+// Shorter name parts and email prefixes are too likely to appear in unrelated passwords
+const MIN_PERSONAL_INFO_LENGTH = 4;
+
+const CHARACTER_CLASSES: Record<PasswordCharacterClass, { pattern: RegExp; label: string }> = {
+  lowercase: { pattern: /\p{Ll}/u, label: 'lowercase letter' },
+  uppercase: { pattern: /\p{Lu}/u, label: 'uppercase letter' },
+  letter: { pattern: /\p{L}/u, label: 'letter' },
+  digit: { pattern: /\p{Nd}/u, label: 'number' },
+  symbol: { pattern: /[^\p{L}\p{Nd}]/u, label: 'symbol' },
+};
+
+/**
+ * Who the password is for, so it can be checked for personal information
+ */
+export interface PasswordOwner {
+  email?: string;
+  name?: string;
+}
+
+const getPersonalInfo = ({ email, name }: PasswordOwner): string[] => {
+  const parts = [...(name ? name.split(/[\s'-]+/) : []), ...(email ? [email.split('@')[0]] : [])];
+  return parts.map(part => part.toLowerCase()).filter(part => part.length >= MIN_PERSONAL_INFO_LENGTH);
+};
+
+/**
+ * Checks a password against the policy's rules
+ * Returns the first rule it breaks as a message for the user, or null when it follows them all.
+ * The frontend applies the same rules to the published policy, with the same messages.
+ */
+export const getPasswordPolicyError = (
+  password: string,
+  owner: PasswordOwner = {},
+  policy: PasswordPolicy = passwordPolicyConfig
+): string | null => {
+  if (typeof password !== 'string' || password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters long`;
+  }
+
+  if (password.length > policy.maxLength) {
+    return `Password must be at most ${policy.maxLength} characters long`;
+  }
+
+  for (const characterClass of policy.requiredCharacterClasses) {
+    if (!CHARACTER_CLASSES[characterClass].pattern.test(password)) {
+      return `Password must contain at least one ${CHARACTER_CLASSES[characterClass].label}`;
+    }
+  }
+
+  const lowered = password.toLowerCase();
+
+  if (policy.forbidPersonalInfo && getPersonalInfo(owner).some(part => lowered.includes(part))) {
+    return 'Password must not contain your name or email address';
+  }
+
+  const forbidden = policy.forbiddenSubstrings.find(substring => lowered.includes(substring.toLowerCase()));
+  if (forbidden) {
+    return `Password must not contain "${forbidden}"`;
+  }
+
+  return null;
+};
+
+/**
+ * Checks a new password against the policy and the breached-password corpus
+ */
+export const getNewPasswordError = (password: string, owner: PasswordOwner): string | null => {
+  const policyError = getPasswordPolicyError(password, owner);
+  if (policyError) {
+    return policyError;
+  }
+  return isBreachedPassword(password) ? BREACHED_PASSWORD_ERROR : null;
+};
+
+/**
+ * Checks whether the password is the user's current one or among the previous ones the policy remembers
+ */
+export const isRecentPassword = async (user: User, password: string): Promise<boolean> => {
+  const recent = [user.password, ...(user.passwordHistory || [])].slice(0, passwordPolicyConfig.historyDepth);
+
+  for (const hash of recent) {
+    if (await verifyPassword(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Returns the updates that replace the user's password, remembering the current one in the history
+ */
+export const withPasswordHistory = (user: User, hashedPassword: string): Pick<User, 'password' | 'passwordHistory'> => {
+  // The new password takes one of the remembered slots
+  const kept = Math.max(passwordPolicyConfig.historyDepth - 1, 0);
+
+  return {
+    password: hashedPassword,
+    passwordHistory: [user.password, ...(user.passwordHistory || [])].slice(0, kept),
+  };
+};
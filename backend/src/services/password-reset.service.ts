@@ -0,0 +1,78 @@
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { findUserByEmail, findUserById, updateUser } from '../database/db';
+import { issueActionToken, consumeActionToken, findActiveActionToken } from './action-token.service';
+import { sendMailInBackground } from './mail.service';
+import { hashPassword } from './password-hasher.service';
+import { getNewPasswordError, isRecentPassword, RECENT_PASSWORD_ERROR, withPasswordHistory } from './password-policy.service';
+import { endOtherSessions } from './session.service';
+import { revokeAllPersonalAccessTokens } from './personal-access-token.service';
+
+export type ResetPasswordResult =
+  | { status: 'ok' }
+  | { status: 'invalid_token' }
+  | { status: 'rejected'; error: string };
+
+/**
+ * Emails a password reset link if an account exists for the address
+ * Callers must respond the same way whether or not a user was found.
+ */
+export const requestPasswordReset = (email: string): void => {
+  const user = findUserByEmail(email);
+  if (!user) {
+    return;
+  }
+
+  const token = issueActionToken(user.id, 'password_reset', authConfig.passwordResetTtlMs);
+  const link = `${mailConfig.appUrl}/reset-password?token=${token}`;
+  const minutes = Math.round(authConfig.passwordResetTtlMs / 60000);
+
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your password. Use the link below to choose a new one:',
+      link,
+      '',
+      `The link expires in ${minutes} minutes and can only be used once.`,
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+  });
+};
+
+/**
+ * Sets a new password using a reset token
+ * Every existing session is ended, so anyone holding old tokens is signed out.
+ * A password the policy rejects leaves the token unused, so the user can try another one.
+ */
+export const resetPassword = async (token: string, newPassword: string): Promise<ResetPasswordResult> => {
+  const active = findActiveActionToken(token, 'password_reset');
+  const user = active ? findUserById(active.userId) : undefined;
+  if (!user) {
+    return { status: 'invalid_token' };
+  }
+
+  const passwordError = getNewPasswordError(newPassword, user);
+  if (passwordError) {
+    return { status: 'rejected', error: passwordError };
+  }
+
+  if (await isRecentPassword(user, newPassword)) {
+    return { status: 'rejected', error: RECENT_PASSWORD_ERROR };
+  }
+
+  const hashedPassword = await hashPassword(newPassword);
+
+  // Consumed only now, so a second request racing with this one cannot use the token as well
+  if (!consumeActionToken(token, 'password_reset')) {
+    return { status: 'invalid_token' };
+  }
+
+  updateUser(user.id, withPasswordHistory(user, hashedPassword));
+  endOtherSessions(user.id);
+  revokeAllPersonalAccessTokens(user.id);
+
+  return { status: 'ok' };
+};
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  issuePersonalAccessToken,
+  verifyPersonalAccessToken,
+  touchPersonalAccessToken,
+  listUserPersonalAccessTokens,
+  revokeUserPersonalAccessToken,
+  revokeAllPersonalAccessTokens,
+} from './personal-access-token.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('Personal Access Token Service', () => {
+  let user: User;
+
+  const issue = (overrides: Record<string, unknown> = {}) => {
+    const result = issuePersonalAccessToken(user.id, { name: 'CI', scopes: ['profile:read'], ...overrides });
+    if (result.status !== 'ok') {
+      throw new Error(result.error);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    user = db.createUser(createTestUserData());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('issuePersonalAccessToken', () => {
+    it('should return the token once and store only its hash', () => {
+      const { token, accessToken } = issue({ scopes: ['profile:read', 'profile:read', 'sessions:read'] });
+
+      expect(token.startsWith(authConfig.personalAccessTokenPrefix)).toBe(true);
+      expect(JSON.stringify(db.findPersonalAccessTokensByUserId(user.id))).not.toContain(token);
+      expect(accessToken.scopes).toEqual(['profile:read', 'sessions:read']);
+    });
+
+    it('should expire after the requested number of days', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+
+      const { accessToken } = issue({ expiresInDays: 7 });
+
+      expect(accessToken.expiresAt).toBe('2024-01-08T00:00:00.000Z');
+    });
+
+    it('should reject a missing name, unknown scopes and out-of-range expiry', () => {
+      expect(issuePersonalAccessToken(user.id, { name: ' ', scopes: ['profile:read'] }).status).toBe('invalid');
+      expect(issuePersonalAccessToken(user.id, { name: 'CI', scopes: [] }).status).toBe('invalid');
+      expect(issuePersonalAccessToken(user.id, { name: 'CI', scopes: ['admin'] }).status).toBe('invalid');
+      expect(issuePersonalAccessToken(user.id, {
+        name: 'CI',
+        scopes: ['profile:read'],
+        expiresInDays: authConfig.personalAccessTokenMaxTtlDays + 1,
+      }).status).toBe('invalid');
+      expect(listUserPersonalAccessTokens(user.id)).toHaveLength(0);
+    });
+  });
+
+  describe('verifyPersonalAccessToken', () => {
+    it('should find a valid token and ignore unknown ones', () => {
+      const { token, accessToken } = issue();
+
+      expect(verifyPersonalAccessToken(token)?.id).toBe(accessToken.id);
+      expect(verifyPersonalAccessToken(`${authConfig.personalAccessTokenPrefix}unknown`)).toBeNull();
+    });
+
+    it('should reject a token once it has expired', () => {
+      vi.useFakeTimers();
+      const { token } = issue({ expiresInDays: 1 });
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(verifyPersonalAccessToken(token)).toBeNull();
+    });
+  });
+
+  describe('touchPersonalAccessToken', () => {
+    it('should record when the token was last used, at most once a minute', () => {
+      vi.useFakeTimers();
+      const { accessToken } = issue();
+
+      touchPersonalAccessToken(accessToken);
+      const touched = db.findPersonalAccessTokensByUserId(user.id)[0];
+      vi.advanceTimersByTime(30 * 1000);
+      touchPersonalAccessToken(touched);
+
+      expect(touched.lastUsedAt).toBeDefined();
+      expect(db.findPersonalAccessTokensByUserId(user.id)[0].lastUsedAt).toBe(touched.lastUsedAt);
+    });
+  });
+
+  describe('revokeUserPersonalAccessToken', () => {
+    it('should delete the token so it stops working', () => {
+      const { token, accessToken } = issue();
+
+      expect(revokeUserPersonalAccessToken(user.id, accessToken.id)).toBe(true);
+      expect(verifyPersonalAccessToken(token)).toBeNull();
+    });
+
+    it('should not touch tokens of other users', () => {
+      const { token, accessToken } = issue();
+      const other = db.createUser(createTestUserData());
+
+      expect(revokeUserPersonalAccessToken(other.id, accessToken.id)).toBe(false);
+      expect(verifyPersonalAccessToken(token)).not.toBeNull();
+    });
+  });
+
+  describe('revokeAllPersonalAccessTokens', () => {
+    it('should delete every token of the user and leave other users alone', () => {
+      const first = issue();
+      const second = issue({ name: 'Backup' });
+      const other = db.createUser(createTestUserData());
+      const othersToken = issuePersonalAccessToken(other.id, { name: 'CI', scopes: ['profile:read'] });
+
+      expect(revokeAllPersonalAccessTokens(user.id)).toBe(2);
+      expect(verifyPersonalAccessToken(first.token)).toBeNull();
+      expect(verifyPersonalAccessToken(second.token)).toBeNull();
+      expect(othersToken.status === 'ok' && verifyPersonalAccessToken(othersToken.token)).not.toBeNull();
+    });
+  });
+});
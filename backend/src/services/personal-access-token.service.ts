@@ -0,0 +1,106 @@
+import { authConfig, TOKEN_SCOPES } from '../config/auth.config';
+import {
+  createPersonalAccessToken,
+  findPersonalAccessTokenByHash,
+  findPersonalAccessTokensByUserId,
+  updatePersonalAccessToken,
+  deletePersonalAccessToken,
+} from '../database/db';
+import { CreatePersonalAccessTokenRequest, PersonalAccessToken, TokenScope } from '../types/auth.types';
+import { generateToken, hashToken } from '../utils/crypto';
+
+// lastUsedAt is only written once per minute to avoid a database write on every request
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+const MAX_NAME_LENGTH = 100;
+
+export type PersonalAccessTokenResult =
+  | { status: 'ok'; token: string; accessToken: PersonalAccessToken }
+  | { status: 'invalid'; error: string };
+
+export const isPersonalAccessToken = (token: string): boolean => {
+  return token.startsWith(authConfig.personalAccessTokenPrefix);
+};
+
+export const isPersonalAccessTokenExpired = (accessToken: PersonalAccessToken, now = new Date()): boolean => {
+  return new Date(accessToken.expiresAt).getTime() <= now.getTime();
+};
+
+const isTokenScope = (scope: unknown): scope is TokenScope => {
+  return TOKEN_SCOPES.includes(scope as TokenScope);
+};
+
+/**
+ * Creates a token for the user
+ * The token is returned once; only its hash is stored.
+ */
+export const issuePersonalAccessToken = (
+  userId: string,
+  { name, scopes, expiresInDays = authConfig.personalAccessTokenDefaultTtlDays }: CreatePersonalAccessTokenRequest
+): PersonalAccessTokenResult => {
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+
+  if (!trimmedName || trimmedName.length > MAX_NAME_LENGTH) {
+    return { status: 'invalid', error: `Name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isTokenScope)) {
+    return { status: 'invalid', error: `Scopes must be a non-empty list of ${TOKEN_SCOPES.join(', ')}` };
+  }
+
+  const maxDays = authConfig.personalAccessTokenMaxTtlDays;
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > maxDays) {
+    return { status: 'invalid', error: `expiresInDays must be a whole number from 1 to ${maxDays}` };
+  }
+
+  const token = `${authConfig.personalAccessTokenPrefix}${generateToken()}`;
+  const accessToken = createPersonalAccessToken({
+    userId,
+    name: trimmedName,
+    tokenHash: hashToken(token),
+    scopes: [...new Set(scopes)],
+    expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+  });
+
+  return { status: 'ok', token, accessToken };
+};
+
+/**
+ * Looks up a presented token, returning null when it is unknown or expired
+ */
+export const verifyPersonalAccessToken = (token: string): PersonalAccessToken | null => {
+  const accessToken = findPersonalAccessTokenByHash(hashToken(token));
+  if (!accessToken || isPersonalAccessTokenExpired(accessToken)) {
+    return null;
+  }
+  return accessToken;
+};
+
+export const touchPersonalAccessToken = (accessToken: PersonalAccessToken): void => {
+  const lastUsed = accessToken.lastUsedAt ? new Date(accessToken.lastUsedAt).getTime() : 0;
+  if (Date.now() - lastUsed < LAST_USED_THROTTLE_MS) {
+    return;
+  }
+  updatePersonalAccessToken(accessToken.id, { lastUsedAt: new Date().toISOString() });
+};
+
+export const listUserPersonalAccessTokens = (userId: string): PersonalAccessToken[] => {
+  return findPersonalAccessTokensByUserId(userId);
+};
+
+/**
+ * Deletes one of the user's tokens, returning false when the user has no such token
+ */
+export const revokeUserPersonalAccessToken = (userId: string, tokenId: string): boolean => {
+  const owned = findPersonalAccessTokensByUserId(userId).some(accessToken => accessToken.id === tokenId);
+  return owned && deletePersonalAccessToken(tokenId);
+};
+
+/**
+ * Deletes all of the user's tokens, e.g. when their password may have been compromised.
+ * Returns the number of tokens deleted.
+ */
+export const revokeAllPersonalAccessTokens = (userId: string): number => {
+  const accessTokens = findPersonalAccessTokensByUserId(userId);
+  accessTokens.forEach(accessToken => deletePersonalAccessToken(accessToken.id));
+  return accessTokens.length;
+};
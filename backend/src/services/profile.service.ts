@@ -0,0 +1,76 @@
+import { updateUser, findUserById, findUserByEmail } from '../database/db';
+import { UpdateProfileRequest, User } from '../types/user.types';
+import { sendVerificationEmail } from './email-verification.service';
+import { isValidEmail, getNameError, sanitizeEmail, sanitizeName } from '../utils/validation';
+
+export type ProfileUpdateResult =
+  | { status: 'ok'; user: User }
+  | { status: 'invalid'; error: string }
+  | { status: 'not_found' };
+
+/**
+ * Validates and applies a change of name and/or email address
+ * Used for users editing their own profile and for admins editing someone else's.
+ * A new address has to be verified again, so a verification email is sent to it.
+ */
+export const updateUserProfile = (userId: string, { name, email }: UpdateProfileRequest): ProfileUpdateResult => {
+  if (!name && !email) {
+    return { status: 'invalid', error: 'At least one field (name or email) is required' };
+  }
+
+  // Validate email format if provided
+  if (email !== undefined) {
+    if (!isValidEmail(email)) {
+      return { status: 'invalid', error: 'Invalid email format' };
+    }
+  }
+
+  // Validate name if provided
+  if (name !== undefined) {
+    const nameError = getNameError(name);
+    if (nameError) {
+      return { status: 'invalid', error: nameError };
+    }
+  }
+
+  // Build updates object with only defined and validated fields
+  const updates: Partial<Pick<User, 'name' | 'email' | 'emailVerified' | 'emailVerifiedAt'>> = {};
+  if (name !== undefined) {
+    updates.name = sanitizeName(name);
+  }
+  if (email !== undefined) {
+    updates.email = sanitizeEmail(email);
+  }
+
+  // If email is being updated, check if it's already taken
+  let emailChanged = false;
+  if (email) {
+    const sanitizedEmail = sanitizeEmail(email);
+    const existingUser = findUserById(userId);
+    if (existingUser && existingUser.email !== sanitizedEmail) {
+      const emailTaken = findUserByEmail(sanitizedEmail);
+      if (emailTaken) {
+        return { status: 'invalid', error: 'Email already in use' };
+      }
+      emailChanged = true;
+    }
+  }
+
+  // A new address has to be verified again
+  if (emailChanged) {
+    updates.emailVerified = false;
+    updates.emailVerifiedAt = undefined;
+  }
+
+  const updatedUser = updateUser(userId, updates);
+
+  if (!updatedUser) {
+    return { status: 'not_found' };
+  }
+
+  if (emailChanged) {
+    sendVerificationEmail(updatedUser);
+  }
+
+  return { status: 'ok', user: updatedUser };
+};
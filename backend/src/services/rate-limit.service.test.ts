@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryRateLimitStore, consumeRateLimit } from './rate-limit.service';
+import { RateLimitPolicy } from '../config/rate-limit.config';
+
+describe('Rate Limit Service', () => {
+  let store: MemoryRateLimitStore;
+
+  const consumeTimes = async (times: number, policy: RateLimitPolicy, key = 'client') => {
+    const decisions = [];
+    for (let i = 0; i < times; i++) {
+      decisions.push(await consumeRateLimit(store, key, policy));
+    }
+    return decisions;
+  };
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should pass the current value to the updater until it expires', async () => {
+      await store.update<number>('key', 1000, current => (current || 0) + 1);
+      expect(await store.update<number>('key', 1000, current => (current || 0) + 1)).toBe(2);
+
+      vi.advanceTimersByTime(1000);
+
+      expect(await store.update<number>('key', 1000, current => (current || 0) + 1)).toBe(1);
+    });
+
+    it('should sweep expired entries', async () => {
+      await store.update('a', 1000, () => 1);
+      await store.update('b', 1000, () => 1);
+
+      vi.advanceTimersByTime(2 * 60 * 1000);
+      await store.update('c', 1000, () => 1);
+
+      expect(store.size).toBe(1);
+    });
+  });
+
+  describe('token bucket', () => {
+    const policy: RateLimitPolicy = { algorithm: 'token-bucket', capacity: 3, refillPerSecond: 1 };
+
+    it('should allow a burst up to capacity', async () => {
+      const decisions = await consumeTimes(4, policy);
+
+      expect(decisions.map(decision => decision.allowed)).toEqual([true, true, true, false]);
+      expect(decisions.map(decision => decision.remaining)).toEqual([2, 1, 0, 0]);
+      expect(decisions[3].retryAfterSeconds).toBe(1);
+      expect(decisions[3].resetSeconds).toBe(3);
+    });
+
+    it('should refill tokens over time', async () => {
+      await consumeTimes(3, policy);
+
+      vi.advanceTimersByTime(2000);
+      const decisions = await consumeTimes(3, policy);
+
+      expect(decisions.map(decision => decision.allowed)).toEqual([true, true, false]);
+    });
+
+    it('should count clients separately', async () => {
+      await consumeTimes(3, policy, 'a');
+
+      expect((await consumeRateLimit(store, 'b', policy)).allowed).toBe(true);
+    });
+  });
+
+  describe('sliding window', () => {
+    const policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 4, windowMs: 10000 };
+
+    it('should allow up to the limit per window', async () => {
+      const decisions = await consumeTimes(5, policy);
+
+      expect(decisions.map(decision => decision.allowed)).toEqual([true, true, true, true, false]);
+      expect(decisions[3].remaining).toBe(0);
+      // The window ends in 10 seconds; one request fits a quarter of the way into the next one
+      expect(decisions[4].retryAfterSeconds).toBe(13);
+      expect(decisions[4].resetSeconds).toBe(20);
+    });
+
+    it('should weight the previous window by its overlap', async () => {
+      await consumeTimes(4, policy);
+
+      // Half way into the next window, half of the previous window's requests still count
+      vi.advanceTimersByTime(15000);
+      const decisions = await consumeTimes(3, policy);
+
+      expect(decisions.map(decision => decision.allowed)).toEqual([true, true, false]);
+      expect(decisions[2].retryAfterSeconds).toBe(3);
+    });
+
+    it('should forget windows older than the previous one', async () => {
+      await consumeTimes(4, policy);
+
+      vi.advanceTimersByTime(20000);
+      const decisions = await consumeTimes(4, policy);
+
+      expect(decisions.every(decision => decision.allowed)).toBe(true);
+    });
+  });
+});
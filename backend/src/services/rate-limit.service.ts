@@ -0,0 +1,162 @@
+import { RateLimitPolicy } from '../config/rate-limit.config';
+
+/**
+ * Keeps rate limit counters
+ * Implement this on top of a shared store such as Redis when running several instances.
+ * update must apply the updater atomically, so concurrent requests cannot both take the last slot.
+ */
+export interface RateLimitStore {
+  update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T>;
+}
+
+interface StoredEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Expired entries are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Default store, keeping counters in this process's memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, StoredEntry>();
+  private lastSweepAt = 0;
+
+  async update<T>(key: string, ttlMs: number, updater: (current: T | undefined) => T): Promise<T> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? (entry.value as T) : undefined;
+    const value = updater(current);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+    return value;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweepAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweepAt = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Outcome of counting one request against a policy
+ * resetSeconds is how long until the full quota is available again.
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds?: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+const consumeTokenBucket = async (
+  store: RateLimitStore,
+  key: string,
+  policy: Extract<RateLimitPolicy, { algorithm: 'token-bucket' }>
+): Promise<RateLimitDecision> => {
+  const { capacity, refillPerSecond } = policy;
+  let allowed = false;
+
+  const state = await store.update<TokenBucketState>(key, (capacity / refillPerSecond) * 1000, current => {
+    const now = Date.now();
+    const elapsedSeconds = current ? (now - current.updatedAt) / 1000 : 0;
+    const tokens = current ? Math.min(capacity, current.tokens + elapsedSeconds * refillPerSecond) : capacity;
+    allowed = tokens >= 1;
+    return { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+  });
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(state.tokens),
+    resetSeconds: Math.ceil((capacity - state.tokens) / refillPerSecond),
+    retryAfterSeconds: allowed ? undefined : Math.ceil((1 - state.tokens) / refillPerSecond),
+  };
+};
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by how much of it
+ * still overlaps the sliding window, which approximates a full request log in constant space.
+ */
+const consumeSlidingWindow = async (
+  store: RateLimitStore,
+  key: string,
+  policy: Extract<RateLimitPolicy, { algorithm: 'sliding-window' }>
+): Promise<RateLimitDecision> => {
+  const { limit, windowMs } = policy;
+  let allowed = false;
+  let estimate = 0;
+
+  const state = await store.update<SlidingWindowState>(key, windowMs * 2, current => {
+    const now = Date.now();
+    const windowStart = now - (now % windowMs);
+    let next: SlidingWindowState;
+    if (current?.windowStart === windowStart) {
+      next = { ...current };
+    } else if (current?.windowStart === windowStart - windowMs) {
+      next = { windowStart, current: 0, previous: current.current };
+    } else {
+      next = { windowStart, current: 0, previous: 0 };
+    }
+
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    estimate = next.previous * previousWeight + next.current;
+    allowed = estimate + 1 <= limit;
+    if (allowed) {
+      next.current += 1;
+      estimate += 1;
+    }
+    return next;
+  });
+
+  const windowEndsInMs = state.windowStart + windowMs - Date.now();
+  // A rejected request fits again once enough of the previous window's weight has run out,
+  // or, when the current window alone is full, part way into the next window
+  const retryAfterMs =
+    state.current + 1 <= limit
+      ? ((estimate + 1 - limit) * windowMs) / state.previous
+      : windowEndsInMs + ((state.current + 1 - limit) * windowMs) / state.current;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimate)),
+    resetSeconds: Math.ceil((windowEndsInMs + (state.current > 0 ? windowMs : 0)) / 1000),
+    retryAfterSeconds: allowed ? undefined : Math.max(1, Math.ceil(retryAfterMs / 1000)),
+  };
+};
+
+/**
+ * Counts one request for the key and decides whether it may go ahead
+ */
+export const consumeRateLimit = (store: RateLimitStore, key: string, policy: RateLimitPolicy): Promise<RateLimitDecision> => {
+  return policy.algorithm === 'token-bucket'
+    ? consumeTokenBucket(store, key, policy)
+    : consumeSlidingWindow(store, key, policy);
+};
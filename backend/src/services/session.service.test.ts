@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import {
+  isSessionActive,
+  touchSession,
+  listActiveSessions,
+  endSession,
+  endOtherSessions,
+} from './session.service';
+import { issueAuthTokens, verifyAccessToken, rotateRefreshToken } from './token.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+
+describe('Session Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  let userId: string;
+
+  const startSession = () => {
+    const tokens = issueAuthTokens(userId, client);
+    return { ...tokens, sessionId: verifyAccessToken(tokens.token).sid! };
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    userId = db.createUser(createTestUserData()).id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('isSessionActive', () => {
+    it('should reject sessions of another user', () => {
+      const { sessionId } = startSession();
+      const session = db.findSessionById(sessionId)!;
+
+      expect(isSessionActive(session, userId)).toBe(true);
+      expect(isSessionActive(session, 'someone-else')).toBe(false);
+    });
+
+    it('should reject expired sessions', () => {
+      const { sessionId } = startSession();
+      const session = db.updateSession(sessionId, { expiresAt: new Date(Date.now() - 1000).toISOString() })!;
+
+      expect(isSessionActive(session, userId)).toBe(false);
+    });
+  });
+
+  describe('touchSession', () => {
+    it('should only update lastSeenAt once per minute', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const { sessionId } = startSession();
+
+      vi.setSystemTime(new Date('2024-01-01T00:00:30.000Z'));
+      touchSession(db.findSessionById(sessionId)!, client);
+      expect(db.findSessionById(sessionId)?.lastSeenAt).toBe('2024-01-01T00:00:00.000Z');
+
+      vi.setSystemTime(new Date('2024-01-01T00:01:30.000Z'));
+      touchSession(db.findSessionById(sessionId)!, client);
+      expect(db.findSessionById(sessionId)?.lastSeenAt).toBe('2024-01-01T00:01:30.000Z');
+    });
+
+    it('should record a new IP address immediately', () => {
+      const { sessionId } = startSession();
+
+      touchSession(db.findSessionById(sessionId)!, { ...client, ip: '10.0.0.2' });
+
+      expect(db.findSessionById(sessionId)?.ip).toBe('10.0.0.2');
+    });
+  });
+
+  describe('listActiveSessions', () => {
+    it('should list only active sessions of the user', () => {
+      const first = startSession();
+      const second = startSession();
+      db.updateSession(first.sessionId, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      const sessions = listActiveSessions(userId);
+
+      expect(sessions.map(session => session.id)).toEqual([second.sessionId]);
+    });
+  });
+
+  describe('endSession', () => {
+    it('should delete the session and revoke its refresh tokens', () => {
+      const { sessionId, refreshToken } = startSession();
+
+      expect(endSession(sessionId)).toBe(true);
+
+      expect(db.findSessionById(sessionId)).toBeUndefined();
+      expect(rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+    });
+
+    it('should return false for unknown sessions', () => {
+      expect(endSession('missing')).toBe(false);
+    });
+  });
+
+  describe('endOtherSessions', () => {
+    it('should keep only the current session', () => {
+      const current = startSession();
+      startSession();
+      startSession();
+
+      expect(endOtherSessions(userId, current.sessionId)).toBe(2);
+
+      expect(listActiveSessions(userId).map(session => session.id)).toEqual([current.sessionId]);
+    });
+  });
+});
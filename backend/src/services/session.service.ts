@@ -0,0 +1,56 @@
+import {
+  findSessionsByUserId,
+  updateSession,
+  deleteSession,
+  revokeRefreshTokenFamily,
+} from '../database/db';
+import { ClientInfo, Session } from '../types/auth.types';
+
+// lastSeenAt is only written once per minute to avoid a database write on every request
+const LAST_SEEN_THROTTLE_MS = 60 * 1000;
+
+/**
+ * Checks that a session belongs to the user and has not expired
+ */
+export const isSessionActive = (session: Session, userId: string): boolean => {
+  return session.userId === userId && new Date(session.expiresAt).getTime() > Date.now();
+};
+
+/**
+ * Records that the session was just used
+ */
+export const touchSession = (session: Session, client: ClientInfo): void => {
+  const lastSeen = new Date(session.lastSeenAt).getTime();
+  if (Date.now() - lastSeen < LAST_SEEN_THROTTLE_MS && session.ip === client.ip) {
+    return;
+  }
+  updateSession(session.id, { lastSeenAt: new Date().toISOString(), ip: client.ip });
+};
+
+/**
+ * Lists a user's sessions that have not expired, most recently used first
+ */
+export const listActiveSessions = (userId: string): Session[] => {
+  return findSessionsByUserId(userId)
+    .filter(session => isSessionActive(session, userId))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+};
+
+/**
+ * Ends a session and revokes its refresh tokens
+ * Access tokens issued for the session stop working on their next request.
+ */
+export const endSession = (sessionId: string): boolean => {
+  revokeRefreshTokenFamily(sessionId);
+  return deleteSession(sessionId);
+};
+
+/**
+ * Ends every session of the user except the given one
+ * Without a current session id, all of the user's sessions are ended.
+ */
+export const endOtherSessions = (userId: string, currentSessionId?: string): number => {
+  const others = findSessionsByUserId(userId).filter(session => session.id !== currentSessionId);
+  others.forEach(session => endSession(session.id));
+  return others.length;
+};
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import crypto from 'crypto';
+import {
+  getActiveSigningKey,
+  rotateSigningKey,
+  getJwks,
+  signJwt,
+  verifyJwt,
+} from './signing-key.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import * as db from '../database/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tamper = (token: string, claims: object): string => {
+  const [header, , signature] = token.split('.');
+  return `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+};
+
+describe('Signing Key Service', () => {
+  const originalAlgorithm = authConfig.jwtAlgorithm;
+  const originalIssuer = authConfig.jwtIssuer;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+  });
+
+  afterEach(() => {
+    authConfig.jwtAlgorithm = originalAlgorithm;
+    authConfig.jwtIssuer = originalIssuer;
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('getActiveSigningKey', () => {
+    it('should create a key on first use and reuse it afterwards', () => {
+      const key = getActiveSigningKey();
+
+      expect(key.algorithm).toBe(authConfig.jwtAlgorithm);
+      expect(getActiveSigningKey().kid).toBe(key.kid);
+      expect(db.findSigningKeys()).toHaveLength(1);
+    });
+
+    it('should rotate once the current key retires', () => {
+      const now = Date.now();
+      const first = getActiveSigningKey(now);
+
+      const second = getActiveSigningKey(now + authConfig.jwtKeyRotationMs + 1000);
+
+      expect(second.kid).not.toBe(first.kid);
+      expect(db.findSigningKeys()).toHaveLength(2);
+    });
+
+    it('should drop retired keys after the grace period', () => {
+      const now = Date.now();
+      const first = getActiveSigningKey(now);
+      const later = now + authConfig.jwtKeyRotationMs + 1000;
+      getActiveSigningKey(later);
+
+      getActiveSigningKey(later + authConfig.jwtKeyRotationMs + 1000);
+
+      expect(db.findSigningKey(first.kid)).toBeUndefined();
+    });
+
+    it('should retire the key when the configured algorithm changes', () => {
+      const first = getActiveSigningKey();
+      const token = signJwt({ userId: '123' }, 60);
+
+      authConfig.jwtAlgorithm = first.algorithm === 'EdDSA' ? 'RS256' : 'EdDSA';
+      const second = getActiveSigningKey();
+
+      expect(second.kid).not.toBe(first.kid);
+      expect(second.algorithm).toBe(authConfig.jwtAlgorithm);
+      expect(verifyJwt(token).userId).toBe('123');
+    });
+
+    it('should prepare the next key ahead of rotation and switch to it on schedule', () => {
+      const now = Date.now();
+      const first = getActiveSigningKey(now);
+      const retiresAt = new Date(first.retiresAt).getTime();
+
+      expect(getActiveSigningKey(retiresAt - authConfig.jwtKeyPrepublishMs - 1000).kid).toBe(first.kid);
+      expect(db.findSigningKeys()).toHaveLength(1);
+
+      expect(getActiveSigningKey(retiresAt - authConfig.jwtKeyPrepublishMs).kid).toBe(first.kid);
+      const next = db.findSigningKeys().find(key => key.kid !== first.kid)!;
+      expect(next.activatesAt).toBe(first.retiresAt);
+
+      expect(getActiveSigningKey(retiresAt - 1000).kid).toBe(first.kid);
+      expect(getActiveSigningKey(retiresAt).kid).toBe(next.kid);
+      expect(db.findSigningKeys()).toHaveLength(2);
+    });
+
+    it('should discard the prepared key when the configured algorithm changes', () => {
+      const now = Date.now();
+      const first = getActiveSigningKey(now);
+      const later = new Date(first.retiresAt).getTime() - 1000;
+      getActiveSigningKey(later);
+
+      authConfig.jwtAlgorithm = first.algorithm === 'EdDSA' ? 'RS256' : 'EdDSA';
+      const second = getActiveSigningKey(later);
+
+      expect(db.findSigningKeys().map(key => key.kid).sort()).toEqual([first.kid, second.kid].sort());
+    });
+  });
+
+  describe('rotateSigningKey', () => {
+    it('should switch signing to a new key while old tokens stay valid', () => {
+      const oldToken = signJwt({ userId: '123' }, 60);
+      const oldKid = getActiveSigningKey().kid;
+
+      const key = rotateSigningKey();
+
+      expect(key.kid).not.toBe(oldKid);
+      expect(getActiveSigningKey().kid).toBe(key.kid);
+      expect(verifyJwt(oldToken).userId).toBe('123');
+    });
+
+    it('should discard a key published ahead of time', () => {
+      const now = Date.now();
+      const old = getActiveSigningKey(now);
+      getActiveSigningKey(new Date(old.retiresAt).getTime() - 1000);
+
+      const key = rotateSigningKey(now);
+
+      expect(db.findSigningKeys().map(existing => existing.kid).sort()).toEqual([old.kid, key.kid].sort());
+    });
+
+    it('should keep the retired key at least as long as an access token lives', () => {
+      const now = Date.now();
+      const old = getActiveSigningKey(now);
+
+      rotateSigningKey(now);
+
+      const retired = db.findSigningKey(old.kid)!;
+      const graceMs = new Date(retired.expiresAt).getTime() - now;
+      expect(graceMs).toBeGreaterThanOrEqual(authConfig.accessTokenTtlSeconds * 1000);
+      expect(graceMs).toBeGreaterThanOrEqual(authConfig.jwtKeyGraceMs);
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish the public half of active and retired keys', () => {
+      const old = getActiveSigningKey();
+      const current = rotateSigningKey();
+
+      const { keys } = getJwks();
+
+      expect(keys.map(key => key.kid).sort()).toEqual([old.kid, current.kid].sort());
+      keys.forEach(key => {
+        expect(key).toMatchObject({ use: 'sig', alg: authConfig.jwtAlgorithm });
+        expect(key).not.toHaveProperty('d');
+      });
+    });
+
+    it('should publish the next key before it signs anything', () => {
+      const now = Date.now();
+      const current = getActiveSigningKey(now);
+      db.updateSigningKey(current.kid, { retiresAt: new Date(now + 1000).toISOString() });
+
+      const { keys } = getJwks();
+      const next = db.findSigningKeys().find(key => key.kid !== current.kid)!;
+
+      expect(keys.map(key => key.kid).sort()).toEqual([current.kid, next.kid].sort());
+      expect(getActiveSigningKey().kid).toBe(current.kid);
+    });
+
+    it('should stop publishing a key once its grace period ends', () => {
+      const now = Date.now();
+      const old = getActiveSigningKey(now);
+      rotateSigningKey(now);
+      db.updateSigningKey(old.kid, { expiresAt: new Date(now - DAY_MS).toISOString() });
+
+      expect(getJwks().keys.map(key => key.kid)).not.toContain(old.kid);
+    });
+
+    it('should publish keys that verify issued tokens', () => {
+      const token = signJwt({ userId: '123' }, 60);
+      const [header, payload, signature] = token.split('.');
+      const jwk = getJwks().keys[0];
+
+      const publicKey = crypto.createPublicKey({ key: jwk as crypto.JsonWebKeyInput['key'], format: 'jwk' });
+      const valid = crypto.verify(
+        authConfig.jwtAlgorithm === 'RS256' ? 'sha256' : null,
+        Buffer.from(`${header}.${payload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url')
+      );
+
+      expect(valid).toBe(true);
+    });
+  });
+
+  describe('signJwt / verifyJwt', () => {
+    it('should round-trip claims with issuer and expiry', () => {
+      const claims = verifyJwt(signJwt({ userId: '123' }, 60));
+
+      expect(claims).toMatchObject({ userId: '123', iss: authConfig.jwtIssuer });
+      expect(claims.exp).toBe((claims.iat as number) + 60);
+    });
+
+    it('should sign and verify with RS256', () => {
+      authConfig.jwtAlgorithm = 'RS256';
+
+      const token = signJwt({ userId: '123' }, 60);
+
+      expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toMatchObject({ alg: 'RS256' });
+      expect(verifyJwt(token).userId).toBe('123');
+    });
+
+    it('should reject expired tokens', () => {
+      expect(() => verifyJwt(signJwt({ userId: '123' }, -60))).toThrow('Token has expired');
+    });
+
+    it('should reject tokens from another issuer', () => {
+      authConfig.jwtIssuer = 'someone-else';
+      const token = signJwt({ userId: '123' }, 60);
+      authConfig.jwtIssuer = originalIssuer;
+
+      expect(() => verifyJwt(token)).toThrow('Invalid issuer');
+    });
+
+    it('should reject a modified payload', () => {
+      const token = signJwt({ userId: '123' }, 60);
+
+      expect(() => verifyJwt(tamper(token, { userId: '999', iss: authConfig.jwtIssuer, exp: 9999999999 }))).toThrow(
+        'Invalid signature'
+      );
+    });
+
+    it('should reject tokens whose header names another algorithm', () => {
+      const token = signJwt({ userId: '123' }, 60);
+      const { kid } = getActiveSigningKey();
+      const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid })).toString('base64url');
+
+      expect(() => verifyJwt(`${header}.${token.split('.').slice(1).join('.')}`)).toThrow('Unknown signing key');
+    });
+
+    it('should reject tokens signed with an unknown key', () => {
+      const token = signJwt({ userId: '123' }, 60);
+      clearTestDatabase();
+
+      expect(() => verifyJwt(token)).toThrow('Unknown signing key');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => verifyJwt('not-a-token')).toThrow('Malformed token');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+import {
+  createSigningKey,
+  findSigningKey,
+  findSigningKeys,
+  updateSigningKey,
+  pruneSigningKeys,
+} from '../database/db';
+import { JwtAlgorithm, SigningKey } from '../types/auth.types';
+import { decodeJws, signJws, verifyJwsSignature } from '../utils/jws';
+import { JsonWebKeySet } from './oauth-provider.service';
+
+// Parsed keys by kid; a kid is never reused, so entries cannot go stale
+const keyObjects = new Map<string, { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject }>();
+
+const getKeyObjects = (key: SigningKey) => {
+  let objects = keyObjects.get(key.kid);
+  if (!objects) {
+    objects = {
+      privateKey: crypto.createPrivateKey(key.privateKey),
+      publicKey: crypto.createPublicKey(key.publicKey),
+    };
+    keyObjects.set(key.kid, objects);
+  }
+  return objects;
+};
+
+const generateKeyPair = (algorithm: JwtAlgorithm) => {
+  return algorithm === 'RS256'
+    ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : crypto.generateKeyPairSync('ed25519');
+};
+
+// Retired keys must outlive every token they signed
+const getGraceMs = (): number => Math.max(authConfig.jwtKeyGraceMs, authConfig.accessTokenTtlSeconds * 1000);
+
+const isSigning = (key: SigningKey, now: number): boolean =>
+  new Date(key.activatesAt).getTime() <= now && new Date(key.retiresAt).getTime() > now;
+
+const isPending = (key: SigningKey, now: number): boolean => new Date(key.activatesAt).getTime() > now;
+
+const isPublished = (key: SigningKey, now: number): boolean => new Date(key.expiresAt).getTime() > now;
+
+const retireKey = (key: SigningKey, now: number): void => {
+  updateSigningKey(key.kid, {
+    retiresAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getGraceMs()).toISOString(),
+  });
+};
+
+// A pending key never signed anything, so it can go right away
+const discardKey = (key: SigningKey, now: number): void => {
+  updateSigningKey(key.kid, {
+    retiresAt: new Date(now).toISOString(),
+    expiresAt: new Date(now).toISOString(),
+  });
+};
+
+const generateSigningKey = (now: number, activatesAt: number = now): SigningKey => {
+  const { privateKey, publicKey } = generateKeyPair(authConfig.jwtAlgorithm);
+  const retiresAt = activatesAt + authConfig.jwtKeyRotationMs;
+
+  return createSigningKey({
+    kid: crypto.randomUUID(),
+    algorithm: authConfig.jwtAlgorithm,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    createdAt: new Date(now).toISOString(),
+    activatesAt: new Date(activatesAt).toISOString(),
+    retiresAt: new Date(retiresAt).toISOString(),
+    expiresAt: new Date(retiresAt + getGraceMs()).toISOString(),
+  });
+};
+
+/**
+ * Returns the key new tokens are signed with
+ * Rotation happens here on schedule: the next key is generated and published ahead of time
+ * and takes over once the current key retires. If the configured algorithm changes, a new
+ * key takes over right away. Expired keys are dropped.
+ */
+export const getActiveSigningKey = (now: number = Date.now()): SigningKey => {
+  const keys = findSigningKeys();
+  const current = keys
+    .filter(key => isSigning(key, now))
+    .sort((a, b) => b.activatesAt.localeCompare(a.activatesAt))[0];
+  const next = keys.find(key => isPending(key, now) && key.algorithm === authConfig.jwtAlgorithm);
+
+  if (!current || current.algorithm !== authConfig.jwtAlgorithm) {
+    if (current) {
+      retireKey(current, now);
+    }
+    keys.filter(key => isPending(key, now)).forEach(key => discardKey(key, now));
+    pruneSigningKeys(new Date(now));
+    return generateSigningKey(now);
+  }
+
+  const retiresAt = new Date(current.retiresAt).getTime();
+  if (!next && retiresAt - now <= authConfig.jwtKeyPrepublishMs) {
+    generateSigningKey(now, retiresAt);
+  }
+  return current;
+};
+
+/**
+ * Replaces the signing key right away, e.g. when an operator wants to rotate early
+ * Tokens signed with the previous key stay valid for the grace period. A key published
+ * ahead of time is discarded too, as it may be exposed along with the current one.
+ */
+export const rotateSigningKey = (now: number = Date.now()): SigningKey => {
+  const keys = findSigningKeys();
+  keys.filter(key => isSigning(key, now)).forEach(key => retireKey(key, now));
+  keys.filter(key => isPending(key, now)).forEach(key => discardKey(key, now));
+  pruneSigningKeys(new Date(now));
+  return generateSigningKey(now);
+};
+
+/**
+ * Public keys that tokens may currently be signed with, or soon will be, as a JSON Web Key Set
+ */
+export const getJwks = (): JsonWebKeySet => {
+  const now = Date.now();
+  getActiveSigningKey(now);
+
+  return {
+    keys: findSigningKeys()
+      .filter(key => isPublished(key, now))
+      .map(key => ({
+        ...getKeyObjects(key).publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+  };
+};
+
+/**
+ * Signs claims with the active key, adding the issuer and issue/expiry times
+ */
+export const signJwt = (claims: object, expiresInSeconds: number): string => {
+  const key = getActiveSigningKey();
+  const iat = Math.floor(Date.now() / 1000);
+
+  return signJws(
+    { ...claims, iss: authConfig.jwtIssuer, iat, exp: iat + expiresInSeconds },
+    { alg: key.algorithm, kid: key.kid },
+    getKeyObjects(key).privateKey
+  );
+};
+
+/**
+ * Verifies a token's signature, issuer and expiry and returns its claims
+ * Throws if the token is invalid.
+ */
+export const verifyJwt = (token: string): Record<string, unknown> => {
+  const decoded = decodeJws(token);
+  if (!decoded) {
+    throw new Error('Malformed token');
+  }
+
+  const now = Date.now();
+  const key = decoded.header.kid ? findSigningKey(decoded.header.kid) : undefined;
+  if (!key || !isPublished(key, now) || isPending(key, now) || decoded.header.alg !== key.algorithm) {
+    throw new Error('Unknown signing key');
+  }
+
+  if (!verifyJwsSignature(decoded, key.algorithm, getKeyObjects(key).publicKey)) {
+    throw new Error('Invalid signature');
+  }
+
+  const { exp, iss } = decoded.payload;
+  if (typeof exp !== 'number' || exp * 1000 <= now) {
+    throw new Error('Token has expired');
+  }
+  if (iss !== authConfig.jwtIssuer) {
+    throw new Error('Invalid issuer');
+  }
+
+  return decoded.payload;
+};
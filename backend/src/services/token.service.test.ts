@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import jwt from 'jsonwebtoken';
+import {
+  issueAuthTokens,
+  rotateRefreshToken,
+  signAccessToken,
+  verifyAccessToken,
+  isAccessTokenRevoked,
+  revokeAccessToken,
+  revokeRefreshToken,
+} from './token.service';
+import { getActiveSigningKey } from './signing-key.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { hashToken } from '../utils/crypto';
+
+describe('Token Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  let userId: string;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    userId = db.createUser(createTestUserData()).id;
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('signAccessToken', () => {
+    it('should sign a token that expires after the configured TTL', () => {
+      const token = signAccessToken(userId, 'session-1');
+      const decoded = verifyAccessToken(token);
+
+      expect(decoded.userId).toBe(userId);
+      expect(decoded.sid).toBe('session-1');
+      expect(decoded.exp! - decoded.iat!).toBe(authConfig.accessTokenTtlSeconds);
+    });
+
+    it('should name the active signing key in the header', () => {
+      const { header } = jwt.decode(signAccessToken(userId, 'session-1'), { complete: true })!;
+
+      expect(header.kid).toBe(getActiveSigningKey().kid);
+      expect(header.alg).toBe(authConfig.jwtAlgorithm);
+    });
+
+    it('should give every token a unique jti', () => {
+      const first = verifyAccessToken(signAccessToken(userId, 'session-1'));
+      const second = verifyAccessToken(signAccessToken(userId, 'session-1'));
+
+      expect(first.jti).toBeDefined();
+      expect(first.jti).not.toBe(second.jti);
+    });
+  });
+
+  describe('revokeAccessToken', () => {
+    it('should mark the token as revoked', () => {
+      const payload = verifyAccessToken(signAccessToken(userId, 'session-1'));
+
+      expect(isAccessTokenRevoked(payload)).toBe(false);
+      revokeAccessToken(payload);
+      expect(isAccessTokenRevoked(payload)).toBe(true);
+    });
+
+    it('should not affect other tokens of the same user', () => {
+      const revoked = verifyAccessToken(signAccessToken(userId, 'session-1'));
+      const other = verifyAccessToken(signAccessToken(userId, 'session-1'));
+
+      revokeAccessToken(revoked);
+
+      expect(isAccessTokenRevoked(other)).toBe(false);
+    });
+
+    it('should prune entries for tokens that have already expired', () => {
+      db.revokeToken('expired-jti', new Date(Date.now() - 1000).toISOString());
+
+      revokeAccessToken(verifyAccessToken(signAccessToken(userId, 'session-1')));
+
+      expect(db.isTokenRevoked('expired-jti')).toBe(false);
+    });
+  });
+
+  describe('revokeRefreshToken', () => {
+    it('should revoke the whole family', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+      const rotated = rotateRefreshToken(refreshToken);
+      if (rotated.status !== 'ok') throw new Error('rotation failed');
+
+      revokeRefreshToken(rotated.tokens.refreshToken);
+
+      expect(rotateRefreshToken(rotated.tokens.refreshToken)).toEqual({ status: 'invalid' });
+    });
+
+    it('should ignore unknown tokens', () => {
+      expect(() => revokeRefreshToken('unknown')).not.toThrow();
+    });
+  });
+
+  describe('issueAuthTokens', () => {
+    it('should store only the hash of the refresh token', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+
+      expect(db.findRefreshTokenByHash(refreshToken)).toBeUndefined();
+      const stored = db.findRefreshTokenByHash(hashToken(refreshToken));
+      expect(stored?.userId).toBe(userId);
+    });
+
+    it('should start a session whose id is the refresh token family', () => {
+      const { token, refreshToken } = issueAuthTokens(userId, client);
+
+      const { sid } = verifyAccessToken(token);
+      const session = db.findSessionById(sid!);
+      expect(session).toMatchObject({ userId, userAgent: 'vitest', ip: '127.0.0.1' });
+      expect(db.findRefreshTokenByHash(hashToken(refreshToken))?.familyId).toBe(sid);
+    });
+
+    it('should start a new family for every login', () => {
+      const first = issueAuthTokens(userId, client);
+      const second = issueAuthTokens(userId, client);
+
+      const firstRecord = db.findRefreshTokenByHash(hashToken(first.refreshToken));
+      const secondRecord = db.findRefreshTokenByHash(hashToken(second.refreshToken));
+      expect(firstRecord?.familyId).not.toBe(secondRecord?.familyId);
+    });
+
+    it('should cancel a pending account deletion', () => {
+      db.updateUser(userId, {
+        deletionRequestedAt: new Date().toISOString(),
+        deletionScheduledFor: new Date(Date.now() + 60000).toISOString(),
+      });
+
+      issueAuthTokens(userId, client);
+
+      expect(db.findUserById(userId)?.deletionScheduledFor).toBeUndefined();
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should issue a new pair in the same family', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+
+      const result = rotateRefreshToken(refreshToken);
+
+      expect(result.status).toBe('ok');
+      if (result.status !== 'ok') return;
+      expect(result.userId).toBe(userId);
+      expect(result.tokens.refreshToken).not.toBe(refreshToken);
+
+      const oldRecord = db.findRefreshTokenByHash(hashToken(refreshToken));
+      const newRecord = db.findRefreshTokenByHash(hashToken(result.tokens.refreshToken));
+      expect(oldRecord?.replacedBy).toBe(newRecord?.id);
+      expect(newRecord?.familyId).toBe(oldRecord?.familyId);
+    });
+
+    it('should keep the access token bound to the same session', () => {
+      const { token, refreshToken } = issueAuthTokens(userId, client);
+
+      const result = rotateRefreshToken(refreshToken);
+      if (result.status !== 'ok') throw new Error('rotation failed');
+
+      expect(verifyAccessToken(result.tokens.token).sid).toBe(verifyAccessToken(token).sid);
+    });
+
+    it('should reject unknown tokens', () => {
+      expect(rotateRefreshToken('not-a-real-token')).toEqual({ status: 'invalid' });
+    });
+
+    it('should reject tokens whose session has ended', () => {
+      const { token, refreshToken } = issueAuthTokens(userId, client);
+      db.deleteSession(verifyAccessToken(token).sid!);
+
+      expect(rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+    });
+
+    it('should reject expired tokens', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+      const record = db.findRefreshTokenByHash(hashToken(refreshToken))!;
+      db.updateRefreshToken(record.id, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+      expect(rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+    });
+
+    it('should reject tokens of a disabled account', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+      db.updateUser(userId, { disabledAt: new Date().toISOString() });
+
+      expect(rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+    });
+
+    it('should reject tokens of an account whose email must be verified first', () => {
+      const { refreshToken } = issueAuthTokens(userId, client);
+      db.updateUser(userId, { emailVerified: false });
+
+      authConfig.requireEmailVerification = true;
+      try {
+        expect(rotateRefreshToken(refreshToken)).toEqual({ status: 'invalid' });
+      } finally {
+        authConfig.requireEmailVerification = false;
+      }
+    });
+
+    it('should revoke the whole family when a rotated token is reused', () => {
+      const { refreshToken: original } = issueAuthTokens(userId, client);
+      const rotated = rotateRefreshToken(original);
+      if (rotated.status !== 'ok') throw new Error('rotation failed');
+
+      expect(rotateRefreshToken(original)).toEqual({ status: 'reused' });
+
+      // The legitimate holder's latest token is now revoked as well
+      expect(rotateRefreshToken(rotated.tokens.refreshToken)).toEqual({ status: 'invalid' });
+      expect(db.findSessionsByUserId(userId)).toHaveLength(0);
+    });
+
+    it('should not affect other families on reuse', () => {
+      const { refreshToken: stolen } = issueAuthTokens(userId, client);
+      const { refreshToken: otherDevice } = issueAuthTokens(userId, client);
+      rotateRefreshToken(stolen);
+      rotateRefreshToken(stolen);
+
+      expect(rotateRefreshToken(otherDevice).status).toBe('ok');
+    });
+  });
+});
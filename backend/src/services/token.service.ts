@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+import {
+  findUserById,
+  createSession,
+  findSessionById,
+  updateSession,
+  createRefreshToken,
+  findRefreshTokenByHash,
+  updateRefreshToken,
+  revokeToken,
+  isTokenRevoked,
+  pruneRevokedTokens,
+} from '../database/db';
+import { AccessTokenPayload, ClientInfo, RefreshToken } from '../types/auth.types';
+import { generateToken, hashToken } from '../utils/crypto';
+import { endSession } from './session.service';
+import { cancelAccountDeletion } from './account-deletion.service';
+import { isEmailVerificationPending } from './email-verification.service';
+import { isAccountDisabled } from './user-admin.service';
+import { signJwt, verifyJwt } from './signing-key.service';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export type RefreshResult =
+  | { status: 'ok'; userId: string; tokens: AuthTokens }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+/**
+ * Signs a short-lived access token for the given user and session
+ * Every token gets a unique jti so it can be revoked individually.
+ */
+export const signAccessToken = (userId: string, sessionId: string): string => {
+  return signJwt({ userId, sid: sessionId, jti: crypto.randomUUID() }, authConfig.accessTokenTtlSeconds);
+};
+
+/**
+ * Signs an access token that lets an admin act as another user
+ * It is tied to the admin's own session, so it stops working when that session ends.
+ */
+export const signImpersonationToken = (userId: string, actorId: string, actorSessionId: string): string => {
+  return signJwt(
+    { userId, actorId, sid: actorSessionId, jti: crypto.randomUUID() },
+    authConfig.impersonationTtlSeconds
+  );
+};
+
+/**
+ * Verifies an access token's signature, issuer and expiry
+ * Throws if the token is invalid; revocation is checked separately
+ */
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  return verifyJwt(token) as unknown as AccessTokenPayload;
+};
+
+export const isAccessTokenRevoked = (payload: AccessTokenPayload): boolean => {
+  return !!payload.jti && isTokenRevoked(payload.jti);
+};
+
+/**
+ * Adds an access token to the revocation list until it would have expired anyway
+ * Expired entries are pruned at the same time so the list stays small.
+ */
+export const revokeAccessToken = (payload: AccessTokenPayload): void => {
+  if (!payload.jti || !payload.exp) {
+    return;
+  }
+  pruneRevokedTokens();
+  revokeToken(payload.jti, new Date(payload.exp * 1000).toISOString());
+};
+
+const issueRefreshToken = (userId: string, familyId: string): { refreshToken: string; record: RefreshToken } => {
+  const refreshToken = generateToken();
+  const record = createRefreshToken({
+    userId,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + authConfig.refreshTokenTtlMs).toISOString(),
+  });
+  return { refreshToken, record };
+};
+
+/**
+ * Starts a new session and issues its access token and first refresh token
+ * Signing in during the grace period of an account deletion cancels the deletion.
+ */
+export const issueAuthTokens = (userId: string, client: ClientInfo): AuthTokens => {
+  cancelAccountDeletion(userId);
+
+  const sessionId = crypto.randomUUID();
+  createSession({
+    id: sessionId,
+    userId,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    expiresAt: new Date(Date.now() + authConfig.refreshTokenTtlMs).toISOString(),
+  });
+  const { refreshToken } = issueRefreshToken(userId, sessionId);
+  return {
+    token: signAccessToken(userId, sessionId),
+    refreshToken,
+  };
+};
+
+/**
+ * Exchanges a refresh token for a new access/refresh token pair
+ * Each refresh token can be used once. Presenting one that was already
+ * rotated means it was copied, so the whole family is revoked.
+ */
+export const rotateRefreshToken = (refreshToken: string): RefreshResult => {
+  const record = findRefreshTokenByHash(hashToken(refreshToken));
+
+  if (!record || record.revokedAt) {
+    return { status: 'invalid' };
+  }
+
+  if (record.replacedBy) {
+    endSession(record.familyId);
+    return { status: 'reused' };
+  }
+
+  const session = findSessionById(record.familyId);
+  if (!session || new Date(record.expiresAt).getTime() <= Date.now()) {
+    return { status: 'invalid' };
+  }
+
+  // The account must still be allowed to sign in, as it was at login
+  const user = findUserById(record.userId);
+  if (!user || isAccountDisabled(user) || isEmailVerificationPending(user)) {
+    return { status: 'invalid' };
+  }
+
+  const next = issueRefreshToken(record.userId, record.familyId);
+  updateRefreshToken(record.id, { replacedBy: next.record.id });
+  updateSession(session.id, {
+    lastSeenAt: new Date().toISOString(),
+    expiresAt: next.record.expiresAt,
+  });
+
+  return {
+    status: 'ok',
+    userId: record.userId,
+    tokens: {
+      token: signAccessToken(record.userId, session.id),
+      refreshToken: next.refreshToken,
+    },
+  };
+};
+
+/**
+ * Ends the session a refresh token belongs to
+ * Unknown tokens are ignored so logout stays idempotent.
+ */
+export const revokeRefreshToken = (refreshToken: string): void => {
+  const record = findRefreshTokenByHash(hashToken(refreshToken));
+  if (record) {
+    endSession(record.familyId);
+  }
+};
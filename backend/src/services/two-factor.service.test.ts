@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  verifySecondFactor,
+  startMfaChallenge,
+  completeMfaChallenge,
+} from './two-factor.service';
+import { authConfig } from '../config/auth.config';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { generateTotp } from '../utils/totp';
+import { User } from '../types/user.types';
+
+describe('Two-Factor Service', () => {
+  let user: User;
+
+  const reload = (): User => db.findUserById(user.id)!;
+
+  const enrol = (): { secret: string; recoveryCodes: string[] } => {
+    const { secret } = beginTwoFactorSetup(user);
+    const recoveryCodes = confirmTwoFactorSetup(reload(), generateTotp(secret));
+    return { secret, recoveryCodes: recoveryCodes! };
+  };
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    user = db.createUser(createTestUserData({ email: 'mfa@example.com' }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and otpauth URI without enabling 2FA', () => {
+      const setup = beginTwoFactorSetup(user);
+
+      expect(setup.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(setup.otpauthUri).toContain(`secret=${setup.secret}`);
+      expect(setup.otpauthUri).toContain(encodeURIComponent('mfa@example.com'));
+      expect(reload().twoFactorEnabled).toBeFalsy();
+      expect(reload().twoFactorPendingSecret).toBe(setup.secret);
+    });
+
+    it('should enable 2FA and store only hashed recovery codes on confirmation', () => {
+      const { secret, recoveryCodes } = enrol();
+
+      const stored = reload();
+      expect(stored.twoFactorEnabled).toBe(true);
+      expect(stored.twoFactorSecret).toBe(secret);
+      expect(stored.twoFactorPendingSecret).toBeUndefined();
+      expect(recoveryCodes).toHaveLength(authConfig.recoveryCodeCount);
+      expect(stored.recoveryCodeHashes).toHaveLength(authConfig.recoveryCodeCount);
+      expect(stored.recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should not enable 2FA with a wrong code', () => {
+      beginTwoFactorSetup(user);
+
+      expect(confirmTwoFactorSetup(reload(), '000000')).toBeNull();
+      expect(reload().twoFactorEnabled).toBeFalsy();
+    });
+
+    it('should clear all 2FA data when disabled', () => {
+      enrol();
+      disableTwoFactor(user.id);
+
+      const stored = reload();
+      expect(stored.twoFactorEnabled).toBe(false);
+      expect(stored.twoFactorSecret).toBeUndefined();
+      expect(stored.recoveryCodeHashes).toBeUndefined();
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should not accept the same TOTP code twice', () => {
+      vi.useFakeTimers();
+      const { secret } = enrol();
+
+      vi.advanceTimersByTime(30000);
+      const code = generateTotp(secret);
+
+      expect(verifySecondFactor(reload(), code)).toBe(true);
+      expect(verifySecondFactor(reload(), code)).toBe(false);
+    });
+
+    it('should accept each recovery code once, ignoring case and dashes', () => {
+      const { recoveryCodes } = enrol();
+      const code = recoveryCodes[0];
+
+      expect(verifySecondFactor(reload(), code.replace('-', '').toUpperCase())).toBe(true);
+      expect(verifySecondFactor(reload(), code)).toBe(false);
+      expect(reload().recoveryCodeHashes).toHaveLength(authConfig.recoveryCodeCount - 1);
+    });
+
+    it('should reject codes for users without 2FA', () => {
+      expect(verifySecondFactor(user, '123456')).toBe(false);
+    });
+  });
+
+  describe('MFA challenge', () => {
+    const ip = '10.0.0.1';
+
+    // Waits out the login backoff after each wrong code, so only the attempt limits come into play
+    const guessWrong = (mfaToken: string) => {
+      const result = completeMfaChallenge(mfaToken, '000000', ip);
+      vi.advanceTimersByTime(authConfig.loginBackoffMaxMs);
+      return result;
+    };
+
+    it('should complete login with a valid code and then be used up', () => {
+      const { recoveryCodes } = enrol();
+      const mfaToken = startMfaChallenge(user.id);
+
+      const result = completeMfaChallenge(mfaToken, recoveryCodes[0], ip);
+
+      expect(result.status).toBe('ok');
+      expect(completeMfaChallenge(mfaToken, recoveryCodes[1], ip).status).toBe('invalid_challenge');
+    });
+
+    it('should allow retries until the attempt limit is reached', () => {
+      vi.useFakeTimers();
+      const { recoveryCodes } = enrol();
+      const mfaToken = startMfaChallenge(user.id);
+
+      for (let i = 0; i < authConfig.mfaMaxAttempts - 1; i++) {
+        expect(guessWrong(mfaToken).status).toBe('invalid_code');
+      }
+      expect(completeMfaChallenge(mfaToken, recoveryCodes[0], ip).status).toBe('ok');
+    });
+
+    it('should use up the challenge after too many wrong codes', () => {
+      vi.useFakeTimers();
+      const { recoveryCodes } = enrol();
+      const mfaToken = startMfaChallenge(user.id);
+
+      for (let i = 0; i < authConfig.mfaMaxAttempts; i++) {
+        guessWrong(mfaToken);
+      }
+
+      expect(completeMfaChallenge(mfaToken, recoveryCodes[0], ip).status).toBe('invalid_challenge');
+    });
+
+    it('should lock the account once wrong codes add up across fresh challenges', () => {
+      vi.useFakeTimers();
+      const { recoveryCodes } = enrol();
+
+      for (let i = 0; i < authConfig.loginMaxAccountFailures; i++) {
+        expect(guessWrong(startMfaChallenge(user.id)).status).toBe('invalid_code');
+      }
+
+      expect(completeMfaChallenge(startMfaChallenge(user.id), recoveryCodes[0], ip).status).toBe('locked');
+    });
+
+    it('should slow down wrong codes like wrong passwords', () => {
+      enrol();
+      const mfaToken = startMfaChallenge(user.id);
+
+      for (let i = 0; i < authConfig.loginBackoffAfterFailures; i++) {
+        expect(completeMfaChallenge(mfaToken, '000000', ip).status).toBe('invalid_code');
+      }
+
+      expect(completeMfaChallenge(mfaToken, '000000', ip).status).toBe('throttled');
+    });
+
+    it('should reject expired challenges', () => {
+      vi.useFakeTimers();
+      const { recoveryCodes } = enrol();
+      const mfaToken = startMfaChallenge(user.id);
+
+      vi.advanceTimersByTime(authConfig.mfaChallengeTtlMs + 1000);
+
+      expect(completeMfaChallenge(mfaToken, recoveryCodes[0], ip).status).toBe('invalid_challenge');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+import { findUserById, updateUser, updateActionToken } from '../database/db';
+import { User } from '../types/user.types';
+import { hashToken } from '../utils/crypto';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { issueActionToken, findActiveActionToken } from './action-token.service';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess, LoginThrottleResult } from './login-throttle.service';
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type MfaChallengeResult =
+  | { status: 'ok'; user: User }
+  | { status: 'invalid_challenge' }
+  | { status: 'invalid_code'; userId: string }
+  | Exclude<LoginThrottleResult, { status: 'allowed' }>;
+
+/**
+ * Recovery codes are compared case-insensitively, with or without the dash
+ */
+const hashRecoveryCode = (code: string): string => {
+  return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ''));
+};
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: authConfig.recoveryCodeCount }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+};
+
+/**
+ * Starts enrollment by generating a secret for the user's authenticator app
+ * 2FA stays off until the user proves the app works with confirmTwoFactorSetup.
+ */
+export const beginTwoFactorSetup = (user: User): TwoFactorSetup => {
+  const secret = generateTotpSecret();
+  updateUser(user.id, { twoFactorPendingSecret: secret });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, authConfig.totpIssuer),
+  };
+};
+
+/**
+ * Enables 2FA once the user enters a valid code for the pending secret
+ * Returns the plain recovery codes, which are only ever shown this once, or null if the code is wrong.
+ */
+export const confirmTwoFactorSetup = (user: User, code: string): string[] | null => {
+  const secret = user.twoFactorPendingSecret;
+  if (!secret) {
+    return null;
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  updateUser(user.id, {
+    twoFactorEnabled: true,
+    twoFactorSecret: secret,
+    twoFactorPendingSecret: undefined,
+    twoFactorLastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+  });
+
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = (userId: string): void => {
+  updateUser(userId, {
+    twoFactorEnabled: false,
+    twoFactorSecret: undefined,
+    twoFactorPendingSecret: undefined,
+    twoFactorLastUsedStep: undefined,
+    recoveryCodeHashes: undefined,
+  });
+};
+
+/**
+ * Checks a TOTP code or a recovery code for a user with 2FA enabled
+ * A TOTP code is accepted once per time step and a recovery code only once overall.
+ */
+export const verifySecondFactor = (user: User, code: string): boolean => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    if (user.twoFactorLastUsedStep !== undefined && step <= user.twoFactorLastUsedStep) {
+      return false;
+    }
+    updateUser(user.id, { twoFactorLastUsedStep: step });
+    return true;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  const remaining = user.recoveryCodeHashes || [];
+  if (!remaining.includes(codeHash)) {
+    return false;
+  }
+
+  updateUser(user.id, { recoveryCodeHashes: remaining.filter(hash => hash !== codeHash) });
+  return true;
+};
+
+/**
+ * Issues the short-lived challenge returned by login in place of the session tokens
+ */
+export const startMfaChallenge = (userId: string): string => {
+  return issueActionToken(userId, 'mfa_challenge', authConfig.mfaChallengeTtlMs);
+};
+
+/**
+ * Completes login with the second factor
+ * A challenge survives a few wrong codes and is used up after mfaMaxAttempts failures. Wrong codes
+ * also count as failed logins, so starting fresh challenges with the password does not allow more guesses.
+ */
+export const completeMfaChallenge = (mfaToken: string, code: string, ip: string): MfaChallengeResult => {
+  const challenge = findActiveActionToken(mfaToken, 'mfa_challenge');
+  if (!challenge) {
+    return { status: 'invalid_challenge' };
+  }
+
+  const user = findUserById(challenge.userId);
+  if (!user) {
+    return { status: 'invalid_challenge' };
+  }
+
+  const throttle = checkLoginAllowed(user.email, ip);
+  if (throttle.status !== 'allowed') {
+    return throttle;
+  }
+
+  const now = new Date().toISOString();
+
+  if (!verifySecondFactor(user, code)) {
+    const attempts = (challenge.attempts || 0) + 1;
+    updateActionToken(challenge.id, attempts >= authConfig.mfaMaxAttempts ? { attempts, usedAt: now } : { attempts });
+    recordLoginFailure(user.email, ip);
+    return { status: 'invalid_code', userId: user.id };
+  }
+
+  updateActionToken(challenge.id, { usedAt: now });
+  recordLoginSuccess(user.email);
+  return { status: 'ok', user };
+};
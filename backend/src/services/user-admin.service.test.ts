@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+  searchUsers,
+  disableAccount,
+  enableAccount,
+  isAccountDisabled,
+  requirePasswordReset,
+  deleteUserAccount,
+} from './user-admin.service';
+import { issueAuthTokens } from './token.service';
+import { issuePersonalAccessToken } from './personal-access-token.service';
+import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from '../test/db-test-helper';
+import { setupTestOutbox, teardownTestOutbox, getOutboxMessages, getLatestTokenFromOutbox, flushMail } from '../test/mail-test-helper';
+import { createTestUserData } from '../test/test-data-factory';
+import * as db from '../database/db';
+import { User } from '../types/user.types';
+
+describe('User Admin Service', () => {
+  const client = { userAgent: 'vitest', ip: '127.0.0.1' };
+  let user: User;
+
+  beforeEach(() => {
+    setupTestDatabase();
+    clearTestDatabase();
+    setupTestOutbox();
+    user = db.createUser(createTestUserData({ email: 'managed@example.com', name: 'Managed User' }));
+  });
+
+  afterEach(() => {
+    teardownTestOutbox();
+  });
+
+  afterAll(() => {
+    teardownTestDatabase();
+  });
+
+  describe('searchUsers', () => {
+    it('should page through all users', () => {
+      for (let i = 0; i < 4; i++) {
+        db.createUser(createTestUserData());
+      }
+
+      const first = searchUsers({ page: 1, pageSize: 2 });
+      const second = searchUsers({ page: 2, pageSize: 2 });
+      const third = searchUsers({ page: 3, pageSize: 2 });
+
+      expect(first.total).toBe(5);
+      expect([first.users.length, second.users.length, third.users.length]).toEqual([2, 2, 1]);
+      const ids = [...first.users, ...second.users, ...third.users].map(found => found.id);
+      expect(new Set(ids).size).toBe(5);
+    });
+
+    it('should match email or name without regard to case', () => {
+      db.createUser(createTestUserData({ email: 'someone@example.com', name: 'Someone Else' }));
+
+      expect(searchUsers({ page: 1, pageSize: 20, search: 'MANAGED@' }).users.map(found => found.id)).toEqual([user.id]);
+      expect(searchUsers({ page: 1, pageSize: 20, search: 'managed user' }).total).toBe(1);
+      expect(searchUsers({ page: 1, pageSize: 20, search: 'nobody' }).total).toBe(0);
+    });
+  });
+
+  describe('disableAccount', () => {
+    it('should record who disabled the account, end its sessions and revoke its tokens', () => {
+      issueAuthTokens(user.id, client);
+      issuePersonalAccessToken(user.id, { name: 'CI', scopes: ['profile:read'] });
+
+      const disabled = disableAccount(user.id, 'admin-1');
+
+      expect(disabled && isAccountDisabled(disabled)).toBe(true);
+      expect(disabled?.disabledBy).toBe('admin-1');
+      expect(db.findSessionsByUserId(user.id)).toHaveLength(0);
+      expect(db.findPersonalAccessTokensByUserId(user.id)).toHaveLength(0);
+    });
+
+    it('should be undone by enableAccount', () => {
+      disableAccount(user.id, 'admin-1');
+
+      const enabled = enableAccount(user.id);
+
+      expect(enabled && isAccountDisabled(enabled)).toBe(false);
+      expect(enabled?.disabledBy).toBeUndefined();
+    });
+
+    it('should return null for unknown users', () => {
+      expect(disableAccount('missing', 'admin-1')).toBeNull();
+    });
+  });
+
+  describe('requirePasswordReset', () => {
+    it('should replace the password, end sessions, revoke tokens and email a reset link', async () => {
+      issueAuthTokens(user.id, client);
+      issuePersonalAccessToken(user.id, { name: 'CI', scopes: ['profile:read'] });
+
+      await requirePasswordReset(user.id);
+      await flushMail();
+
+      expect(db.findUserById(user.id)?.password).not.toBe(user.password);
+      expect(db.findSessionsByUserId(user.id)).toHaveLength(0);
+      expect(db.findPersonalAccessTokensByUserId(user.id)).toHaveLength(0);
+      expect(getOutboxMessages(user.email)[0].subject).toBe('Please choose a new password');
+      expect(getLatestTokenFromOutbox(user.email)).toBeTruthy();
+    });
+  });
+
+  describe('deleteUserAccount', () => {
+    it('should remove the user right away', () => {
+      expect(deleteUserAccount(user.id)).toBe(true);
+      expect(db.findUserById(user.id)).toBeUndefined();
+      expect(deleteUserAccount(user.id)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { authConfig } from '../config/auth.config';
+import { mailConfig } from '../config/mail.config';
+import { findUserById, updateUser, readUsers } from '../database/db';
+import { Role, User } from '../types/user.types';
+import { generateToken } from '../utils/crypto';
+import { paginate, Pagination } from '../utils/pagination';
+import { issueActionToken } from './action-token.service';
+import { purgeAccount } from './account-deletion.service';
+import { sendMailInBackground } from './mail.service';
+import { hashPassword } from './password-hasher.service';
+import { endOtherSessions } from './session.service';
+import { revokeAllPersonalAccessTokens } from './personal-access-token.service';
+
+export interface UserListOptions extends Pagination {
+  search?: string;
+}
+
+export interface UserListPage {
+  users: User[];
+  total: number;
+}
+
+export const isAccountDisabled = (user: User): boolean => {
+  return !!user.disabledAt;
+};
+
+/**
+ * Lists users, newest first, optionally filtered by a case-insensitive match on email or name
+ */
+export const searchUsers = ({ search, ...pagination }: UserListOptions): UserListPage => {
+  const term = search?.trim().toLowerCase();
+  const matches = readUsers()
+    .filter(user => !term || user.email.toLowerCase().includes(term) || user.name.toLowerCase().includes(term))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    users: paginate(matches, pagination),
+    total: matches.length,
+  };
+};
+
+/**
+ * Blocks the account from signing in, ends all of its sessions and revokes its access tokens
+ */
+export const disableAccount = (userId: string, actorId: string): User | null => {
+  const user = updateUser(userId, { disabledAt: new Date().toISOString(), disabledBy: actorId });
+  if (!user) {
+    return null;
+  }
+
+  endOtherSessions(user.id);
+  revokeAllPersonalAccessTokens(user.id);
+  return user;
+};
+
+export const enableAccount = (userId: string): User | null => {
+  return updateUser(userId, { disabledAt: undefined, disabledBy: undefined });
+};
+
+export const changeUserRole = (userId: string, role: Role): User | null => {
+  return updateUser(userId, { role });
+};
+
+/**
+ * Makes the user choose a new password
+ * The current password stops working, every session and access token is revoked and a reset link is emailed.
+ */
+export const requirePasswordReset = async (userId: string): Promise<User | null> => {
+  const unusablePassword = await hashPassword(generateToken());
+  const user = updateUser(userId, { password: unusablePassword });
+  if (!user) {
+    return null;
+  }
+
+  endOtherSessions(user.id);
+  revokeAllPersonalAccessTokens(user.id);
+
+  const token = issueActionToken(user.id, 'password_reset', authConfig.passwordResetTtlMs);
+  const minutes = Math.round(authConfig.passwordResetTtlMs / 60000);
+
+  sendMailInBackground({
+    to: user.email,
+    subject: 'Please choose a new password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'An administrator has reset your password and signed you out everywhere. Use the link below to choose a new one:',
+      `${mailConfig.appUrl}/reset-password?token=${token}`,
+      '',
+      `The link expires in ${minutes} minutes and can only be used once.`,
+      'You can also request a new link from the login page at any time.',
+    ].join('\n'),
+  });
+
+  return user;
+};
+
+/**
+ * Deletes the account right away, without the grace period of a self-service deletion
+ */
+export const deleteUserAccount = (userId: string): boolean => {
+  const user = findUserById(userId);
+  if (!user) {
+    return false;
+  }
+
+  purgeAccount(user);
+  return true;
+};
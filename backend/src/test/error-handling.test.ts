@@ -78,7 +78,7 @@ describe('Error Handling Edge Cases', () => {
         .set('Content-Type', 'application/json')
         .send({
           email: 12345, // Number instead of string
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Test User',
         })
         .expect((res) => {
@@ -95,7 +95,7 @@ describe('Error Handling Edge Cases', () => {
       const response = await request(app)
         .post('/api/auth/register')
         // No Content-Type header
-        .send('email=test@test.com&password=password123&name=Test User')
+        .send('email=test@test.com&password=quiet-harbor-42&name=Test User')
         .expect((res) => {
           // Express might parse as text or return error
           expect([200, 201, 400, 415, 500]).toContain(res.status);
@@ -108,7 +108,7 @@ describe('Error Handling Edge Cases', () => {
       const response = await request(app)
         .post('/api/auth/register')
         .set('Content-Type', 'text/plain')
-        .send('email=test@test.com&password=password123&name=Test User')
+        .send('email=test@test.com&password=quiet-harbor-42&name=Test User')
         .expect((res) => {
           // Express might not parse JSON without correct Content-Type
           expect([200, 201, 400, 415, 500]).toContain(res.status);
@@ -155,7 +155,7 @@ describe('Error Handling Edge Cases', () => {
     it('should handle extremely large JSON payload', async () => {
       const hugePayload = {
         email: 'test@example.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Test User',
         extraData: 'x'.repeat(1000000), // 1MB of data
       };
@@ -194,7 +194,7 @@ describe('Error Handling Edge Cases', () => {
         .post('/api/auth/register')
         .send({
           email: null,
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Test User',
         })
         .expect(400); // null is falsy, validation fails
@@ -221,7 +221,7 @@ describe('Error Handling Edge Cases', () => {
         .post('/api/auth/register')
         .send({
           email: ['test@example.com'],
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Test User',
         })
         .expect((res) => {
@@ -237,7 +237,7 @@ describe('Error Handling Edge Cases', () => {
         .post('/api/auth/register')
         .send({
           email: { value: 'test@example.com' },
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Test User',
         })
         .expect((res) => {
@@ -269,7 +269,7 @@ describe('Error Handling Edge Cases', () => {
         .post('/api/auth/register')
         .send({
           email: 12345,
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Test User',
         })
         .expect((res) => {
@@ -288,7 +288,7 @@ describe('Error Handling Edge Cases', () => {
       // Register a user for profile tests
       const userData = {
         email: 'profileerror@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Profile Error Test',
       };
 
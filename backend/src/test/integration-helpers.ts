@@ -1,6 +1,12 @@
 import express, { Express } from 'express';
 import authRoutes from '../routes/auth.routes';
 import profileRoutes from '../routes/profile.routes';
+import mockOidcRoutes from '../routes/mock-oidc.routes';
+import devOutboxRoutes from '../routes/dev-outbox.routes';
+import wellKnownRoutes from '../routes/well-known.routes';
+import adminRoutes from '../routes/admin.routes';
+import { csrfProtection } from '../middleware/csrf.middleware';
+import { cookieConfig } from '../config/cookie.config';
 
 /**
  * Creates a test Express app with all routes and middleware
@@ -15,9 +21,18 @@ export function createTestApp(): Express {
 
   // CORS middleware (same as production)
   app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
+    // Cookie sessions need credentialed requests, which browsers only allow for an explicitly named origin
+    const origin = req.headers.origin;
+    if (origin && cookieConfig.allowedOrigins.includes(origin)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Credentials', 'true');
+      res.header('Vary', 'Origin');
+    } else {
+      res.header('Access-Control-Allow-Origin', '*');
+    }
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Auth-Mode, X-CSRF-Token');
+    res.header('Access-Control-Expose-Headers', 'RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After');
     if (req.method === 'OPTIONS') {
       res.sendStatus(200);
     } else {
@@ -34,9 +49,20 @@ export function createTestApp(): Express {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
+  app.use('/.well-known', wellKnownRoutes);
+
+  // Rate limiting is left out so tests can make many requests from one address;
+  // the limiter has its own tests
+
+  // Cookie sessions must prove state-changing requests come from the app itself
+  app.use('/api', csrfProtection);
+
   // API Routes
   app.use('/api/auth', authRoutes);
   app.use('/api/profile', profileRoutes);
+  app.use('/api/admin', adminRoutes);
+  app.use('/api/mock-oidc', mockOidcRoutes);
+  app.use('/api/dev/outbox', devOutboxRoutes);
 
   return app;
 }
@@ -1,9 +1,19 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from 'vitest';
 import request from 'supertest';
 import { createTestApp } from './integration-helpers';
 import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from './db-test-helper';
+import { setupTestOutbox, clearTestOutbox, teardownTestOutbox, getOutboxMessages, getLatestTokenFromOutbox, flushMail } from './mail-test-helper';
 import { generateUniqueEmail, createTestUserData, resetTestCounter } from './test-data-factory';
 import * as db from '../database/db';
+import { authConfig } from '../config/auth.config';
+import { exportConfig } from '../config/export.config';
+import { passwordHashConfig } from '../config/password-hash.config';
+import { generateTotp } from '../utils/totp';
+import { SoftwareAuthenticator } from './webauthn-test-helper';
+import { registerOAuthProvider, unregisterOAuthProvider } from '../services/oauth-provider.service';
+import { MockOidcProvider, MOCK_PROVIDER_NAME, getMockOidcServer } from '../services/mock-oidc.service';
+import { purgeDueAccounts } from '../services/account-deletion.service';
+import { rotateSigningKey } from '../services/signing-key.service';
 
 describe('Backend Integration Tests', () => {
   const app = createTestApp();
@@ -11,15 +21,18 @@ describe('Backend Integration Tests', () => {
   beforeEach(() => {
     setupTestDatabase();
     clearTestDatabase();
+    setupTestOutbox();
     resetTestCounter();
   });
 
   afterEach(() => {
     clearTestDatabase();
+    clearTestOutbox();
   });
 
   afterAll(() => {
     teardownTestDatabase();
+    teardownTestOutbox();
   });
 
   describe('Health and Root Endpoints', () => {
@@ -193,7 +206,7 @@ describe('Backend Integration Tests', () => {
         .set('Content-Type', 'application/json')
         .send({
           email: 'json@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'JSON Test',
         })
         .expect((res) => {
@@ -207,7 +220,7 @@ describe('Backend Integration Tests', () => {
       const response = await request(app)
         .post('/api/auth/register')
         .set('Content-Type', 'application/x-www-form-urlencoded')
-        .send('email=urlencoded@test.com&password=password123&name=URL+Encoded')
+        .send('email=urlencoded@test.com&password=quiet-harbor-42&name=URL+Encoded')
         .expect((res) => {
           // Should parse urlencoded correctly
           expect(res.status).not.toBe(400);
@@ -234,7 +247,7 @@ describe('Backend Integration Tests', () => {
   describe('Complete Authentication Flow', () => {
     it('should register a new user successfully', async () => {
       const userData = createTestUserData({
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Integration Test User',
       });
 
@@ -262,7 +275,7 @@ describe('Backend Integration Tests', () => {
     it('should login with registered user credentials', async () => {
       // First register a user
       const userData = createTestUserData({
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Login Test User',
       });
 
@@ -292,7 +305,7 @@ describe('Backend Integration Tests', () => {
     it('should fail login with wrong password', async () => {
       // Register a user
       const userData = createTestUserData({
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Wrong Pass User',
       });
 
@@ -319,7 +332,7 @@ describe('Backend Integration Tests', () => {
         .post('/api/auth/login')
         .send({
           email: 'nonexistent@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
         })
         .expect(401);
 
@@ -337,6 +350,1767 @@ describe('Backend Integration Tests', () => {
     });
   });
 
+  describe('Refresh Token Flow', () => {
+    it('should return a refresh token on register and login', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(userData)
+        .expect(201);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: userData.password })
+        .expect(200);
+
+      expect(typeof registerResponse.body.refreshToken).toBe('string');
+      expect(typeof loginResponse.body.refreshToken).toBe('string');
+      expect(loginResponse.body.refreshToken).not.toBe(registerResponse.body.refreshToken);
+    });
+
+    it('should exchange a refresh token for a working access token', async () => {
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: registerResponse.body.refreshToken })
+        .expect(200);
+
+      expect(refreshResponse.body).toHaveProperty('token');
+      expect(refreshResponse.body).toHaveProperty('refreshToken');
+      expect(refreshResponse.body.refreshToken).not.toBe(registerResponse.body.refreshToken);
+
+      const profileResponse = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${refreshResponse.body.token}`)
+        .expect(200);
+
+      expect(profileResponse.body.id).toBe(registerResponse.body.user.id);
+    });
+
+    it('should reject a missing refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe('Refresh token is required');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'made-up-token' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Invalid or expired refresh token');
+    });
+
+    it('should detect reuse and revoke the whole token family', async () => {
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const original = registerResponse.body.refreshToken;
+
+      const firstRefresh = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: original })
+        .expect(200);
+
+      // Replaying the already-rotated token is treated as theft
+      const replay = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: original })
+        .expect(401);
+
+      expect(replay.body.error).toContain('reuse detected');
+
+      // The token handed out by the first refresh is revoked too
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: firstRefresh.body.refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('Session Management Flow', () => {
+    const registerAndLoginTwice = async () => {
+      const userData = createTestUserData();
+
+      const first = await request(app)
+        .post('/api/auth/register')
+        .set('User-Agent', 'Laptop Browser')
+        .send(userData)
+        .expect(201);
+
+      const second = await request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', 'Phone App')
+        .send({ email: userData.email, password: userData.password })
+        .expect(200);
+
+      return { laptop: first.body, phone: second.body };
+    };
+
+    it('should list the caller\'s sessions with device details', async () => {
+      const { laptop } = await registerAndLoginTwice();
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(2);
+      const current = response.body.sessions.find((session: any) => session.current);
+      expect(current.userAgent).toBe('Laptop Browser');
+      expect(current).toHaveProperty('createdAt');
+      expect(current).toHaveProperty('lastSeenAt');
+      expect(current).toHaveProperty('ip');
+      expect(response.body.sessions.filter((session: any) => session.current)).toHaveLength(1);
+    });
+
+    it('should not list sessions of other users', async () => {
+      await registerAndLoginTwice();
+      const other = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${other.body.token}`)
+        .expect(200);
+
+      expect(response.body.sessions).toHaveLength(1);
+    });
+
+    it('should require authentication to list sessions', async () => {
+      await request(app)
+        .get('/api/auth/sessions')
+        .expect(401);
+    });
+
+    it('should revoke a single session and lock out its tokens', async () => {
+      const { laptop, phone } = await registerAndLoginTwice();
+
+      const list = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+      const phoneSession = list.body.sessions.find((session: any) => !session.current);
+
+      await request(app)
+        .delete(`/api/auth/sessions/${phoneSession.id}`)
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+
+      const rejected = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${phone.token}`)
+        .expect(401);
+      expect(rejected.body.error).toBe('Session has expired or been revoked');
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: phone.refreshToken })
+        .expect(401);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+    });
+
+    it('should return 404 when revoking another user\'s session', async () => {
+      const { laptop } = await registerAndLoginTwice();
+      const other = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const list = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/auth/sessions/${list.body.sessions[0].id}`)
+        .set('Authorization', `Bearer ${other.body.token}`)
+        .expect(404);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+    });
+
+    it('should revoke all other sessions', async () => {
+      const { laptop, phone } = await registerAndLoginTwice();
+
+      const response = await request(app)
+        .delete('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+
+      expect(response.body.revoked).toBe(1);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${phone.token}`)
+        .expect(401);
+
+      const list = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+      expect(list.body.sessions).toHaveLength(1);
+      expect(list.body.sessions[0].current).toBe(true);
+    });
+
+    it('should end the session on logout', async () => {
+      const { laptop, phone } = await registerAndLoginTwice();
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${phone.token}`)
+        .expect(200);
+
+      const list = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.token}`)
+        .expect(200);
+      expect(list.body.sessions).toHaveLength(1);
+    });
+  });
+
+  describe('Password Reset Flow', () => {
+    const registerUser = async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send(userData)
+        .expect(201);
+      return { userData, tokens: response.body };
+    };
+
+    it('should reset the password using the emailed link', async () => {
+      const { userData } = await registerUser();
+
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email })
+        .expect(200);
+
+      const messages = getOutboxMessages(userData.email);
+      expect(messages[messages.length - 1].subject).toBe('Reset your password');
+      const token = getLatestTokenFromOutbox(userData.email);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'brandnew456' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'brandnew456' })
+        .expect(200);
+    });
+
+    it('should respond identically for unknown emails and send nothing', async () => {
+      const { userData } = await registerUser();
+
+      const known = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email })
+        .expect(200);
+
+      const unknown = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@test.com' })
+        .expect(200);
+
+      expect(unknown.body).toEqual(known.body);
+      expect(getOutboxMessages('nobody@test.com')).toHaveLength(0);
+    });
+
+    it('should only allow a reset token to be used once', async () => {
+      const { userData } = await registerUser();
+
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email })
+        .expect(200);
+      const token = getLatestTokenFromOutbox(userData.email);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'brandnew456' })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'another789' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid or expired reset token');
+    });
+
+    it('should only accept the most recent reset link', async () => {
+      const { userData } = await registerUser();
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const firstToken = getLatestTokenFromOutbox(userData.email);
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: firstToken, password: 'brandnew456' })
+        .expect(400);
+    });
+
+    it('should reject a weak new password without using up the token', async () => {
+      const { userData } = await registerUser();
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const token = getLatestTokenFromOutbox(userData.email);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'weak' })
+        .expect(400);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'brandnew456' })
+        .expect(200);
+    });
+
+    it('should sign out existing sessions after a reset', async () => {
+      const { userData, tokens } = await registerUser();
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const token = getLatestTokenFromOutbox(userData.email);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'brandnew456' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${tokens.token}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('Email Verification Flow', () => {
+    afterEach(() => {
+      authConfig.requireEmailVerification = false;
+    });
+
+    it('should send a verification email on registration and verify the address', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app)
+        .post('/api/auth/register')
+        .send(userData)
+        .expect(201);
+
+      const [message] = getOutboxMessages(userData.email);
+      expect(message.subject).toBe('Verify your email address');
+
+      const before = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(200);
+      expect(before.body.emailVerified).toBe(false);
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: getLatestTokenFromOutbox(userData.email) })
+        .expect(200);
+
+      const after = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(200);
+      expect(after.body.emailVerified).toBe(true);
+    });
+
+    it('should require verification again after an email change', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: getLatestTokenFromOutbox(userData.email) })
+        .expect(200);
+
+      const response = await request(app)
+        .put('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ email: 'changed@test.com' })
+        .expect(200);
+
+      expect(response.body.emailVerified).toBe(false);
+      expect(getOutboxMessages('changed@test.com')).toHaveLength(1);
+    });
+
+    it('should block login and profile access until verified when required', async () => {
+      authConfig.requireEmailVerification = true;
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(userData)
+        .expect(201);
+      expect(registerResponse.body).not.toHaveProperty('token');
+
+      const blocked = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(403);
+      expect(blocked.body.error).toBe('Please verify your email address before logging in');
+
+      await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: userData.email })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: getLatestTokenFromOutbox(userData.email) })
+        .expect(200);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${loginResponse.body.token}`)
+        .expect(200);
+    });
+
+    it('should reject an invalid verification token', async () => {
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'not-a-real-token' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid or expired verification token');
+    });
+
+    it('should respond identically to resend requests for unknown emails', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const known = await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: userData.email })
+        .expect(200);
+      const unknown = await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: 'nobody@test.com' })
+        .expect(200);
+
+      expect(unknown.body).toEqual(known.body);
+      expect(getOutboxMessages('nobody@test.com')).toHaveLength(0);
+    });
+  });
+
+  describe('Two-Factor Authentication Flow', () => {
+    const registerWithTwoFactor = async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const auth = `Bearer ${body.token}`;
+
+      const setup = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', auth)
+        .expect(200);
+      expect(setup.body.otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+
+      const confirm = await request(app)
+        .post('/api/auth/2fa/confirm')
+        .set('Authorization', auth)
+        .send({ code: generateTotp(setup.body.secret) })
+        .expect(200);
+
+      return { userData, auth, secret: setup.body.secret, recoveryCodes: confirm.body.recoveryCodes as string[] };
+    };
+
+    const loginWithPassword = (email: string) =>
+      request(app).post('/api/auth/login').send({ email, password: 'quiet-harbor-42' }).expect(200);
+
+    it('should require a second factor after enrollment', async () => {
+      const { userData, recoveryCodes } = await registerWithTwoFactor();
+
+      const loginResponse = await loginWithPassword(userData.email);
+      expect(loginResponse.body.mfaRequired).toBe(true);
+      expect(loginResponse.body).not.toHaveProperty('token');
+
+      const verifyResponse = await request(app)
+        .post('/api/auth/2fa/verify')
+        .send({ mfaToken: loginResponse.body.mfaToken, code: recoveryCodes[0] })
+        .expect(200);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${verifyResponse.body.token}`)
+        .expect(200);
+    });
+
+    it('should not accept the MFA challenge as an access token', async () => {
+      const { userData } = await registerWithTwoFactor();
+      const loginResponse = await loginWithPassword(userData.email);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${loginResponse.body.mfaToken}`)
+        .expect(401);
+    });
+
+    it('should reject a recovery code that was already used', async () => {
+      const { userData, recoveryCodes } = await registerWithTwoFactor();
+
+      const first = await loginWithPassword(userData.email);
+      await request(app)
+        .post('/api/auth/2fa/verify')
+        .send({ mfaToken: first.body.mfaToken, code: recoveryCodes[0] })
+        .expect(200);
+
+      const second = await loginWithPassword(userData.email);
+      await request(app)
+        .post('/api/auth/2fa/verify')
+        .send({ mfaToken: second.body.mfaToken, code: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it('should lock the account when wrong codes add up across fresh logins', async () => {
+      const backoffAfterFailures = authConfig.loginBackoffAfterFailures;
+      // Backoff is disabled here so the test does not have to wait between attempts
+      authConfig.loginBackoffAfterFailures = Infinity;
+      try {
+        const { userData } = await registerWithTwoFactor();
+
+        for (let i = 0; i < authConfig.loginMaxAccountFailures; i++) {
+          const login = await loginWithPassword(userData.email);
+          await request(app)
+            .post('/api/auth/2fa/verify')
+            .send({ mfaToken: login.body.mfaToken, code: '000000' })
+            .expect(401);
+        }
+
+        await request(app)
+          .post('/api/auth/login')
+          .send({ email: userData.email, password: 'quiet-harbor-42' })
+          .expect(423);
+      } finally {
+        authConfig.loginBackoffAfterFailures = backoffAfterFailures;
+      }
+    });
+
+    it('should log in with just the password after 2FA is disabled', async () => {
+      const { userData, auth, recoveryCodes } = await registerWithTwoFactor();
+
+      await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', auth)
+        .send({ password: 'quiet-harbor-42', code: recoveryCodes[0] })
+        .expect(200);
+
+      const loginResponse = await loginWithPassword(userData.email);
+      expect(loginResponse.body).toHaveProperty('token');
+    });
+  });
+
+  describe('Passkey Flow', () => {
+    const registerWithPasskey = async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const auth = `Bearer ${body.token}`;
+      const authenticator = new SoftwareAuthenticator();
+
+      const options = await request(app)
+        .post('/api/auth/passkeys/register/options')
+        .set('Authorization', auth)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/passkeys/register')
+        .set('Authorization', auth)
+        .send({ credential: authenticator.createCredential(options.body), name: 'Test key' })
+        .expect(201);
+
+      return { userData, auth, authenticator, userId: body.user.id };
+    };
+
+    const loginWithPasskey = async (authenticator: SoftwareAuthenticator) => {
+      const options = await request(app).post('/api/auth/passkeys/login/options').expect(200);
+      return request(app)
+        .post('/api/auth/passkeys/login')
+        .send({ credential: authenticator.getAssertion(options.body) });
+    };
+
+    it('should log in with a registered passkey and no password', async () => {
+      const { authenticator, userId } = await registerWithPasskey();
+
+      const response = await loginWithPasskey(authenticator);
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.id).toBe(userId);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${response.body.token}`)
+        .expect(200);
+    });
+
+    it('should list passkeys and stop accepting a deleted one', async () => {
+      const { auth, authenticator } = await registerWithPasskey();
+
+      const list = await request(app).get('/api/auth/passkeys').set('Authorization', auth).expect(200);
+      expect(list.body.passkeys).toHaveLength(1);
+      expect(list.body.passkeys[0].name).toBe('Test key');
+
+      await request(app)
+        .delete(`/api/auth/passkeys/${list.body.passkeys[0].id}`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      const response = await loginWithPasskey(authenticator);
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject a replayed assertion', async () => {
+      const { authenticator } = await registerWithPasskey();
+      const options = await request(app).post('/api/auth/passkeys/login/options').expect(200);
+      const credential = authenticator.getAssertion(options.body);
+
+      await request(app).post('/api/auth/passkeys/login').send({ credential }).expect(200);
+      await request(app).post('/api/auth/passkeys/login').send({ credential }).expect(401);
+    });
+
+    it('should not let users delete passkeys of other users', async () => {
+      const { auth } = await registerWithPasskey();
+      const other = await registerWithPasskey();
+      const list = await request(app).get('/api/auth/passkeys').set('Authorization', other.auth).expect(200);
+
+      await request(app)
+        .delete(`/api/auth/passkeys/${list.body.passkeys[0].id}`)
+        .set('Authorization', auth)
+        .expect(404);
+    });
+  });
+
+  describe('Brute-Force Protection', () => {
+    const backoffAfterFailures = authConfig.loginBackoffAfterFailures;
+
+    afterEach(() => {
+      authConfig.loginBackoffAfterFailures = backoffAfterFailures;
+    });
+
+    const attemptLogin = (email: string, password: string) =>
+      request(app).post('/api/auth/login').send({ email, password });
+
+    it('should slow down repeated failures with Retry-After', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      for (let i = 0; i < backoffAfterFailures; i++) {
+        await attemptLogin(userData.email, 'wrong-password').expect(401);
+      }
+      const throttled = await attemptLogin(userData.email, 'quiet-harbor-42').expect(429);
+
+      expect(throttled.headers['retry-after']).toBe('1');
+    });
+
+    it('should lock the account, even against the right password, without revealing whether it exists', async () => {
+      // Backoff is disabled here so the test does not have to wait between attempts
+      authConfig.loginBackoffAfterFailures = Infinity;
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      for (let i = 0; i < authConfig.loginMaxAccountFailures; i++) {
+        await attemptLogin(userData.email, 'wrong-password').expect(401);
+        await attemptLogin('nobody@example.com', 'wrong-password').expect(401);
+      }
+
+      const locked = await attemptLogin(userData.email, 'quiet-harbor-42').expect(423);
+      const unknown = await attemptLogin('nobody@example.com', 'quiet-harbor-42').expect(423);
+
+      expect(locked.headers['retry-after']).toBe(String(authConfig.loginLockoutMs / 1000));
+      expect(unknown.headers['retry-after']).toBe(locked.headers['retry-after']);
+      expect(unknown.body).toEqual(locked.body);
+    });
+
+    it('should unlock the account once the lockout expires', async () => {
+      authConfig.loginBackoffAfterFailures = Infinity;
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+      for (let i = 0; i < authConfig.loginMaxAccountFailures; i++) {
+        await attemptLogin(userData.email, 'wrong-password').expect(401);
+      }
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + authConfig.loginLockoutMs);
+      try {
+        await attemptLogin(userData.email, 'quiet-harbor-42').expect(200);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('OAuth Login Flow', () => {
+    beforeAll(() => {
+      registerOAuthProvider(new MockOidcProvider(getMockOidcServer()));
+    });
+
+    afterAll(() => {
+      unregisterOAuthProvider(MOCK_PROVIDER_NAME);
+    });
+
+    // Follows the redirects a browser would, signing in at the mock provider as the given address,
+    // and returns the callback's redirect to the frontend
+    const signInWithMockProvider = async (loginHint: string, stateCookie?: string) => {
+      const start = await request(app).get('/api/auth/oauth/mock/start').expect(302);
+      const authorizeUrl = new URL(start.headers.location);
+      expect(authorizeUrl.pathname).toBe('/api/mock-oidc/authorize');
+      authorizeUrl.searchParams.set('login_hint', loginHint);
+
+      const authorize = await request(app).get(`${authorizeUrl.pathname}${authorizeUrl.search}`).expect(302);
+      const callbackUrl = new URL(authorize.headers.location);
+      expect(callbackUrl.pathname).toBe('/api/auth/oauth/mock/callback');
+
+      const cookie = stateCookie ?? [start.headers['set-cookie']].flat()[0].split(';')[0];
+      const callback = await request(app)
+        .get(`${callbackUrl.pathname}${callbackUrl.search}`)
+        .set('Cookie', cookie)
+        .expect(302);
+      const appUrl = new URL(callback.headers.location);
+      expect(appUrl.pathname).toBe('/oauth/callback');
+
+      return { outcome: new URLSearchParams(appUrl.hash.slice(1)), callbackUrl, cookie };
+    };
+
+    // Completes the sign-in the way the frontend callback page does
+    const loginWithMockProvider = async (loginHint: string) => {
+      const { outcome } = await signInWithMockProvider(loginHint);
+      expect(outcome.get('error')).toBeNull();
+      return request(app).post('/api/auth/oauth/complete').send({ code: outcome.get('code') });
+    };
+
+    it('should create an account and log in through the provider', async () => {
+      const response = await loginWithMockProvider('social@example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.email).toBe('social@example.com');
+
+      const profile = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${response.body.token}`)
+        .expect(200);
+      expect(profile.body.emailVerified).toBe(true);
+    });
+
+    it('should link the provider account to an existing user', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const registered = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const first = await loginWithMockProvider(userData.email);
+      const second = await loginWithMockProvider(userData.email);
+
+      expect(first.status).toBe(200);
+      expect(first.body.user.id).toBe(registered.body.user.id);
+      expect(second.body.user.id).toBe(registered.body.user.id);
+    });
+
+    it('should reject a replayed callback', async () => {
+      const { outcome, callbackUrl, cookie } = await signInWithMockProvider('replay@example.com');
+      expect(outcome.get('code')).toBeTruthy();
+
+      const replay = await request(app)
+        .get(`${callbackUrl.pathname}${callbackUrl.search}`)
+        .set('Cookie', cookie)
+        .expect(302);
+
+      expect(new URLSearchParams(new URL(replay.headers.location).hash.slice(1)).get('error')).toBe(
+        'Sign-in request is invalid or has expired, please try again'
+      );
+    });
+
+    it('should not finish a sign-in started in another browser', async () => {
+      const { outcome } = await signInWithMockProvider('csrf@example.com', 'oauth_state=someone-elses-state');
+
+      expect(outcome.get('code')).toBeNull();
+      expect(outcome.get('error')).toBe('Sign-in request is invalid or has expired, please try again');
+    });
+
+    it('should only accept a login code once', async () => {
+      const { outcome } = await signInWithMockProvider('code-once@example.com');
+
+      await request(app).post('/api/auth/oauth/complete').send({ code: outcome.get('code') }).expect(200);
+      await request(app).post('/api/auth/oauth/complete').send({ code: outcome.get('code') }).expect(401);
+    });
+
+    it('should return 404 for an unknown provider', async () => {
+      const response = await request(app).get('/api/auth/oauth/unknown/start').expect(404);
+
+      expect(response.body.error).toBe('Unknown identity provider');
+    });
+
+    it('should serve the mock provider discovery document and keys', async () => {
+      const discovery = await request(app).get('/api/mock-oidc/.well-known/openid-configuration').expect(200);
+      const jwks = await request(app).get('/api/mock-oidc/jwks').expect(200);
+
+      expect(discovery.body.code_challenge_methods_supported).toEqual(['S256']);
+      expect(jwks.body.keys[0].kty).toBe('RSA');
+    });
+  });
+
+  describe('Change Password Flow', () => {
+    it('should change the password and sign out other sessions only', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const current = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const other = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+
+      const response = await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', `Bearer ${current.body.token}`)
+        .send({ currentPassword: 'quiet-harbor-42', newPassword: 'newpassword456' })
+        .expect(200);
+
+      expect(response.body.revoked).toBe(1);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${current.body.token}`).expect(200);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${other.body.token}`).expect(401);
+      await request(app).post('/api/auth/refresh').send({ refreshToken: other.body.refreshToken }).expect(401);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(401);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'newpassword456' })
+        .expect(200);
+    });
+
+    it('should reject a wrong current password or an unchanged password', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const auth = `Bearer ${body.token}`;
+
+      await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', auth)
+        .send({ currentPassword: 'wrongpassword1', newPassword: 'newpassword456' })
+        .expect(400);
+      const reused = await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', auth)
+        .send({ currentPassword: 'quiet-harbor-42', newPassword: 'quiet-harbor-42' })
+        .expect(400);
+
+      expect(reused.body.error).toBe('New password must be different from the current password');
+    });
+  });
+
+  describe('Account Deletion Flow', () => {
+    it('should sign the user out and restore the account on the next login', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const response = await request(app)
+        .delete('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ password: 'quiet-harbor-42' })
+        .expect(202);
+
+      expect(response.body.deletionScheduledFor).toBeDefined();
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${body.token}`).expect(401);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${login.body.token}`).expect(200);
+      expect(purgeDueAccounts(new Date(Date.now() + authConfig.accountDeletionGraceMs + 1000))).toBe(0);
+    });
+
+    it('should purge the account once the grace period is over', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      await request(app)
+        .delete('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ password: 'quiet-harbor-42' })
+        .expect(202);
+
+      expect(purgeDueAccounts(new Date(Date.now() + authConfig.accountDeletionGraceMs + 1000))).toBe(1);
+      expect(db.findUserByEmail(userData.email)).toBeUndefined();
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(401);
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+    });
+
+    it('should keep the account when the password is wrong', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      await request(app)
+        .delete('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ password: 'wrongpassword1' })
+        .expect(400);
+
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${body.token}`).expect(200);
+    });
+  });
+
+  describe('Personal Data Export Flow', () => {
+    const waitForExport = async (token: string, statusUrl: string) => {
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const { body } = await request(app).get(statusUrl).set('Authorization', `Bearer ${token}`).expect(200);
+        if (body.status !== 'pending') {
+          return body;
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      throw new Error('Export did not finish');
+    };
+
+    it('should export the user data through an expiring download link', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const started = await request(app)
+        .post('/api/profile/export')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(202);
+
+      expect(started.headers.location).toBe(started.body.statusUrl);
+      const status = await waitForExport(body.token, started.body.statusUrl);
+      expect(status.status).toBe('ready');
+
+      const download = await request(app).get(status.downloadUrl).expect(200);
+
+      expect(download.headers['content-disposition']).toContain('attachment');
+      expect(download.body.profile).toMatchObject({ id: body.user.id, email: userData.email });
+      expect(download.body.sessions).toHaveLength(1);
+      expect(JSON.stringify(download.body)).not.toContain(db.findUserById(body.user.id)!.password);
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + exportConfig.downloadLinkTtlMs + 1000);
+      try {
+        await request(app).get(status.downloadUrl).expect(404);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not show exports to other users', async () => {
+      const owner = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      const other = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+
+      const started = await request(app)
+        .post('/api/profile/export')
+        .set('Authorization', `Bearer ${owner.body.token}`)
+        .expect(202);
+
+      await request(app)
+        .get(started.body.statusUrl)
+        .set('Authorization', `Bearer ${other.body.token}`)
+        .expect(404);
+    });
+  });
+
+  describe('Magic Link Flow', () => {
+    it('should sign in with the emailed link, which works only once', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+      clearTestOutbox();
+
+      await request(app).post('/api/auth/magic-link').send({ email: userData.email }).expect(200);
+      await flushMail();
+
+      const { body: outbox } = await request(app)
+        .get('/api/dev/outbox')
+        .query({ to: userData.email })
+        .expect(200);
+      expect(outbox.messages).toHaveLength(1);
+      const token = getLatestTokenFromOutbox(userData.email);
+
+      const response = await request(app).post('/api/auth/magic-link/verify').send({ token }).expect(200);
+
+      expect(response.body.user.email).toBe(userData.email);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${response.body.token}`).expect(200);
+      await request(app).post('/api/auth/magic-link/verify').send({ token }).expect(401);
+    });
+
+    it('should respond the same way for unknown addresses', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+      clearTestOutbox();
+
+      const known = await request(app).post('/api/auth/magic-link').send({ email: userData.email }).expect(200);
+      const unknown = await request(app)
+        .post('/api/auth/magic-link')
+        .send({ email: generateUniqueEmail() })
+        .expect(200);
+      await flushMail();
+
+      expect(unknown.body).toEqual(known.body);
+      expect(getOutboxMessages()).toHaveLength(1);
+    });
+
+    it('should still require the second factor', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      db.updateUser(body.user.id, { twoFactorEnabled: true, twoFactorSecret: 'JBSWY3DPEHPK3PXP' });
+
+      await request(app).post('/api/auth/magic-link').send({ email: userData.email }).expect(200);
+      await flushMail();
+
+      const response = await request(app)
+        .post('/api/auth/magic-link/verify')
+        .send({ token: getLatestTokenFromOutbox(userData.email) })
+        .expect(200);
+
+      expect(response.body.mfaRequired).toBe(true);
+      expect(response.body.token).toBeUndefined();
+    });
+  });
+
+  describe('Signing Key Rotation', () => {
+    const getKid = (token: string): string =>
+      JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf-8')).kid;
+
+    it('should publish the key that signed the access token', async () => {
+      const { body } = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const response = await request(app)
+        .get('/.well-known/jwks.json')
+        .expect(200);
+
+      expect(response.headers['cache-control']).toContain('max-age');
+      expect(response.body.keys.map((key: { kid: string }) => key.kid)).toContain(getKid(body.token));
+    });
+
+    it('should keep accepting tokens signed before a rotation', async () => {
+      const { body } = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      rotateSigningKey();
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${body.token}`)
+        .expect(200);
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(200);
+
+      expect(getKid(refreshed.body.token)).not.toBe(getKid(body.token));
+
+      const jwks = await request(app).get('/.well-known/jwks.json').expect(200);
+      expect(jwks.body.keys).toHaveLength(2);
+    });
+  });
+
+  describe('Cookie Session Flow', () => {
+    // Session cookies are Secure, which supertest's cookie jar will not send over plain HTTP
+    const getCookies = (response: request.Response): Record<string, string> => {
+      const setCookie = ([] as string[]).concat(response.headers['set-cookie'] || []);
+      return Object.fromEntries(setCookie.map(cookie => cookie.split(';')[0].split('=') as [string, string]));
+    };
+    const toCookieHeader = (cookies: Record<string, string>): string =>
+      Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+
+    it('should keep tokens out of the response body and in HttpOnly cookies', async () => {
+      const userData = createTestUserData();
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .set('X-Auth-Mode', 'cookie')
+        .send({ email: userData.email, password: userData.password })
+        .expect(200);
+
+      expect(response.body.token).toBeUndefined();
+      expect(response.body.refreshToken).toBeUndefined();
+      expect(response.body.csrfToken).toEqual(expect.any(String));
+      expect(response.body.user.email).toBe(userData.email);
+
+      const setCookie = ([] as string[]).concat(response.headers['set-cookie']);
+      const accessCookie = setCookie.find(cookie => cookie.startsWith('access_token='))!;
+      const refreshCookie = setCookie.find(cookie => cookie.startsWith('refresh_token='))!;
+      const csrfCookie = setCookie.find(cookie => cookie.startsWith('csrf_token='))!;
+      expect(accessCookie).toMatch(/HttpOnly/);
+      expect(accessCookie).toMatch(/Secure/);
+      expect(accessCookie).toMatch(/SameSite=Strict/);
+      expect(refreshCookie).toMatch(/Path=\/api\/auth/);
+      expect(csrfCookie).not.toMatch(/HttpOnly/);
+      expect(getCookies(response).csrf_token).toBe(response.body.csrfToken);
+    });
+
+    it('should authenticate with cookies and require the CSRF header for changes', async () => {
+      const { body, headers } = await request(app)
+        .post('/api/auth/register')
+        .set('X-Auth-Mode', 'cookie')
+        .send(createTestUserData())
+        .expect(201);
+      const cookie = toCookieHeader(getCookies({ headers } as request.Response));
+
+      await request(app).get('/api/profile').set('Cookie', cookie).expect(200);
+
+      const rejected = await request(app)
+        .put('/api/profile')
+        .set('Cookie', cookie)
+        .send({ name: 'Cookie User' })
+        .expect(403);
+      expect(rejected.body.error).toBe('Invalid or missing CSRF token');
+
+      await request(app)
+        .put('/api/profile')
+        .set('Cookie', cookie)
+        .set('X-CSRF-Token', 'forged')
+        .send({ name: 'Cookie User' })
+        .expect(403);
+
+      const updated = await request(app)
+        .put('/api/profile')
+        .set('Cookie', cookie)
+        .set('X-CSRF-Token', body.csrfToken)
+        .send({ name: 'Cookie User' })
+        .expect(200);
+      expect(updated.body.name).toBe('Cookie User');
+    });
+
+    it('should refresh from the cookie and clear the cookies on logout', async () => {
+      const registered = await request(app)
+        .post('/api/auth/register')
+        .set('X-Auth-Mode', 'cookie')
+        .send(createTestUserData())
+        .expect(201);
+      const cookies = getCookies(registered);
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .set('X-Auth-Mode', 'cookie')
+        .set('Cookie', toCookieHeader(cookies))
+        .set('X-CSRF-Token', registered.body.csrfToken)
+        .expect(200);
+
+      expect(refreshed.body.token).toBeUndefined();
+      const newCookies = getCookies(refreshed);
+      expect(newCookies.refresh_token).not.toBe(cookies.refresh_token);
+
+      const loggedOut = await request(app)
+        .post('/api/auth/logout')
+        .set('X-Auth-Mode', 'cookie')
+        .set('Cookie', toCookieHeader(newCookies))
+        .set('X-CSRF-Token', refreshed.body.csrfToken)
+        .expect(200);
+
+      expect(getCookies(loggedOut)).toEqual({ access_token: '', refresh_token: '', csrf_token: '' });
+      await request(app).get('/api/profile').set('Cookie', toCookieHeader(newCookies)).expect(401);
+    });
+
+    it('should allow credentialed requests from the app origin only', async () => {
+      const allowed = await request(app).get('/api/health').set('Origin', 'http://localhost:5173').expect(200);
+      expect(allowed.headers['access-control-allow-origin']).toBe('http://localhost:5173');
+      expect(allowed.headers['access-control-allow-credentials']).toBe('true');
+
+      const other = await request(app).get('/api/health').set('Origin', 'https://evil.example').expect(200);
+      expect(other.headers['access-control-allow-origin']).toBe('*');
+      expect(other.headers['access-control-allow-credentials']).toBeUndefined();
+    });
+  });
+
+  describe('Admin User Management', () => {
+    const registerAdmin = async () => {
+      const { body } = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      db.updateUser(body.user.id, { role: 'admin' });
+      return { id: body.user.id as string, auth: `Bearer ${body.token}` };
+    };
+
+    it('should list and search users for admins only', async () => {
+      const admin = await registerAdmin();
+      const userData = createTestUserData({ name: 'Searchable Person' });
+      const member = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const listed = await request(app)
+        .get('/api/admin/users?search=searchable')
+        .set('Authorization', admin.auth)
+        .expect(200);
+
+      expect(listed.body.total).toBe(1);
+      expect(listed.body.users[0]).toMatchObject({ email: userData.email, role: 'user', disabled: false });
+      expect(listed.body.users[0].password).toBeUndefined();
+
+      await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${member.body.token}`)
+        .expect(403);
+    });
+
+    it('should disable and re-enable an account', async () => {
+      const admin = await registerAdmin();
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const member = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      await request(app)
+        .post(`/api/admin/users/${member.body.user.id}/disable`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+
+      const blocked = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(403);
+      expect(blocked.body.error).toBe('This account has been disabled');
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${member.body.token}`).expect(403);
+
+      await request(app)
+        .post(`/api/admin/users/${member.body.user.id}/enable`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+    });
+
+    it('should list and revoke the sessions of a user', async () => {
+      const admin = await registerAdmin();
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const member = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const second = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+
+      const listed = await request(app)
+        .get(`/api/admin/users/${member.body.user.id}/sessions`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      expect(listed.body.sessions).toHaveLength(2);
+
+      const sessions = await request(app).get('/api/auth/sessions').set('Authorization', `Bearer ${second.body.token}`);
+      const secondSessionId = sessions.body.sessions.find((session: { current: boolean }) => session.current).id;
+
+      await request(app)
+        .delete(`/api/admin/users/${member.body.user.id}/sessions/${secondSessionId}`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${second.body.token}`).expect(401);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${member.body.token}`).expect(200);
+
+      await request(app)
+        .delete(`/api/admin/users/${admin.id}/sessions/${listed.body.sessions[0].id}`)
+        .set('Authorization', admin.auth)
+        .expect(404);
+
+      const revoked = await request(app)
+        .delete(`/api/admin/users/${member.body.user.id}/sessions`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      expect(revoked.body.revoked).toBe(1);
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${member.body.token}`).expect(401);
+    });
+
+    it('should apply profile validation to admin edits', async () => {
+      const admin = await registerAdmin();
+      const member = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+
+      await request(app)
+        .put(`/api/admin/users/${member.body.user.id}`)
+        .set('Authorization', admin.auth)
+        .send({ email: 'not-an-email' })
+        .expect(400);
+      const updated = await request(app)
+        .put(`/api/admin/users/${member.body.user.id}`)
+        .set('Authorization', admin.auth)
+        .send({ name: 'Renamed By Admin' })
+        .expect(200);
+
+      expect(updated.body.name).toBe('Renamed By Admin');
+    });
+
+    it('should force a password reset and delete accounts', async () => {
+      const admin = await registerAdmin();
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const member = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      await request(app)
+        .post(`/api/admin/users/${member.body.user.id}/password-reset`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(401);
+      expect(getLatestTokenFromOutbox(userData.email)).toBeTruthy();
+
+      await request(app)
+        .delete(`/api/admin/users/${member.body.user.id}`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+      expect(db.findUserById(member.body.user.id)).toBeUndefined();
+    });
+
+    it('should record every action with the acting admin', async () => {
+      const admin = await registerAdmin();
+      const member = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+
+      await request(app)
+        .put(`/api/admin/users/${member.body.user.id}/role`)
+        .set('Authorization', admin.auth)
+        .send({ role: 'support' })
+        .expect(200);
+      await request(app)
+        .get(`/api/admin/users/${member.body.user.id}`)
+        .set('Authorization', admin.auth)
+        .expect(200);
+
+      const events = db.findAuditEvents().filter(event => event.action.startsWith('admin.'));
+      expect(events.map(event => event.action)).toEqual(['admin.role_changed', 'admin.user_viewed']);
+      expect(events.every(event => event.actorId === admin.id && event.targetUserId === member.body.user.id)).toBe(true);
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record logins, failed logins, profile changes and logouts in the user feed', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42', name: 'Audited User' });
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'wrongpassword1' })
+        .expect(401);
+      const { body } = await request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', 'audit-test-agent')
+        .send({ email: userData.email, password: 'quiet-harbor-42' })
+        .expect(200);
+      const auth = `Bearer ${body.token}`;
+
+      await request(app).put('/api/profile').set('Authorization', auth).send({ name: 'Renamed User' }).expect(200);
+
+      const feed = await request(app).get('/api/profile/activity').set('Authorization', auth).expect(200);
+
+      expect(feed.body.events.map((event: { action: string }) => event.action)).toEqual([
+        'profile.updated',
+        'auth.login_succeeded',
+        'auth.login_failed',
+        'auth.registered',
+      ]);
+      expect(feed.body.events[0].changes).toEqual({ name: { from: 'Audited User', to: 'Renamed User' } });
+      expect(feed.body.events[1].userAgent).toBe('audit-test-agent');
+
+      await request(app).post('/api/auth/logout').set('Authorization', auth).expect(200);
+      expect(db.findAuditEvents().pop()).toMatchObject({ action: 'auth.logged_out', actorId: body.user.id });
+    });
+
+    it('should let admins filter and page through the log', async () => {
+      const admin = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      db.updateUser(admin.body.user.id, { role: 'admin' });
+      const member = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+
+      const response = await request(app)
+        .get(`/api/admin/audit-events?targetUserId=${member.body.user.id}&action=auth.registered`)
+        .set('Authorization', `Bearer ${admin.body.token}`)
+        .expect(200);
+
+      expect(response.body.total).toBe(1);
+      expect(response.body.events[0]).toMatchObject({ actorId: member.body.user.id, action: 'auth.registered' });
+
+      await request(app)
+        .get('/api/admin/audit-events?from=not-a-date')
+        .set('Authorization', `Bearer ${admin.body.token}`)
+        .expect(400);
+      await request(app)
+        .get('/api/admin/audit-events')
+        .set('Authorization', `Bearer ${member.body.token}`)
+        .expect(403);
+    });
+  });
+
+  describe('Personal Access Token Flow', () => {
+    const createToken = async (auth: string, scopes: string[]) => {
+      const response = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', auth)
+        .send({ name: 'CI', scopes, expiresInDays: 7 })
+        .expect(201);
+      return response.body as { id: string; token: string };
+    };
+
+    it('should let a script use the routes its scopes allow', async () => {
+      const { body } = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      const pat = await createToken(`Bearer ${body.token}`, ['profile:read']);
+      const auth = `Bearer ${pat.token}`;
+
+      const profile = await request(app).get('/api/profile').set('Authorization', auth).expect(200);
+      expect(profile.body.id).toBe(body.user.id);
+
+      const denied = await request(app).put('/api/profile').set('Authorization', auth).send({ name: 'Changed' }).expect(403);
+      expect(denied.body.error).toBe('This token does not have the profile:write scope');
+      await request(app).get('/api/auth/sessions').set('Authorization', auth).expect(403);
+      await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', auth)
+        .send({ currentPassword: 'quiet-harbor-42', newPassword: 'newpassword456' })
+        .expect(403);
+      await request(app).post('/api/auth/tokens').set('Authorization', auth).send({ name: 'Nested', scopes: ['profile:read'] }).expect(403);
+
+      const listed = await request(app).get('/api/auth/tokens').set('Authorization', `Bearer ${body.token}`).expect(200);
+      expect(listed.body.tokens).toEqual([expect.objectContaining({ id: pat.id, scopes: ['profile:read'], expired: false })]);
+      expect(listed.body.tokens[0].lastUsedAt).toBeDefined();
+      expect(listed.body.tokens[0].token).toBeUndefined();
+    });
+
+    it('should stop accepting a revoked token', async () => {
+      const { body } = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      const pat = await createToken(`Bearer ${body.token}`, ['profile:read', 'profile:write']);
+
+      await request(app).delete(`/api/auth/tokens/${pat.id}`).set('Authorization', `Bearer ${body.token}`).expect(200);
+
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${pat.token}`).expect(401);
+    });
+
+    it('should let a token change the name but not the email', async () => {
+      const { body } = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      const pat = await createToken(`Bearer ${body.token}`, ['profile:write']);
+      const auth = `Bearer ${pat.token}`;
+
+      await request(app).put('/api/profile').set('Authorization', auth).send({ name: 'Script Name' }).expect(200);
+      const denied = await request(app)
+        .put('/api/profile')
+        .set('Authorization', auth)
+        .send({ email: 'attacker@example.com' })
+        .expect(403);
+      expect(denied.body.error).toBe('The email address cannot be changed with a personal access token');
+
+      const profile = await request(app).get('/api/profile').set('Authorization', `Bearer ${body.token}`).expect(200);
+      expect(profile.body).toEqual(expect.objectContaining({ name: 'Script Name', email: body.user.email }));
+    });
+
+    it('should revoke every token when the password is changed', async () => {
+      const userData = createTestUserData({ password: 'quiet-harbor-42' });
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const pat = await createToken(`Bearer ${body.token}`, ['profile:read']);
+
+      await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: 'quiet-harbor-42', newPassword: 'brandnew456' })
+        .expect(200);
+
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${pat.token}`).expect(401);
+    });
+
+    it('should revoke every token when the password is reset', async () => {
+      const userData = createTestUserData();
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+      const pat = await createToken(`Bearer ${body.token}`, ['profile:read']);
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const token = getLatestTokenFromOutbox(userData.email);
+      await request(app).post('/api/auth/reset-password').send({ token, password: 'brandnew456' }).expect(200);
+
+      await request(app).get('/api/profile').set('Authorization', `Bearer ${pat.token}`).expect(401);
+    });
+  });
+
+  describe('Admin Impersonation', () => {
+    const impersonate = async () => {
+      const admin = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      db.updateUser(admin.body.user.id, { role: 'admin' });
+      const member = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+
+      const response = await request(app)
+        .post(`/api/admin/users/${member.body.user.id}/impersonate`)
+        .set('Authorization', `Bearer ${admin.body.token}`)
+        .expect(200);
+
+      return {
+        adminId: admin.body.user.id as string,
+        adminAuth: `Bearer ${admin.body.token}`,
+        memberId: member.body.user.id as string,
+        auth: `Bearer ${response.body.token}`,
+      };
+    };
+
+    it('should let an admin act as the user, logging every request', async () => {
+      const { adminId, memberId, auth } = await impersonate();
+
+      const profile = await request(app).get('/api/profile').set('Authorization', auth).expect(200);
+      expect(profile.body.id).toBe(memberId);
+      await request(app).put('/api/profile').set('Authorization', auth).send({ name: 'Fixed By Support' }).expect(200);
+
+      const logged = db.findAuditEvents().filter(event => event.action === 'admin.impersonated_request');
+      expect(logged.map(event => event.details)).toEqual([
+        { method: 'GET', path: '/api/profile' },
+        { method: 'PUT', path: '/api/profile' },
+      ]);
+      expect(logged.every(event => event.actorId === adminId && event.targetUserId === memberId)).toBe(true);
+    });
+
+    it('should block sensitive actions while impersonating', async () => {
+      const { auth } = await impersonate();
+
+      const blocked = await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', auth)
+        .send({ currentPassword: 'quiet-harbor-42', newPassword: 'newpassword456' })
+        .expect(403);
+      expect(blocked.body.error).toBe('This action is not available while impersonating a user');
+
+      await request(app).put('/api/profile').set('Authorization', auth).send({ email: 'taken-over@example.com' }).expect(403);
+      await request(app).delete('/api/profile').set('Authorization', auth).expect(403);
+      await request(app).get('/api/admin/users').set('Authorization', auth).expect(403);
+    });
+
+    it('should end impersonation when the admin signs out', async () => {
+      const { adminAuth, auth } = await impersonate();
+
+      await request(app).post('/api/auth/logout').set('Authorization', adminAuth).expect(200);
+
+      await request(app).get('/api/profile').set('Authorization', auth).expect(401);
+    });
+  });
+
+  describe('Invitation-Only Registration', () => {
+    afterEach(() => {
+      authConfig.registrationMode = 'open';
+    });
+
+    const registerAdmin = async () => {
+      const { body } = await request(app).post('/api/auth/register').send(createTestUserData()).expect(201);
+      db.updateUser(body.user.id, { role: 'admin' });
+      return `Bearer ${body.token}`;
+    };
+
+    it('should only let people with a valid invitation register', async () => {
+      const adminAuth = await registerAdmin();
+      authConfig.registrationMode = 'invite_only';
+
+      const created = await request(app)
+        .post('/api/admin/invitations')
+        .set('Authorization', adminAuth)
+        .send({ maxUses: 1, expiresInDays: 3 })
+        .expect(201);
+      expect(created.body).toMatchObject({ maxUses: 1, useCount: 0, status: 'active' });
+
+      const uninvited = await request(app).post('/api/auth/register').send(createTestUserData()).expect(403);
+      expect(uninvited.body.error).toBe('An invitation code is required to register');
+
+      await request(app)
+        .post('/api/auth/register')
+        .send({ ...createTestUserData(), invitationCode: created.body.code })
+        .expect(201);
+      const reused = await request(app)
+        .post('/api/auth/register')
+        .send({ ...createTestUserData(), invitationCode: created.body.code })
+        .expect(403);
+      expect(reused.body.error).toBe('Invitation code is invalid or has expired');
+
+      const listed = await request(app).get('/api/admin/invitations').set('Authorization', adminAuth).expect(200);
+      expect(listed.body.invitations).toEqual([expect.objectContaining({ id: created.body.id, useCount: 1, status: 'used_up' })]);
+      expect(listed.body.invitations[0].code).toBeUndefined();
+    });
+
+    it('should honour the locked email and stop accepting a revoked code', async () => {
+      const adminAuth = await registerAdmin();
+      authConfig.registrationMode = 'invite_only';
+      const invitee = createTestUserData();
+
+      const { body: invitation } = await request(app)
+        .post('/api/admin/invitations')
+        .set('Authorization', adminAuth)
+        .send({ email: invitee.email, maxUses: 5 })
+        .expect(201);
+
+      await request(app)
+        .post('/api/auth/register')
+        .send({ ...createTestUserData(), invitationCode: invitation.code })
+        .expect(403);
+
+      await request(app).delete(`/api/admin/invitations/${invitation.id}`).set('Authorization', adminAuth).expect(200);
+
+      await request(app)
+        .post('/api/auth/register')
+        .send({ ...invitee, invitationCode: invitation.code })
+        .expect(403);
+      expect(db.findUserByEmail(invitee.email)).toBeUndefined();
+    });
+
+    it('should refuse all registrations while registration is closed', async () => {
+      authConfig.registrationMode = 'closed';
+
+      const response = await request(app).post('/api/auth/register').send(createTestUserData()).expect(403);
+
+      expect(response.body.error).toBe('Registration is closed');
+    });
+  });
+
+  describe('Breached Password Check', () => {
+    const breachedError = 'This password is too common or has appeared in a data breach, please choose a different one';
+
+    it('should refuse breached passwords on registration', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData({ password: 'password123' }))
+        .expect(400);
+
+      expect(response.body.error).toBe(breachedError);
+    });
+
+    it('should refuse breached passwords when changing or resetting the password', async () => {
+      const userData = createTestUserData();
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      const changed = await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: userData.password, newPassword: 'Sunshine2024' })
+        .expect(400);
+      expect(changed.body.error).toBe(breachedError);
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: getLatestTokenFromOutbox(userData.email), password: 'qwerty123' })
+        .expect(400);
+      expect(reset.body.error).toBe(breachedError);
+    });
+  });
+
+  describe('Password Policy', () => {
+    it('should publish the password policy', async () => {
+      const response = await request(app)
+        .get('/api/auth/password-policy')
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        minLength: 8,
+        maxLength: 72,
+        requiredCharacterClasses: ['letter', 'digit'],
+        forbidPersonalInfo: true,
+        historyDepth: 5,
+      });
+    });
+
+    it('should refuse passwords containing the name or email address', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'marguerite@example.com', name: 'Marguerite Okafor', password: 'okafor-harbor-42' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Password must not contain your name or email address');
+    });
+
+    it('should refuse recently used passwords on change and reset', async () => {
+      const recentError = 'This password was used recently, please choose a different one';
+      const userData = createTestUserData();
+      const { body } = await request(app).post('/api/auth/register').send(userData).expect(201);
+
+      await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: userData.password, newPassword: 'amber-lantern-17' })
+        .expect(200);
+
+      const changed = await request(app)
+        .put('/api/profile/password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: 'amber-lantern-17', newPassword: userData.password })
+        .expect(400);
+      expect(changed.body.error).toBe(recentError);
+
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email }).expect(200);
+      const token = getLatestTokenFromOutbox(userData.email);
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: userData.password })
+        .expect(400);
+      expect(reset.body.error).toBe(recentError);
+
+      // The rejected attempt leaves the link usable
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'copper-meadow-58' })
+        .expect(200);
+    });
+  });
+
+  describe('Password Hashing', () => {
+    const defaultHashConfig = { ...passwordHashConfig };
+
+    afterEach(() => {
+      Object.assign(passwordHashConfig, defaultHashConfig);
+    });
+
+    it('should upgrade the stored hash on login after the preferred scheme changes', async () => {
+      const userData = createTestUserData();
+      await request(app).post('/api/auth/register').send(userData).expect(201);
+      expect(db.findUserByEmail(userData.email)!.password).toMatch(/^\$2[aby]\$10\$/);
+
+      passwordHashConfig.scheme = 'scrypt';
+      passwordHashConfig.scryptCost = 10;
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: userData.password })
+        .expect(200);
+
+      expect(db.findUserByEmail(userData.email)!.password).toMatch(/^\$scrypt\$ln=10,r=8,p=1\$/);
+
+      // The upgraded hash keeps working, and also once bcrypt is preferred again
+      Object.assign(passwordHashConfig, defaultHashConfig);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: userData.password })
+        .expect(200);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'wrong-harbor-42' })
+        .expect(401);
+      expect(db.findUserByEmail(userData.email)!.password).toMatch(/^\$2[aby]\$10\$/);
+    });
+  });
+
   describe('Complete Profile Flow', () => {
     let authToken: string;
     let userId: string;
@@ -345,7 +2119,7 @@ describe('Backend Integration Tests', () => {
       // Register and login a user for profile tests
       const userData = {
         email: 'profile@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Profile Test User',
       };
 
@@ -466,7 +2240,7 @@ describe('Backend Integration Tests', () => {
       // Step 1: Register
       const userData = {
         email: 'journey@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Journey User',
       };
 
@@ -533,7 +2307,7 @@ describe('Backend Integration Tests', () => {
     it('should handle duplicate email registration', async () => {
       const userData = {
         email: 'duplicate@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'First User',
       };
 
@@ -560,13 +2334,13 @@ describe('Backend Integration Tests', () => {
       // Create two users
       const user1Data = {
         email: 'user1@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User One',
       };
 
       const user2Data = {
         email: 'user2@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User Two',
       };
 
@@ -623,7 +2397,7 @@ describe('Backend Integration Tests', () => {
       // Register and login
       const userData = {
         email: 'emptyupdate@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Empty Update User',
       };
 
@@ -662,13 +2436,13 @@ describe('Backend Integration Tests', () => {
     it('should generate different tokens for different users', async () => {
       const user1 = {
         email: 'token1@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Token User One',
       };
 
       const user2 = {
         email: 'token2@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Token User Two',
       };
 
@@ -688,7 +2462,7 @@ describe('Backend Integration Tests', () => {
     it('should allow user to access their own profile with their token', async () => {
       const userData = {
         email: 'owntoken@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Own Token User',
       };
 
@@ -713,7 +2487,7 @@ describe('Backend Integration Tests', () => {
     it('should persist user data across requests', async () => {
       const userData = {
         email: 'persist@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Persist User',
       };
 
@@ -745,7 +2519,7 @@ describe('Backend Integration Tests', () => {
     it('should persist profile updates across requests', async () => {
       const userData = {
         email: 'persistupdate@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Original Name',
       };
 
@@ -782,7 +2556,7 @@ describe('Backend Integration Tests', () => {
     it('should handle simultaneous user registration with same email', async () => {
       const userData = {
         email: 'race@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Race Condition User',
       };
 
@@ -818,7 +2592,7 @@ describe('Backend Integration Tests', () => {
       // Register a user first
       const userData = {
         email: 'concurrent@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Concurrent User',
       };
 
@@ -857,7 +2631,7 @@ describe('Backend Integration Tests', () => {
       // Register a user first
       const userData = {
         email: 'concurrentlogin@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Concurrent Login User',
       };
 
@@ -899,13 +2673,13 @@ describe('Backend Integration Tests', () => {
       // Create two users
       const user1Data = {
         email: 'user1race@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User One Race',
       };
 
       const user2Data = {
         email: 'user2race@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User Two Race',
       };
 
@@ -933,7 +2707,7 @@ describe('Backend Integration Tests', () => {
           .post('/api/auth/register')
           .send({
             email: newEmail,
-            password: 'password123',
+            password: 'quiet-harbor-42',
             name: 'New Race User',
           }),
       ]);
@@ -949,7 +2723,7 @@ describe('Backend Integration Tests', () => {
       // Register a user
       const userData = {
         email: 'multiread@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Multi Read User',
       };
 
@@ -984,7 +2758,7 @@ describe('Backend Integration Tests', () => {
         // Register a user first
         const userData = {
           email: 'format@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Format Test',
         };
 
@@ -1023,7 +2797,7 @@ describe('Backend Integration Tests', () => {
           .post('/api/auth/register')
           .send({
             email: 'registerformat@test.com',
-            password: 'password123',
+            password: 'quiet-harbor-42',
             name: 'Register Format',
           })
           .expect(201);
@@ -1047,7 +2821,7 @@ describe('Backend Integration Tests', () => {
         // Register and get token
         const userData = {
           email: 'profileformat@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Profile Format',
         };
 
@@ -1082,7 +2856,7 @@ describe('Backend Integration Tests', () => {
         // Register and get token
         const userData = {
           email: 'updateformat@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Update Format',
         };
 
@@ -1149,7 +2923,7 @@ describe('Backend Integration Tests', () => {
           .post('/api/auth/login')
           .send({
             email: 'nonexistent@test.com',
-            password: 'password123',
+            password: 'quiet-harbor-42',
           })
           .expect(401);
 
@@ -1187,7 +2961,7 @@ describe('Backend Integration Tests', () => {
       it('should have consistent error message format for duplicate email', async () => {
         const userData = {
           email: 'duplicateformat@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Duplicate Test',
         };
 
@@ -1211,7 +2985,7 @@ describe('Backend Integration Tests', () => {
         // 200 for login
         const userData = {
           email: 'status200@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Status Test',
         };
 
@@ -1233,7 +3007,7 @@ describe('Backend Integration Tests', () => {
           .post('/api/auth/register')
           .send({
             email: 'status201@test.com',
-            password: 'password123',
+            password: 'quiet-harbor-42',
             name: 'Status Test Two',
           })
           .expect(201);
@@ -1286,7 +3060,7 @@ describe('Backend Integration Tests', () => {
       it('should return correct status codes for duplicate registration', async () => {
         const userData = {
           email: 'duplicatestatus@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Duplicate Status',
         };
 
@@ -1306,13 +3080,13 @@ describe('Backend Integration Tests', () => {
         // Create two users
         const user1Data = {
           email: 'user1status@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'User One',
         };
 
         const user2Data = {
           email: 'user2status@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'User Two',
         };
 
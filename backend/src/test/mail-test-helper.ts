@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  OutboxTransport,
+  StoredMailMessage,
+  setMailTransport,
+  resetMailTransport,
+  waitForPendingMail,
+} from '../services/mail.service';
+
+let testOutbox: OutboxTransport | null = null;
+
+/**
+ * Routes all outgoing mail into a temporary outbox directory
+ */
+export function setupTestOutbox(): OutboxTransport {
+  const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-outbox-'));
+  testOutbox = new OutboxTransport(outboxDir);
+  setMailTransport(testOutbox);
+  return testOutbox;
+}
+
+export function clearTestOutbox(): void {
+  if (testOutbox) {
+    testOutbox.clear();
+  }
+}
+
+export function teardownTestOutbox(): void {
+  clearTestOutbox();
+  resetMailTransport();
+  testOutbox = null;
+}
+
+/**
+ * Waits for mail sent in the background to reach the outbox
+ */
+export function flushMail(): Promise<void> {
+  return waitForPendingMail();
+}
+
+export function getOutboxMessages(to?: string): StoredMailMessage[] {
+  const messages = testOutbox ? testOutbox.readMessages() : [];
+  return to ? messages.filter(message => message.to === to) : messages;
+}
+
+/**
+ * Pulls the token query parameter out of the most recent email sent to the address
+ */
+export function getLatestTokenFromOutbox(to: string): string {
+  const messages = getOutboxMessages(to);
+  const latest = messages[messages.length - 1];
+  const match = latest?.text.match(/[?&]token=([A-Za-z0-9_-]+)/);
+  if (!match) {
+    throw new Error(`No token found in outbox for ${to}`);
+  }
+  return match[1];
+}
@@ -56,7 +56,7 @@ describe('Performance Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'perf@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Performance Test',
         })
         .expect(201);
@@ -71,7 +71,7 @@ describe('Performance Tests', () => {
       // First register a user
       const userData = {
         email: 'loginperf@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Login Perf Test',
       };
 
@@ -100,7 +100,7 @@ describe('Performance Tests', () => {
       // Register and get token
       const userData = {
         email: 'profileperf@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Profile Perf Test',
       };
 
@@ -128,7 +128,7 @@ describe('Performance Tests', () => {
       // Register and get token
       const userData = {
         email: 'updateperf@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Update Perf Test',
       };
 
@@ -177,7 +177,7 @@ describe('Performance Tests', () => {
       // Register a user first
       const userData = {
         email: 'loadtest@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Load Test User',
       };
 
@@ -219,7 +219,7 @@ describe('Performance Tests', () => {
       // Register and get token
       const userData = {
         email: 'readload@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Read Load Test',
       };
 
@@ -267,7 +267,7 @@ describe('Performance Tests', () => {
             .post('/api/auth/register')
             .send({
               email: `mixed${i}@test.com`,
-              password: 'password123',
+              password: 'quiet-harbor-42',
               name: `Mixed User ${i}`,
             })
         );
@@ -289,7 +289,7 @@ describe('Performance Tests', () => {
             .post('/api/auth/login')
             .send({
               email: 'mixed0@test.com',
-              password: 'password123',
+              password: 'quiet-harbor-42',
             })
         );
 
@@ -320,7 +320,7 @@ describe('Performance Tests', () => {
     it('should maintain performance under sequential requests', async () => {
       const userData = {
         email: 'sequential@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Sequential Test',
       };
 
@@ -359,7 +359,7 @@ describe('Performance Tests', () => {
     it('should not degrade significantly with multiple operations', async () => {
       const userData = {
         email: 'degrade@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Degrade Test',
       };
 
@@ -377,7 +377,7 @@ describe('Performance Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'degradeprofile@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'Degrade Profile',
         })
         .expect(201);
@@ -5,6 +5,7 @@ import { setupTestDatabase, clearTestDatabase, teardownTestDatabase } from './db
 import { generateUniqueEmail, createTestUserData, resetTestCounter } from './test-data-factory';
 import * as db from '../database/db';
 import jwt from 'jsonwebtoken';
+import { signJwt } from '../services/signing-key.service';
 
 describe('Security Tests', () => {
   const app = createTestApp();
@@ -31,7 +32,7 @@ describe('Security Tests', () => {
       // Register a user and get a valid token
       const userData = {
         email: 'security@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Security Test User',
       };
 
@@ -63,7 +64,6 @@ describe('Security Tests', () => {
       if (decoded) {
         decoded.userId = '999'; // Try to access different user
         // Create a new token with modified payload (but wrong secret)
-        const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
         const fakeToken = jwt.sign({ userId: '999' }, 'wrong-secret-key');
 
         const response = await request(app)
@@ -77,12 +77,8 @@ describe('Security Tests', () => {
 
     it('should reject token with extra fields in payload', async () => {
       // Try to add admin role to token
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-      const maliciousToken = jwt.sign(
-        { userId: userId, role: 'admin', isAdmin: true },
-        JWT_SECRET,
-        { expiresIn: '7d' }
-      );
+      const { sid } = jwt.decode(validToken) as { sid: string };
+      const maliciousToken = signJwt({ userId: userId, sid, role: 'admin', isAdmin: true }, 7 * 24 * 60 * 60);
 
       // This might succeed (token is valid), but extra fields shouldn't grant privileges
       const response = await request(app)
@@ -97,8 +93,7 @@ describe('Security Tests', () => {
 
     it('should reject expired token', async () => {
       // Create an expired token
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-      const expiredToken = jwt.sign({ userId: userId }, JWT_SECRET, { expiresIn: '-1h' });
+      const expiredToken = signJwt({ userId: userId }, -60 * 60);
 
       const response = await request(app)
         .get('/api/profile')
@@ -144,7 +139,7 @@ describe('Security Tests', () => {
       // Register another user
       const user2Data = {
         email: 'security2@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Security Test User Two',
       };
 
@@ -154,12 +149,12 @@ describe('Security Tests', () => {
         .expect(201);
 
       const user2Id = user2Response.body.user.id;
+      const { sid: user2Sid } = jwt.decode(user2Response.body.token) as { sid: string };
 
       // Try to create a token for user2 but use it to access user1's data
       // This is prevented by the middleware checking the userId in the token
       // and verifying the user exists in the database
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-      const user2Token = jwt.sign({ userId: user2Id }, JWT_SECRET, { expiresIn: '7d' });
+      const user2Token = signJwt({ userId: user2Id, sid: user2Sid }, 7 * 24 * 60 * 60);
 
       // User2 can only access their own profile (correct behavior)
       const response = await request(app)
@@ -172,6 +167,90 @@ describe('Security Tests', () => {
     });
   });
 
+  describe('Post-Logout Token Replay', () => {
+    let token: string;
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      token = registerResponse.body.token;
+      refreshToken = registerResponse.body.refreshToken;
+    });
+
+    it('should reject an access token after logout', async () => {
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.error).toBe('Token has been revoked');
+    });
+
+    it('should reject profile updates with a logged-out token', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .put('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Replayed Update' })
+        .expect(401);
+    });
+
+    it('should reject the refresh token after logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
+    it('should not revoke tokens from other logins', async () => {
+      const profile = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const user = db.findUserById(profile.body.id)!;
+      const otherLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: 'quiet-harbor-42' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${otherLogin.body.token}`)
+        .expect(200);
+    });
+  });
+
   describe('XSS (Cross-Site Scripting) Attempts', () => {
     const xssPayloads = [
       '<script>alert("XSS")</script>',
@@ -192,7 +271,7 @@ describe('Security Tests', () => {
           .post('/api/auth/register')
           .send({
             email: xssPayload + '@example.com',
-            password: 'password123',
+            password: 'quiet-harbor-42',
             name: 'XSS Test',
           })
           .expect((res) => {
@@ -214,7 +293,7 @@ describe('Security Tests', () => {
           .post('/api/auth/register')
           .send({
             email: 'xss@test.com',
-            password: 'password123',
+            password: 'quiet-harbor-42',
             name: xssPayload,
           })
           .expect((res) => {
@@ -234,7 +313,7 @@ describe('Security Tests', () => {
         // Register a user first
         const userData = {
           email: 'xssupdate@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'XSS Update Test',
         };
 
@@ -270,7 +349,7 @@ describe('Security Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'xssstored@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: maliciousName,
         })
         .expect(400); // Should be rejected by validation
@@ -300,11 +379,45 @@ describe('Security Tests', () => {
       expect(response.body).toHaveProperty('error');
     });
 
+    it('should reject a validly signed token without a session', async () => {
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const sessionlessToken = signJwt({ userId: registerResponse.body.user.id }, 7 * 24 * 60 * 60);
+
+      const response = await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${sessionlessToken}`)
+        .expect(401);
+
+      expect(response.body.error).toBe('Session has expired or been revoked');
+    });
+
+    it('should reject a token pointing at another user\'s session', async () => {
+      const victim = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+      const attacker = await request(app)
+        .post('/api/auth/register')
+        .send(createTestUserData())
+        .expect(201);
+
+      const { sid } = jwt.decode(victim.body.token) as { sid: string };
+      const forgedToken = signJwt({ userId: attacker.body.user.id, sid }, 7 * 24 * 60 * 60);
+
+      await request(app)
+        .get('/api/profile')
+        .set('Authorization', `Bearer ${forgedToken}`)
+        .expect(401);
+    });
+
     it('should prevent access with token for non-existent user', async () => {
       // Create a token for a user that doesn't exist
-      const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
       const fakeUserId = '999999';
-      const fakeToken = jwt.sign({ userId: fakeUserId }, JWT_SECRET, { expiresIn: '7d' });
+      const fakeToken = signJwt({ userId: fakeUserId }, 7 * 24 * 60 * 60);
 
       const response = await request(app)
         .get('/api/profile')
@@ -338,13 +451,13 @@ describe('Security Tests', () => {
       // Register two users
       const user1Data = {
         email: 'user1auth@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User One',
       };
 
       const user2Data = {
         email: 'user2auth@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'User Two',
       };
 
@@ -377,7 +490,7 @@ describe('Security Tests', () => {
       // Register a user
       const userData = {
         email: 'unauthupdate@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Original Name',
       };
 
@@ -399,7 +512,7 @@ describe('Security Tests', () => {
       // Register and get token
       const userData = {
         email: 'tokenvalidate@test.com',
-        password: 'password123',
+        password: 'quiet-harbor-42',
         name: 'Token Validate',
       };
 
@@ -456,7 +569,7 @@ describe('Security Tests', () => {
         .post('/api/auth/register')
         .send({
           email: sqlPayload + '@example.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: 'SQL Test',
         })
         .expect((res) => {
@@ -488,7 +601,7 @@ describe('Security Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'path@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: '../../../etc/passwd',
         })
         .expect((res) => {
@@ -520,7 +633,7 @@ describe('Security Tests', () => {
         .post('/api/auth/register')
         .send({
           email: 'command@test.com',
-          password: 'password123',
+          password: 'quiet-harbor-42',
           name: '; ls -la',
         })
         .expect((res) => {
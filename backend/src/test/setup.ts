@@ -0,0 +1,15 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Keep mail sent during tests out of the development outbox
+const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qa-test-outbox-'));
+process.env.MAIL_OUTBOX_DIR = outboxDir;
+
+// RSA keys take a noticeable time to generate and the database is cleared between tests,
+// so tests sign with Ed25519 keys unless they pick RS256 themselves
+process.env.JWT_ALGORITHM = 'EdDSA';
+
+afterAll(() => {
+  fs.rmSync(outboxDir, { recursive: true, force: true });
+});
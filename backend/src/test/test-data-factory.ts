@@ -18,7 +18,7 @@ export function createTestUserData(overrides: Partial<Omit<User, 'id' | 'created
   const counterWord = testCounter < numberWords.length ? numberWords[testCounter] : `Test${testCounter}`;
   return {
     email: generateUniqueEmail(),
-    password: 'password123',
+    password: 'quiet-harbor-42',
     name: `Test User ${counterWord}`,
     ...overrides,
   };
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { encodeCbor } from '../utils/cbor';
+import { COSE_ALGORITHMS } from '../utils/webauthn';
+import { AuthenticationCredentialJSON, RegistrationCredentialJSON } from '../types/auth.types';
+
+interface SoftwareAuthenticatorOptions {
+  origin?: string;
+  algorithm?: 'ES256' | 'EdDSA';
+  // Authenticators that do not implement a signature counter always report 0
+  useCounter?: boolean;
+}
+
+interface CreateOptions {
+  challenge: string;
+  rp: { id: string };
+  user: { id: string };
+}
+
+interface GetOptions {
+  challenge: string;
+  rpId: string;
+  // A touch without a PIN or biometric only proves user presence
+  userVerified?: boolean;
+}
+
+/**
+ * A software passkey for tests
+ * Produces the same credential JSON a browser returns from navigator.credentials.create() and get().
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keyPair: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject };
+  private readonly algorithm: 'ES256' | 'EdDSA';
+  private readonly origin: string;
+  private readonly useCounter: boolean;
+  private signCount = 0;
+  private userHandle?: string;
+
+  constructor(options: SoftwareAuthenticatorOptions = {}) {
+    this.origin = options.origin || 'http://localhost:5173';
+    this.algorithm = options.algorithm || 'ES256';
+    this.useCounter = options.useCounter ?? true;
+    this.keyPair =
+      this.algorithm === 'ES256'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : crypto.generateKeyPairSync('ed25519');
+  }
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  createCredential(options: CreateOptions): RegistrationCredentialJSON {
+    this.userHandle = options.user.id;
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authenticatorDataHeader(options.rp.id, 0x45), // user present, user verified, attested credential
+      Buffer.alloc(16), // aaguid
+      credentialIdLength,
+      this.credentialId,
+      encodeCbor(this.coseKey()),
+    ]);
+
+    const attestationObject = encodeCbor(
+      new Map<string, any>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData],
+      ])
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  getAssertion(options: GetOptions): AuthenticationCredentialJSON {
+    const flags = options.userVerified === false ? 0x01 : 0x05; // user present, optionally user verified
+    const authenticatorData = this.authenticatorDataHeader(options.rpId, flags);
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const clientDataHash = crypto.createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest();
+    const signedData = Buffer.concat([authenticatorData, clientDataHash]);
+
+    const signature =
+      this.algorithm === 'ES256'
+        ? crypto.sign('sha256', signedData, { key: this.keyPair.privateKey, dsaEncoding: 'der' })
+        : crypto.sign(null, signedData, this.keyPair.privateKey);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON,
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: this.userHandle ?? null,
+      },
+    };
+  }
+
+  private authenticatorDataHeader(rpId: string, flags: number): Buffer {
+    if (this.useCounter) {
+      this.signCount++;
+    }
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+
+    return Buffer.concat([crypto.createHash('sha256').update(rpId).digest(), Buffer.from([flags]), counter]);
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false })).toString('base64url');
+  }
+
+  private coseKey(): Map<number, any> {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+
+    if (this.algorithm === 'ES256') {
+      return new Map<number, any>([
+        [1, 2],
+        [3, COSE_ALGORITHMS.ES256],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ]);
+    }
+
+    return new Map<number, any>([
+      [1, 1],
+      [3, COSE_ALGORITHMS.EdDSA],
+      [-1, 6],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+    ]);
+  }
+}
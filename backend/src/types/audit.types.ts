@@ -0,0 +1,81 @@
+/**
+ * Actions recorded in the audit log
+ */
+export type AuditAction =
+  | 'auth.registered'
+  | 'auth.login_succeeded'
+  | 'auth.login_failed'
+  | 'auth.logged_out'
+  | 'auth.token_created'
+  | 'auth.token_revoked'
+  | 'profile.updated'
+  | 'profile.password_changed'
+  | 'profile.deletion_requested'
+  | 'admin.users_listed'
+  | 'admin.user_viewed'
+  | 'admin.user_updated'
+  | 'admin.role_changed'
+  | 'admin.user_disabled'
+  | 'admin.user_enabled'
+  | 'admin.password_reset_forced'
+  | 'admin.user_deleted'
+  | 'admin.sessions_viewed'
+  | 'admin.session_revoked'
+  | 'admin.sessions_revoked'
+  | 'admin.impersonation_started'
+  | 'admin.impersonated_request'
+  | 'admin.invitation_created'
+  | 'admin.invitation_revoked';
+
+/**
+ * How a user signed in
+ */
+export type LoginMethod = 'password' | 'two_factor' | 'magic_link' | 'oauth' | 'passkey';
+
+/**
+ * Before and after values of each field an update changed
+ */
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * An entry in the append-only audit log
+ * Entries outlive the accounts they mention, so ids are kept as plain strings.
+ */
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  actorId?: string; // user who performed the action, unknown for failed logins
+  targetUserId?: string; // user the action was performed on
+  ip?: string;
+  userAgent?: string;
+  changes?: AuditChanges;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  actorId?: string;
+  targetUserId?: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+}
+
+export interface AuditEventListQuery extends AuditEventFilters {
+  page?: string;
+  pageSize?: string;
+}
+
+/**
+ * An audit entry as shown to the user it concerns
+ * The acting user and internal details are left out, and so is the client for actions by
+ * someone else, so staff stay anonymous.
+ */
+export interface ActivityEntry {
+  id: string;
+  action: AuditAction;
+  ip?: string;
+  userAgent?: string;
+  changes?: AuditChanges;
+  createdAt: string;
+}
@@ -0,0 +1,354 @@
+import type { webcrypto } from 'crypto';
+
+/**
+ * A stored refresh token
+ * Only the SHA-256 hash of the token is persisted. Tokens issued by rotating
+ * one another share a familyId so the whole chain can be revoked at once.
+ */
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  replacedBy?: string; // id of the token issued when this one was rotated
+  revokedAt?: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+/**
+ * An access token that was revoked before it expired (e.g. on logout)
+ * Entries can be pruned once expiresAt has passed, since the token
+ * would be rejected as expired anyway.
+ */
+export interface RevokedToken {
+  jti: string;
+  expiresAt: string;
+  revokedAt: string;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  sid?: string; // session the token was issued for
+  actorId?: string; // admin acting as the user, set only on impersonation tokens
+  jti?: string;
+  iss?: string;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Actions guarded by role-based access control, named resource:action
+ * Users can always manage their own account; permissions cover acting on other accounts.
+ */
+export type Permission =
+  | 'users:read'
+  | 'users:write'
+  | 'users:delete'
+  | 'sessions:read'
+  | 'sessions:revoke'
+  | 'roles:assign'
+  | 'audit:read'
+  | 'users:impersonate'
+  | 'invitations:manage';
+
+/**
+ * What a personal access token may be used for
+ */
+export type TokenScope = 'profile:read' | 'profile:write' | 'sessions:read' | 'sessions:write';
+
+/**
+ * A long-lived token users create for scripts and CI
+ * Only a hash is stored; the token itself is shown once, when it is created.
+ */
+export interface PersonalAccessToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  scopes: TokenScope[];
+  expiresAt: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name?: string;
+  scopes?: string[];
+  expiresInDays?: number;
+}
+
+/**
+ * Who may create an account: anyone, only people with an invitation code, or nobody
+ */
+export type RegistrationMode = 'open' | 'invite_only' | 'closed';
+
+/**
+ * A code admins hand out so people can register while registration is invite-only
+ * Only a hash is stored; the code itself is shown once, when it is created.
+ */
+export interface Invitation {
+  id: string;
+  codeHash: string;
+  email?: string; // when set, only this address may register with the code
+  maxUses: number;
+  useCount: number;
+  expiresAt: string;
+  revokedAt?: string;
+  createdBy: string; // admin id, kept after the admin is deleted
+  createdAt: string;
+}
+
+export interface CreateInvitationRequest {
+  email?: string;
+  maxUses?: number;
+  expiresInDays?: number;
+}
+
+/**
+ * Kinds of characters a password policy can require
+ */
+export type PasswordCharacterClass = 'lowercase' | 'uppercase' | 'letter' | 'digit' | 'symbol';
+
+/**
+ * Rules new passwords must follow
+ * Published at /api/auth/password-policy so clients check passwords by the same rules.
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requiredCharacterClasses: PasswordCharacterClass[];
+  forbidPersonalInfo: boolean; // reject passwords containing the user's name or the start of their email address
+  forbiddenSubstrings: string[]; // matched case-insensitively, e.g. the product name
+  historyDepth: number; // how many of the most recent passwords cannot be reused, 0 to allow reuse
+}
+
+/**
+ * Algorithms passwords can be hashed with
+ * Each hash string starts with its scheme's identifier, so hashes of different schemes can coexist.
+ */
+export type PasswordHashScheme = 'bcrypt' | 'scrypt';
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+/**
+ * A key pair used to sign access tokens, identified in each token's header by its kid
+ * Tokens are signed with the newest key until it retires. Retired keys stay published
+ * and accepted until expiresAt, so tokens signed just before a rotation keep working.
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  publicKey: string; // SPKI PEM
+  privateKey: string; // PKCS#8 PEM
+  createdAt: string;
+  activatesAt: string; // signing starts here; until then the key is only published
+  retiresAt: string;
+  expiresAt: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+/**
+ * A signed-in device
+ * The session id doubles as the family id of its refresh tokens, so ending
+ * a session and revoking its refresh tokens always go together.
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  userAgent: string;
+  ip: string;
+}
+
+export interface ClientInfo {
+  userAgent: string;
+  ip: string;
+}
+
+export type ActionTokenPurpose = 'password_reset' | 'email_verification' | 'mfa_challenge' | 'magic_link' | 'oauth_login';
+
+/**
+ * A single-use token sent to the user by email (password reset, email verification, etc.)
+ * Only the SHA-256 hash is stored; usedAt is set once the token is consumed.
+ */
+export interface ActionToken {
+  id: string;
+  userId: string;
+  purpose: ActionTokenPurpose;
+  email?: string; // address the token was sent to, when it matters for the purpose
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  usedAt?: string;
+  attempts?: number; // failed attempts, for tokens that allow retries
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface TwoFactorDisableRequest {
+  password: string;
+  code: string;
+}
+
+export interface MfaVerifyRequest {
+  mfaToken: string;
+  code: string;
+}
+
+export interface MagicLinkRequest {
+  email: string;
+}
+
+export interface MagicLinkVerifyRequest {
+  token: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+/**
+ * A WebAuthn credential (passkey) registered to a user
+ * The public key is stored as a JWK; credentialId is the authenticator's raw id in base64url.
+ */
+export interface PasskeyCredential {
+  id: string;
+  userId: string;
+  credentialId: string;
+  publicKey: webcrypto.JsonWebKey;
+  algorithm: number; // COSE algorithm identifier, e.g. -7 for ES256
+  signCount: number;
+  transports?: string[];
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+/**
+ * A pending WebAuthn challenge
+ * Authentication challenges have no userId because the user is identified by the passkey itself.
+ */
+export interface WebAuthnChallenge {
+  id: string;
+  challenge: string; // base64url
+  ceremony: WebAuthnCeremony;
+  userId?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/**
+ * Credential JSON sent by the browser after navigator.credentials.create()
+ * Binary fields are base64url encoded.
+ */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Credential JSON sent by the browser after navigator.credentials.get()
+ */
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface PasskeyRegistrationRequest {
+  credential: RegistrationCredentialJSON;
+  name?: string;
+}
+
+export interface PasskeyLoginRequest {
+  credential: AuthenticationCredentialJSON;
+}
+
+/**
+ * An account at an external identity provider linked to a user
+ * The provider's subject identifier is stable, unlike the email address it reports.
+ */
+export interface OAuthIdentity {
+  id: string;
+  userId: string;
+  provider: string;
+  subject: string;
+  email?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * A pending authorization-code login, kept between the start and callback requests
+ * The PKCE code verifier and nonce never leave the server.
+ */
+export interface OAuthState {
+  id: string;
+  state: string;
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface OAuthCallbackQuery {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+export interface OAuthCompleteRequest {
+  code: string;
+}
+
+/**
+ * Failed login attempts counted against an account or a client IP
+ * key is 'account:<email>' or 'ip:<address>'; the record is ignored once expiresAt passes.
+ */
+export interface LoginAttempt {
+  key: string;
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string;
+  expiresAt: string;
+}
@@ -1,8 +1,25 @@
+import { ActivityEntry } from './audit.types';
+
+export type Role = 'user' | 'support' | 'admin';
+
 export interface User {
   id: string;
   email: string;
   password: string; // hashed
   name: string;
+  role?: Role; // users without one have the 'user' role
+  emailVerified?: boolean;
+  emailVerifiedAt?: string;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string; // base32 TOTP secret, set once enrollment is confirmed
+  twoFactorPendingSecret?: string; // secret awaiting confirmation during setup
+  twoFactorLastUsedStep?: number; // last accepted TOTP step, so a code cannot be replayed
+  recoveryCodeHashes?: string[];
+  passwordHistory?: string[]; // hashes of previous passwords, newest first, kept for the password policy
+  deletionRequestedAt?: string;
+  deletionScheduledFor?: string; // the account is purged after this; logging in before then cancels it
+  disabledAt?: string; // disabled accounts cannot sign in until an admin enables them again
+  disabledBy?: string; // id of the admin who disabled the account
   createdAt: string;
   updatedAt: string;
 }
@@ -22,6 +39,7 @@ export interface RegisterRequest {
   email: string;
   password: string;
   name: string;
+  invitationCode?: string; // required while registration is invite-only
 }
 
 export interface UpdateProfileRequest {
@@ -29,3 +47,92 @@ export interface UpdateProfileRequest {
   email?: string;
 }
 
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+export interface ChangeRoleRequest {
+  role: Role;
+}
+
+export interface AdminUserListQuery {
+  page?: string;
+  pageSize?: string;
+  search?: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+
+export type DataExportStatus = 'pending' | 'ready' | 'failed';
+
+/**
+ * An asynchronous export of everything stored about a user
+ * The archive is kept until expiresAt. Download links carry a separate short-lived token,
+ * of which only the SHA-256 hash is stored.
+ */
+export interface DataExportJob {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  archive?: PersonalDataExport;
+  downloadTokenHash?: string;
+  downloadExpiresAt?: string;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+}
+
+/**
+ * The machine-readable archive handed to the user
+ * Secrets such as the password hash, 2FA secrets and recovery codes are never included.
+ */
+export interface PersonalDataExport {
+  format: 'qa-testing-app/personal-data-export';
+  version: 1;
+  exportedAt: string;
+  profile: {
+    id: string;
+    email: string;
+    name: string;
+    emailVerified: boolean;
+    emailVerifiedAt?: string;
+    twoFactorEnabled: boolean;
+    deletionRequestedAt?: string;
+    deletionScheduledFor?: string;
+    createdAt: string;
+    updatedAt: string;
+  };
+  sessions: {
+    id: string;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    userAgent: string;
+    ip: string;
+  }[];
+  passkeys: {
+    id: string;
+    name: string;
+    transports?: string[];
+    createdAt: string;
+    lastUsedAt?: string;
+  }[];
+  linkedAccounts: {
+    provider: string;
+    email?: string;
+    createdAt: string;
+    lastUsedAt?: string;
+  }[];
+  accessTokens: {
+    name: string;
+    scopes: string[];
+    createdAt: string;
+    expiresAt: string;
+    lastUsedAt?: string;
+  }[];
+  activity: ActivityEntry[];
+}
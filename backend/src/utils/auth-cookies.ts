@@ -0,0 +1,119 @@
+import { Request, Response, CookieOptions } from 'express';
+import { cookieConfig } from '../config/cookie.config';
+import { authConfig } from '../config/auth.config';
+import { oauthConfig } from '../config/oauth.config';
+import { AuthTokens } from '../services/token.service';
+import { generateToken } from './crypto';
+
+/**
+ * Helpers for the HttpOnly cookie session mode
+ */
+
+/**
+ * Reads a cookie sent with the request
+ */
+export function getCookie(req: Request, name: string): string | undefined {
+  const header = req.headers?.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const pair of header.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1 || pair.slice(0, separator).trim() !== name) {
+      continue;
+    }
+    const value = pair.slice(separator + 1).trim();
+    try {
+      return decodeURIComponent(value);
+    } catch (error) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the client asked for its tokens in cookies rather than in the response body
+ */
+export function wantsCookieAuth(req: Request): boolean {
+  return req.headers?.[cookieConfig.authModeHeader] === 'cookie';
+}
+
+/**
+ * Whether the request carries session cookies, which the browser attaches on its own
+ */
+export function hasAuthCookies(req: Request): boolean {
+  return !!(getCookie(req, cookieConfig.accessTokenCookie) || getCookie(req, cookieConfig.refreshTokenCookie));
+}
+
+const getCookieOptions = (options: CookieOptions): CookieOptions => ({
+  secure: cookieConfig.secure,
+  sameSite: cookieConfig.sameSite,
+  domain: cookieConfig.domain,
+  ...options,
+});
+
+/**
+ * Hands freshly issued tokens to the client
+ * In cookie mode the tokens go into HttpOnly cookies along with a new CSRF token, and only
+ * the CSRF token is returned; otherwise the tokens are returned for the response body.
+ */
+export function deliverAuthTokens(
+  req: Request,
+  res: Response,
+  tokens: AuthTokens
+): AuthTokens | { csrfToken: string } {
+  if (!wantsCookieAuth(req)) {
+    return tokens;
+  }
+
+  const csrfToken = generateToken();
+
+  res.cookie(cookieConfig.accessTokenCookie, tokens.token, getCookieOptions({
+    httpOnly: true,
+    path: '/',
+    maxAge: authConfig.accessTokenTtlSeconds * 1000,
+  }));
+  res.cookie(cookieConfig.refreshTokenCookie, tokens.refreshToken, getCookieOptions({
+    httpOnly: true,
+    path: cookieConfig.refreshTokenPath,
+    maxAge: authConfig.refreshTokenTtlMs,
+  }));
+  res.cookie(cookieConfig.csrfCookie, csrfToken, getCookieOptions({
+    httpOnly: false,
+    path: '/',
+    maxAge: authConfig.refreshTokenTtlMs,
+  }));
+
+  return { csrfToken };
+}
+
+/**
+ * Removes the session cookies, e.g. on logout
+ */
+export function clearAuthCookies(res: Response): void {
+  res.clearCookie(cookieConfig.accessTokenCookie, getCookieOptions({ httpOnly: true, path: '/' }));
+  res.clearCookie(cookieConfig.refreshTokenCookie, getCookieOptions({ httpOnly: true, path: cookieConfig.refreshTokenPath }));
+  res.clearCookie(cookieConfig.csrfCookie, getCookieOptions({ path: '/' }));
+}
+
+// The state cookie is only needed by the social login callback
+const OAUTH_STATE_COOKIE_PATH = '/api/auth/oauth';
+
+/**
+ * Remembers the state of a social login in the browser that started it
+ * The provider sends the user back with a cross-site redirect, which only carries lax cookies.
+ */
+export function setOAuthStateCookie(res: Response, state: string): void {
+  res.cookie(oauthConfig.stateCookie, state, getCookieOptions({
+    httpOnly: true,
+    sameSite: 'lax',
+    path: OAUTH_STATE_COOKIE_PATH,
+    maxAge: oauthConfig.stateTtlMs,
+  }));
+}
+
+export function clearOAuthStateCookie(res: Response): void {
+  res.clearCookie(oauthConfig.stateCookie, getCookieOptions({ httpOnly: true, sameSite: 'lax', path: OAUTH_STATE_COOKIE_PATH }));
+}
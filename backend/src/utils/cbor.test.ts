@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCbor, decodeCborFirst, encodeCbor } from './cbor';
+
+describe('CBOR Utilities', () => {
+  describe('decodeCbor', () => {
+    it.each([
+      ['00', 0],
+      ['17', 23],
+      ['1818', 24],
+      ['190100', 256],
+      ['1a000f4240', 1000000],
+      ['20', -1],
+      ['3863', -100],
+      ['f4', false],
+      ['f5', true],
+      ['f6', null],
+      ['6449455446', 'IETF'],
+    ])('should decode %s (RFC 8949 examples)', (hex, expected) => {
+      expect(decodeCbor(Buffer.from(hex, 'hex'))).toEqual(expected);
+    });
+
+    it('should decode byte strings as buffers', () => {
+      expect(decodeCbor(Buffer.from('4401020304', 'hex'))).toEqual(Buffer.from([1, 2, 3, 4]));
+    });
+
+    it('should decode nested arrays and maps', () => {
+      const value = decodeCbor(Buffer.from('a26161016162820203', 'hex')) as Map<unknown, unknown>;
+
+      expect(value.get('a')).toBe(1);
+      expect(value.get('b')).toEqual([2, 3]);
+    });
+
+    it('should keep integer map keys', () => {
+      const value = decodeCbor(Buffer.from('a201020326', 'hex')) as Map<unknown, unknown>;
+
+      expect(value.get(1)).toBe(2);
+      expect(value.get(3)).toBe(-7);
+    });
+
+    it('should reject truncated data', () => {
+      expect(() => decodeCbor(Buffer.from('4401', 'hex'))).toThrow('Unexpected end of CBOR data');
+    });
+
+    it('should reject trailing bytes', () => {
+      expect(() => decodeCbor(Buffer.from('0000', 'hex'))).toThrow('trailing bytes');
+    });
+  });
+
+  describe('decodeCborFirst', () => {
+    it('should report the length of the first item', () => {
+      const { value, length } = decodeCborFirst(Buffer.from('a1010299', 'hex'));
+
+      expect((value as Map<unknown, unknown>).get(1)).toBe(2);
+      expect(length).toBe(3);
+    });
+  });
+
+  describe('encodeCbor', () => {
+    it('should round-trip maps with integer and text keys', () => {
+      const original = new Map<any, any>([
+        [1, 2],
+        [-1, Buffer.from('key')],
+        ['fmt', 'none'],
+        ['list', [true, null, 300]],
+      ]);
+
+      expect(decodeCbor(encodeCbor(original))).toEqual(original);
+    });
+
+    it('should encode plain objects as text-keyed maps', () => {
+      expect(encodeCbor({ a: 1 }).toString('hex')).toBe('a1616101');
+    });
+  });
+});
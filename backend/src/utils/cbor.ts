@@ -0,0 +1,177 @@
+/**
+ * Minimal CBOR (RFC 8949) encoding and decoding
+ * Covers what WebAuthn uses: integers, byte and text strings, arrays, maps, booleans and null.
+ * Maps decode to Map so that COSE keys with integer labels keep their key types.
+ */
+
+export type CborValue = number | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+interface DecodeResult {
+  value: CborValue;
+  offset: number;
+}
+
+const readLength = (buffer: Buffer, additional: number, offset: number): { length: number; offset: number } => {
+  if (additional < 24) {
+    return { length: additional, offset };
+  }
+  if (additional === 24) {
+    return { length: buffer.readUInt8(offset), offset: offset + 1 };
+  }
+  if (additional === 25) {
+    return { length: buffer.readUInt16BE(offset), offset: offset + 2 };
+  }
+  if (additional === 26) {
+    return { length: buffer.readUInt32BE(offset), offset: offset + 4 };
+  }
+  if (additional === 27) {
+    const length = Number(buffer.readBigUInt64BE(offset));
+    if (!Number.isSafeInteger(length)) {
+      throw new Error('CBOR integer is too large');
+    }
+    return { length, offset: offset + 8 };
+  }
+  throw new Error(`Unsupported CBOR length encoding: ${additional}`);
+};
+
+const decodeItem = (buffer: Buffer, start: number): DecodeResult => {
+  if (start >= buffer.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = buffer[start];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+
+  if (majorType === 7) {
+    switch (additional) {
+      case 20:
+        return { value: false, offset: start + 1 };
+      case 21:
+        return { value: true, offset: start + 1 };
+      case 22:
+        return { value: null, offset: start + 1 };
+      case 23:
+        return { value: undefined, offset: start + 1 };
+      default:
+        throw new Error(`Unsupported CBOR simple value: ${additional}`);
+    }
+  }
+
+  const { length, offset } = readLength(buffer, additional, start + 1);
+
+  switch (majorType) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+    case 3: {
+      const end = offset + length;
+      if (end > buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+      }
+      const bytes = buffer.subarray(offset, end);
+      return { value: majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let position = offset;
+      for (let i = 0; i < length; i++) {
+        const item = decodeItem(buffer, position);
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let position = offset;
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(buffer, position);
+        const value = decodeItem(buffer, key.offset);
+        map.set(key.value, value.value);
+        position = value.offset;
+      }
+      return { value: map, offset: position };
+    }
+    default:
+      throw new Error(`Unsupported CBOR major type: ${majorType}`);
+  }
+};
+
+/**
+ * Decodes the first CBOR item in the buffer and reports how many bytes it used
+ * Authenticator data embeds a COSE key followed by other data, so callers need the length.
+ */
+export function decodeCborFirst(buffer: Buffer): { value: CborValue; length: number } {
+  const { value, offset } = decodeItem(buffer, 0);
+  return { value, length: offset };
+}
+
+/**
+ * Decodes a buffer that holds exactly one CBOR item
+ */
+export function decodeCbor(buffer: Buffer): CborValue {
+  const { value, length } = decodeCborFirst(buffer);
+  if (length !== buffer.length) {
+    throw new Error('Unexpected trailing bytes after CBOR data');
+  }
+  return value;
+}
+
+const encodeHead = (majorType: number, length: number): Buffer => {
+  if (length < 24) {
+    return Buffer.from([(majorType << 5) | length]);
+  }
+  if (length < 0x100) {
+    return Buffer.from([(majorType << 5) | 24, length]);
+  }
+  if (length < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = (majorType << 5) | 25;
+    head.writeUInt16BE(length, 1);
+    return head;
+  }
+  const head = Buffer.alloc(5);
+  head[0] = (majorType << 5) | 26;
+  head.writeUInt32BE(length, 1);
+  return head;
+};
+
+/**
+ * Encodes a value as CBOR
+ * Plain objects are encoded as maps with text keys.
+ */
+export function encodeCbor(value: CborValue | Record<string, CborValue>): Buffer {
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+  if (value === null) return Buffer.from([0xf6]);
+  if (value === undefined) return Buffer.from([0xf7]);
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new Error('Only integers can be encoded as CBOR');
+    }
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeHead(4, value.length), ...value.map(item => encodeCbor(item))]);
+  }
+
+  const entries: [CborValue, CborValue][] = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Buffer.concat([
+    encodeHead(5, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { generateToken, hashToken } from './crypto';
+
+describe('Crypto Utilities', () => {
+  describe('generateToken', () => {
+    it('should generate URL-safe tokens', () => {
+      expect(generateToken()).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should generate unique tokens', () => {
+      expect(generateToken()).not.toBe(generateToken());
+    });
+  });
+
+  describe('hashToken', () => {
+    it('should produce a stable SHA-256 hex digest', () => {
+      expect(hashToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+  });
+});
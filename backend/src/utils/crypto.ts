@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+
+/**
+ * Cryptographic helpers for opaque tokens
+ */
+
+/**
+ * Generates a random URL-safe token
+ */
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hashes a token with SHA-256 so it can be stored and looked up
+ * without keeping the original value
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { JwtAlgorithm } from '../types/auth.types';
+
+/**
+ * Compact JSON Web Signatures for the algorithms the key manager uses
+ * jsonwebtoken cannot sign or verify EdDSA, so tokens are handled with node's crypto directly.
+ */
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Buffer;
+}
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = (segment: string): unknown => JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+
+// RS256 is RSASSA-PKCS1-v1_5 with SHA-256; Ed25519 hashes internally and takes no digest
+const getDigest = (algorithm: JwtAlgorithm): string | null => (algorithm === 'RS256' ? 'sha256' : null);
+
+/**
+ * Signs the payload and returns the token in compact form
+ */
+export function signJws(
+  payload: object,
+  header: { alg: JwtAlgorithm; kid: string },
+  privateKey: crypto.KeyObject
+): string {
+  const signingInput = `${encodeSegment({ alg: header.alg, typ: 'JWT', kid: header.kid })}.${encodeSegment(payload)}`;
+  const signature = crypto.sign(getDigest(header.alg), Buffer.from(signingInput), privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Splits a token into its parts without checking the signature
+ * Returns null if the token is not a well-formed JWS.
+ */
+export function decodeJws(token: string): DecodedJws | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const header = decodeSegment(parts[0]) as JwsHeader;
+    const payload = decodeSegment(parts[1]) as Record<string, unknown>;
+    if (!header || typeof header.alg !== 'string' || !payload || typeof payload !== 'object') {
+      return null;
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Checks the signature with the given key
+ * The algorithm must come from the key, never from the token header.
+ */
+export function verifyJwsSignature(decoded: DecodedJws, algorithm: JwtAlgorithm, publicKey: crypto.KeyObject): boolean {
+  try {
+    return crypto.verify(getDigest(algorithm), Buffer.from(decoded.signingInput), publicKey, decoded.signature);
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Pagination helpers for list endpoints
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+}
+
+function parsePositiveInteger(value: unknown, fallback: number): number | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Reads page and pageSize from a query string, capping the page size
+ * Returns null when either is present but not a positive integer.
+ */
+export function parsePagination(query: { page?: unknown; pageSize?: unknown }): Pagination | null {
+  const page = parsePositiveInteger(query.page, 1);
+  const pageSize = parsePositiveInteger(query.pageSize, DEFAULT_PAGE_SIZE);
+
+  if (page === null || pageSize === null) {
+    return null;
+  }
+
+  return { page, pageSize: Math.min(pageSize, MAX_PAGE_SIZE) };
+}
+
+/**
+ * Returns the items on the requested page
+ */
+export function paginate<T>(items: T[], { page, pageSize }: Pagination): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
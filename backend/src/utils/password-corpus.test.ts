@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { buildPasswordCorpus, corpusContains, hashCorpusEntry, isPasswordCorpus, CORPUS_ENTRY_BYTES } from './password-corpus';
+
+describe('Password Corpus Utilities', () => {
+  describe('buildPasswordCorpus', () => {
+    it('should store sorted hash prefixes without duplicates or the passwords themselves', () => {
+      const corpus = buildPasswordCorpus(['letmein', 'qwerty', 'LetMeIn', '', '  ']);
+
+      expect(corpus.length).toBe(2 * CORPUS_ENTRY_BYTES);
+      expect(corpus.toString('latin1')).not.toContain('qwerty');
+      expect(Buffer.compare(corpus.subarray(0, CORPUS_ENTRY_BYTES), corpus.subarray(CORPUS_ENTRY_BYTES))).toBe(-1);
+    });
+  });
+
+  describe('corpusContains', () => {
+    const corpus = buildPasswordCorpus(['123456', 'dragon', 'letmein', 'monkey', 'password123', 'qwerty', 'sunshine']);
+
+    it('should find every listed password, whatever its case', () => {
+      for (const password of ['123456', 'dragon', 'letmein', 'monkey', 'password123', 'qwerty', 'sunshine', 'PassWord123']) {
+        expect(corpusContains(corpus, password)).toBe(true);
+      }
+    });
+
+    it('should not find passwords that are not listed', () => {
+      expect(corpusContains(corpus, 'quiet-harbor-42')).toBe(false);
+      expect(corpusContains(buildPasswordCorpus([]), 'password123')).toBe(false);
+    });
+  });
+
+  describe('hashCorpusEntry', () => {
+    it('should use the start of the SHA-1 digest of the lowercased password', () => {
+      expect(hashCorpusEntry('ABC').toString('hex')).toBe('a9993e364706816a');
+    });
+  });
+
+  describe('isPasswordCorpus', () => {
+    it('should reject files that are not made of whole entries', () => {
+      expect(isPasswordCorpus(Buffer.alloc(CORPUS_ENTRY_BYTES * 3))).toBe(true);
+      expect(isPasswordCorpus(Buffer.alloc(CORPUS_ENTRY_BYTES + 1))).toBe(false);
+    });
+  });
+});
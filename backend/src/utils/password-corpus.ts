@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+
+/**
+ * Compact, hashed corpus of breached and common passwords
+ * A corpus is a sorted list of fixed-size entries, each the first bytes of the SHA-1 hash of a
+ * lowercased password, so lookups are a binary search and the passwords themselves are not stored.
+ * 64-bit entries keep false positives negligible for corpora of millions of passwords.
+ */
+
+export const CORPUS_ENTRY_BYTES = 8;
+
+/**
+ * Hashes a password into a corpus entry
+ * Passwords are lowercased first, so case variants of a listed password match too.
+ */
+export function hashCorpusEntry(password: string): Buffer {
+  return crypto
+    .createHash('sha1')
+    .update(password.toLowerCase(), 'utf8')
+    .digest()
+    .subarray(0, CORPUS_ENTRY_BYTES);
+}
+
+/**
+ * Builds a corpus from plain-text passwords, skipping duplicates and blank entries
+ */
+export function buildPasswordCorpus(passwords: Iterable<string>): Buffer {
+  const entries = new Map<string, Buffer>();
+
+  for (const password of passwords) {
+    if (password.trim()) {
+      const entry = hashCorpusEntry(password);
+      entries.set(entry.toString('hex'), entry);
+    }
+  }
+
+  return Buffer.concat([...entries.values()].sort(Buffer.compare));
+}
+
+export function isPasswordCorpus(corpus: Buffer): boolean {
+  return corpus.length % CORPUS_ENTRY_BYTES === 0;
+}
+
+/**
+ * Checks whether a password is in the corpus
+ */
+export function corpusContains(corpus: Buffer, password: string): boolean {
+  const target = hashCorpusEntry(password);
+  let low = 0;
+  let high = corpus.length / CORPUS_ENTRY_BYTES - 1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    const offset = middle * CORPUS_ENTRY_BYTES;
+    const comparison = corpus.compare(target, 0, CORPUS_ENTRY_BYTES, offset, offset + CORPUS_ENTRY_BYTES);
+
+    if (comparison === 0) {
+      return true;
+    }
+    if (comparison < 0) {
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return false;
+}
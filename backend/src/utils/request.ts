@@ -0,0 +1,17 @@
+import { Request } from 'express';
+import { ClientInfo } from '../types/auth.types';
+
+/**
+ * Request helpers
+ */
+
+/**
+ * Extracts the client details stored with a session
+ */
+export function getClientInfo(req: Request): ClientInfo {
+  const userAgent = req.headers?.['user-agent'];
+  return {
+    userAgent: typeof userAgent === 'string' && userAgent ? userAgent : 'unknown',
+    ip: req.ip || req.socket?.remoteAddress || 'unknown',
+  };
+}
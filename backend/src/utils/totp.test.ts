@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  generateTotpForStep,
+  getTotpStep,
+  verifyTotp,
+  buildOtpauthUri,
+} from './totp';
+
+// Secret from the RFC 6238 test vectors ("12345678901234567890" in base32)
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP Utilities', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(bytes)).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true);
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('mzxw 6===').toString()).toBe('foo');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpForStep', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, expected) => {
+      expect(generateTotpForStep(RFC_SECRET, getTotpStep(seconds * 1000), 8)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1700000000000;
+
+    it('should accept the current code and return its step', () => {
+      const code = generateTotp(RFC_SECRET, now);
+
+      expect(verifyTotp(RFC_SECRET, code, now)).toBe(getTotpStep(now));
+    });
+
+    it('should accept codes from adjacent steps for clock drift', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30000);
+
+      expect(verifyTotp(RFC_SECRET, previous, now)).toBe(getTotpStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const old = generateTotp(RFC_SECRET, now - 90000);
+
+      expect(verifyTotp(RFC_SECRET, old, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '123', now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should include the label, secret and issuer', () => {
+      const uri = buildOtpauthUri('SECRET', 'user@example.com', 'QA Testing App');
+
+      expect(uri).toMatch(/^otpauth:\/\/totp\/QA%20Testing%20App%3Auser%40example\.com\?/);
+      expect(uri).toContain('secret=SECRET');
+      expect(uri).toContain('issuer=QA+Testing+App');
+    });
+  });
+});
@@ -2,7 +2,6 @@ import { describe, it, expect } from 'vitest';
 import {
   isValidEmail,
   isNonEmptyString,
-  isValidPassword,
   isValidName,
   sanitizeEmail,
   sanitizeName,
@@ -82,43 +81,6 @@ describe('Validation Utilities', () => {
     });
   });
 
-  describe('isValidPassword', () => {
-    it('should validate strong passwords', () => {
-      const strongPasswords = [
-        'Password123',
-        'Str0ng#P@ss',
-        'MyP@ssw0rd!',
-        'Complex123!@#',
-        'abc123XYZ',
-      ];
-
-      strongPasswords.forEach((password) => {
-        expect(isValidPassword(password)).toBe(true);
-      });
-    });
-
-    it('should reject weak passwords', () => {
-      const weakPasswords = [
-        '',
-        'short', // Too short
-        '12345678', // No letters
-        'abcdefgh', // No numbers
-        'ABCDEFGH', // No lowercase
-        'password', // No numbers
-      ];
-
-      weakPasswords.forEach((password) => {
-        expect(isValidPassword(password)).toBe(false);
-      });
-    });
-
-    it('should handle edge cases', () => {
-      expect(isValidPassword(null as any)).toBe(false);
-      expect(isValidPassword(undefined as any)).toBe(false);
-      expect(isValidPassword(12345 as any)).toBe(false);
-    });
-  });
-
   describe('isValidName', () => {
     it('should validate valid names', () => {
       const validNames = [
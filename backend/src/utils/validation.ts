@@ -42,38 +42,6 @@ export function isNonEmptyString(value: string): boolean {
   return value.trim().length > 0;
 }
 
-/**
- * Validates password strength
- * Minimum requirements:
- * - At least 8 characters
- * - At least one letter
- * - At least one number
- * 
- * For production, consider more complex requirements
- */
-export function isValidPassword(password: string): boolean {
-  if (!password || typeof password !== 'string') {
-    return false;
-  }
-
-  // Minimum length
-  if (password.length < 8) {
-    return false;
-  }
-
-  // At least one letter
-  if (!/[a-zA-Z]/.test(password)) {
-    return false;
-  }
-
-  // At least one number
-  if (!/[0-9]/.test(password)) {
-    return false;
-  }
-
-  return true;
-}
-
 /**
  * Validates name (allows letters, spaces, hyphens, apostrophes, and unicode)
  * Rejects numeric digits as they are not valid in legal names
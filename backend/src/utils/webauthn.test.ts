@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  COSE_ALGORITHMS,
+  coseKeyToJwk,
+  parseAuthenticatorData,
+  parseClientData,
+  verifyWebAuthnSignature,
+} from './webauthn';
+import { encodeCbor } from './cbor';
+
+describe('WebAuthn Utilities', () => {
+  describe('parseClientData', () => {
+    it('should decode base64url client data', () => {
+      const encoded = Buffer.from(
+        JSON.stringify({ type: 'webauthn.get', challenge: 'abc', origin: 'http://localhost:5173' })
+      ).toString('base64url');
+
+      expect(parseClientData(encoded)).toMatchObject({ type: 'webauthn.get', challenge: 'abc' });
+    });
+
+    it('should reject client data without the required fields', () => {
+      const encoded = Buffer.from(JSON.stringify({ type: 'webauthn.get' })).toString('base64url');
+
+      expect(() => parseClientData(encoded)).toThrow('Invalid client data');
+    });
+  });
+
+  describe('parseAuthenticatorData', () => {
+    const rpIdHash = crypto.createHash('sha256').update('localhost').digest();
+
+    it('should read flags and the signature counter', () => {
+      const data = Buffer.concat([rpIdHash, Buffer.from([0x05]), Buffer.from([0, 0, 1, 0])]);
+
+      const parsed = parseAuthenticatorData(data);
+
+      expect(parsed.rpIdHash.equals(rpIdHash)).toBe(true);
+      expect(parsed.userPresent).toBe(true);
+      expect(parsed.userVerified).toBe(true);
+      expect(parsed.signCount).toBe(256);
+      expect(parsed.attestedCredential).toBeUndefined();
+    });
+
+    it('should read attested credential data', () => {
+      const coseKey = encodeCbor(new Map<number, any>([[1, 2], [3, -7]]));
+      const data = Buffer.concat([
+        rpIdHash,
+        Buffer.from([0x41]),
+        Buffer.alloc(4),
+        Buffer.alloc(16),
+        Buffer.from([0, 2]),
+        Buffer.from([0xaa, 0xbb]),
+        coseKey,
+      ]);
+
+      const parsed = parseAuthenticatorData(data);
+
+      expect(parsed.userVerified).toBe(false);
+      expect(parsed.attestedCredential?.credentialId.toString('hex')).toBe('aabb');
+      expect(parsed.attestedCredential?.publicKey.get(3)).toBe(-7);
+    });
+
+    it('should reject data that is too short', () => {
+      expect(() => parseAuthenticatorData(Buffer.alloc(10))).toThrow('too short');
+    });
+  });
+
+  describe('coseKeyToJwk and verifyWebAuthnSignature', () => {
+    const data = Buffer.from('signed data');
+
+    it('should verify ES256 signatures', () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const jwk = publicKey.export({ format: 'jwk' });
+      const { jwk: converted, algorithm } = coseKeyToJwk(
+        new Map<number, any>([
+          [1, 2],
+          [3, -7],
+          [-1, 1],
+          [-2, Buffer.from(jwk.x!, 'base64url')],
+          [-3, Buffer.from(jwk.y!, 'base64url')],
+        ])
+      );
+      const signature = crypto.sign('sha256', data, { key: privateKey, dsaEncoding: 'der' });
+
+      expect(algorithm).toBe(COSE_ALGORITHMS.ES256);
+      expect(verifyWebAuthnSignature(converted, algorithm, data, signature)).toBe(true);
+      expect(verifyWebAuthnSignature(converted, algorithm, Buffer.from('other'), signature)).toBe(false);
+    });
+
+    it('should verify RS256 signatures', () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const jwk = publicKey.export({ format: 'jwk' });
+      const { jwk: converted, algorithm } = coseKeyToJwk(
+        new Map<number, any>([
+          [1, 3],
+          [3, -257],
+          [-1, Buffer.from(jwk.n!, 'base64url')],
+          [-2, Buffer.from(jwk.e!, 'base64url')],
+        ])
+      );
+
+      expect(verifyWebAuthnSignature(converted, algorithm, data, crypto.sign('sha256', data, privateKey))).toBe(true);
+    });
+
+    it('should verify EdDSA signatures', () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+      const jwk = publicKey.export({ format: 'jwk' });
+      const { jwk: converted, algorithm } = coseKeyToJwk(
+        new Map<number, any>([
+          [1, 1],
+          [3, -8],
+          [-1, 6],
+          [-2, Buffer.from(jwk.x!, 'base64url')],
+        ])
+      );
+
+      expect(verifyWebAuthnSignature(converted, algorithm, data, crypto.sign(null, data, privateKey))).toBe(true);
+    });
+
+    it('should reject unsupported key types', () => {
+      expect(() => coseKeyToJwk(new Map<number, any>([[1, 2], [3, -35]]))).toThrow('Unsupported public key algorithm');
+    });
+
+    it('should return false for unusable keys', () => {
+      expect(verifyWebAuthnSignature({ kty: 'EC' }, -7, data, Buffer.alloc(8))).toBe(false);
+    });
+  });
+});
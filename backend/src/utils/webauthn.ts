@@ -0,0 +1,156 @@
+import crypto, { webcrypto } from 'crypto';
+import { CborValue, decodeCborFirst } from './cbor';
+
+/**
+ * Parsing and signature checks for WebAuthn (passkey) responses
+ * See https://www.w3.org/TR/webauthn-3/ for the data layouts.
+ */
+
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const;
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AttestedCredential {
+  aaguid: Buffer;
+  credentialId: Buffer;
+  publicKey: Map<CborValue, CborValue>;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  attestedCredential?: AttestedCredential;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Decodes the base64url clientDataJSON sent by the browser
+ */
+export function parseClientData(clientDataJSON: string): ClientData {
+  const parsed = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+
+  if (typeof parsed?.type !== 'string' || typeof parsed.challenge !== 'string' || typeof parsed.origin !== 'string') {
+    throw new Error('Invalid client data');
+  }
+
+  return parsed;
+}
+
+/**
+ * Parses authenticator data: rpIdHash (32) | flags (1) | signCount (4) | [attested credential data]
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) {
+      throw new Error('Attested credential data is too short');
+    }
+    const credentialIdLength = data.readUInt16BE(53);
+    const credentialIdEnd = 55 + credentialIdLength;
+    const { value } = decodeCborFirst(data.subarray(credentialIdEnd));
+
+    if (!(value instanceof Map)) {
+      throw new Error('Credential public key is not a COSE key');
+    }
+
+    result.attestedCredential = {
+      aaguid: data.subarray(37, 53),
+      credentialId: data.subarray(55, credentialIdEnd),
+      publicKey: value,
+    };
+  }
+
+  return result;
+}
+
+const requireBytes = (coseKey: Map<CborValue, CborValue>, label: number): string => {
+  const value = coseKey.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`COSE key is missing parameter ${label}`);
+  }
+  return value.toString('base64url');
+};
+
+/**
+ * Converts a COSE public key to a JWK
+ * Supports ES256 (P-256), EdDSA (Ed25519) and RS256 keys.
+ */
+export function coseKeyToJwk(coseKey: Map<CborValue, CborValue>): { jwk: webcrypto.JsonWebKey; algorithm: number } {
+  const keyType = coseKey.get(1);
+  const algorithm = coseKey.get(3);
+
+  if (keyType === 2 && algorithm === COSE_ALGORITHMS.ES256 && coseKey.get(-1) === 1) {
+    return {
+      jwk: { kty: 'EC', crv: 'P-256', x: requireBytes(coseKey, -2), y: requireBytes(coseKey, -3) },
+      algorithm,
+    };
+  }
+
+  if (keyType === 1 && algorithm === COSE_ALGORITHMS.EdDSA && coseKey.get(-1) === 6) {
+    return {
+      jwk: { kty: 'OKP', crv: 'Ed25519', x: requireBytes(coseKey, -2) },
+      algorithm,
+    };
+  }
+
+  if (keyType === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    return {
+      jwk: { kty: 'RSA', n: requireBytes(coseKey, -1), e: requireBytes(coseKey, -2) },
+      algorithm,
+    };
+  }
+
+  throw new Error('Unsupported public key algorithm');
+}
+
+/**
+ * Verifies an assertion signature made with a stored credential key
+ */
+export function verifyWebAuthnSignature(
+  jwk: webcrypto.JsonWebKey,
+  algorithm: number,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  try {
+    const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+    switch (algorithm) {
+      case COSE_ALGORITHMS.ES256:
+        return crypto.verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+      case COSE_ALGORITHMS.RS256:
+        return crypto.verify('sha256', data, key, signature);
+      case COSE_ALGORITHMS.EdDSA:
+        return crypto.verify(null, data, key, signature);
+      default:
+        return false;
+    }
+  } catch (error) {
+    return false;
+  }
+}
@@ -5,6 +5,7 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    setupFiles: ['./src/test/setup.ts'],
     // Run integration tests sequentially to avoid database conflicts
     // Unit tests can still run in parallel
     pool: 'forks',
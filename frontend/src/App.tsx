@@ -3,6 +3,11 @@ import { Layout } from './components/Layout/Layout';
 import { Login } from './pages/login/Login';
 import { Signup } from './pages/signup/Signup';
 import { Profile } from './pages/profile/Profile';
+import { Passkeys } from './pages/passkeys/Passkeys';
+import { OAuthCallback } from './pages/oauth-callback/OAuthCallback';
+import { MagicLink } from './pages/magic-link/MagicLink';
+import { ResetPassword } from './pages/reset-password/ResetPassword';
+import { VerifyEmail } from './pages/verify-email/VerifyEmail';
 import { authService } from './services/auth.service';
 import './App.css';
 
@@ -21,6 +26,10 @@ function App() {
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
+          <Route path="/oauth/callback" element={<OAuthCallback />} />
+          <Route path="/magic-link" element={<MagicLink />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/verify-email" element={<VerifyEmail />} />
           <Route
             path="/profile"
             element={
@@ -29,6 +38,14 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/passkeys"
+            element={
+              <ProtectedRoute>
+                <Passkeys />
+              </ProtectedRoute>
+            }
+          />
         </Routes>
       </Layout>
     </BrowserRouter>
@@ -1,9 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, MemoryRouter } from 'react-router-dom';
 import { Login } from './Login';
-import { handleLogin } from './login.events';
+import { handleLogin, handlePasskeyLogin, handleMfaVerify } from './login.events';
 
 // Mock login events
 vi.mock('./login.events');
@@ -84,8 +84,8 @@ describe('Login', () => {
     it('should show loading state during form submission', async () => {
       const user = userEvent.setup();
       // Create a promise that we can control
-      let resolveLogin: () => void;
-      const loginPromise = new Promise<void>((resolve) => {
+      let resolveLogin: (mfaToken?: string) => void;
+      const loginPromise = new Promise<string | undefined>((resolve) => {
         resolveLogin = resolve;
       });
       vi.mocked(handleLogin).mockReturnValueOnce(loginPromise);
@@ -231,5 +231,122 @@ describe('Login', () => {
       expect(passwordLabel.querySelector('.required')).toBeInTheDocument();
     });
   });
-});
 
+  describe('Passkey sign-in', () => {
+    const enablePasskeys = () => {
+      vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+      Object.defineProperty(navigator, 'credentials', { value: {}, configurable: true });
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      Reflect.deleteProperty(navigator, 'credentials');
+    });
+
+    it('should hide passkey button when the browser does not support passkeys', () => {
+      renderLogin();
+
+      expect(screen.queryByRole('button', { name: /sign in with a passkey/i })).not.toBeInTheDocument();
+    });
+
+    it('should sign in with a passkey and navigate to profile', async () => {
+      const user = userEvent.setup();
+      enablePasskeys();
+      vi.mocked(handlePasskeyLogin).mockResolvedValueOnce(undefined);
+      renderLogin();
+
+      await user.click(screen.getByRole('button', { name: /sign in with a passkey/i }));
+
+      await waitFor(() => {
+        expect(handlePasskeyLogin).toHaveBeenCalledTimes(1);
+        expect(mockNavigate).toHaveBeenCalledWith('/profile');
+      });
+    });
+
+    it('should display error when passkey sign-in fails', async () => {
+      const user = userEvent.setup();
+      enablePasskeys();
+      vi.mocked(handlePasskeyLogin).mockRejectedValueOnce(new Error('Unknown passkey'));
+      renderLogin();
+
+      await user.click(screen.getByRole('button', { name: /sign in with a passkey/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Unknown passkey')).toBeInTheDocument();
+      });
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const submitPassword = async (user: ReturnType<typeof userEvent.setup>) => {
+      await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+      await user.type(screen.getByPlaceholderText(/enter your password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /login/i }));
+    };
+
+    it('should ask for the code when another page hands over an MFA token', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleMfaVerify).mockResolvedValueOnce(undefined);
+      render(
+        <MemoryRouter initialEntries={[{ pathname: '/login', state: { mfaToken: 'mfa-token' } }]}>
+          <Login />
+        </MemoryRouter>
+      );
+
+      await user.type(screen.getByLabelText(/verification code/i), '123456');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(handleMfaVerify).toHaveBeenCalledWith('mfa-token', '123456');
+      });
+    });
+
+    it('should ask for the code and verify it before navigating', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLogin).mockResolvedValueOnce('mfa-token');
+      vi.mocked(handleMfaVerify).mockResolvedValueOnce(undefined);
+      renderLogin();
+
+      await submitPassword(user);
+
+      const codeInput = await screen.findByLabelText(/verification code/i);
+      expect(mockNavigate).not.toHaveBeenCalled();
+
+      await user.type(codeInput, '123456');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      await waitFor(() => {
+        expect(handleMfaVerify).toHaveBeenCalledWith('mfa-token', '123456');
+        expect(mockNavigate).toHaveBeenCalledWith('/profile');
+      });
+    });
+
+    it('should show the error for a wrong code and stay on the code step', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLogin).mockResolvedValueOnce('mfa-token');
+      vi.mocked(handleMfaVerify).mockRejectedValueOnce(new Error('Invalid verification code'));
+      renderLogin();
+
+      await submitPassword(user);
+      await user.type(await screen.findByLabelText(/verification code/i), '000000');
+      await user.click(screen.getByRole('button', { name: /verify/i }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Invalid verification code');
+      expect(screen.getByLabelText(/verification code/i)).toBeInTheDocument();
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+
+    it('should go back to the login form', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLogin).mockResolvedValueOnce('mfa-token');
+      renderLogin();
+
+      await submitPassword(user);
+      await user.click(await screen.findByRole('button', { name: /back to login/i }));
+
+      expect(screen.getByPlaceholderText(/enter your password/i)).toBeInTheDocument();
+      expect(handleMfaVerify).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,17 +1,29 @@
 import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { Button } from '../../components/lib/Button/Button';
 import { Input } from '../../components/lib/Input/Input';
-import { handleLogin } from './login.events';
+import { handleLogin, handlePasskeyLogin, handleMfaVerify } from './login.events';
 import { validateLogin, type LoginValidationResult } from '../../utils/validation';
+import { isPasskeySupported } from '../../utils/webauthn';
 import './Login.css';
 
+interface LoginLocationState {
+  // Handed over by pages that finish a sign-in elsewhere, such as the social login callback
+  mfaToken?: string;
+}
+
 export const Login = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Set once the password or passkey is accepted but the account also needs its second factor
+  const [mfaToken, setMfaToken] = useState<string | null>(
+    (location.state as LoginLocationState | null)?.mfaToken ?? null
+  );
+  const [mfaCode, setMfaCode] = useState('');
   const [validation, setValidation] = useState<LoginValidationResult>({
     isValid: false,
     emailError: '',
@@ -70,7 +82,11 @@ export const Login = () => {
     setLoading(true);
 
     try {
-      await handleLogin({ email, password });
+      const pendingMfaToken = await handleLogin({ email, password });
+      if (pendingMfaToken) {
+        setMfaToken(pendingMfaToken);
+        return;
+      }
       navigate('/profile');
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Login failed');
@@ -80,6 +96,92 @@ export const Login = () => {
     }
   };
 
+  const onPasskeyLogin = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const pendingMfaToken = await handlePasskeyLogin();
+      if (pendingMfaToken) {
+        setMfaToken(pendingMfaToken);
+        return;
+      }
+      navigate('/profile');
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Passkey sign-in failed');
+      setError(error.message || 'Passkey sign-in failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!mfaToken) {
+      return;
+    }
+
+    if (!mfaCode.trim()) {
+      setError('Verification code is required');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await handleMfaVerify(mfaToken, mfaCode.trim());
+      navigate('/profile');
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Verification failed');
+      setError(error.message || 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onMfaCancel = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    setError('');
+  };
+
+  if (mfaToken) {
+    return (
+      <div className="login-container">
+        <div className="login-card">
+          <h1 className="login-title">Two-Factor Authentication</h1>
+          <p className="mfa-instructions">
+            Enter the code from your authenticator app, or one of your recovery codes.
+          </p>
+          <form onSubmit={onMfaSubmit}>
+            <Input
+              label="Verification code"
+              placeholder="123456"
+              value={mfaCode}
+              onChange={(e) => setMfaCode(e.target.value)}
+              required
+            />
+            {error && (
+              <div className="error-text" role="alert" aria-live="assertive">
+                {error}
+              </div>
+            )}
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+          <div className="mfa-cancel">
+            <Button type="button" variant="secondary" onClick={onMfaCancel} disabled={loading}>
+              Back to login
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="login-container">
       <div className="login-card">
@@ -114,6 +216,13 @@ export const Login = () => {
             {loading ? 'Logging in...' : 'Login'}
           </Button>
         </form>
+        {isPasskeySupported() && (
+          <div className="passkey-login">
+            <Button type="button" variant="secondary" onClick={onPasskeyLogin} disabled={loading}>
+              Sign in with a passkey
+            </Button>
+          </div>
+        )}
         <p className="signup-link">
           Don't have an account? <Link to="/signup">Sign up</Link>
         </p>
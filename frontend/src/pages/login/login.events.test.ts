@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { handleLogin } from './login.events';
-import { authService } from '../../services/auth.service';
+import { handleLogin, handlePasskeyLogin, handleMfaVerify } from './login.events';
+import { authService, isMfaChallenge } from '../../services/auth.service';
+import { passkeyService } from '../../services/passkey.service';
 import type { LoginRequest } from '../../types/user.types';
 
 vi.mock('../../services/auth.service');
+vi.mock('../../services/passkey.service');
 
 describe('login.events', () => {
   beforeEach(() => {
@@ -47,5 +49,48 @@ describe('login.events', () => {
       await expect(handleLogin(credentials)).rejects.toMatchSnapshot();
     });
   });
-});
 
+  describe('handlePasskeyLogin', () => {
+    it('should call passkeyService.login', async () => {
+      vi.mocked(passkeyService.login).mockResolvedValueOnce({
+        token: 'test-token',
+        user: {
+          id: '1',
+          email: 'test@example.com',
+          name: 'Test User',
+        },
+      });
+
+      await handlePasskeyLogin();
+
+      expect(passkeyService.login).toHaveBeenCalledTimes(1);
+    });
+
+    it('should propagate errors from passkeyService.login', async () => {
+      vi.mocked(passkeyService.login).mockRejectedValueOnce(new Error('Unknown passkey'));
+
+      await expect(handlePasskeyLogin()).rejects.toThrow('Unknown passkey');
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    it('should resolve with the MFA token when a second factor is needed', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(authService.login).mockResolvedValueOnce(challenge);
+      vi.mocked(isMfaChallenge).mockReturnValueOnce(true);
+
+      await expect(handleLogin({ email: 'test@example.com', password: 'password123' })).resolves.toBe('mfa-token');
+    });
+
+    it('should verify the code with the MFA token', async () => {
+      vi.mocked(authService.verifyMfa).mockResolvedValueOnce({
+        token: 'test-token',
+        user: { id: '1', email: 'test@example.com', name: 'Test User' },
+      });
+
+      await handleMfaVerify('mfa-token', '123456');
+
+      expect(authService.verifyMfa).toHaveBeenCalledWith('mfa-token', '123456');
+    });
+  });
+});
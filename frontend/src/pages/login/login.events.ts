@@ -1,7 +1,25 @@
-import { authService } from '../../services/auth.service';
+import { authService, isMfaChallenge } from '../../services/auth.service';
+import { passkeyService } from '../../services/passkey.service';
 import type { LoginRequest } from '../../types/user.types';
 
-export const handleLogin = async (credentials: LoginRequest): Promise<void> => {
-  await authService.login(credentials);
+/**
+ * Signs in with email and password
+ * Resolves with the MFA token when a second factor is still needed.
+ */
+export const handleLogin = async (credentials: LoginRequest): Promise<string | undefined> => {
+  const response = await authService.login(credentials);
+  return isMfaChallenge(response) ? response.mfaToken : undefined;
 };
 
+/**
+ * Signs in with a passkey
+ * Resolves with the MFA token when a second factor is still needed.
+ */
+export const handlePasskeyLogin = async (): Promise<string | undefined> => {
+  const response = await passkeyService.login();
+  return isMfaChallenge(response) ? response.mfaToken : undefined;
+};
+
+export const handleMfaVerify = async (mfaToken: string, code: string): Promise<void> => {
+  await authService.verifyMfa(mfaToken, code);
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { MagicLink } from './MagicLink';
+import { handleMagicLinkVerify } from './magic-link.events';
+
+vi.mock('./magic-link.events');
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe('MagicLink', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderMagicLink = (search: string) => {
+    return render(
+      <MemoryRouter initialEntries={[`/magic-link${search}`]}>
+        <MagicLink />
+      </MemoryRouter>
+    );
+  };
+
+  it('should sign in with the token and navigate to the profile', async () => {
+    vi.mocked(handleMagicLinkVerify).mockResolvedValueOnce(undefined);
+
+    renderMagicLink('?token=link-token');
+
+    expect(screen.getByText(/completing sign-in/i)).toBeInTheDocument();
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/profile', { replace: true });
+    });
+    expect(handleMagicLinkVerify).toHaveBeenCalledWith('link-token');
+    expect(handleMagicLinkVerify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand the MFA token to the login page', async () => {
+    vi.mocked(handleMagicLinkVerify).mockResolvedValueOnce('mfa-token');
+
+    renderMagicLink('?token=link-token');
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true, state: { mfaToken: 'mfa-token' } });
+    });
+  });
+
+  it('should show an error when the link has expired', async () => {
+    vi.mocked(handleMagicLinkVerify).mockRejectedValueOnce(new Error('Invalid or expired sign-in link'));
+
+    renderMagicLink('?token=link-token');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid or expired sign-in link');
+    expect(screen.getByRole('link', { name: /back to login/i })).toHaveAttribute('href', '/login');
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('should show an error when the link has no token', async () => {
+    renderMagicLink('');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This sign-in link is incomplete');
+    expect(handleMagicLinkVerify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { handleMagicLinkVerify } from './magic-link.events';
+import './MagicLink.css';
+
+/**
+ * Where the emailed sign-in links point
+ * The token in the link is exchanged for a session, or for an MFA challenge when 2FA is on.
+ */
+export const MagicLink = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [verifyError, setVerifyError] = useState('');
+  // The link only works once, so it must not be redeemed again when the effect re-runs
+  const redeemed = useRef(false);
+  const error = token ? verifyError : 'This sign-in link is incomplete';
+
+  useEffect(() => {
+    if (!token || redeemed.current) {
+      return;
+    }
+    redeemed.current = true;
+
+    handleMagicLinkVerify(token)
+      .then((mfaToken) => {
+        if (mfaToken) {
+          navigate('/login', { replace: true, state: { mfaToken } });
+          return;
+        }
+        navigate('/profile', { replace: true });
+      })
+      .catch((err) => {
+        const error = err instanceof Error ? err : new Error('Sign-in failed');
+        setVerifyError(error.message || 'Sign-in failed');
+      });
+  }, [token, navigate]);
+
+  return (
+    <div className="magic-link-container">
+      <div className="magic-link-card">
+        <h1 className="magic-link-title">Signing In</h1>
+        {error ? (
+          <>
+            <div className="error-text" role="alert" aria-live="assertive">
+              {error}
+            </div>
+            <p className="magic-link-link">
+              <Link to="/login">Back to login</Link>
+            </p>
+          </>
+        ) : (
+          <p className="magic-link-status">Completing sign-in...</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleMagicLinkVerify } from './magic-link.events';
+import { authService, isMfaChallenge } from '../../services/auth.service';
+
+vi.mock('../../services/auth.service');
+
+describe('magic-link.events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleMagicLinkVerify', () => {
+    it('should sign in with the token', async () => {
+      vi.mocked(authService.verifyMagicLink).mockResolvedValueOnce({
+        token: 'test-token',
+        user: { id: '1', email: 'test@example.com', name: 'Test User' },
+      });
+      vi.mocked(isMfaChallenge).mockReturnValueOnce(false);
+
+      await expect(handleMagicLinkVerify('link-token')).resolves.toBeUndefined();
+      expect(authService.verifyMagicLink).toHaveBeenCalledWith('link-token');
+    });
+
+    it('should resolve with the MFA token when a second factor is needed', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(authService.verifyMagicLink).mockResolvedValueOnce(challenge);
+      vi.mocked(isMfaChallenge).mockReturnValueOnce(true);
+
+      await expect(handleMagicLinkVerify('link-token')).resolves.toBe('mfa-token');
+    });
+  });
+});
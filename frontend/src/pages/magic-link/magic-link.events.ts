@@ -0,0 +1,10 @@
+import { authService, isMfaChallenge } from '../../services/auth.service';
+
+/**
+ * Signs in with the token from an emailed sign-in link
+ * Resolves with the MFA token when a second factor is still needed.
+ */
+export const handleMagicLinkVerify = async (token: string): Promise<string | undefined> => {
+  const response = await authService.verifyMagicLink(token);
+  return isMfaChallenge(response) ? response.mfaToken : undefined;
+};
@@ -0,0 +1,24 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { MemoryRouter } from 'react-router-dom';
+import { MagicLink } from './MagicLink';
+
+const meta = {
+  title: 'Pages/MagicLink',
+  component: MagicLink,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <MemoryRouter initialEntries={['/magic-link']}>
+        <Story />
+      </MemoryRouter>
+    ),
+  ],
+} satisfies Meta<typeof MagicLink>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const IncompleteLink: Story = {};
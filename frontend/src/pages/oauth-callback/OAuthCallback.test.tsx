@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { OAuthCallback } from './OAuthCallback';
+import { handleOAuthComplete } from './oauth-callback.events';
+
+vi.mock('./oauth-callback.events');
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe('OAuthCallback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderCallback = (hash: string) => {
+    return render(
+      <MemoryRouter initialEntries={[`/oauth/callback${hash}`]}>
+        <OAuthCallback />
+      </MemoryRouter>
+    );
+  };
+
+  it('should redeem the code and navigate to the profile', async () => {
+    vi.mocked(handleOAuthComplete).mockResolvedValueOnce(undefined);
+
+    renderCallback('#code=login-code');
+
+    expect(screen.getByText(/completing sign-in/i)).toBeInTheDocument();
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/profile', { replace: true });
+    });
+    expect(handleOAuthComplete).toHaveBeenCalledWith('login-code');
+    expect(handleOAuthComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand the MFA token to the login page', async () => {
+    vi.mocked(handleOAuthComplete).mockResolvedValueOnce('mfa-token');
+
+    renderCallback('#code=login-code');
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true, state: { mfaToken: 'mfa-token' } });
+    });
+  });
+
+  it('should show the error from the callback', async () => {
+    renderCallback('#error=Sign-in+was+cancelled+or+denied+at+the+identity+provider');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Sign-in was cancelled or denied at the identity provider');
+    expect(screen.getByRole('link', { name: /back to login/i })).toHaveAttribute('href', '/login');
+    expect(handleOAuthComplete).not.toHaveBeenCalled();
+  });
+
+  it('should show an error when the code cannot be redeemed', async () => {
+    vi.mocked(handleOAuthComplete).mockRejectedValueOnce(new Error('Invalid or expired sign-in code'));
+
+    renderCallback('#code=login-code');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid or expired sign-in code');
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+});
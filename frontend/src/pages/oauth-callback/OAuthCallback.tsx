@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { handleOAuthComplete } from './oauth-callback.events';
+import './OAuthCallback.css';
+
+/**
+ * Where the backend sends the browser back after a social login
+ * The outcome arrives in the URL fragment: either a one-time code to redeem or an error.
+ */
+export const OAuthCallback = () => {
+  const navigate = useNavigate();
+  const { hash } = useLocation();
+  const outcome = new URLSearchParams(hash.slice(1));
+  const code = outcome.get('code');
+  const [redeemError, setRedeemError] = useState('');
+  // The code only works once, so it must not be redeemed again when the effect re-runs
+  const redeemed = useRef(false);
+  const error = code ? redeemError : outcome.get('error') || 'Sign-in failed';
+
+  useEffect(() => {
+    if (!code || redeemed.current) {
+      return;
+    }
+    redeemed.current = true;
+
+    handleOAuthComplete(code)
+      .then((mfaToken) => {
+        if (mfaToken) {
+          navigate('/login', { replace: true, state: { mfaToken } });
+          return;
+        }
+        navigate('/profile', { replace: true });
+      })
+      .catch((err) => {
+        const error = err instanceof Error ? err : new Error('Sign-in failed');
+        setRedeemError(error.message || 'Sign-in failed');
+      });
+  }, [code, navigate]);
+
+  return (
+    <div className="oauth-callback-container">
+      <div className="oauth-callback-card">
+        <h1 className="oauth-callback-title">Signing In</h1>
+        {error ? (
+          <>
+            <div className="error-text" role="alert" aria-live="assertive">
+              {error}
+            </div>
+            <p className="oauth-callback-link">
+              <Link to="/login">Back to login</Link>
+            </p>
+          </>
+        ) : (
+          <p className="oauth-callback-status">Completing sign-in...</p>
+        )}
+      </div>
+    </div>
+  );
+};
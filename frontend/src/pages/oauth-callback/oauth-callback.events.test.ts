@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleOAuthComplete } from './oauth-callback.events';
+import { authService, isMfaChallenge } from '../../services/auth.service';
+
+vi.mock('../../services/auth.service');
+
+describe('oauth-callback.events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleOAuthComplete', () => {
+    it('should redeem the code', async () => {
+      vi.mocked(authService.completeOAuth).mockResolvedValueOnce({
+        token: 'test-token',
+        user: { id: '1', email: 'test@example.com', name: 'Test User' },
+      });
+      vi.mocked(isMfaChallenge).mockReturnValueOnce(false);
+
+      await expect(handleOAuthComplete('login-code')).resolves.toBeUndefined();
+      expect(authService.completeOAuth).toHaveBeenCalledWith('login-code');
+    });
+
+    it('should resolve with the MFA token when a second factor is needed', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(authService.completeOAuth).mockResolvedValueOnce(challenge);
+      vi.mocked(isMfaChallenge).mockReturnValueOnce(true);
+
+      await expect(handleOAuthComplete('login-code')).resolves.toBe('mfa-token');
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { authService, isMfaChallenge } from '../../services/auth.service';
+
+/**
+ * Finishes a social login with the code from the callback
+ * Resolves with the MFA token when a second factor is still needed.
+ */
+export const handleOAuthComplete = async (code: string): Promise<string | undefined> => {
+  const response = await authService.completeOAuth(code);
+  return isMfaChallenge(response) ? response.mfaToken : undefined;
+};
@@ -0,0 +1,24 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { MemoryRouter } from 'react-router-dom';
+import { OAuthCallback } from './OAuthCallback';
+
+const meta = {
+  title: 'Pages/OAuthCallback',
+  component: OAuthCallback,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <MemoryRouter initialEntries={['/oauth/callback#error=Sign-in+was+cancelled+or+denied+at+the+identity+provider']}>
+        <Story />
+      </MemoryRouter>
+    ),
+  ],
+} satisfies Meta<typeof OAuthCallback>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Failed: Story = {};
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BrowserRouter } from 'react-router-dom';
+import { Passkeys } from './Passkeys';
+import { handleLoadPasskeys, handleAddPasskey, handleDeletePasskey } from './passkeys.events';
+import type { Passkey } from '../../types/passkey.types';
+
+vi.mock('./passkeys.events');
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+describe('Passkeys', () => {
+  const passkey: Passkey = {
+    id: 'pk-1',
+    name: 'Work laptop',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+    Object.defineProperty(navigator, 'credentials', { value: {}, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    Reflect.deleteProperty(navigator, 'credentials');
+  });
+
+  const renderPasskeys = () => {
+    return render(
+      <BrowserRouter>
+        <Passkeys />
+      </BrowserRouter>
+    );
+  };
+
+  describe('Integration Tests', () => {
+    it('should load and display registered passkeys', async () => {
+      vi.mocked(handleLoadPasskeys).mockResolvedValueOnce([passkey]);
+
+      renderPasskeys();
+
+      expect(screen.getByText(/loading/i)).toBeInTheDocument();
+
+      await waitFor(() => {
+        expect(screen.getByText('Work laptop')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('button', { name: /remove/i })).toBeInTheDocument();
+    });
+
+    it('should show empty state when no passkeys are registered', async () => {
+      vi.mocked(handleLoadPasskeys).mockResolvedValueOnce([]);
+
+      renderPasskeys();
+
+      await waitFor(() => {
+        expect(screen.getByText(/not added any passkeys/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should add a passkey and show it in the list', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLoadPasskeys).mockResolvedValueOnce([]);
+      vi.mocked(handleAddPasskey).mockResolvedValueOnce(passkey);
+
+      renderPasskeys();
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/passkey name/i)).toBeInTheDocument();
+      });
+
+      await user.type(screen.getByLabelText(/passkey name/i), 'Work laptop');
+      await user.click(screen.getByRole('button', { name: /add a passkey/i }));
+
+      await waitFor(() => {
+        expect(handleAddPasskey).toHaveBeenCalledWith('Work laptop');
+        expect(screen.getByText('Work laptop')).toBeInTheDocument();
+        expect(screen.getByText(/passkey added successfully/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should remove a passkey from the list', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLoadPasskeys).mockResolvedValueOnce([passkey]);
+      vi.mocked(handleDeletePasskey).mockResolvedValueOnce(undefined);
+
+      renderPasskeys();
+
+      await waitFor(() => {
+        expect(screen.getByText('Work laptop')).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole('button', { name: /remove/i }));
+
+      await waitFor(() => {
+        expect(handleDeletePasskey).toHaveBeenCalledWith('pk-1');
+        expect(screen.queryByText('Work laptop')).not.toBeInTheDocument();
+      });
+    });
+
+    it('should display error when adding a passkey fails', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleLoadPasskeys).mockResolvedValueOnce([]);
+      vi.mocked(handleAddPasskey).mockRejectedValueOnce(new Error('Passkey is already registered'));
+
+      renderPasskeys();
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /add a passkey/i })).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole('button', { name: /add a passkey/i }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Passkey is already registered');
+      });
+    });
+
+    it('should redirect to login when not authenticated', async () => {
+      vi.mocked(handleLoadPasskeys).mockRejectedValueOnce(new Error('No token found'));
+
+      renderPasskeys();
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/login');
+      });
+    });
+  });
+});
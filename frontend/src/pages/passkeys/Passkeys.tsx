@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Button } from '../../components/lib/Button/Button';
+import { Input } from '../../components/lib/Input/Input';
+import { handleLoadPasskeys, handleAddPasskey, handleDeletePasskey } from './passkeys.events';
+import { isPasskeySupported } from '../../utils/webauthn';
+import type { Passkey } from '../../types/passkey.types';
+import './Passkeys.css';
+
+/**
+ * Checks if error is an authentication error that requires redirect to login
+ */
+const isAuthError = (errorMessage: string): boolean => {
+  const lowerMessage = errorMessage.toLowerCase();
+  return (
+    errorMessage === 'No token found' ||
+    lowerMessage.includes('token expired') ||
+    (lowerMessage.includes('token') && lowerMessage.includes('invalid')) ||
+    lowerMessage.includes('unauthorized')
+  );
+};
+
+const formatDate = (value: string): string => {
+  return new Date(value).toLocaleDateString();
+};
+
+export const Passkeys = () => {
+  const navigate = useNavigate();
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const supported = isPasskeySupported();
+
+  const showError = (err: unknown, fallback: string) => {
+    const errorMessage = err instanceof Error && err.message ? err.message : fallback;
+    if (isAuthError(errorMessage)) {
+      navigate('/login');
+      return;
+    }
+    setError(errorMessage);
+  };
+
+  useEffect(() => {
+    const loadPasskeys = async () => {
+      try {
+        setPasskeys(await handleLoadPasskeys());
+      } catch (err) {
+        setPasskeys([]);
+        const errorMessage = err instanceof Error && err.message ? err.message : 'Failed to load passkeys';
+        if (isAuthError(errorMessage)) {
+          navigate('/login');
+          return;
+        }
+        setError(errorMessage);
+      }
+    };
+
+    loadPasskeys();
+  }, [navigate]);
+
+  const onAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      const passkey = await handleAddPasskey(name);
+      setPasskeys((prev) => [...(prev || []), passkey]);
+      setName('');
+      setSuccess('Passkey added successfully!');
+    } catch (err) {
+      showError(err, 'Failed to add passkey');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onDelete = async (id: string) => {
+    setError('');
+    setSuccess('');
+    setLoading(true);
+
+    try {
+      await handleDeletePasskey(id);
+      setPasskeys((prev) => (prev || []).filter((passkey) => passkey.id !== id));
+      setSuccess('Passkey removed');
+    } catch (err) {
+      showError(err, 'Failed to remove passkey');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (passkeys === null) {
+    return <div className="passkeys-container">Loading...</div>;
+  }
+
+  return (
+    <div className="passkeys-container">
+      <div className="passkeys-card">
+        <h1 className="passkeys-title">Passkeys</h1>
+        <p className="passkeys-description">
+          Passkeys let you sign in with your device's screen lock instead of a password.
+        </p>
+
+        {passkeys.length === 0 ? (
+          <p className="passkeys-empty">You have not added any passkeys yet.</p>
+        ) : (
+          <ul className="passkeys-list">
+            {passkeys.map((passkey) => (
+              <li key={passkey.id} className="passkeys-item">
+                <div>
+                  <div className="passkeys-name">{passkey.name}</div>
+                  <div className="passkeys-meta">
+                    Added {formatDate(passkey.createdAt)}
+                    {passkey.lastUsedAt && ` · Last used ${formatDate(passkey.lastUsedAt)}`}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() => onDelete(passkey.id)}
+                  disabled={loading}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {supported ? (
+          <form onSubmit={onAdd}>
+            <Input
+              label="Passkey name"
+              placeholder="e.g. Work laptop"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Please wait...' : 'Add a passkey'}
+            </Button>
+          </form>
+        ) : (
+          <p className="passkeys-empty">This browser does not support passkeys.</p>
+        )}
+
+        {error && (
+          <div className="error-text" role="alert" aria-live="assertive">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="success-text" role="status" aria-live="polite">
+            {success}
+          </div>
+        )}
+
+        <p className="passkeys-back">
+          <Link to="/profile">Back to profile</Link>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleLoadPasskeys, handleAddPasskey, handleDeletePasskey } from './passkeys.events';
+import { passkeyService } from '../../services/passkey.service';
+import type { Passkey } from '../../types/passkey.types';
+
+vi.mock('../../services/passkey.service');
+
+describe('passkeys.events', () => {
+  const passkey: Passkey = {
+    id: 'pk-1',
+    name: 'Work laptop',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleLoadPasskeys', () => {
+    it('should return passkeys from passkeyService.list', async () => {
+      vi.mocked(passkeyService.list).mockResolvedValueOnce([passkey]);
+
+      const result = await handleLoadPasskeys();
+
+      expect(passkeyService.list).toHaveBeenCalledTimes(1);
+      expect(result).toMatchSnapshot();
+    });
+  });
+
+  describe('handleAddPasskey', () => {
+    it('should register a passkey with a trimmed name', async () => {
+      vi.mocked(passkeyService.register).mockResolvedValueOnce(passkey);
+
+      const result = await handleAddPasskey('  Work laptop  ');
+
+      expect(passkeyService.register).toHaveBeenCalledWith('Work laptop');
+      expect(result).toEqual(passkey);
+    });
+
+    it('should leave the name to the server when blank', async () => {
+      vi.mocked(passkeyService.register).mockResolvedValueOnce(passkey);
+
+      await handleAddPasskey('   ');
+
+      expect(passkeyService.register).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should propagate errors from passkeyService.register', async () => {
+      vi.mocked(passkeyService.register).mockRejectedValueOnce(new Error('Passkey is already registered'));
+
+      await expect(handleAddPasskey('Work laptop')).rejects.toMatchSnapshot();
+    });
+  });
+
+  describe('handleDeletePasskey', () => {
+    it('should call passkeyService.remove with the id', async () => {
+      vi.mocked(passkeyService.remove).mockResolvedValueOnce(undefined);
+
+      await handleDeletePasskey('pk-1');
+
+      expect(passkeyService.remove).toHaveBeenCalledWith('pk-1');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { passkeyService } from '../../services/passkey.service';
+import type { Passkey } from '../../types/passkey.types';
+
+export const handleLoadPasskeys = async (): Promise<Passkey[]> => {
+  return await passkeyService.list();
+};
+
+export const handleAddPasskey = async (name: string): Promise<Passkey> => {
+  return await passkeyService.register(name.trim() || undefined);
+};
+
+export const handleDeletePasskey = async (id: string): Promise<void> => {
+  await passkeyService.remove(id);
+};
@@ -0,0 +1,87 @@
+import type { Meta, StoryObj } from '@storybook/react';
+import { BrowserRouter } from 'react-router-dom';
+import { Passkeys } from './Passkeys';
+
+const meta = {
+  title: 'Pages/Passkeys',
+  component: Passkeys,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => {
+      // Set up localStorage for authenticated state
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem('auth_token', 'mock-token-storybook');
+      }
+
+      return (
+        <BrowserRouter>
+          <Story />
+        </BrowserRouter>
+      );
+    },
+  ],
+} satisfies Meta<typeof Passkeys>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Helper to mock fetch responses for the passkey list API
+const mockFetch = (body: unknown, delay = 0) => {
+  const originalFetch = global.fetch;
+  global.fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+    const urlString = typeof url === 'string' ? url : url.toString();
+
+    if (urlString.includes('/api/auth/passkeys') && (!init?.method || init.method === 'GET')) {
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return originalFetch(url, init);
+  };
+  return () => {
+    global.fetch = originalFetch;
+  };
+};
+
+export const Default: Story = {
+  decorators: [
+    (Story) => {
+      mockFetch({
+        passkeys: [
+          { id: '1', name: 'MacBook Touch ID', createdAt: '2024-01-01T00:00:00.000Z', lastUsedAt: '2024-02-01T00:00:00.000Z' },
+          { id: '2', name: 'Security key', createdAt: '2024-01-15T00:00:00.000Z' },
+        ],
+      });
+
+      return <Story />;
+    },
+  ],
+};
+
+export const Empty: Story = {
+  decorators: [
+    (Story) => {
+      mockFetch({ passkeys: [] });
+      return <Story />;
+    },
+  ],
+};
+
+export const Loading: Story = {
+  decorators: [
+    (Story) => {
+      // Mock with very long delay to show loading state
+      mockFetch({ passkeys: [] }, 999999);
+      return <Story />;
+    },
+  ],
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, Link } from 'react-router-dom';
 import { Button } from '../../components/lib/Button/Button';
 import { Input } from '../../components/lib/Input/Input';
 import { authService } from '../../services/auth.service';
@@ -222,6 +222,9 @@ export const Profile = () => {
             </Button>
           </div>
         </form>
+        <p className="profile-links">
+          <Link to="/passkeys">Manage passkeys</Link>
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { ResetPassword } from './ResetPassword';
+import { handleResetPassword } from './reset-password.events';
+import { passwordPolicyService } from '../../services/password-policy.service';
+
+vi.mock('./reset-password.events');
+vi.mock('../../services/password-policy.service');
+
+describe('ResetPassword', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(passwordPolicyService.getPolicy).mockResolvedValue({
+      minLength: 8,
+      maxLength: 72,
+      requiredCharacterClasses: ['letter', 'digit'],
+      forbidPersonalInfo: true,
+      forbiddenSubstrings: [],
+      historyDepth: 5,
+    });
+  });
+
+  const renderResetPassword = (search: string) => {
+    return render(
+      <MemoryRouter initialEntries={[`/reset-password${search}`]}>
+        <ResetPassword />
+      </MemoryRouter>
+    );
+  };
+
+  it('should set the new password and point to the login page', async () => {
+    vi.mocked(handleResetPassword).mockResolvedValueOnce('Password has been reset. Please log in with your new password');
+    const user = userEvent.setup();
+    renderResetPassword('?token=reset-token');
+
+    await user.type(screen.getByLabelText(/new password/i), 'brandnew456');
+    await user.click(screen.getByRole('button', { name: /set new password/i }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Password has been reset');
+    expect(handleResetPassword).toHaveBeenCalledWith('reset-token', 'brandnew456');
+    expect(screen.getByRole('link', { name: /back to login/i })).toHaveAttribute('href', '/login');
+  });
+
+  it('should check the password against the policy before sending it', async () => {
+    const user = userEvent.setup();
+    renderResetPassword('?token=reset-token');
+
+    await user.type(screen.getByLabelText(/new password/i), 'short');
+    await user.click(screen.getByRole('button', { name: /set new password/i }));
+
+    expect(await screen.findByText(/password must be at least 8 characters/i)).toBeInTheDocument();
+    expect(handleResetPassword).not.toHaveBeenCalled();
+  });
+
+  it('should show the error when the link has expired', async () => {
+    vi.mocked(handleResetPassword).mockRejectedValueOnce(new Error('Invalid or expired reset token'));
+    const user = userEvent.setup();
+    renderResetPassword('?token=reset-token');
+
+    await user.type(screen.getByLabelText(/new password/i), 'brandnew456');
+    await user.click(screen.getByRole('button', { name: /set new password/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid or expired reset token');
+  });
+
+  it('should show an error when the link has no token', () => {
+    renderResetPassword('');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('This reset link is incomplete');
+    expect(screen.queryByLabelText(/new password/i)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Button } from '../../components/lib/Button/Button';
+import { Input } from '../../components/lib/Input/Input';
+import { handleResetPassword } from './reset-password.events';
+import { getPasswordError } from '../../utils/validation';
+import { passwordPolicyService } from '../../services/password-policy.service';
+import type { PasswordPolicy } from '../../types/password-policy.types';
+import './ResetPassword.css';
+
+/**
+ * Where password reset emails point, both for forgotten passwords and for resets forced by an admin
+ */
+export const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [touched, setTouched] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+  const passwordError = getPasswordError(password, passwordPolicy);
+
+  useEffect(() => {
+    // Without the policy only presence is checked here; the server still rejects passwords it does not allow
+    passwordPolicyService.getPolicy().then(setPasswordPolicy).catch(() => {});
+  }, []);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setTouched(true);
+
+    if (!token || passwordError) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      setSuccess(await handleResetPassword(token, password));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Password reset failed');
+      setError(error.message || 'Password reset failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token || success) {
+    return (
+      <div className="reset-password-container">
+        <div className="reset-password-card">
+          <h1 className="reset-password-title">Reset Password</h1>
+          {success ? (
+            <div className="success-text" role="status" aria-live="polite">
+              {success}
+            </div>
+          ) : (
+            <div className="error-text" role="alert" aria-live="assertive">
+              This reset link is incomplete
+            </div>
+          )}
+          <p className="reset-password-link">
+            <Link to="/login">Back to login</Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="reset-password-container">
+      <div className="reset-password-card">
+        <h1 className="reset-password-title">Reset Password</h1>
+        <form onSubmit={onSubmit}>
+          <Input
+            type="password"
+            label="New Password"
+            placeholder="Enter your new password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onBlur={() => setTouched(true)}
+            required
+            error={touched ? passwordError : ''}
+          />
+          {error && (
+            <div className="error-text" role="alert" aria-live="assertive">
+              {error}
+            </div>
+          )}
+          <Button type="submit" disabled={loading}>
+            {loading ? 'Saving...' : 'Set New Password'}
+          </Button>
+        </form>
+        <p className="reset-password-link">
+          <Link to="/login">Back to login</Link>
+        </p>
+      </div>
+    </div>
+  );
+};
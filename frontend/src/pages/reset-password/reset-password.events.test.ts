@@ -0,0 +1,26 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleResetPassword } from './reset-password.events';
+import { authService } from '../../services/auth.service';
+
+vi.mock('../../services/auth.service');
+
+describe('reset-password.events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleResetPassword', () => {
+    it('should send the token and the new password', async () => {
+      vi.mocked(authService.resetPassword).mockResolvedValueOnce('Password has been reset');
+
+      await expect(handleResetPassword('reset-token', 'brandnew456')).resolves.toBe('Password has been reset');
+      expect(authService.resetPassword).toHaveBeenCalledWith('reset-token', 'brandnew456');
+    });
+
+    it('should propagate errors from authService.resetPassword', async () => {
+      vi.mocked(authService.resetPassword).mockRejectedValueOnce(new Error('Invalid or expired reset token'));
+
+      await expect(handleResetPassword('reset-token', 'brandnew456')).rejects.toThrow('Invalid or expired reset token');
+    });
+  });
+});
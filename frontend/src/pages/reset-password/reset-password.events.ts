@@ -0,0 +1,9 @@
+import { authService } from '../../services/auth.service';
+
+/**
+ * Sets the new password chosen on the reset page
+ * Resolves with the confirmation to show; the user logs in with the new password afterwards.
+ */
+export const handleResetPassword = async (token: string, password: string): Promise<string> => {
+  return authService.resetPassword(token, password);
+};
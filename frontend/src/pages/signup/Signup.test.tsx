@@ -4,9 +4,12 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { Signup } from './Signup';
 import { handleSignup } from './signup.events';
+import { passwordPolicyService } from '../../services/password-policy.service';
+import type { PasswordPolicy } from '../../types/password-policy.types';
 
 // Mock signup events
 vi.mock('./signup.events');
+vi.mock('../../services/password-policy.service');
 
 const mockNavigate = vi.fn();
 
@@ -21,6 +24,14 @@ vi.mock('react-router-dom', async () => {
 describe('Signup', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(passwordPolicyService.getPolicy).mockResolvedValue({
+      minLength: 8,
+      maxLength: 72,
+      requiredCharacterClasses: ['letter', 'digit'],
+      forbidPersonalInfo: true,
+      forbiddenSubstrings: [],
+      historyDepth: 5,
+    });
   });
 
   const renderSignup = () => {
@@ -88,11 +99,53 @@ describe('Signup', () => {
       });
     });
 
+    it('should ask the user to check their email instead of signing them in', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleSignup).mockResolvedValueOnce('Registration successful, please check your email to verify your account');
+
+      renderSignup();
+
+      await user.type(screen.getByLabelText(/name/i), 'John Doe');
+      await user.type(screen.getByLabelText(/email/i), 'john@example.com');
+      await user.type(screen.getByPlaceholderText(/enter your password/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /sign up/i }));
+
+      expect(await screen.findByRole('status')).toHaveTextContent(/please check your email/i);
+      expect(screen.getByRole('link', { name: /login/i })).toHaveAttribute('href', '/login');
+      expect(mockNavigate).not.toHaveBeenCalled();
+    });
+
+    it('should send the invitation code from the invitation link', async () => {
+      const user = userEvent.setup();
+      vi.mocked(handleSignup).mockResolvedValueOnce(undefined);
+      window.history.pushState({}, '', '/signup?invite=invite-code');
+
+      try {
+        renderSignup();
+
+        await user.type(screen.getByLabelText(/name/i), 'John Doe');
+        await user.type(screen.getByLabelText(/email/i), 'john@example.com');
+        await user.type(screen.getByPlaceholderText(/enter your password/i), 'password123');
+        await user.click(screen.getByRole('button', { name: /sign up/i }));
+
+        await waitFor(() => {
+          expect(handleSignup).toHaveBeenCalledWith({
+            name: 'John Doe',
+            email: 'john@example.com',
+            password: 'password123',
+            invitationCode: 'invite-code',
+          });
+        });
+      } finally {
+        window.history.pushState({}, '', '/');
+      }
+    });
+
     it('should show loading state during form submission', async () => {
       const user = userEvent.setup();
       // Create a promise that we can control
-      let resolveSignup: () => void;
-      const signupPromise = new Promise<void>((resolve) => {
+      let resolveSignup: (message?: string) => void;
+      const signupPromise = new Promise<string | undefined>((resolve) => {
         resolveSignup = resolve;
       });
       vi.mocked(handleSignup).mockReturnValueOnce(signupPromise);
@@ -257,6 +310,64 @@ describe('Signup', () => {
       });
     });
 
+    it('should validate the password against the policy from the server', async () => {
+      vi.mocked(passwordPolicyService.getPolicy).mockResolvedValue({
+        minLength: 12,
+        maxLength: 72,
+        requiredCharacterClasses: ['letter', 'digit'],
+        forbidPersonalInfo: true,
+        forbiddenSubstrings: [],
+        historyDepth: 5,
+      });
+      const user = userEvent.setup();
+      renderSignup();
+
+      await waitFor(() => {
+        expect(passwordPolicyService.getPolicy).toHaveBeenCalled();
+      });
+      await user.type(screen.getByLabelText(/name/i), 'Jane Smithson');
+      await user.type(screen.getByPlaceholderText(/enter your password/i), 'password123');
+      await user.tab();
+
+      await waitFor(() => {
+        expect(screen.getByText(/password must be at least 12 characters/i)).toBeInTheDocument();
+      });
+
+      await user.type(screen.getByPlaceholderText(/enter your password/i), '-smithson');
+      await waitFor(() => {
+        expect(screen.getByText(/password must not contain your name or email address/i)).toBeInTheDocument();
+      });
+    });
+
+    it('should re-validate a field the user already left once the policy arrives', async () => {
+      let resolvePolicy: (policy: PasswordPolicy) => void = () => {};
+      vi.mocked(passwordPolicyService.getPolicy).mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolvePolicy = resolve;
+        })
+      );
+      const user = userEvent.setup();
+      renderSignup();
+
+      await user.type(screen.getByLabelText(/name/i), 'Jane Smithson');
+      await user.type(screen.getByLabelText(/email/i), 'jane@example.com');
+      await user.type(screen.getByPlaceholderText(/enter your password/i), 'password123');
+      await user.tab();
+      expect(screen.getByRole('button', { name: /sign up/i })).not.toBeDisabled();
+
+      resolvePolicy({
+        minLength: 12,
+        maxLength: 72,
+        requiredCharacterClasses: ['letter', 'digit'],
+        forbidPersonalInfo: true,
+        forbiddenSubstrings: [],
+        historyDepth: 5,
+      });
+
+      expect(await screen.findByText(/password must be at least 12 characters/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /sign up/i })).toBeDisabled();
+    });
+
     it('should prevent submission with invalid data', async () => {
       const user = userEvent.setup();
       renderSignup();
@@ -1,66 +1,53 @@
-import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { Button } from '../../components/lib/Button/Button';
 import { Input } from '../../components/lib/Input/Input';
 import { handleSignup } from './signup.events';
-import { validateSignup, type SignupValidationResult } from '../../utils/validation';
+import { validateSignup } from '../../utils/validation';
+import { passwordPolicyService } from '../../services/password-policy.service';
+import type { PasswordPolicy } from '../../types/password-policy.types';
 import './Signup.css';
 
 export const Signup = () => {
   const navigate = useNavigate();
+  // Invitation links point here with the code, which the server requires while registration is invite-only
+  const [searchParams] = useSearchParams();
+  const invitationCode = searchParams.get('invite') || undefined;
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [pendingMessage, setPendingMessage] = useState('');
   const [loading, setLoading] = useState(false);
-  const [validation, setValidation] = useState<SignupValidationResult>({
-    isValid: false,
-    nameError: '',
-    emailError: '',
-    passwordError: '',
-  });
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
   const [touched, setTouched] = useState({
     name: false,
     email: false,
     password: false,
   });
 
-  const validateField = (fieldName: 'name' | 'email' | 'password', value: string) => {
-    const result = validateSignup(
-      fieldName === 'name' ? value : name,
-      fieldName === 'email' ? value : email,
-      fieldName === 'password' ? value : password
-    );
-    setValidation(result);
-  };
+  // Derived on every render so the fields are re-checked as soon as the policy arrives
+  const validation = validateSignup(name, email, password, passwordPolicy);
+
+  useEffect(() => {
+    // Without the policy only presence is checked here; the server still rejects passwords it does not allow
+    passwordPolicyService.getPolicy().then(setPasswordPolicy).catch(() => {});
+  }, []);
 
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setName(value);
-    if (touched.name) {
-      validateField('name', value);
-    }
+    setName(e.target.value);
   };
 
   const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setEmail(value);
-    if (touched.email) {
-      validateField('email', value);
-    }
+    setEmail(e.target.value);
   };
 
   const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setPassword(value);
-    if (touched.password) {
-      validateField('password', value);
-    }
+    setPassword(e.target.value);
   };
 
   const handleBlur = (fieldName: 'name' | 'email' | 'password') => {
     setTouched((prev) => ({ ...prev, [fieldName]: true }));
-    validateField(fieldName, fieldName === 'name' ? name : fieldName === 'email' ? email : password);
   };
 
   const onSubmit = async (e: React.FormEvent) => {
@@ -70,19 +57,19 @@ export const Signup = () => {
     // Mark all fields as touched
     setTouched({ name: true, email: true, password: true });
     
-    // Validate all fields
-    const validationResult = validateSignup(name, email, password);
-    setValidation(validationResult);
-    
     // Don't submit if validation fails
-    if (!validationResult.isValid) {
+    if (!validation.isValid) {
       return;
     }
     
     setLoading(true);
 
     try {
-      await handleSignup({ name, email, password });
+      const message = await handleSignup({ name, email, password, invitationCode });
+      if (message) {
+        setPendingMessage(message);
+        return;
+      }
       navigate('/profile');
     } catch (err) {
       const error = err instanceof Error ? err : new Error('Signup failed');
@@ -92,6 +79,22 @@ export const Signup = () => {
     }
   };
 
+  if (pendingMessage) {
+    return (
+      <div className="signup-container">
+        <div className="signup-card">
+          <h1 className="signup-title">Check Your Email</h1>
+          <div className="success-text" role="status" aria-live="polite">
+            {pendingMessage}
+          </div>
+          <p className="login-link">
+            Verified already? <Link to="/login">Login</Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="signup-container">
       <div className="signup-card">
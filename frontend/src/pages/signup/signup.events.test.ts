@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleSignup } from './signup.events';
-import { authService } from '../../services/auth.service';
+import { authService, isVerificationPending } from '../../services/auth.service';
 import type { SignupRequest } from '../../types/user.types';
 
 vi.mock('../../services/auth.service');
@@ -36,6 +36,18 @@ describe('signup.events', () => {
       expect(mockResponse).toMatchSnapshot();
     });
 
+    it('should resolve with the message when the email address must be verified first', async () => {
+      const pending = {
+        message: 'Registration successful, please check your email to verify your account',
+        user: { id: '1', email: 'test@example.com', name: 'Test User' },
+      };
+      vi.mocked(authService.signup).mockResolvedValueOnce(pending);
+      vi.mocked(isVerificationPending).mockReturnValueOnce(true);
+
+      await expect(handleSignup({ email: 'test@example.com', password: 'password123', name: 'Test User' }))
+        .resolves.toBe(pending.message);
+    });
+
     it('should propagate errors from authService.signup', async () => {
       const userData: SignupRequest = {
         email: 'existing@example.com',
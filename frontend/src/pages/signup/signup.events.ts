@@ -1,7 +1,11 @@
-import { authService } from '../../services/auth.service';
+import { authService, isVerificationPending } from '../../services/auth.service';
 import type { SignupRequest } from '../../types/user.types';
 
-export const handleSignup = async (userData: SignupRequest): Promise<void> => {
-  await authService.signup(userData);
+/**
+ * Creates the account
+ * Resolves with the message to show when the email address must be verified before logging in.
+ */
+export const handleSignup = async (userData: SignupRequest): Promise<string | undefined> => {
+  const response = await authService.signup(userData);
+  return isVerificationPending(response) ? response.message : undefined;
 };
-
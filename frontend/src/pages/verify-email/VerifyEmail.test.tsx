@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { VerifyEmail } from './VerifyEmail';
+import { handleVerifyEmail } from './verify-email.events';
+import { authService } from '../../services/auth.service';
+
+vi.mock('./verify-email.events');
+vi.mock('../../services/auth.service');
+
+describe('VerifyEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(authService.isAuthenticated).mockReturnValue(false);
+  });
+
+  const renderVerifyEmail = (search: string) => {
+    return render(
+      <MemoryRouter initialEntries={[`/verify-email${search}`]}>
+        <VerifyEmail />
+      </MemoryRouter>
+    );
+  };
+
+  it('should verify the address once and point a new user to the login page', async () => {
+    vi.mocked(handleVerifyEmail).mockResolvedValueOnce('Email address verified');
+
+    renderVerifyEmail('?token=verify-token');
+
+    expect(screen.getByText(/verifying your email address/i)).toBeInTheDocument();
+    expect(await screen.findByRole('status')).toHaveTextContent('Email address verified');
+    expect(screen.getByRole('link', { name: /go to login/i })).toHaveAttribute('href', '/login');
+    expect(handleVerifyEmail).toHaveBeenCalledWith('verify-token');
+    expect(handleVerifyEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should point a signed-in user back to their profile', async () => {
+    vi.mocked(authService.isAuthenticated).mockReturnValue(true);
+    vi.mocked(handleVerifyEmail).mockResolvedValueOnce('Email address verified');
+
+    renderVerifyEmail('?token=verify-token');
+
+    expect(await screen.findByRole('link', { name: /go to your profile/i })).toHaveAttribute('href', '/profile');
+  });
+
+  it('should show the error when the link has expired', async () => {
+    vi.mocked(handleVerifyEmail).mockRejectedValueOnce(new Error('Invalid or expired verification token'));
+
+    renderVerifyEmail('?token=verify-token');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Invalid or expired verification token');
+  });
+
+  it('should show an error when the link has no token', () => {
+    renderVerifyEmail('');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('This verification link is incomplete');
+    expect(handleVerifyEmail).not.toHaveBeenCalled();
+  });
+});
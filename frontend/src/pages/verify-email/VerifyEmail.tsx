@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { handleVerifyEmail } from './verify-email.events';
+import { authService } from '../../services/auth.service';
+import './VerifyEmail.css';
+
+/**
+ * Where verification emails point, after signing up or changing the email address
+ */
+export const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [verifyError, setVerifyError] = useState('');
+  const [success, setSuccess] = useState('');
+  // The token only works once, so it must not be sent again when the effect re-runs
+  const verified = useRef(false);
+  const error = token ? verifyError : 'This verification link is incomplete';
+
+  useEffect(() => {
+    if (!token || verified.current) {
+      return;
+    }
+    verified.current = true;
+
+    handleVerifyEmail(token)
+      .then(setSuccess)
+      .catch((err) => {
+        const error = err instanceof Error ? err : new Error('Verification failed');
+        setVerifyError(error.message || 'Verification failed');
+      });
+  }, [token]);
+
+  // Someone who changed their email address is still signed in; a new account logs in next
+  const next = authService.isAuthenticated()
+    ? <Link to="/profile">Go to your profile</Link>
+    : <Link to="/login">Go to login</Link>;
+
+  return (
+    <div className="verify-email-container">
+      <div className="verify-email-card">
+        <h1 className="verify-email-title">Verify Email</h1>
+        {error && (
+          <div className="error-text" role="alert" aria-live="assertive">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="success-text" role="status" aria-live="polite">
+            {success}
+          </div>
+        )}
+        {!error && !success && <p className="verify-email-status">Verifying your email address...</p>}
+        {(error || success) && <p className="verify-email-link">{next}</p>}
+      </div>
+    </div>
+  );
+};
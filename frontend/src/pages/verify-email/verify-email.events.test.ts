@@ -0,0 +1,26 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleVerifyEmail } from './verify-email.events';
+import { authService } from '../../services/auth.service';
+
+vi.mock('../../services/auth.service');
+
+describe('verify-email.events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleVerifyEmail', () => {
+    it('should send the token from the link', async () => {
+      vi.mocked(authService.verifyEmail).mockResolvedValueOnce('Email address verified');
+
+      await expect(handleVerifyEmail('verify-token')).resolves.toBe('Email address verified');
+      expect(authService.verifyEmail).toHaveBeenCalledWith('verify-token');
+    });
+
+    it('should propagate errors from authService.verifyEmail', async () => {
+      vi.mocked(authService.verifyEmail).mockRejectedValueOnce(new Error('Invalid or expired verification token'));
+
+      await expect(handleVerifyEmail('verify-token')).rejects.toThrow('Invalid or expired verification token');
+    });
+  });
+});
@@ -0,0 +1,9 @@
+import { authService } from '../../services/auth.service';
+
+/**
+ * Confirms the email address with the token from the verification link
+ * Resolves with the confirmation to show.
+ */
+export const handleVerifyEmail = async (token: string): Promise<string> => {
+  return authService.verifyEmail(token);
+};
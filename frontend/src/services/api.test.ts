@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { api } from './api';
+import { api, getAuthMode } from './api';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -297,4 +297,194 @@ describe('api', () => {
       await expect(api.put('/test', {})).rejects.toThrow('Invalid response format');
     });
   });
+
+  describe('delete', () => {
+    it('should make DELETE request with token', async () => {
+      const mockData = { message: 'Deleted' };
+      const token = 'test-token';
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockData,
+      } as Response);
+
+      const result = await api.delete('/test/1', token);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/test/1',
+        {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+      expect(result).toEqual(mockData);
+    });
+
+    it('should throw error when response is not ok', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ error: 'Not found' }),
+      } as Response);
+
+      await expect(api.delete('/test/1')).rejects.toThrow('Not found');
+    });
+  });
+
+  describe('cookie mode', () => {
+    beforeEach(() => {
+      vi.stubEnv('VITE_AUTH_MODE', 'cookie');
+      document.cookie = 'csrf_token=csrf-123';
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      document.cookie = 'csrf_token=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+      localStorage.clear();
+    });
+
+    it('should report the configured mode', () => {
+      expect(getAuthMode()).toBe('cookie');
+      vi.unstubAllEnvs();
+      expect(getAuthMode()).toBe('bearer');
+    });
+
+    it('should send credentials without the CSRF header on GET requests', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await api.get('/profile');
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3000/api/profile', {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Auth-Mode': 'cookie',
+        },
+        credentials: 'include',
+      });
+    });
+
+    it('should echo the CSRF cookie on state-changing requests', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await api.put('/profile', { name: 'Test' });
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3000/api/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Auth-Mode': 'cookie',
+          'X-CSRF-Token': 'csrf-123',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ name: 'Test' }),
+      });
+    });
+
+    it('should prefer the CSRF token from the last login or refresh response over the cookie', async () => {
+      localStorage.setItem('csrf_token', 'csrf-from-response');
+      vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await api.post('/auth/logout', {});
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3000/api/auth/logout', expect.objectContaining({
+        headers: expect.objectContaining({ 'X-CSRF-Token': 'csrf-from-response' }),
+      }));
+    });
+  });
+
+  describe('session refresh', () => {
+    const expired = () => {
+      const body = { error: 'Invalid or expired token' };
+      return { ok: false, status: 401, json: async () => body, clone: () => ({ json: async () => body }) } as unknown as Response;
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+      localStorage.setItem('auth_token', 'old-token');
+      localStorage.setItem('refresh_token', 'old-refresh');
+    });
+
+    it('should refresh an expired token and retry the request once', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(expired())
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ token: 'new-token', refreshToken: 'new-refresh' }) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: '1' }) } as Response);
+
+      const result = await api.get('/profile', 'old-token');
+
+      expect(result).toEqual({ id: '1' });
+      expect(global.fetch).toHaveBeenNthCalledWith(2, 'http://localhost:3000/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: 'old-refresh' }),
+      });
+      expect(global.fetch).toHaveBeenNthCalledWith(3, 'http://localhost:3000/api/profile', {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer new-token' },
+      });
+      expect(localStorage.getItem('auth_token')).toBe('new-token');
+      expect(localStorage.getItem('refresh_token')).toBe('new-refresh');
+    });
+
+    it('should share one refresh between parallel requests', async () => {
+      vi.mocked(global.fetch).mockImplementation(async (url, init) => {
+        if (String(url).endsWith('/auth/refresh')) {
+          return { ok: true, json: async () => ({ token: 'new-token', refreshToken: 'new-refresh' }) } as Response;
+        }
+        const headers = init?.headers as Record<string, string>;
+        return headers.Authorization === 'Bearer new-token'
+          ? ({ ok: true, json: async () => ({}) } as Response)
+          : expired();
+      });
+
+      await Promise.all([api.get('/profile', 'old-token'), api.get('/auth/sessions', 'old-token')]);
+
+      const refreshCalls = vi.mocked(global.fetch).mock.calls.filter(([url]) => String(url).endsWith('/auth/refresh'));
+      expect(refreshCalls).toHaveLength(1);
+    });
+
+    it('should clear the session and fail when the refresh token is rejected', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(expired())
+        .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({ error: 'Invalid or expired refresh token' }) } as Response);
+
+      await expect(api.get('/profile', 'old-token')).rejects.toThrow('Invalid or expired token');
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(localStorage.getItem('refresh_token')).toBeNull();
+    });
+
+    it('should refresh with the refresh cookie in cookie mode', async () => {
+      vi.stubEnv('VITE_AUTH_MODE', 'cookie');
+      const body = { error: 'No token provided' };
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce({ ok: false, status: 401, json: async () => body, clone: () => ({ json: async () => body }) } as unknown as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ csrfToken: 'csrf-456' }) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: '1' }) } as Response);
+
+      await expect(api.get('/profile')).resolves.toEqual({ id: '1' });
+
+      expect(global.fetch).toHaveBeenNthCalledWith(2, 'http://localhost:3000/api/auth/refresh', expect.objectContaining({
+        credentials: 'include',
+        body: JSON.stringify({}),
+      }));
+      expect(localStorage.getItem('csrf_token')).toBe('csrf-456');
+      vi.unstubAllEnvs();
+    });
+
+    it('should not refresh for requests sent without a session', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: 'Invalid email or password' }),
+      } as Response);
+
+      await expect(api.post('/auth/login', { email: 'a@b.c', password: 'x' })).rejects.toThrow();
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
 });
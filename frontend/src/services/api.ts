@@ -1,3 +1,5 @@
+import { storage } from '../utils/storage';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
 /**
@@ -39,10 +41,40 @@ const processErrorResponse = async (response: Response): Promise<Error> => {
   return new Error(errorMessage);
 };
 
+export type AuthMode = 'bearer' | 'cookie';
+
+/**
+ * How the session is carried between app and API
+ * In bearer mode the app stores the token and sends it in the Authorization header. In cookie
+ * mode (VITE_AUTH_MODE=cookie) the API keeps the tokens in HttpOnly cookies page scripts cannot read.
+ */
+export const getAuthMode = (): AuthMode => {
+  return import.meta.env.VITE_AUTH_MODE === 'cookie' ? 'cookie' : 'bearer';
+};
+
+/**
+ * Reads a cookie visible to the page, such as the CSRF token set by the API
+ */
+const readCookie = (name: string): string | undefined => {
+  const prefix = `${name}=`;
+  const cookie = document.cookie.split('; ').find(entry => entry.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+};
+
+/**
+ * Returns the CSRF token to echo back to the API
+ * The one from the last login or refresh response comes first: the cookie cannot be read when
+ * the API is on another domain.
+ */
+const getCsrfToken = (): string | undefined => {
+  return storage.getCsrfToken() ?? readCookie('csrf_token');
+};
+
 /**
  * Creates headers for API requests
+ * In cookie mode, state-changing requests echo the CSRF token so the API knows they come from the app
  */
-const createHeaders = (token?: string): HeadersInit => {
+const createHeaders = (method: string, token?: string): HeadersInit => {
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
   };
@@ -50,61 +82,124 @@ const createHeaders = (token?: string): HeadersInit => {
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
+
+  if (getAuthMode() === 'cookie') {
+    headers['X-Auth-Mode'] = 'cookie';
+    const csrfToken = method === 'GET' ? undefined : getCsrfToken();
+    if (csrfToken) {
+      headers['X-CSRF-Token'] = csrfToken;
+    }
+  }
   
   return headers;
 };
 
-export const api = {
-  get: async <T>(endpoint: string, token?: string): Promise<T> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        method: 'GET',
-        headers: createHeaders(token),
-      });
-
-      if (!response.ok) {
-        throw await processErrorResponse(response);
-      }
-
-      return await response.json();
-    } catch (err) {
-      throw handleApiError(err);
+/**
+ * Cookie mode needs the browser to send and accept the API's cookies across origins
+ */
+const getCredentials = (): Pick<RequestInit, 'credentials'> => {
+  return getAuthMode() === 'cookie' ? { credentials: 'include' } : {};
+};
+
+// What the API answers when the access token has expired, or in cookie mode once its cookie is gone
+const EXPIRED_SESSION_ERRORS = ['Invalid or expired token', 'No token provided'];
+
+const isExpiredSession = async (response: Response): Promise<boolean> => {
+  const body = await response.clone().json().catch(() => ({}));
+  return EXPIRED_SESSION_ERRORS.includes(body.error);
+};
+
+/**
+ * Swaps the refresh token for a new pair of tokens
+ * Returns false when the session cannot be renewed, after clearing it so the user logs in again.
+ */
+const requestNewTokens = async (): Promise<boolean> => {
+  const cookieMode = getAuthMode() === 'cookie';
+  const refreshToken = storage.getRefreshToken();
+  if (!cookieMode && !refreshToken) {
+    return false;
+  }
+
+  try {
+    // In cookie mode the browser sends the refresh cookie itself
+    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: createHeaders('POST'),
+      ...getCredentials(),
+      body: JSON.stringify(cookieMode ? {} : { refreshToken }),
+    });
+
+    if (!response.ok) {
+      storage.clear();
+      return false;
     }
-  },
-
-  post: async <T>(endpoint: string, data: any, token?: string): Promise<T> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        method: 'POST',
-        headers: createHeaders(token),
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        throw await processErrorResponse(response);
-      }
-
-      return await response.json();
-    } catch (err) {
-      throw handleApiError(err);
+
+    const tokens = await response.json();
+    if (!cookieMode) {
+      storage.setToken(tokens.token);
+      storage.setRefreshToken(tokens.refreshToken);
+    } else if (tokens.csrfToken) {
+      storage.setCsrfToken(tokens.csrfToken);
     }
-  },
-
-  put: async <T>(endpoint: string, data: any, token?: string): Promise<T> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        method: 'PUT',
-        headers: createHeaders(token),
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        throw await processErrorResponse(response);
-      }
-
-      return await response.json();
-    } catch (err) {
-      throw handleApiError(err);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+let refreshRequest: Promise<boolean> | null = null;
+
+/**
+ * Renews the session, sharing one request between callers
+ * Refresh tokens work only once and the API ends the session when one is reused, so parallel
+ * requests that all found their access token expired must not each refresh.
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshRequest) {
+    refreshRequest = requestNewTokens().finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+};
+
+/**
+ * Sends a request, renewing an expired session and retrying once
+ */
+const request = async <T>(method: string, endpoint: string, token?: string, data?: unknown): Promise<T> => {
+  const send = (authToken?: string): Promise<Response> => {
+    return fetch(`${API_BASE_URL}${endpoint}`, {
+      method,
+      headers: createHeaders(method, authToken),
+      ...getCredentials(),
+      ...(data === undefined ? {} : { body: JSON.stringify(data) }),
+    });
+  };
+
+  try {
+    let response = await send(token);
+
+    const authenticated = !!token || getAuthMode() === 'cookie';
+    if (response.status === 401 && authenticated && await isExpiredSession(response) && await refreshSession()) {
+      response = await send(token ? storage.getToken() ?? undefined : undefined);
     }
-  },
+
+    if (!response.ok) {
+      throw await processErrorResponse(response);
+    }
+
+    return await response.json();
+  } catch (err) {
+    throw handleApiError(err);
+  }
+};
+
+export const api = {
+  get: <T>(endpoint: string, token?: string): Promise<T> => request<T>('GET', endpoint, token),
+
+  post: <T>(endpoint: string, data: any, token?: string): Promise<T> => request<T>('POST', endpoint, token, data),
+
+  put: <T>(endpoint: string, data: any, token?: string): Promise<T> => request<T>('PUT', endpoint, token, data),
+
+  delete: <T>(endpoint: string, token?: string): Promise<T> => request<T>('DELETE', endpoint, token),
 };
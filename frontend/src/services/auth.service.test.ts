@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { authService } from './auth.service';
-import { api } from './api';
+import { api, getAuthMode } from './api';
 import { storage } from '../utils/storage';
 import type { User, LoginRequest, SignupRequest, UpdateProfileRequest } from '../types/user.types';
 
@@ -42,6 +42,114 @@ describe('authService', () => {
     });
   });
 
+  describe('two-factor authentication', () => {
+    it('should not store a session while the second factor is outstanding', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(api.post).mockResolvedValueOnce(challenge);
+
+      const result = await authService.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(result).toEqual(challenge);
+      expect(storage.setToken).not.toHaveBeenCalled();
+      expect(storage.setUser).not.toHaveBeenCalled();
+    });
+
+    it('should store the session once the code is verified', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce(mockAuthResponse);
+
+      await authService.verifyMfa('mfa-token', '123456');
+
+      expect(api.post).toHaveBeenCalledWith('/auth/2fa/verify', { mfaToken: 'mfa-token', code: '123456' });
+      expect(storage.setToken).toHaveBeenCalledWith('test-token-123');
+      expect(storage.setUser).toHaveBeenCalledWith(mockUser);
+    });
+  });
+
+  describe('social login', () => {
+    it('should store the session for a redeemed code', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce(mockAuthResponse);
+
+      await authService.completeOAuth('login-code');
+
+      expect(api.post).toHaveBeenCalledWith('/auth/oauth/complete', { code: 'login-code' });
+      expect(storage.setToken).toHaveBeenCalledWith('test-token-123');
+      expect(storage.setUser).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should not store a session while the second factor is outstanding', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(api.post).mockResolvedValueOnce(challenge);
+
+      const result = await authService.completeOAuth('login-code');
+
+      expect(result).toEqual(challenge);
+      expect(storage.setToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sign-in links', () => {
+    it('should store the session for a valid link', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce(mockAuthResponse);
+
+      await authService.verifyMagicLink('link-token');
+
+      expect(api.post).toHaveBeenCalledWith('/auth/magic-link/verify', { token: 'link-token' });
+      expect(storage.setToken).toHaveBeenCalledWith('test-token-123');
+      expect(storage.setUser).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should not store a session while the second factor is outstanding', async () => {
+      const challenge = { mfaRequired: true as const, mfaToken: 'mfa-token', expiresIn: 300 };
+      vi.mocked(api.post).mockResolvedValueOnce(challenge);
+
+      const result = await authService.verifyMagicLink('link-token');
+
+      expect(result).toEqual(challenge);
+      expect(storage.setToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email verification', () => {
+    it('should send the token from the verification email', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ message: 'Email address verified' });
+
+      const message = await authService.verifyEmail('verify-token');
+
+      expect(api.post).toHaveBeenCalledWith('/auth/verify-email', { token: 'verify-token' });
+      expect(message).toBe('Email address verified');
+    });
+  });
+
+  describe('password reset', () => {
+    it('should send the token and new password without storing a session', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ message: 'Password has been reset' });
+
+      const message = await authService.resetPassword('reset-token', 'brandnew456');
+
+      expect(api.post).toHaveBeenCalledWith('/auth/reset-password', { token: 'reset-token', password: 'brandnew456' });
+      expect(message).toBe('Password has been reset');
+      expect(storage.setUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session tokens', () => {
+    it('should store the refresh token and send it on logout', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ ...mockAuthResponse, refreshToken: 'refresh-123' });
+
+      await authService.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(storage.setRefreshToken).toHaveBeenCalledWith('refresh-123');
+
+      vi.mocked(storage.getToken).mockReturnValueOnce('test-token-123');
+      vi.mocked(storage.getRefreshToken).mockReturnValueOnce('refresh-123');
+      vi.mocked(api.post).mockResolvedValueOnce({});
+
+      await authService.logout();
+
+      expect(api.post).toHaveBeenLastCalledWith('/auth/logout', { refreshToken: 'refresh-123' }, 'test-token-123');
+    });
+  });
+
   describe('signup', () => {
     it('should signup user and store token and user data', async () => {
       const userData: SignupRequest = {
@@ -59,6 +167,25 @@ describe('authService', () => {
       expect(storage.setUser).toHaveBeenCalledWith(mockUser);
       expect(result).toEqual(mockAuthResponse);
     });
+
+    it('should not store a session while the email address is unverified', async () => {
+      const pending = { message: 'Registration successful, please check your email to verify your account', user: mockUser };
+      vi.mocked(api.post).mockResolvedValueOnce(pending);
+
+      const result = await authService.signup({ email: 'test@example.com', password: 'password123', name: 'Test User' });
+
+      expect(result).toEqual(pending);
+      expect(storage.setToken).not.toHaveBeenCalled();
+      expect(storage.setUser).not.toHaveBeenCalled();
+    });
+
+    it('should store the user of a cookie session', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ csrfToken: 'csrf-123', user: mockUser });
+
+      await authService.signup({ email: 'test@example.com', password: 'password123', name: 'Test User' });
+
+      expect(storage.setUser).toHaveBeenCalledWith(mockUser);
+    });
   });
 
   describe('logout', () => {
@@ -166,5 +293,48 @@ describe('authService', () => {
       expect(authService.getCurrentUser()).toBeNull();
     });
   });
+
+  describe('cookie mode', () => {
+    beforeEach(() => {
+      vi.mocked(getAuthMode).mockReturnValue('cookie');
+    });
+
+    afterEach(() => {
+      vi.mocked(getAuthMode).mockReset();
+    });
+
+    it('should keep only the user and CSRF token, as the tokens live in HttpOnly cookies', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ csrfToken: 'csrf-123', user: mockUser });
+
+      await authService.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(storage.setToken).not.toHaveBeenCalled();
+      expect(storage.setCsrfToken).toHaveBeenCalledWith('csrf-123');
+      expect(storage.setUser).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should call authenticated endpoints without a token', async () => {
+      vi.mocked(api.get).mockResolvedValueOnce(mockUser);
+
+      await authService.getProfile();
+
+      expect(api.get).toHaveBeenCalledWith('/profile', undefined);
+    });
+
+    it('should always ask the API to clear the session on logout', async () => {
+      vi.mocked(storage.getToken).mockReturnValueOnce(null);
+      vi.mocked(api.post).mockResolvedValueOnce({});
+
+      await authService.logout();
+
+      expect(api.post).toHaveBeenCalledWith('/auth/logout', {}, undefined);
+      expect(storage.clear).toHaveBeenCalled();
+    });
+
+    it('should treat a stored user as signed in', () => {
+      vi.mocked(storage.getUser).mockReturnValueOnce(mockUser);
+      expect(authService.isAuthenticated()).toBe(true);
+    });
+  });
 });
 
@@ -1,27 +1,116 @@
-import { api } from './api';
+import { api, getAuthMode } from './api';
 import { storage } from '../utils/storage';
-import type { LoginRequest, SignupRequest, AuthResponse, User, UpdateProfileRequest } from '../types/user.types';
+import type {
+  LoginRequest,
+  LoginResponse,
+  MfaChallengeResponse,
+  SignupRequest,
+  SignupResponse,
+  VerificationPendingResponse,
+  AuthResponse,
+  User,
+  UpdateProfileRequest,
+} from '../types/user.types';
 
-export const authService = {
-  login: async (credentials: LoginRequest): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>('/auth/login', credentials);
+/**
+ * Returns the token to send with authenticated requests
+ * In cookie mode the browser sends the session cookie instead, so there is no token.
+ */
+const requireToken = (): string | undefined => {
+  if (getAuthMode() === 'cookie') {
+    return undefined;
+  }
+  const token = storage.getToken();
+  if (!token) {
+    throw new Error('No token found');
+  }
+  return token;
+};
+
+export const isMfaChallenge = (response: LoginResponse): response is MfaChallengeResponse => {
+  return 'mfaRequired' in response && response.mfaRequired;
+};
+
+// A session comes with a token in bearer mode and with a CSRF token in cookie mode
+export const isVerificationPending = (response: SignupResponse): response is VerificationPendingResponse => {
+  return !('token' in response && response.token) && !('csrfToken' in response && response.csrfToken);
+};
+
+export const storeSession = (response: AuthResponse): void => {
+  if (response.token) {
     storage.setToken(response.token);
-    storage.setUser(response.user);
+  }
+  if (response.refreshToken) {
+    storage.setRefreshToken(response.refreshToken);
+  }
+  if (response.csrfToken) {
+    storage.setCsrfToken(response.csrfToken);
+  }
+  storage.setUser(response.user);
+};
+
+export const authService = {
+  login: async (credentials: LoginRequest): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/login', credentials);
+    // No session yet while the second factor is outstanding
+    if (!isMfaChallenge(response)) {
+      storeSession(response);
+    }
     return response;
   },
 
-  signup: async (userData: SignupRequest): Promise<AuthResponse> => {
-    const response = await api.post<AuthResponse>('/auth/register', userData);
-    storage.setToken(response.token);
-    storage.setUser(response.user);
+  verifyMfa: async (mfaToken: string, code: string): Promise<AuthResponse> => {
+    const response = await api.post<AuthResponse>('/auth/2fa/verify', { mfaToken, code });
+    storeSession(response);
+    return response;
+  },
+
+  // Redeems the one-time code the backend hands over after a social login
+  completeOAuth: async (code: string): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/oauth/complete', { code });
+    if (!isMfaChallenge(response)) {
+      storeSession(response);
+    }
+    return response;
+  },
+
+  // Signs in with the token from an emailed sign-in link
+  verifyMagicLink: async (token: string): Promise<LoginResponse> => {
+    const response = await api.post<LoginResponse>('/auth/magic-link/verify', { token });
+    if (!isMfaChallenge(response)) {
+      storeSession(response);
+    }
+    return response;
+  },
+
+  // Confirms the email address with the token from a verification email
+  verifyEmail: async (token: string): Promise<string> => {
+    const response = await api.post<{ message: string }>('/auth/verify-email', { token });
+    return response.message;
+  },
+
+  // Sets a new password with the token from a reset email; the user then logs in with it
+  resetPassword: async (token: string, password: string): Promise<string> => {
+    const response = await api.post<{ message: string }>('/auth/reset-password', { token, password });
+    return response.message;
+  },
+
+  signup: async (userData: SignupRequest): Promise<SignupResponse> => {
+    const response = await api.post<SignupResponse>('/auth/register', userData);
+    // No session yet while the email address is unverified
+    if (!isVerificationPending(response)) {
+      storeSession(response);
+    }
     return response;
   },
 
   logout: async (): Promise<void> => {
     try {
       const token = storage.getToken();
-      if (token) {
-        await api.post('/auth/logout', {}, token);
+      if (token || getAuthMode() === 'cookie') {
+        // Sending the refresh token revokes it too, so it cannot be used to sign back in
+        const refreshToken = storage.getRefreshToken();
+        await api.post('/auth/logout', refreshToken ? { refreshToken } : {}, token ?? undefined);
       }
     } catch (error) {
       console.error('Logout error:', error);
@@ -31,25 +120,18 @@ export const authService = {
   },
 
   getProfile: async (): Promise<User> => {
-    const token = storage.getToken();
-    if (!token) {
-      throw new Error('No token found');
-    }
-    return api.get<User>('/profile', token);
+    return api.get<User>('/profile', requireToken());
   },
 
   updateProfile: async (updates: UpdateProfileRequest): Promise<User> => {
-    const token = storage.getToken();
-    if (!token) {
-      throw new Error('No token found');
-    }
-    const updatedUser = await api.put<User>('/profile', updates, token);
+    const updatedUser = await api.put<User>('/profile', updates, requireToken());
     storage.setUser(updatedUser);
     return updatedUser;
   },
 
   isAuthenticated: (): boolean => {
-    return !!storage.getToken();
+    // The session cookie is HttpOnly, so in cookie mode the stored user stands in for it
+    return getAuthMode() === 'cookie' ? !!storage.getUser() : !!storage.getToken();
   },
 
   getCurrentUser: (): User | null => {
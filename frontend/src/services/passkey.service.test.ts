@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { passkeyService } from './passkey.service';
+import { api } from './api';
+import { storage } from '../utils/storage';
+import * as webauthn from '../utils/webauthn';
+
+// Mock dependencies
+vi.mock('./api');
+vi.mock('../utils/storage');
+vi.mock('../utils/webauthn');
+
+describe('passkeyService', () => {
+  const mockCredentials = {
+    create: vi.fn(),
+    get: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('navigator', { ...navigator, credentials: mockCredentials });
+    vi.mocked(storage.getToken).mockReturnValue('test-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('register', () => {
+    it('should create a credential from the server options and register it', async () => {
+      const options = { challenge: 'challenge' };
+      const credential = { id: 'credential-1' };
+      const credentialJSON = { id: 'credential-1', rawId: 'credential-1' };
+      const passkey = { id: 'passkey-1', name: 'Laptop', createdAt: '2024-01-01T00:00:00.000Z' };
+
+      vi.mocked(api.post).mockResolvedValueOnce(options).mockResolvedValueOnce(passkey);
+      vi.mocked(webauthn.toCreationOptions).mockReturnValue({ challenge: new ArrayBuffer(1) } as never);
+      vi.mocked(webauthn.registrationToJSON).mockReturnValue(credentialJSON as never);
+      mockCredentials.create.mockResolvedValueOnce(credential);
+
+      const result = await passkeyService.register('Laptop');
+
+      expect(api.post).toHaveBeenNthCalledWith(1, '/auth/passkeys/register/options', {}, 'test-token');
+      expect(webauthn.toCreationOptions).toHaveBeenCalledWith(options);
+      expect(api.post).toHaveBeenNthCalledWith(
+        2,
+        '/auth/passkeys/register',
+        { credential: credentialJSON, name: 'Laptop' },
+        'test-token'
+      );
+      expect(result).toEqual(passkey);
+    });
+
+    it('should throw if the user cancels', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ challenge: 'challenge' });
+      mockCredentials.create.mockResolvedValueOnce(null);
+
+      await expect(passkeyService.register()).rejects.toThrow('Passkey registration was cancelled');
+    });
+
+    it('should throw if there is no token', async () => {
+      vi.mocked(storage.getToken).mockReturnValue(null);
+
+      await expect(passkeyService.register()).rejects.toThrow('No token found');
+      expect(api.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('should sign in with an assertion and store the session', async () => {
+      const authResponse = {
+        token: 'new-token',
+        user: { id: '1', email: 'test@example.com', name: 'Test User' },
+      };
+      const credentialJSON = { id: 'credential-1' };
+
+      vi.mocked(api.post).mockResolvedValueOnce({ challenge: 'challenge' }).mockResolvedValueOnce(authResponse);
+      vi.mocked(webauthn.authenticationToJSON).mockReturnValue(credentialJSON as never);
+      mockCredentials.get.mockResolvedValueOnce({ id: 'credential-1' });
+
+      const result = await passkeyService.login();
+
+      expect(api.post).toHaveBeenNthCalledWith(2, '/auth/passkeys/login', { credential: credentialJSON });
+      expect(storage.setToken).toHaveBeenCalledWith('new-token');
+      expect(storage.setUser).toHaveBeenCalledWith(authResponse.user);
+      expect(result).toEqual(authResponse);
+    });
+
+    it('should not store a session when the server asks for a second factor', async () => {
+      const challenge = { mfaRequired: true, mfaToken: 'mfa-token', expiresIn: 300 };
+
+      vi.mocked(api.post).mockResolvedValueOnce({ challenge: 'challenge' }).mockResolvedValueOnce(challenge);
+      vi.mocked(webauthn.authenticationToJSON).mockReturnValue({ id: 'credential-1' } as never);
+      mockCredentials.get.mockResolvedValueOnce({ id: 'credential-1' });
+
+      expect(await passkeyService.login()).toEqual(challenge);
+      expect(storage.setToken).not.toHaveBeenCalled();
+      expect(storage.setUser).not.toHaveBeenCalled();
+    });
+
+    it('should throw if the user cancels', async () => {
+      vi.mocked(api.post).mockResolvedValueOnce({ challenge: 'challenge' });
+      mockCredentials.get.mockResolvedValueOnce(null);
+
+      await expect(passkeyService.login()).rejects.toThrow('Passkey sign-in was cancelled');
+      expect(storage.setToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('should return the passkeys', async () => {
+      const passkeys = [{ id: 'passkey-1', name: 'Laptop', createdAt: '2024-01-01T00:00:00.000Z' }];
+      vi.mocked(api.get).mockResolvedValueOnce({ passkeys });
+
+      const result = await passkeyService.list();
+
+      expect(api.get).toHaveBeenCalledWith('/auth/passkeys', 'test-token');
+      expect(result).toEqual(passkeys);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the passkey', async () => {
+      vi.mocked(api.delete).mockResolvedValueOnce({ message: 'Passkey deleted' });
+
+      await passkeyService.remove('passkey-1');
+
+      expect(api.delete).toHaveBeenCalledWith('/auth/passkeys/passkey-1', 'test-token');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { api, getAuthMode } from './api';
+import { storage } from '../utils/storage';
+import {
+  toCreationOptions,
+  toRequestOptions,
+  registrationToJSON,
+  authenticationToJSON,
+} from '../utils/webauthn';
+import { isMfaChallenge, storeSession } from './auth.service';
+import type { LoginResponse } from '../types/user.types';
+import type { Passkey, PasskeyCreationOptionsJSON, PasskeyRequestOptionsJSON } from '../types/passkey.types';
+
+// In cookie mode the browser sends the session cookie instead of a token
+const requireToken = (): string | undefined => {
+  if (getAuthMode() === 'cookie') {
+    return undefined;
+  }
+  const token = storage.getToken();
+  if (!token) {
+    throw new Error('No token found');
+  }
+  return token;
+};
+
+export const passkeyService = {
+  register: async (name?: string): Promise<Passkey> => {
+    const token = requireToken();
+    const options = await api.post<PasskeyCreationOptionsJSON>('/auth/passkeys/register/options', {}, token);
+
+    const credential = await navigator.credentials.create({ publicKey: toCreationOptions(options) });
+    if (!credential) {
+      throw new Error('Passkey registration was cancelled');
+    }
+
+    return api.post<Passkey>(
+      '/auth/passkeys/register',
+      { credential: registrationToJSON(credential as PublicKeyCredential), name },
+      token
+    );
+  },
+
+  login: async (): Promise<LoginResponse> => {
+    const options = await api.post<PasskeyRequestOptionsJSON>('/auth/passkeys/login/options', {});
+
+    const credential = await navigator.credentials.get({ publicKey: toRequestOptions(options) });
+    if (!credential) {
+      throw new Error('Passkey sign-in was cancelled');
+    }
+
+    const response = await api.post<LoginResponse>('/auth/passkeys/login', {
+      credential: authenticationToJSON(credential as PublicKeyCredential),
+    });
+    // A passkey that did not verify the user only counts as one factor
+    if (!isMfaChallenge(response)) {
+      storeSession(response);
+    }
+    return response;
+  },
+
+  list: async (): Promise<Passkey[]> => {
+    const response = await api.get<{ passkeys: Passkey[] }>('/auth/passkeys', requireToken());
+    return response.passkeys;
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await api.delete(`/auth/passkeys/${encodeURIComponent(id)}`, requireToken());
+  },
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { passwordPolicyService } from './password-policy.service';
+import { api } from './api';
+import type { PasswordPolicy } from '../types/password-policy.types';
+
+// Mock dependencies
+vi.mock('./api');
+
+describe('passwordPolicyService', () => {
+  const policy: PasswordPolicy = {
+    minLength: 8,
+    maxLength: 72,
+    requiredCharacterClasses: ['letter', 'digit'],
+    forbidPersonalInfo: true,
+    forbiddenSubstrings: [],
+    historyDepth: 5,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    passwordPolicyService.clearCache();
+  });
+
+  describe('getPolicy', () => {
+    it('should fetch the policy once and reuse it', async () => {
+      vi.mocked(api.get).mockResolvedValueOnce(policy);
+
+      expect(await passwordPolicyService.getPolicy()).toEqual(policy);
+      expect(await passwordPolicyService.getPolicy()).toEqual(policy);
+
+      expect(api.get).toHaveBeenCalledTimes(1);
+      expect(api.get).toHaveBeenCalledWith('/auth/password-policy');
+    });
+
+    it('should fetch again after a failed request', async () => {
+      vi.mocked(api.get).mockRejectedValueOnce(new Error('Network error')).mockResolvedValueOnce(policy);
+
+      await expect(passwordPolicyService.getPolicy()).rejects.toThrow('Network error');
+      expect(await passwordPolicyService.getPolicy()).toEqual(policy);
+
+      expect(api.get).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { api } from './api';
+import type { PasswordPolicy } from '../types/password-policy.types';
+
+// The policy only changes with the server configuration, so one request per page load is enough
+let policyRequest: Promise<PasswordPolicy> | null = null;
+
+export const passwordPolicyService = {
+  getPolicy: (): Promise<PasswordPolicy> => {
+    if (!policyRequest) {
+      policyRequest = api.get<PasswordPolicy>('/auth/password-policy').catch((error) => {
+        // Let the next caller try again
+        policyRequest = null;
+        throw error;
+      });
+    }
+    return policyRequest;
+  },
+
+  clearCache: (): void => {
+    policyRequest = null;
+  },
+};
@@ -0,0 +1,61 @@
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+interface CredentialDescriptorJSON {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+/**
+ * Options for navigator.credentials.create() as sent by the API
+ * Binary fields are base64url encoded.
+ */
+export interface PasskeyCreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout?: number;
+  attestation?: AttestationConveyancePreference;
+  excludeCredentials?: CredentialDescriptorJSON[];
+  authenticatorSelection?: AuthenticatorSelectionCriteria;
+}
+
+/**
+ * Options for navigator.credentials.get() as sent by the API
+ */
+export interface PasskeyRequestOptionsJSON {
+  challenge: string;
+  rpId?: string;
+  timeout?: number;
+  userVerification?: UserVerificationRequirement;
+  allowCredentials?: CredentialDescriptorJSON[];
+}
+
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
@@ -0,0 +1,14 @@
+export type PasswordCharacterClass = 'lowercase' | 'uppercase' | 'letter' | 'digit' | 'symbol';
+
+/**
+ * Password rules as published by the API
+ * The server enforces the same rules; the history depth can only be checked there.
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requiredCharacterClasses: PasswordCharacterClass[];
+  forbidPersonalInfo: boolean;
+  forbiddenSubstrings: string[];
+  historyDepth: number;
+}
@@ -13,6 +13,7 @@ export interface SignupRequest {
   email: string;
   password: string;
   name: string;
+  invitationCode?: string;
 }
 
 export interface UpdateProfileRequest {
@@ -21,7 +22,31 @@ export interface UpdateProfileRequest {
 }
 
 export interface AuthResponse {
-  token: string;
+  // Only returned in bearer mode; in cookie mode the API sets HttpOnly cookies instead
+  token?: string;
+  refreshToken?: string;
+  csrfToken?: string;
   user: User;
 }
 
+/**
+ * Returned by login instead of a session when the account uses two-factor authentication
+ * The session is issued once the code is sent to /auth/2fa/verify along with the mfaToken.
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+export type LoginResponse = AuthResponse | MfaChallengeResponse;
+
+/**
+ * Returned by signup instead of a session while the new email address still has to be verified
+ */
+export interface VerificationPendingResponse {
+  message: string;
+  user: User;
+}
+
+export type SignupResponse = AuthResponse | VerificationPendingResponse;
@@ -64,12 +64,32 @@ describe('storage', () => {
     });
   });
 
+  describe('refresh token', () => {
+    it('should store and return the refresh token', () => {
+      storage.setRefreshToken('refresh-123');
+      expect(localStorage.getItem('refresh_token')).toBe('refresh-123');
+      expect(storage.getRefreshToken()).toBe('refresh-123');
+    });
+  });
+
+  describe('CSRF token', () => {
+    it('should store and return the CSRF token', () => {
+      storage.setCsrfToken('csrf-123');
+      expect(localStorage.getItem('csrf_token')).toBe('csrf-123');
+      expect(storage.getCsrfToken()).toBe('csrf-123');
+    });
+  });
+
   describe('clear', () => {
-    it('should remove both token and user data from localStorage', () => {
+    it('should remove the tokens and user data from localStorage', () => {
       localStorage.setItem('auth_token', 'test-token');
+      localStorage.setItem('refresh_token', 'refresh-123');
+      localStorage.setItem('csrf_token', 'csrf-123');
       localStorage.setItem('user_data', JSON.stringify({ id: '1' }));
       storage.clear();
       expect(localStorage.getItem('auth_token')).toBeNull();
+      expect(localStorage.getItem('refresh_token')).toBeNull();
+      expect(localStorage.getItem('csrf_token')).toBeNull();
       expect(localStorage.getItem('user_data')).toBeNull();
     });
   });
@@ -1,5 +1,7 @@
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
 const USER_KEY = 'user_data';
+const CSRF_TOKEN_KEY = 'csrf_token';
 
 export const storage = {
   setToken: (token: string): void => {
@@ -14,6 +16,22 @@ export const storage = {
     localStorage.removeItem(TOKEN_KEY);
   },
 
+  setRefreshToken: (refreshToken: string): void => {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  },
+
+  getRefreshToken: (): string | null => {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  },
+
+  setCsrfToken: (csrfToken: string): void => {
+    localStorage.setItem(CSRF_TOKEN_KEY, csrfToken);
+  },
+
+  getCsrfToken: (): string | null => {
+    return localStorage.getItem(CSRF_TOKEN_KEY);
+  },
+
   setUser: (user: any): void => {
     localStorage.setItem(USER_KEY, JSON.stringify(user));
   },
@@ -29,7 +47,9 @@ export const storage = {
 
   clear: (): void => {
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.removeItem(USER_KEY);
+    localStorage.removeItem(CSRF_TOKEN_KEY);
   },
 };
 
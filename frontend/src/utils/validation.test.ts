@@ -11,8 +11,18 @@ import {
   validateSignup,
   validateProfile,
 } from './validation';
+import type { PasswordPolicy } from '../types/password-policy.types';
 
 describe('Validation Utilities', () => {
+  const policy: PasswordPolicy = {
+    minLength: 8,
+    maxLength: 72,
+    requiredCharacterClasses: ['letter', 'digit'],
+    forbidPersonalInfo: true,
+    forbiddenSubstrings: [],
+    historyDepth: 5,
+  };
+
   describe('isValidEmail', () => {
     it('should validate correct email formats', () => {
       const validEmails = [
@@ -94,7 +104,7 @@ describe('Validation Utilities', () => {
       ];
 
       strongPasswords.forEach((password) => {
-        expect(isValidPassword(password)).toBe(true);
+        expect(isValidPassword(password, policy)).toBe(true);
       });
     });
 
@@ -109,14 +119,14 @@ describe('Validation Utilities', () => {
       ];
 
       weakPasswords.forEach((password) => {
-        expect(isValidPassword(password)).toBe(false);
+        expect(isValidPassword(password, policy)).toBe(false);
       });
     });
 
     it('should handle edge cases', () => {
-      expect(isValidPassword(null as any)).toBe(false);
-      expect(isValidPassword(undefined as any)).toBe(false);
-      expect(isValidPassword(12345 as any)).toBe(false);
+      expect(isValidPassword(null as any, policy)).toBe(false);
+      expect(isValidPassword(undefined as any, policy)).toBe(false);
+      expect(isValidPassword(12345 as any, policy)).toBe(false);
     });
   });
 
@@ -183,15 +193,45 @@ describe('Validation Utilities', () => {
 
   describe('getPasswordError', () => {
     it('should return empty string for valid passwords', () => {
-      expect(getPasswordError('Password123')).toBe('');
-      expect(getPasswordError('abc123XYZ')).toBe('');
+      expect(getPasswordError('Password123', policy)).toBe('');
+      expect(getPasswordError('abc123XYZ', policy)).toBe('');
     });
 
     it('should return appropriate error messages', () => {
-      expect(getPasswordError('')).toBe('Password is required');
-      expect(getPasswordError('short')).toBe('Password must be at least 8 characters long');
-      expect(getPasswordError('12345678')).toBe('Password must contain at least one letter');
-      expect(getPasswordError('abcdefgh')).toBe('Password must contain at least one number');
+      expect(getPasswordError('', policy)).toBe('Password is required');
+      expect(getPasswordError('short', policy)).toBe('Password must be at least 8 characters long');
+      expect(getPasswordError('12345678', policy)).toBe('Password must contain at least one letter');
+      expect(getPasswordError('abcdefgh', policy)).toBe('Password must contain at least one number');
+    });
+
+    it('should apply the configured character classes and length limits', () => {
+      const strict: PasswordPolicy = {
+        ...policy,
+        minLength: 10,
+        maxLength: 20,
+        requiredCharacterClasses: ['lowercase', 'uppercase', 'symbol'],
+      };
+
+      expect(getPasswordError('Abcdefgh1', strict)).toBe('Password must be at least 10 characters long');
+      expect(getPasswordError('Abcdefghij'.repeat(3), strict)).toBe('Password must be at most 20 characters long');
+      expect(getPasswordError('ABCDEFGHIJ!', strict)).toBe('Password must contain at least one lowercase letter');
+      expect(getPasswordError('Abcdefghij', strict)).toBe('Password must contain at least one symbol');
+      expect(getPasswordError('Abcdefghi!', strict)).toBe('');
+    });
+
+    it('should reject personal information and forbidden substrings', () => {
+      const owner = { name: 'Jane Smithson', email: 'jane.doe@example.com' };
+
+      expect(getPasswordError('smithson-99', policy, owner)).toBe('Password must not contain your name or email address');
+      expect(getPasswordError('xJANE.DOE77', policy, owner)).toBe('Password must not contain your name or email address');
+      expect(getPasswordError('ACME-harbor-42', { ...policy, forbiddenSubstrings: ['acme'] })).toBe(
+        'Password must not contain "acme"'
+      );
+    });
+
+    it('should only require a password until the policy has loaded', () => {
+      expect(getPasswordError('', null)).toBe('Password is required');
+      expect(getPasswordError('short', null)).toBe('');
     });
   });
 
@@ -243,7 +283,7 @@ describe('Validation Utilities', () => {
 
   describe('validateSignup', () => {
     it('should validate correct signup data', () => {
-      const result = validateSignup('John Doe', 'test@example.com', 'password123');
+      const result = validateSignup('John Doe', 'test@example.com', 'password123', policy);
       expect(result.isValid).toBe(true);
       expect(result.nameError).toBe('');
       expect(result.emailError).toBe('');
@@ -251,18 +291,24 @@ describe('Validation Utilities', () => {
     });
 
     it('should reject invalid signup data', () => {
-      const result1 = validateSignup('', 'test@example.com', 'password123');
+      const result1 = validateSignup('', 'test@example.com', 'password123', policy);
       expect(result1.isValid).toBe(false);
       expect(result1.nameError).toBeTruthy();
 
-      const result2 = validateSignup('John Doe', 'invalid-email', 'password123');
+      const result2 = validateSignup('John Doe', 'invalid-email', 'password123', policy);
       expect(result2.isValid).toBe(false);
       expect(result2.emailError).toBeTruthy();
 
-      const result3 = validateSignup('John Doe', 'test@example.com', 'short');
+      const result3 = validateSignup('John Doe', 'test@example.com', 'short', policy);
       expect(result3.isValid).toBe(false);
       expect(result3.passwordError).toBeTruthy();
     });
+
+    it('should check the password against the name and email being signed up with', () => {
+      const result = validateSignup('Jane Smithson', 'jane@example.com', 'smithson-99', policy);
+      expect(result.isValid).toBe(false);
+      expect(result.passwordError).toBe('Password must not contain your name or email address');
+    });
   });
 
   describe('validateProfile', () => {
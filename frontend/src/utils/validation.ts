@@ -1,3 +1,5 @@
+import type { PasswordCharacterClass, PasswordPolicy } from '../types/password-policy.types';
+
 /**
  * Input validation utilities
  * These functions match the backend validation rules exactly
@@ -43,36 +45,39 @@ export function isNonEmptyString(value: string): boolean {
   return value.trim().length > 0;
 }
 
+// Shorter name parts and email prefixes are too likely to appear in unrelated passwords
+const MIN_PERSONAL_INFO_LENGTH = 4;
+
+const CHARACTER_CLASSES: Record<PasswordCharacterClass, { pattern: RegExp; label: string }> = {
+  lowercase: { pattern: /\p{Ll}/u, label: 'lowercase letter' },
+  uppercase: { pattern: /\p{Lu}/u, label: 'uppercase letter' },
+  letter: { pattern: /\p{L}/u, label: 'letter' },
+  digit: { pattern: /\p{Nd}/u, label: 'number' },
+  symbol: { pattern: /[^\p{L}\p{Nd}]/u, label: 'symbol' },
+};
+
 /**
- * Validates password strength
- * Minimum requirements:
- * - At least 8 characters
- * - At least one letter
- * - At least one number
- * 
- * Matches backend validation exactly
+ * Who the password is for, so it can be checked for personal information
  */
-export function isValidPassword(password: string): boolean {
-  if (!password || typeof password !== 'string') {
-    return false;
-  }
-
-  // Minimum length
-  if (password.length < 8) {
-    return false;
-  }
+export interface PasswordOwner {
+  email?: string;
+  name?: string;
+}
 
-  // At least one letter
-  if (!/[a-zA-Z]/.test(password)) {
-    return false;
-  }
+const getPersonalInfo = ({ email, name }: PasswordOwner): string[] => {
+  const parts = [...(name ? name.split(/[\s'-]+/) : []), ...(email ? [email.trim().split('@')[0]] : [])];
+  return parts.map((part) => part.toLowerCase()).filter((part) => part.length >= MIN_PERSONAL_INFO_LENGTH);
+};
 
-  // At least one number
-  if (!/[0-9]/.test(password)) {
+/**
+ * Validates password strength against the policy published by the API
+ * Matches backend validation exactly, except for password history which only the server knows
+ */
+export function isValidPassword(password: string, policy: PasswordPolicy, owner: PasswordOwner = {}): boolean {
+  if (!password || typeof password !== 'string') {
     return false;
   }
-
-  return true;
+  return getPasswordError(password, policy, owner) === '';
 }
 
 /**
@@ -132,19 +137,34 @@ export function getEmailError(email: string): string {
 
 /**
  * Gets user-friendly error message for password validation
+ * Until the policy has loaded only presence is checked; the server still applies the full policy.
  */
-export function getPasswordError(password: string): string {
+export function getPasswordError(password: string, policy: PasswordPolicy | null, owner: PasswordOwner = {}): string {
   if (!password) {
     return 'Password is required';
   }
-  if (password.length < 8) {
-    return 'Password must be at least 8 characters long';
+  if (!policy) {
+    return '';
   }
-  if (!/[a-zA-Z]/.test(password)) {
-    return 'Password must contain at least one letter';
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters long`;
+  }
+  if (password.length > policy.maxLength) {
+    return `Password must be at most ${policy.maxLength} characters long`;
+  }
+  for (const characterClass of policy.requiredCharacterClasses) {
+    if (!CHARACTER_CLASSES[characterClass].pattern.test(password)) {
+      return `Password must contain at least one ${CHARACTER_CLASSES[characterClass].label}`;
+    }
+  }
+
+  const lowered = password.toLowerCase();
+  if (policy.forbidPersonalInfo && getPersonalInfo(owner).some((part) => lowered.includes(part))) {
+    return 'Password must not contain your name or email address';
   }
-  if (!/[0-9]/.test(password)) {
-    return 'Password must contain at least one number';
+  const forbidden = policy.forbiddenSubstrings.find((substring) => lowered.includes(substring.toLowerCase()));
+  if (forbidden) {
+    return `Password must not contain "${forbidden}"`;
   }
   return '';
 }
@@ -204,10 +224,15 @@ export interface SignupValidationResult {
   passwordError: string;
 }
 
-export function validateSignup(name: string, email: string, password: string): SignupValidationResult {
+export function validateSignup(
+  name: string,
+  email: string,
+  password: string,
+  policy: PasswordPolicy | null
+): SignupValidationResult {
   const nameError = getNameError(name);
   const emailError = getEmailError(email);
-  const passwordError = getPasswordError(password);
+  const passwordError = getPasswordError(password, policy, { name, email });
   
   return {
     isValid: !nameError && !emailError && !passwordError,
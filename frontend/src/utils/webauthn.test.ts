@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  isPasskeySupported,
+  toCreationOptions,
+  toRequestOptions,
+  registrationToJSON,
+  authenticationToJSON,
+} from './webauthn';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+describe('webauthn utils', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('base64url', () => {
+    it('should round-trip binary data without padding', () => {
+      const buffer = bytes(0xfb, 0xff, 0x01);
+
+      const encoded = bufferToBase64Url(buffer);
+
+      expect(encoded).toBe('-_8B');
+      expect(new Uint8Array(base64UrlToBuffer(encoded))).toEqual(new Uint8Array(buffer));
+    });
+
+    it('should decode values that need padding', () => {
+      expect(new Uint8Array(base64UrlToBuffer('AQ'))).toEqual(new Uint8Array([1]));
+    });
+  });
+
+  describe('isPasskeySupported', () => {
+    it('should be false when PublicKeyCredential is missing', () => {
+      vi.stubGlobal('PublicKeyCredential', undefined);
+
+      expect(isPasskeySupported()).toBe(false);
+    });
+
+    it('should be true when the WebAuthn API is available', () => {
+      vi.stubGlobal('PublicKeyCredential', class {});
+      vi.stubGlobal('navigator', { ...navigator, credentials: {} });
+
+      expect(isPasskeySupported()).toBe(true);
+    });
+  });
+
+  describe('toCreationOptions', () => {
+    it('should decode the challenge, user id and excluded credentials', () => {
+      const options = toCreationOptions({
+        challenge: 'AQID',
+        rp: { id: 'localhost', name: 'QA Testing App' },
+        user: { id: 'BAU', name: 'test@example.com', displayName: 'Test User' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+        excludeCredentials: [{ type: 'public-key', id: 'Bg', transports: ['internal'] }],
+      });
+
+      expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(new Uint8Array(options.user.id as ArrayBuffer)).toEqual(new Uint8Array([4, 5]));
+      expect(new Uint8Array(options.excludeCredentials![0].id as ArrayBuffer)).toEqual(new Uint8Array([6]));
+      expect(options.user.name).toBe('test@example.com');
+    });
+  });
+
+  describe('toRequestOptions', () => {
+    it('should decode the challenge', () => {
+      const options = toRequestOptions({ challenge: 'AQID', rpId: 'localhost', allowCredentials: [] });
+
+      expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(options.rpId).toBe('localhost');
+    });
+  });
+
+  describe('credential serialization', () => {
+    it('should encode a registration credential', () => {
+      const credential = {
+        id: 'AQ',
+        rawId: bytes(1),
+        type: 'public-key',
+        response: {
+          clientDataJSON: bytes(2),
+          attestationObject: bytes(3),
+          getTransports: () => ['internal'],
+        },
+      } as unknown as PublicKeyCredential;
+
+      expect(registrationToJSON(credential)).toEqual({
+        id: 'AQ',
+        rawId: 'AQ',
+        type: 'public-key',
+        response: { clientDataJSON: 'Ag', attestationObject: 'Aw', transports: ['internal'] },
+      });
+    });
+
+    it('should encode an authentication credential', () => {
+      const credential = {
+        id: 'AQ',
+        rawId: bytes(1),
+        type: 'public-key',
+        response: {
+          clientDataJSON: bytes(2),
+          authenticatorData: bytes(3),
+          signature: bytes(4),
+          userHandle: null,
+        },
+      } as unknown as PublicKeyCredential;
+
+      expect(authenticationToJSON(credential)).toEqual({
+        id: 'AQ',
+        rawId: 'AQ',
+        type: 'public-key',
+        response: { clientDataJSON: 'Ag', authenticatorData: 'Aw', signature: 'BA', userHandle: null },
+      });
+    });
+  });
+});
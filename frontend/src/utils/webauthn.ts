@@ -0,0 +1,95 @@
+import type {
+  AuthenticationCredentialJSON,
+  PasskeyCreationOptionsJSON,
+  PasskeyRequestOptionsJSON,
+  RegistrationCredentialJSON,
+} from '../types/passkey.types';
+
+/**
+ * Converts between the API's JSON options/credentials and the binary
+ * structures used by the browser's WebAuthn API
+ */
+
+export const base64UrlToBuffer = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+export const bufferToBase64Url = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Checks whether the browser supports passkeys
+ */
+export const isPasskeySupported = (): boolean => {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+};
+
+export const toCreationOptions = (options: PasskeyCreationOptionsJSON): PublicKeyCredentialCreationOptions => {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    user: {
+      ...options.user,
+      id: base64UrlToBuffer(options.user.id),
+    },
+    excludeCredentials: options.excludeCredentials?.map((credential) => ({
+      type: credential.type,
+      id: base64UrlToBuffer(credential.id),
+      transports: credential.transports as AuthenticatorTransport[] | undefined,
+    })),
+  };
+};
+
+export const toRequestOptions = (options: PasskeyRequestOptionsJSON): PublicKeyCredentialRequestOptions => {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    allowCredentials: options.allowCredentials?.map((credential) => ({
+      type: credential.type,
+      id: base64UrlToBuffer(credential.id),
+      transports: credential.transports as AuthenticatorTransport[] | undefined,
+    })),
+  };
+};
+
+export const registrationToJSON = (credential: PublicKeyCredential): RegistrationCredentialJSON => {
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === 'function' ? response.getTransports() : undefined,
+    },
+  };
+};
+
+export const authenticationToJSON = (credential: PublicKeyCredential): AuthenticationCredentialJSON => {
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null,
+    },
+  };
+};